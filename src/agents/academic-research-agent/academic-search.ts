@@ -1,21 +1,12 @@
-import { getJson } from 'serpapi';
+import { createSearchProvider } from '../shared/search-provider.js';
+import type { SearchProvider } from '../shared/search-provider.js';
 
 /**
  * Academic Search Utilities for the Academic Research Agent
  * Provides search capabilities across academic databases and scholarly sources
  */
 export class AcademicSearchUtils {
-  private serpApiKey: string;
-  private semanticScholarApiKey?: string;
-
-  constructor(serpApiKey?: string, semanticScholarApiKey?: string) {
-    this.serpApiKey = serpApiKey || process.env.SERPAPI_API_KEY || '';
-    this.semanticScholarApiKey = semanticScholarApiKey || process.env.SEMANTIC_SCHOLAR_API_KEY;
-
-    if (!this.serpApiKey) {
-      console.warn('SERPAPI_API_KEY not set. Google Scholar search functionality will be limited.');
-    }
-  }
+  constructor(private provider: SearchProvider = createSearchProvider()) {}
 
   /**
    * Search Google Scholar for academic papers
@@ -24,14 +15,13 @@ export class AcademicSearchUtils {
     try {
       const searchParams = {
         q: query,
-        api_key: this.serpApiKey,
         engine: 'google_scholar',
         num: options.limit || 10,
         ...this.buildScholarParams(options)
       };
 
       console.log(`Performing Google Scholar search for: "${query}"`);
-      const results = await getJson(searchParams);
+      const results = await this.provider.search({ backend: 'serpapi', params: searchParams });
 
       return this.parseScholarResults(results, query);
     } catch (error) {
@@ -53,13 +43,8 @@ export class AcademicSearchUtils {
         sortOrder: options.sortOrder || 'descending'
       };
 
-      // Build query string for arXiv API
-      const queryString = new URLSearchParams(searchParams).toString();
-      const url = `http://export.arxiv.org/api/query?${queryString}`;
-
       console.log(`Performing arXiv search for: "${query}"`);
-      const response = await fetch(url);
-      const xmlText = await response.text();
+      const xmlText = String(await this.provider.search({ backend: 'arxiv', params: searchParams }));
 
       return this.parseArXivResults(xmlText, query);
     } catch (error) {
@@ -73,28 +58,15 @@ export class AcademicSearchUtils {
    */
   async searchSemanticScholar(query: string, options: SemanticScholarOptions = {}): Promise<SemanticScholarResult> {
     try {
-      if (!this.semanticScholarApiKey) {
-        throw new Error('Semantic Scholar API key not configured');
-      }
-
       const searchParams = {
         query,
         limit: options.limit || 10,
         offset: options.offset || 0,
-        fields: 'title,authors,abstract,year,venue,citationCount,influentialCitationCount,openAccessPdf'
+        fields: 'title,authors,abstract,year,venue,externalIds,citationCount,influentialCitationCount,openAccessPdf'
       };
 
-      const queryString = new URLSearchParams(searchParams as any).toString();
-      const url = `https://api.semanticscholar.org/graph/v1/paper/search?${queryString}`;
-
       console.log(`Performing Semantic Scholar search for: "${query}"`);
-      const response = await fetch(url, {
-        headers: {
-          'x-api-key': this.semanticScholarApiKey
-        }
-      });
-
-      const results = await response.json();
+      const results = await this.provider.search({ backend: 'semantic-scholar', params: searchParams });
       return this.parseSemanticScholarResults(results, query);
     } catch (error) {
       console.error('Semantic Scholar search failed:', error);
@@ -118,7 +90,7 @@ export class AcademicSearchUtils {
     try {
       // Search Google Scholar
       const scholarResults = await this.searchScholar(query, { limit: options.limit || 5 });
-      results.push(...scholarResults.papers.map(p => ({ ...p, source: 'google_scholar' as const })));
+      results.push(...scholarResults.papers.map(p => ({ ...p, source: 'google_scholar' as const, venue: this.extractScholarVenue(p.publication) })));
     } catch (error) {
       errors.push(`Google Scholar: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -126,7 +98,7 @@ export class AcademicSearchUtils {
     try {
       // Search arXiv
       const arxivResults = await this.searchArXiv(query, { limit: options.limit || 5 });
-      results.push(...arxivResults.papers.map(p => ({ ...p, source: 'arxiv' as const })));
+      results.push(...arxivResults.papers.map(p => ({ ...p, source: 'arxiv' as const, year: p.published?.getFullYear(), venue: 'arXiv' })));
     } catch (error) {
       errors.push(`arXiv: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -260,7 +232,9 @@ export class AcademicSearchUtils {
       authors: paper.authors?.map((a: any) => a.name) || [],
       abstract: paper.abstract || '',
       year: paper.year,
-      venue: paper.venue,
+      venue: paper.venue || undefined,
+      doi: paper.externalIds?.DOI,
+      arxivId: paper.externalIds?.ArXiv,
       citationCount: paper.citationCount,
       influentialCitationCount: paper.influentialCitationCount,
       openAccessPdf: paper.openAccessPdf
@@ -273,6 +247,15 @@ export class AcademicSearchUtils {
     };
   }
 
+  /**
+   * The venue from a Google Scholar publication summary, e.g. "Nature" from
+   * "J Smith, A Doe - Nature, 2020 - nature.com"
+   */
+  private extractScholarVenue(publication: string): string | undefined {
+    const venue = publication.split(' - ')[1]?.replace(/,?\s*\d{4}$/, '').trim();
+    return venue && !/^\d{4}$/.test(venue) ? venue : undefined;
+  }
+
   /**
    * Remove duplicate papers based on title similarity
    */
@@ -367,6 +350,9 @@ export interface AcademicPaper {
   year?: number;
   snippet?: string;
   pdfLink?: string;
+  venue?: string;
+  doi?: string;
+  arxivId?: string;
 }
 
 // Source-specific paper interfaces
@@ -399,6 +385,8 @@ export interface SemanticScholarPaper {
   abstract: string;
   year?: number;
   venue?: string;
+  doi?: string;
+  arxivId?: string;
   citationCount?: number;
   influentialCitationCount?: number;
   openAccessPdf?: any;
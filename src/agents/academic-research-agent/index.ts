@@ -1,239 +1,48 @@
-import express from "express";
-import { v4 as uuidv4 } from 'uuid';
-
-import { MessageData } from "genkit";
-import {
-  AgentCard,
-  Task,
-  TaskStatusUpdateEvent,
-  TextPart,
-} from "@a2a-js/sdk";
-import {
-  InMemoryTaskStore,
-  TaskStore,
-  AgentExecutor,
-  RequestContext,
-  ExecutionEventBus,
-  DefaultRequestHandler,
-} from "@a2a-js/sdk/server";
-import { A2AExpressApp } from "@a2a-js/sdk/server/express";
+import { exitOnStartupFailure, startAgentServer, type AgentCardDefinition } from "../shared/agent-server.js";
+import { BaseAgentExecutor, type AgentTaskContext, type AgentTaskOutcome } from "../shared/base-executor.js";
+import type { TaskStore } from "@a2a-js/sdk/server";
 import { ai } from "./genkit.js";
 import { AcademicSearchUtils, ComprehensiveSearchResult } from './academic-search.js';
 import { ResearchFinding, SourceCitation, ResearchResult } from '../shared/interfaces.js';
 
-if (!process.env.GEMINI_API_KEY) {
-  console.error("GEMINI_API_KEY environment variable not set.");
-  process.exit(1);
-}
-
 // Load the Genkit prompt
 const academicResearchPrompt = ai.prompt('academic_research');
 
 /**
  * AcademicResearchAgentExecutor implements the agent's core logic for scholarly research.
  */
-class AcademicResearchAgentExecutor implements AgentExecutor {
-  private cancelledTasks = new Set<string>();
+class AcademicResearchAgentExecutor extends BaseAgentExecutor {
   private academicSearch: AcademicSearchUtils;
 
-  constructor() {
+  constructor(taskStore?: TaskStore) {
+    super({
+      name: 'AcademicResearchAgentExecutor',
+      workingMessage: 'Conducting comprehensive academic research...',
+      cancelledMessage: 'Academic research cancelled.',
+      failurePrefix: 'Academic research failed',
+    }, taskStore);
     this.academicSearch = new AcademicSearchUtils();
   }
 
-  public cancelTask = async (
-    taskId: string,
-    eventBus: ExecutionEventBus,
-  ): Promise<void> => {
-    this.cancelledTasks.add(taskId);
-    // Publish immediate cancellation event
-    const cancelledUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: uuidv4(), // Generate context ID for cancellation
-      status: {
-        state: 'canceled',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Academic research cancelled.' }],
-          taskId: taskId,
-          contextId: uuidv4(),
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: true,
-    };
-    eventBus.publish(cancelledUpdate);
-  };
-
-  async execute(
-    requestContext: RequestContext,
-    eventBus: ExecutionEventBus
-  ): Promise<void> {
-    const { userMessage } = requestContext;
-    const existingTask = requestContext.task;
-
-    const taskId = existingTask?.id || uuidv4();
-    const contextId = userMessage.contextId || existingTask?.contextId || uuidv4();
-    const researchId = taskId; // For future orchestration integration
-
-    console.log(
-      `[AcademicResearchAgentExecutor] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId}, research: ${researchId})`
-    );
-
-    // 1. Publish initial Task event if it's a new task
-    if (!existingTask) {
-      const initialTask: Task = {
-        kind: 'task',
-        id: taskId,
-        contextId: contextId,
-        status: {
-          state: 'submitted',
-          timestamp: new Date().toISOString(),
-        },
-        history: [userMessage],
-        metadata: userMessage.metadata,
-        artifacts: [],
-      };
-      eventBus.publish(initialTask);
-    }
-
-    // 2. Publish "working" status update
-    const workingStatusUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: contextId,
-      status: {
-        state: 'working',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Conducting comprehensive academic research...' }],
-          taskId: taskId,
-          contextId: contextId,
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: false,
-    };
-    eventBus.publish(workingStatusUpdate);
-
-    // 3. Prepare messages for Genkit prompt
-    const historyForGenkit = existingTask?.history ? [...existingTask.history] : [];
-    if (!historyForGenkit.find(m => m.messageId === userMessage.messageId)) {
-      historyForGenkit.push(userMessage);
-    }
+  protected async handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome> {
+    const researchId = task.taskId; // For future orchestration integration
 
-    const messages: MessageData[] = historyForGenkit
-      .map((m) => ({
-        role: (m.role === 'agent' ? 'model' : 'user') as 'user' | 'model',
-        content: m.parts
-          .filter((p): p is TextPart => p.kind === 'text' && !!(p as TextPart).text)
-          .map((p) => ({
-            text: (p as TextPart).text,
-          })),
-      }))
-      .filter((m) => m.content.length > 0);
+    // 1. Extract research query from user message
+    const userQuery = this.extractResearchQuery(task.userMessage);
 
-    if (messages.length === 0) {
-      console.warn(
-        `[AcademicResearchAgentExecutor] No valid text messages found in history for task ${taskId}.`
-      );
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'No input message found to process.' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-      return;
-    }
-
-    try {
-      // 4. Extract research query from user message
-      const userQuery = this.extractResearchQuery(userMessage);
+    // 2. Perform comprehensive academic research
+    const researchResults = await this.performAcademicResearch(userQuery, task);
 
-      // 5. Perform comprehensive academic research
-      const researchResults = await this.performAcademicResearch(userQuery, taskId, contextId, eventBus);
-
-      // 6. Publish success status with findings
-      const successUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'completed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'Academic research completed successfully.' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(successUpdate);
-
-      // 7. Publish artifacts with research findings
-      if (researchResults) {
-        const artifact: Task = {
-          kind: 'task',
-          id: `${taskId}-findings`,
-          contextId: contextId,
-          status: {
-            state: 'completed',
-            timestamp: new Date().toISOString(),
-          },
-          history: [],
-          metadata: {
-            type: 'research-findings',
-            researchId: researchId,
-            findings: researchResults
-          },
-          artifacts: [],
-        };
-        eventBus.publish(artifact);
-      }
+    // 3. Publish research findings as a structured artifact
+    this.publishArtifact(task, {
+      artifactId: `${task.taskId}-findings`,
+      name: 'research-findings',
+      description: `Academic research findings for: ${userQuery}`,
+      parts: [{ kind: 'data', data: { ...researchResults } }],
+      metadata: { researchId: researchId },
+    });
 
-    } catch (error) {
-      console.error(`[AcademicResearchAgentExecutor] Error processing task ${taskId}:`, error);
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: `Academic research failed: ${error instanceof Error ? error.message : 'Unknown error'}` }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-    }
+    return { message: 'Academic research completed successfully.' };
   }
 
   private parseAcademicFindings(responseText: string): any {
@@ -304,55 +113,17 @@ class AcademicResearchAgentExecutor implements AgentExecutor {
    */
   private async performAcademicResearch(
     query: string,
-    taskId: string,
-    contextId: string,
-    eventBus: ExecutionEventBus
+    task: AgentTaskContext
   ): Promise<ResearchResult> {
     try {
       // Update status to show research in progress
-      const progressUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'working',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'Searching academic databases and scholarly sources...' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: false,
-      };
-      eventBus.publish(progressUpdate);
+      this.publishWorking(task, 'Searching academic databases and scholarly sources...');
 
       // Perform comprehensive academic search
       const searchResults = await this.academicSearch.comprehensiveSearch(query, { limit: 15 });
 
       // Update progress
-      const analysisUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'working',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'Analyzing and synthesizing academic findings...' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: false,
-      };
-      eventBus.publish(analysisUpdate);
+      this.publishWorking(task, 'Analyzing and synthesizing academic findings...');
 
       // Synthesize findings
       return this.synthesizeAcademicFindings(query, searchResults);
@@ -390,7 +161,10 @@ class AcademicResearchAgentExecutor implements AgentExecutor {
         publicationDate: paper.year ? new Date(paper.year, 0) : undefined,
         credibilityScore: 0.9, // Academic papers generally have high credibility
         type: 'academic',
-        accessedAt: new Date()
+        accessedAt: new Date(),
+        venue: paper.venue,
+        doi: paper.doi,
+        arxivId: paper.arxivId
       });
     });
 
@@ -444,12 +218,10 @@ class AcademicResearchAgentExecutor implements AgentExecutor {
 
 // --- Server Setup ---
 
-const academicResearchAgentCard: AgentCard = {
-  protocolVersion: '1.0',
+const academicResearchAgentCard: AgentCardDefinition = {
   name: 'Academic Research Agent',
   description:
     'An agent that conducts rigorous scholarly research, analyzes peer-reviewed literature, and synthesizes academic findings with methodological evaluation.',
-  url: 'http://localhost:41245/',
   provider: {
     organization: 'A2A Samples',
     url: 'https://example.com/a2a-samples',
@@ -483,31 +255,18 @@ const academicResearchAgentCard: AgentCard = {
   supportsAuthenticatedExtendedCard: false,
 };
 
-async function main() {
-  // 1. Create TaskStore
-  const taskStore: TaskStore = new InMemoryTaskStore();
-
-  // 2. Create AgentExecutor
-  const agentExecutor: AgentExecutor = new AcademicResearchAgentExecutor();
-
-  // 3. Create DefaultRequestHandler
-  const requestHandler = new DefaultRequestHandler(
-    academicResearchAgentCard,
-    taskStore,
-    agentExecutor
-  );
-
-  // 4. Create and setup A2AExpressApp
-  const appBuilder = new A2AExpressApp(requestHandler);
-  const expressApp = appBuilder.setupRoutes(express(), '');
-
-  // 5. Start the server
-  const PORT = process.env.ACADEMIC_RESEARCH_AGENT_PORT || 41245;
-  expressApp.listen(PORT, () => {
-    console.log(`[AcademicResearchAgent] Server started on http://localhost:${PORT}`);
-    console.log(`[AcademicResearchAgent] Agent Card: http://localhost:${PORT}/.well-known/agent-card.json`);
-    console.log('[AcademicResearchAgent] Press Ctrl+C to stop the server');
-  });
-}
-
-main().catch(console.error);
\ No newline at end of file
+startAgentServer({
+  id: 'academic-research-agent',
+  logName: 'AcademicResearchAgent',
+  envPrefix: 'ACADEMIC_RESEARCH_AGENT',
+  defaultPort: 41248,
+  card: academicResearchAgentCard,
+  modelEnv: {
+    GEMINI_API_KEY: 'Gemini API key used by Genkit (https://aistudio.google.com/apikey)',
+  },
+  optionalEnv: {
+    SERPAPI_API_KEY: 'SerpAPI key for web search; searches fail without it',
+    SEMANTIC_SCHOLAR_API_KEY: 'Semantic Scholar API key for higher rate limits',
+  },
+  createExecutor: taskStore => new AcademicResearchAgentExecutor(taskStore),
+}).catch(exitOnStartupFailure('AcademicResearchAgent'));
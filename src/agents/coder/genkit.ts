@@ -1,8 +1,9 @@
 import { genkit } from "genkit/beta";
 import { defineCodeFormat } from "./code-format.js";
 import { googleAI } from "@genkit-ai/googleai";
+import { withModelHarness } from "../shared/model-harness.js";
 
-export const ai = genkit({
+export const ai = genkit(withModelHarness("coder", {
   plugins: [googleAI()],
   model: googleAI.model("gemini-2.5-pro",
     { temperature: 0.2, top_p: 0.5, max_tokens: 65000 },
@@ -11,7 +12,7 @@ export const ai = genkit({
     maxTokens: 65000,
   },
   // codeFormat:
-});
+}));
 
 defineCodeFormat(ai);
 
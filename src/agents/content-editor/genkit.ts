@@ -2,11 +2,12 @@ import { googleAI } from "@genkit-ai/googleai";
 import { genkit } from "genkit";
 import { dirname } from "path";
 import { fileURLToPath } from "url";
+import { withModelHarness } from "../shared/model-harness.js";
 
-export const ai = genkit({
+export const ai = genkit(withModelHarness("content-editor", {
   plugins: [googleAI()],
   model: googleAI.model("gemini-2.5-flash"),
   promptDir: dirname(fileURLToPath(import.meta.url)),
-});
+}));
 
 export { z } from "genkit";
@@ -2,8 +2,9 @@ import { googleAI } from "@genkit-ai/googleai";
 import { genkit } from "genkit";
 import { dirname } from "path";
 import { fileURLToPath } from "url";
+import { withModelHarness } from "../shared/model-harness.js";
 
-export const ai = genkit({
+export const ai = genkit(withModelHarness("data-analysis-agent", {
   plugins: [googleAI()],
   model: googleAI.model("gemini-2.5-flash", {
     temperature: 0.1,
@@ -16,4 +17,4 @@ export const ai = genkit({
     mediaResolution: 'MEDIA_RESOLUTION_LOW',
   }),
   promptDir: dirname(fileURLToPath(import.meta.url)),
-});
\ No newline at end of file
+}));
\ No newline at end of file
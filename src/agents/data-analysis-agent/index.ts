@@ -1,270 +1,87 @@
-import express from "express";
-import { v4 as uuidv4 } from 'uuid';
-
-import { MessageData } from "genkit";
-import {
-  AgentCard,
-  Task,
-  TaskStatusUpdateEvent,
-  TextPart,
-} from "@a2a-js/sdk";
-import {
-  InMemoryTaskStore,
-  TaskStore,
-  AgentExecutor,
-  RequestContext,
-  ExecutionEventBus,
-  DefaultRequestHandler,
-} from "@a2a-js/sdk/server";
-import { A2AExpressApp } from "@a2a-js/sdk/server/express";
+import type { Message } from "@a2a-js/sdk";
+import type { MessageData } from "genkit";
+import { exitOnStartupFailure, startAgentServer, type AgentCardDefinition } from "../shared/agent-server.js";
+import { BaseAgentExecutor, type AgentTaskContext, type AgentTaskOutcome } from "../shared/base-executor.js";
+import type { TaskStore } from "@a2a-js/sdk/server";
+import type { UpstreamStepOutput } from "../shared/interfaces.js";
 import { ai } from "./genkit.js";
 
-if (!process.env.GEMINI_API_KEY) {
-  console.error("GEMINI_API_KEY environment variable not set.");
-  process.exit(1);
-}
-
 // Load the Genkit prompt
 const dataAnalysisPrompt = ai.prompt('data_analysis');
 
 /**
  * DataAnalysisAgentExecutor implements the agent's core logic for statistical analysis and quantitative research.
  */
-class DataAnalysisAgentExecutor implements AgentExecutor {
-  private cancelledTasks = new Set<string>();
+class DataAnalysisAgentExecutor extends BaseAgentExecutor {
+  constructor(taskStore?: TaskStore) {
+    super({
+      name: 'DataAnalysisAgentExecutor',
+      workingMessage: 'Conducting comprehensive data analysis...',
+      cancelledMessage: 'Data analysis cancelled.',
+      failurePrefix: 'Data analysis failed',
+    }, taskStore);
+  }
 
-  public cancelTask = async (
-    taskId: string,
-    eventBus: ExecutionEventBus,
-  ): Promise<void> => {
-    this.cancelledTasks.add(taskId);
-    // Publish immediate cancellation event
-    const cancelledUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: uuidv4(), // Generate context ID for cancellation
-      status: {
-        state: 'canceled',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Data analysis cancelled.' }],
-          taskId: taskId,
-          contextId: uuidv4(),
-        },
-        timestamp: new Date().toISOString(),
+  protected async handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome> {
+    // 1. Run the Genkit prompt for data analysis, on the data earlier steps gathered when the orchestrator sent any
+    const upstream = this.extractUpstreamData(task.userMessage);
+    const response = await dataAnalysisPrompt(
+      {
+        analysisType: 'comprehensive statistical analysis with visualization',
+        dataCharacteristics: upstream.length > 0
+          ? `statistics and findings from ${upstream.length} earlier research steps, with statistical validation`
+          : 'quantitative data with statistical validation',
+        upstreamData: upstream.length > 0 ? JSON.stringify(upstream, null, 2) : undefined,
+        now: new Date().toISOString()
       },
-      final: true,
-    };
-    eventBus.publish(cancelledUpdate);
-  };
-
-  async execute(
-    requestContext: RequestContext,
-    eventBus: ExecutionEventBus
-  ): Promise<void> {
-    const { userMessage } = requestContext;
-    const existingTask = requestContext.task;
+      { messages: task.messages }
+    );
 
-    const taskId = existingTask?.id || uuidv4();
-    const contextId = userMessage.contextId || existingTask?.contextId || uuidv4();
-    const researchId = taskId;
+    // 2. Parse data analysis findings from response
+    const dataFindings = this.parseDataFindings(response.text);
 
-    console.log(
-      `[DataAnalysisAgentExecutor] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId}, research: ${researchId})`
+    // 3. Publish status update with analysis results
+    this.publishWorking(
+      task,
+      `Data analysis completed. Performed ${dataFindings?.statisticalAnalysis?.testsPerformed?.length || 0} statistical tests with ${dataFindings?.dataAssessment?.sampleSize || 0} data points`
     );
 
-    // 1. Publish initial Task event if it's a new task
-    if (!existingTask) {
-      const initialTask: Task = {
-        kind: 'task',
-        id: taskId,
-        contextId: contextId,
-        status: {
-          state: 'submitted',
-          timestamp: new Date().toISOString(),
-        },
-        history: [userMessage],
-        metadata: userMessage.metadata,
-        artifacts: [],
-      };
-      eventBus.publish(initialTask);
-    }
+    // 4. Publish the analysis findings as a structured artifact
+    this.publishArtifact(task, {
+      artifactId: `${task.taskId}-findings`,
+      name: 'research-findings',
+      description: `Data analysis findings`,
+      parts: [{ kind: 'data', data: { ...dataFindings } }],
+    });
 
-    // 2. Publish "working" status update
-    const workingStatusUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: contextId,
-      status: {
-        state: 'working',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Conducting comprehensive data analysis...' }],
-          taskId: taskId,
-          contextId: contextId,
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: false,
+    return {
+      message: `Data analysis completed successfully. Statistical power: ${dataFindings?.statisticalAnalysis?.statisticalPower || 'N/A'}`,
     };
-    eventBus.publish(workingStatusUpdate);
-
-    // 3. Prepare messages for Genkit prompt
-    const historyForGenkit = existingTask?.history ? [...existingTask.history] : [];
-    if (!historyForGenkit.find(m => m.messageId === userMessage.messageId)) {
-      historyForGenkit.push(userMessage);
-    }
-
-    const messages: MessageData[] = historyForGenkit
-      .map((m) => ({
-        role: (m.role === 'agent' ? 'model' : 'user') as 'user' | 'model',
-        content: m.parts
-          .filter((p): p is TextPart => p.kind === 'text' && !!(p as TextPart).text)
-          .map((p) => ({
-            text: (p as TextPart).text,
-          })),
-      }))
-      .filter((m) => m.content.length > 0);
-
-    if (messages.length === 0) {
-      console.warn(
-        `[DataAnalysisAgentExecutor] No valid text messages found in history for task ${taskId}.`
-      );
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'No input message found to process.' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-      return;
-    }
-
-    try {
-      // 4. Run the Genkit prompt for data analysis
-      const response = await dataAnalysisPrompt(
-        {
-          analysisType: 'comprehensive statistical analysis with visualization',
-          dataCharacteristics: 'quantitative data with statistical validation',
-          now: new Date().toISOString()
-        },
-        { messages }
-      );
-
-      // 5. Parse data analysis findings from response
-      const dataFindings = this.parseDataFindings(response.text);
-
-      // 6. Publish status update with analysis results
-      const statusUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'working',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{
-              kind: 'text',
-              text: `Data analysis completed. Performed ${dataFindings?.statisticalAnalysis?.testsPerformed?.length || 0} statistical tests with ${dataFindings?.dataAssessment?.sampleSize || 0} data points`
-            }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: false,
-      };
-      eventBus.publish(statusUpdate);
+  }
 
-      // Check if cancelled
-      if (this.cancelledTasks.has(taskId)) {
-        console.log(`[DataAnalysisAgentExecutor] Request cancelled for task: ${taskId}`);
-        const cancelledUpdate: TaskStatusUpdateEvent = {
-          kind: 'status-update',
-          taskId: taskId,
-          contextId: contextId,
-          status: {
-            state: 'canceled',
-            message: {
-              kind: 'message',
-              role: 'agent',
-              messageId: uuidv4(),
-              parts: [{ kind: 'text', text: 'Data analysis cancelled.' }],
-              taskId: taskId,
-              contextId: contextId,
-            },
-            timestamp: new Date().toISOString(),
-          },
-          final: true,
-        };
-        eventBus.publish(cancelledUpdate);
-        return;
+  /**
+   * Outputs of upstream research steps, sent by the orchestrator as `parameters.upstream` in a DataPart
+   */
+  private extractUpstreamData(message: Message): UpstreamStepOutput[] {
+    for (const part of message.parts) {
+      if (part.kind === 'data' && hasUpstreamData(part.data)) {
+        return part.data.parameters.upstream;
       }
-
-      // 7. Complete the analysis task
-      const completionUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'completed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{
-              kind: 'text',
-              text: `Data analysis completed successfully. Statistical power: ${dataFindings?.statisticalAnalysis?.statisticalPower || 'N/A'}`
-            }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(completionUpdate);
-
-    } catch (error) {
-      console.error(`[DataAnalysisAgentExecutor] Error processing task ${taskId}:`, error);
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: `Data analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}` }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
     }
+    return [];
+  }
+
+  /**
+   * The upstream data reaches the prompt as `upstreamData` only, so it is left
+   * out of the DataParts passed to the model as JSON text
+   */
+  protected toGenkitMessages(history: Message[]): MessageData[] {
+    return super.toGenkitMessages(history.map(message => ({
+      ...message,
+      parts: message.parts.map(part => part.kind === 'data' && hasUpstreamData(part.data)
+        ? { ...part, data: { ...part.data, parameters: { ...part.data.parameters, upstream: undefined } } }
+        : part),
+    })));
   }
 
   private parseDataFindings(responseText: string): any {
@@ -334,14 +151,20 @@ class DataAnalysisAgentExecutor implements AgentExecutor {
   }
 }
 
+/**
+ * Whether an orchestrator DataPart carries upstream step outputs in `parameters.upstream`
+ */
+function hasUpstreamData(data: Record<string, unknown>): data is { parameters: { upstream: UpstreamStepOutput[] } & Record<string, unknown> } {
+  const { parameters } = data;
+  return typeof parameters === 'object' && parameters !== null && 'upstream' in parameters && Array.isArray(parameters.upstream);
+}
+
 // --- Server Setup ---
 
-const dataAnalysisAgentCard: AgentCard = {
-  protocolVersion: '1.0',
+const dataAnalysisAgentCard: AgentCardDefinition = {
   name: 'Data Analysis Agent',
   description:
     'An agent that conducts statistical analysis, quantitative research, and data-driven insights with rigorous methodological standards.',
-  url: 'http://localhost:41247/',
   provider: {
     organization: 'A2A Samples',
     url: 'https://example.com/a2a-samples',
@@ -376,31 +199,14 @@ const dataAnalysisAgentCard: AgentCard = {
   supportsAuthenticatedExtendedCard: false,
 };
 
-async function main() {
-  // 1. Create TaskStore
-  const taskStore: TaskStore = new InMemoryTaskStore();
-
-  // 2. Create AgentExecutor
-  const agentExecutor: AgentExecutor = new DataAnalysisAgentExecutor();
-
-  // 3. Create DefaultRequestHandler
-  const requestHandler = new DefaultRequestHandler(
-    dataAnalysisAgentCard,
-    taskStore,
-    agentExecutor
-  );
-
-  // 4. Create and setup A2AExpressApp
-  const appBuilder = new A2AExpressApp(requestHandler);
-  const expressApp = appBuilder.setupRoutes(express(), '');
-
-  // 5. Start the server
-  const PORT = process.env.DATA_ANALYSIS_AGENT_PORT || 41247;
-  expressApp.listen(PORT, () => {
-    console.log(`[DataAnalysisAgent] Server started on http://localhost:${PORT}`);
-    console.log(`[DataAnalysisAgent] Agent Card: http://localhost:${PORT}/.well-known/agent-card.json`);
-    console.log('[DataAnalysisAgent] Press Ctrl+C to stop the server');
-  });
-}
-
-main().catch(console.error);
\ No newline at end of file
+startAgentServer({
+  id: 'data-analysis-agent',
+  logName: 'DataAnalysisAgent',
+  envPrefix: 'DATA_ANALYSIS_AGENT',
+  defaultPort: 41247,
+  card: dataAnalysisAgentCard,
+  modelEnv: {
+    GEMINI_API_KEY: 'Gemini API key used by Genkit (https://aistudio.google.com/apikey)',
+  },
+  createExecutor: taskStore => new DataAnalysisAgentExecutor(taskStore),
+}).catch(exitOnStartupFailure('DataAnalysisAgent'));
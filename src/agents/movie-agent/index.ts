@@ -1,32 +1,14 @@
-import express from "express";
-import { v4 as uuidv4 } from 'uuid'; // For generating unique IDs
-
 import {
-  AgentCard,
   Task,
   TaskState,
-  TaskStatusUpdateEvent,
-  TextPart,
   Message
 } from "@a2a-js/sdk";
-import {
-  InMemoryTaskStore,
-  TaskStore,
-  AgentExecutor,
-  RequestContext,
-  ExecutionEventBus,
-  DefaultRequestHandler,
-} from "@a2a-js/sdk/server";
-import { A2AExpressApp } from "@a2a-js/sdk/server/express";
-import { MessageData } from "genkit";
+import { exitOnStartupFailure, startAgentServer, type AgentCardDefinition } from "../shared/agent-server.js";
+import { BaseAgentExecutor, type AgentTaskContext, type AgentTaskOutcome } from "../shared/base-executor.js";
+import type { TaskStore } from "@a2a-js/sdk/server";
 import { ai } from "./genkit.js";
 import { searchMovies, searchPeople } from "./tools.js";
 
-if (!process.env.GEMINI_API_KEY || !process.env.TMDB_API_KEY) {
-  console.error("GEMINI_API_KEY and TMDB_API_KEY environment variables are required")
-  process.exit(1);
-}
-
 // Simple store for contexts
 const contexts: Map<string, Message[]> = new Map();
 
@@ -36,245 +18,69 @@ const movieAgentPrompt = ai.prompt('movie_agent');
 /**
  * MovieAgentExecutor implements the agent's core logic.
  */
-class MovieAgentExecutor implements AgentExecutor {
-  private cancelledTasks = new Set<string>();
-
-  public cancelTask = async (
-        taskId: string,
-        eventBus: ExecutionEventBus,
-    ): Promise<void> => {
-        this.cancelledTasks.add(taskId);
-        // Publish immediate cancellation event
-        const cancelledUpdate: TaskStatusUpdateEvent = {
-          kind: 'status-update',
-          taskId: taskId,
-          contextId: uuidv4(), // Generate context ID for cancellation
-          status: {
-            state: 'canceled',
-            message: {
-              kind: 'message',
-              role: 'agent',
-              messageId: uuidv4(),
-              parts: [{ kind: 'text', text: 'Movie information retrieval cancelled.' }],
-              taskId: taskId,
-              contextId: uuidv4(),
-            },
-            timestamp: new Date().toISOString(),
-          },
-          final: true,
-        };
-        eventBus.publish(cancelledUpdate);
-    };
-
-  async execute(
-    requestContext: RequestContext,
-    eventBus: ExecutionEventBus
-  ): Promise<void> {
-    const userMessage = requestContext.userMessage;
-    const existingTask = requestContext.task;
-
-    // Determine IDs for the task and context
-    const taskId = existingTask?.id || uuidv4();
-    const contextId = userMessage.contextId || existingTask?.contextId || uuidv4(); // DefaultRequestHandler should ensure userMessage.contextId
-
-    console.log(
-      `[MovieAgentExecutor] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId})`
-    );
-
-    // 1. Publish initial Task event if it's a new task
-    if (!existingTask) {
-      const initialTask: Task = {
-        kind: 'task',
-        id: taskId,
-        contextId: contextId,
-        status: {
-          state: "submitted",
-          timestamp: new Date().toISOString(),
-        },
-        history: [userMessage], // Start history with the current user message
-        metadata: userMessage.metadata, // Carry over metadata from message if any
-      };
-      eventBus.publish(initialTask);
-    }
-
-    // 2. Publish "working" status update
-    const workingStatusUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: contextId,
-      status: {
-        state: "working",
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Processing your question, hang tight!' }],
-          taskId: taskId,
-          contextId: contextId,
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: false,
-    };
-    eventBus.publish(workingStatusUpdate);
+class MovieAgentExecutor extends BaseAgentExecutor {
+  constructor(taskStore?: TaskStore) {
+    super({
+      name: 'MovieAgentExecutor',
+      workingMessage: 'Processing your question, hang tight!',
+      cancelledMessage: 'Movie information retrieval cancelled.',
+      failurePrefix: 'Agent error',
+    }, taskStore);
+  }
 
-    // 3. Prepare messages for Genkit prompt
+  // Conversations continue across tasks, so history is kept per context
+  protected collectHistory(userMessage: Message, _existingTask: Task | undefined, contextId: string): Message[] {
     const historyForGenkit = contexts.get(contextId) || [];
     if (!historyForGenkit.find(m => m.messageId === userMessage.messageId)) {
       historyForGenkit.push(userMessage);
     }
     contexts.set(contextId, historyForGenkit)
+    return historyForGenkit;
+  }
 
-    const messages: MessageData[] = historyForGenkit
-      .map((m) => ({
-        role: (m.role === 'agent' ? 'model' : 'user') as 'user' | 'model',
-        content: m.parts
-          .filter((p): p is TextPart => p.kind === 'text' && !!(p as TextPart).text)
-          .map((p) => ({
-            text: (p as TextPart).text,
-          })),
-      }))
-      .filter((m) => m.content.length > 0);
-
-    if (messages.length === 0) {
-      console.warn(
-        `[MovieAgentExecutor] No valid text messages found in history for task ${taskId}.`
-      );
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: "failed",
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'No message found to process.' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-      return;
-    }
-
-    const goal = existingTask?.metadata?.goal as string | undefined || userMessage.metadata?.goal as string | undefined;
-
-    try {
-      // 4. Run the Genkit prompt
-      const response = await movieAgentPrompt(
-        { goal: goal, now: new Date().toISOString() },
-        {
-          messages,
-          tools: [searchMovies, searchPeople],
-        }
-      );
-
-      // Check if the request has been cancelled
-      if (this.cancelledTasks.has(taskId)) {
-        console.log(`[MovieAgentExecutor] Request cancelled for task: ${taskId}`);
-
-        const cancelledUpdate: TaskStatusUpdateEvent = {
-          kind: 'status-update',
-          taskId: taskId,
-          contextId: contextId,
-          status: {
-            state: "canceled",
-            timestamp: new Date().toISOString(),
-          },
-          final: true, // Cancellation is a final state
-        };
-        eventBus.publish(cancelledUpdate);
-        return;
-      }
-
-      const responseText = response.text; // Access the text property using .text()
-      console.info(`[MovieAgentExecutor] Prompt response: ${responseText}`);
-      const lines = responseText.trim().split('\n');
-      const finalStateLine = lines.at(-1)?.trim().toUpperCase();
-      const agentReplyText = lines.slice(0, lines.length - 1).join('\n').trim();
-
-      let finalA2AState: TaskState = "unknown";
+  protected async handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome> {
+    const goal = task.existingTask?.metadata?.goal as string | undefined || task.userMessage.metadata?.goal as string | undefined;
 
-      if (finalStateLine === 'COMPLETED') {
-        finalA2AState = "completed";
-      } else if (finalStateLine === 'AWAITING_USER_INPUT') {
-        finalA2AState = "input-required";
-      } else {
-        console.warn(
-          `[MovieAgentExecutor] Unexpected final state line from prompt: ${finalStateLine}. Defaulting to 'completed'.`
-        );
-        finalA2AState = "completed"; // Default if LLM deviates
+    // Run the Genkit prompt
+    const response = await movieAgentPrompt(
+      { goal: goal, now: new Date().toISOString() },
+      {
+        messages: task.messages,
+        tools: [searchMovies, searchPeople],
       }
+    );
 
-      // 5. Publish final task status update
-      const agentMessage: Message = {
-        kind: 'message',
-        role: 'agent',
-        messageId: uuidv4(),
-        parts: [{ kind: 'text', text: agentReplyText || "Completed." }], // Ensure some text
-        taskId: taskId,
-        contextId: contextId,
-      };
-      historyForGenkit.push(agentMessage);
-      contexts.set(contextId, historyForGenkit)
-
-      const finalUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: finalA2AState,
-          message: agentMessage,
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(finalUpdate);
+    const responseText = response.text; // Access the text property using .text()
+    console.info(`[MovieAgentExecutor] Prompt response: ${responseText}`);
+    const lines = responseText.trim().split('\n');
+    const finalStateLine = lines.at(-1)?.trim().toUpperCase();
+    const agentReplyText = lines.slice(0, lines.length - 1).join('\n').trim();
 
-      console.log(
-        `[MovieAgentExecutor] Task ${taskId} finished with state: ${finalA2AState}`
-      );
+    let finalA2AState: TaskState = "unknown";
 
-    } catch (error: any) {
-      console.error(
-        `[MovieAgentExecutor] Error processing task ${taskId}:`,
-        error
+    if (finalStateLine === 'COMPLETED') {
+      finalA2AState = "completed";
+    } else if (finalStateLine === 'AWAITING_USER_INPUT') {
+      finalA2AState = "input-required";
+    } else {
+      console.warn(
+        `[MovieAgentExecutor] Unexpected final state line from prompt: ${finalStateLine}. Defaulting to 'completed'.`
       );
-      const errorUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: "failed",
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: `Agent error: ${error.message}` }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(errorUpdate);
+      finalA2AState = "completed"; // Default if LLM deviates
     }
+
+    const agentMessage = this.createAgentMessage(task, agentReplyText || "Completed."); // Ensure some text
+    task.history.push(agentMessage);
+
+    return { state: finalA2AState, message: agentMessage };
   }
 }
 
 // --- Server Setup ---
 
-const movieAgentCard: AgentCard = {
+const movieAgentCard: AgentCardDefinition = {
   name: 'Movie Agent',
   description: 'An agent that can answer questions about movies and actors using TMDB.',
-  // Adjust the base URL and port as needed. /a2a is the default base in A2AExpressApp
-  url: 'http://localhost:41241/', // Example: if baseUrl in A2AExpressApp 
   provider: {
     organization: 'A2A Samples',
     url: 'https://example.com/a2a-samples' // Added provider URL
@@ -309,35 +115,19 @@ const movieAgentCard: AgentCard = {
     },
   ],
   supportsAuthenticatedExtendedCard: false,
-  protocolVersion: ""
 };
 
-async function main() {
-  // 1. Create TaskStore
-  const taskStore: TaskStore = new InMemoryTaskStore();
-
-  // 2. Create AgentExecutor
-  const agentExecutor: AgentExecutor = new MovieAgentExecutor();
-
-  // 3. Create DefaultRequestHandler
-  const requestHandler = new DefaultRequestHandler(
-    movieAgentCard,
-    taskStore,
-    agentExecutor
-  );
-
-  // 4. Create and setup A2AExpressApp
-  const appBuilder = new A2AExpressApp(requestHandler);
-  const expressApp = appBuilder.setupRoutes(express());
-
-  // 5. Start the server
-  const PORT = process.env.PORT || 41241;
-  expressApp.listen(PORT, () => {
-    console.log(`[MovieAgent] Server using new framework started on http://localhost:${PORT}`);
-    console.log(`[MovieAgent] Agent Card: http://localhost:${PORT}/.well-known/agent-card.json`);
-    console.log('[MovieAgent] Press Ctrl+C to stop the server');
-  });
-}
-
-main().catch(console.error);
-
+startAgentServer({
+  id: 'movie-agent',
+  logName: 'MovieAgent',
+  envPrefix: 'MOVIE_AGENT',
+  defaultPort: 41241,
+  card: movieAgentCard,
+  requiredEnv: {
+    TMDB_API_KEY: 'The Movie Database API key used by the search tools',
+  },
+  modelEnv: {
+    GEMINI_API_KEY: 'Gemini API key used by Genkit (https://aistudio.google.com/apikey)',
+  },
+  createExecutor: taskStore => new MovieAgentExecutor(taskStore),
+}).catch(exitOnStartupFailure('MovieAgent'));
@@ -1,225 +1,53 @@
-import express from "express";
-import { v4 as uuidv4 } from 'uuid';
-
-import { MessageData } from "genkit";
-import {
-  AgentCard,
-  Task,
-  TaskStatusUpdateEvent,
-  TextPart,
-} from "@a2a-js/sdk";
-import {
-  InMemoryTaskStore,
-  TaskStore,
-  AgentExecutor,
-  RequestContext,
-  ExecutionEventBus,
-  DefaultRequestHandler,
-} from "@a2a-js/sdk/server";
-import { A2AExpressApp } from "@a2a-js/sdk/server/express";
+import { exitOnStartupFailure, startAgentServer, type AgentCardDefinition } from "../shared/agent-server.js";
+import { BaseAgentExecutor, type AgentTaskContext, type AgentTaskOutcome } from "../shared/base-executor.js";
+import type { TaskStore } from "@a2a-js/sdk/server";
 import { ai } from "./genkit.js";
 import { NewsSearchUtils, ComprehensiveNewsResult, NewsArticle } from "./news-search.js";
 
-if (!process.env.GEMINI_API_KEY) {
-  console.error("GEMINI_API_KEY environment variable not set.");
-  process.exit(1);
-}
-
 /**
  * NewsResearchAgentExecutor implements the agent's core logic for news analysis and current events research.
  */
-class NewsResearchAgentExecutor implements AgentExecutor {
-  private cancelledTasks = new Set<string>();
+class NewsResearchAgentExecutor extends BaseAgentExecutor {
   private newsSearchUtils: NewsSearchUtils;
 
-  constructor() {
+  constructor(taskStore?: TaskStore) {
+    super({
+      name: 'NewsResearchAgentExecutor',
+      workingMessage: 'Conducting comprehensive news research...',
+      cancelledMessage: 'News research cancelled.',
+      failurePrefix: 'News research failed',
+    }, taskStore);
     this.newsSearchUtils = new NewsSearchUtils();
   }
 
-  public cancelTask = async (
-    taskId: string,
-    eventBus: ExecutionEventBus,
-  ): Promise<void> => {
-    this.cancelledTasks.add(taskId);
-    // Publish immediate cancellation event
-    const cancelledUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: uuidv4(), // Generate context ID for cancellation
-      status: {
-        state: 'canceled',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'News research cancelled.' }],
-          taskId: taskId,
-          contextId: uuidv4(),
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: true,
-    };
-    eventBus.publish(cancelledUpdate);
-  };
+  protected async handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome> {
+    // 1. Extract research query from user message
+    const researchQuery = this.extractResearchQuery(task.userMessage);
 
-  async execute(
-    requestContext: RequestContext,
-    eventBus: ExecutionEventBus
-  ): Promise<void> {
-    const { userMessage } = requestContext;
-    const existingTask = requestContext.task;
+    // 2. Perform comprehensive news research
+    const newsResults = await this.performNewsResearch(researchQuery);
+    this.throwIfCancelled(task.taskId);
 
-    const taskId = existingTask?.id || uuidv4();
-    const contextId = userMessage.contextId || existingTask?.contextId || uuidv4();
+    // 3. Synthesize news findings
+    const newsFindings = await this.synthesizeNewsFindings(newsResults, researchQuery);
 
-    console.log(
-      `[NewsResearchAgentExecutor] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId})`
+    // 4. Publish status update with research results
+    this.publishWorking(
+      task,
+      `News research completed. Analyzed ${newsFindings?.newsFindings?.length || 0} news events from ${newsFindings?.metadata?.totalArticles || 0} articles`
     );
 
-    // 1. Publish initial Task event if it's a new task
-    if (!existingTask) {
-      const initialTask: Task = {
-        kind: 'task',
-        id: taskId,
-        contextId: contextId,
-        status: {
-          state: 'submitted',
-          timestamp: new Date().toISOString(),
-        },
-        history: [userMessage],
-        metadata: userMessage.metadata,
-        artifacts: [],
-      };
-      eventBus.publish(initialTask);
-    }
+    // 5. Publish the news findings as a structured artifact
+    this.publishArtifact(task, {
+      artifactId: `${task.taskId}-findings`,
+      name: 'research-findings',
+      description: `News research findings for: ${researchQuery}`,
+      parts: [{ kind: 'data', data: { ...newsFindings } }],
+    });
 
-    // 2. Publish "working" status update
-    const workingStatusUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: contextId,
-      status: {
-        state: 'working',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Conducting comprehensive news research...' }],
-          taskId: taskId,
-          contextId: contextId,
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: false,
+    return {
+      message: `News research completed successfully. Average source credibility: ${newsFindings?.metadata?.credibilityAverage || 'N/A'}`,
     };
-    eventBus.publish(workingStatusUpdate);
-
-    try {
-      // 3. Extract research query from user message
-      const researchQuery = this.extractResearchQuery(userMessage);
-
-      // 4. Perform comprehensive news research
-      const newsResults = await this.performNewsResearch(researchQuery);
-
-      // Check if cancelled
-      if (this.cancelledTasks.has(taskId)) {
-        console.log(`[NewsResearchAgentExecutor] Request cancelled for task: ${taskId}`);
-        const cancelledUpdate: TaskStatusUpdateEvent = {
-          kind: 'status-update',
-          taskId: taskId,
-          contextId: contextId,
-          status: {
-            state: 'canceled',
-            message: {
-              kind: 'message',
-              role: 'agent',
-              messageId: uuidv4(),
-              parts: [{ kind: 'text', text: 'News research cancelled.' }],
-              taskId: taskId,
-              contextId: contextId,
-            },
-            timestamp: new Date().toISOString(),
-          },
-          final: true,
-        };
-        eventBus.publish(cancelledUpdate);
-        return;
-      }
-
-      // 5. Synthesize news findings
-      const newsFindings = await this.synthesizeNewsFindings(newsResults, researchQuery);
-
-      // 6. Publish status update with research results
-      const statusUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'working',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{
-              kind: 'text',
-              text: `News research completed. Analyzed ${newsFindings?.newsFindings?.length || 0} news events from ${newsFindings?.metadata?.totalArticles || 0} articles`
-            }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: false,
-      };
-      eventBus.publish(statusUpdate);
-
-      // 7. Complete the research task
-      const completionUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'completed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{
-              kind: 'text',
-              text: `News research completed successfully. Average source credibility: ${newsFindings?.metadata?.credibilityAverage || 'N/A'}`
-            }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(completionUpdate);
-
-    } catch (error) {
-      console.error(`[NewsResearchAgentExecutor] Error processing task ${taskId}:`, error);
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: `News research failed: ${error instanceof Error ? error.message : 'Unknown error'}` }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-    }
   }
 
   private extractResearchQuery(userMessage: any): string {
@@ -487,12 +315,10 @@ class NewsResearchAgentExecutor implements AgentExecutor {
 
 // --- Server Setup ---
 
-const newsResearchAgentCard: AgentCard = {
-  protocolVersion: '1.0',
+const newsResearchAgentCard: AgentCardDefinition = {
   name: 'News Research Agent',
   description:
     'An agent that conducts comprehensive news research, analyzes current events, and evaluates media credibility across multiple news sources.',
-  url: 'http://localhost:41246/',
   provider: {
     organization: 'A2A Samples',
     url: 'https://example.com/a2a-samples',
@@ -527,31 +353,18 @@ const newsResearchAgentCard: AgentCard = {
   supportsAuthenticatedExtendedCard: false,
 };
 
-async function main() {
-  // 1. Create TaskStore
-  const taskStore: TaskStore = new InMemoryTaskStore();
-
-  // 2. Create AgentExecutor
-  const agentExecutor: AgentExecutor = new NewsResearchAgentExecutor();
-
-  // 3. Create DefaultRequestHandler
-  const requestHandler = new DefaultRequestHandler(
-    newsResearchAgentCard,
-    taskStore,
-    agentExecutor
-  );
-
-  // 4. Create and setup A2AExpressApp
-  const appBuilder = new A2AExpressApp(requestHandler);
-  const expressApp = appBuilder.setupRoutes(express(), '');
-
-  // 5. Start the server
-  const PORT = process.env.NEWS_RESEARCH_AGENT_PORT || 41246;
-  expressApp.listen(PORT, () => {
-    console.log(`[NewsResearchAgent] Server started on http://localhost:${PORT}`);
-    console.log(`[NewsResearchAgent] Agent Card: http://localhost:${PORT}/.well-known/agent-card.json`);
-    console.log('[NewsResearchAgent] Press Ctrl+C to stop the server');
-  });
-}
-
-main().catch(console.error);
\ No newline at end of file
+startAgentServer({
+  id: 'news-research-agent',
+  logName: 'NewsResearchAgent',
+  envPrefix: 'NEWS_RESEARCH_AGENT',
+  defaultPort: 41246,
+  card: newsResearchAgentCard,
+  modelEnv: {
+    GEMINI_API_KEY: 'Gemini API key used by Genkit (https://aistudio.google.com/apikey)',
+  },
+  optionalEnv: {
+    SERPAPI_API_KEY: 'SerpAPI key for web search; searches fail without it',
+    NEWSAPI_API_KEY: 'NewsAPI key for additional news coverage',
+  },
+  createExecutor: taskStore => new NewsResearchAgentExecutor(taskStore),
+}).catch(exitOnStartupFailure('NewsResearchAgent'));
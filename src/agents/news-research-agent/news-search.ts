@@ -1,21 +1,12 @@
-import { getJson } from 'serpapi';
+import { createSearchProvider } from '../shared/search-provider.js';
+import type { SearchProvider } from '../shared/search-provider.js';
 
 /**
  * News Search Utilities for the News Research Agent
  * Provides comprehensive news search capabilities across multiple sources
  */
 export class NewsSearchUtils {
-  private serpApiKey: string;
-  private newsApiKey?: string;
-
-  constructor(serpApiKey?: string, newsApiKey?: string) {
-    this.serpApiKey = serpApiKey || process.env.SERPAPI_API_KEY || '';
-    this.newsApiKey = newsApiKey || process.env.NEWSAPI_API_KEY;
-
-    if (!this.serpApiKey) {
-      console.warn('SERPAPI_API_KEY not set. Google News search functionality will be limited.');
-    }
-  }
+  constructor(private provider: SearchProvider = createSearchProvider()) {}
 
   /**
    * Search Google News for current events and articles
@@ -24,14 +15,13 @@ export class NewsSearchUtils {
     try {
       const searchParams = {
         q: query,
-        api_key: this.serpApiKey,
         engine: 'google_news',
         num: options.limit || 10,
         ...this.buildGoogleNewsParams(options)
       };
 
       console.log(`Performing Google News search for: "${query}"`);
-      const results = await getJson(searchParams);
+      const results = await this.provider.search({ backend: 'serpapi', params: searchParams });
 
       return this.parseGoogleNewsResults(results, query);
     } catch (error) {
@@ -45,39 +35,27 @@ export class NewsSearchUtils {
    */
   async searchNewsAPI(query: string, options: NewsAPIOptions = {}): Promise<NewsAPIResult> {
     try {
-      if (!this.newsApiKey) {
-        throw new Error('NewsAPI key not configured');
-      }
-
-      const searchParams = new URLSearchParams({
+      const searchParams: Record<string, string | number> = {
         q: query,
-        apiKey: this.newsApiKey,
-        pageSize: String(options.limit || 10),
+        pageSize: options.limit || 10,
         language: options.language || 'en',
         sortBy: options.sortBy || 'publishedAt'
-      });
+      };
 
       if (options.from) {
-        searchParams.append('from', options.from);
+        searchParams.from = options.from;
       }
 
       if (options.to) {
-        searchParams.append('to', options.to);
+        searchParams.to = options.to;
       }
 
       if (options.sources) {
-        searchParams.append('sources', options.sources.join(','));
+        searchParams.sources = options.sources.join(',');
       }
 
-      const url = `https://newsapi.org/v2/everything?${searchParams.toString()}`;
-
       console.log(`Performing NewsAPI search for: "${query}"`);
-      const response = await fetch(url);
-      const results = await response.json();
-
-      if (results.status !== 'ok') {
-        throw new Error(`NewsAPI error: ${results.message}`);
-      }
+      const results = await this.provider.search({ backend: 'newsapi', params: searchParams });
 
       return this.parseNewsAPIResults(results, query);
     } catch (error) {
@@ -163,14 +141,13 @@ export class NewsSearchUtils {
     try {
       // Use Google News trending topics
       const searchParams = {
-        api_key: this.serpApiKey,
         engine: 'google_news',
         num: options.limit || 10,
         ...this.buildTrendingParams(options)
       };
 
       console.log('Fetching trending news topics');
-      const results = await getJson(searchParams);
+      const results = await this.provider.search({ backend: 'serpapi', params: searchParams });
 
       return this.parseTrendingResults(results);
     } catch (error) {
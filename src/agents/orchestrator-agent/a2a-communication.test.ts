@@ -0,0 +1,157 @@
+import { createServer, type ServerResponse, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TaskRequest } from '../shared/interfaces.js';
+import { A2ACommunicationManager, AgentRequestError, TaskCancelledError, TaskTimeoutError } from './a2a-communication.js';
+import { isOverloadError } from './task-scheduler.js';
+
+const request: TaskRequest = { taskId: 'task-1', type: 'research', parameters: { topic: 'Solar power' }, priority: 3, timeout: 5000 };
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+// A task event of the remote agent's task in the given state
+const remoteTask = (state: string) => ({ kind: 'task', id: 'remote-1', contextId: 'context-1', status: { state } });
+
+const sendEvent = (res: ServerResponse, rpc: RpcRequest, event: unknown): void => {
+  if (!res.headersSent) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  }
+  res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', id: rpc.id, result: event })}\n\n`);
+};
+
+// An agent that serves its card and hands every JSON-RPC request to `handle`
+async function startAgent(handle: (rpc: RpcRequest, res: ServerResponse) => void): Promise<{ url: string; server: Server }> {
+  const server = createServer((req, res) => {
+    if (req.method === 'GET') {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        name: 'Test Agent',
+        url: `http://localhost:${(server.address() as AddressInfo).port}/`,
+        protocolVersion: '0.3.0',
+        version: '0.0.1',
+        capabilities: { streaming: true },
+        defaultInputModes: ['text'],
+        defaultOutputModes: ['text'],
+        skills: [],
+      }));
+      return;
+    }
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => handle(JSON.parse(body), res));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://localhost:${(server.address() as AddressInfo).port}`, server };
+}
+
+describe('A2ACommunicationManager', () => {
+  const servers: Server[] = [];
+  const agent = async (handle: (rpc: RpcRequest, res: ServerResponse) => void): Promise<string> => {
+    const { url, server } = await startAgent(handle);
+    servers.push(server);
+    return url;
+  };
+
+  beforeEach(() => {
+    // The SDK warns that constructing a client from a URL is deprecated
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+      server.close(resolve);
+      server.closeAllConnections();
+    })));
+  });
+
+  it('carries the HTTP status of a rejected task in its error', async () => {
+    const url = await agent((_rpc, res) => {
+      res.statusCode = 503;
+      res.end();
+    });
+
+    const error = await new A2ACommunicationManager().sendTask('web-research', request, url).catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentRequestError);
+    expect(error).toMatchObject({ agentType: 'web-research', status: 503 });
+    expect(isOverloadError(error)).toBe(true);
+  });
+
+  it('times out a task that keeps running and cancels it on the agent', async () => {
+    const cancelled: unknown[] = [];
+    const url = await agent((rpc, res) => {
+      if (rpc.method === 'message/stream') {
+        sendEvent(res, rpc, remoteTask('working'));
+      } else if (rpc.method === 'tasks/cancel') {
+        cancelled.push(rpc.params.id);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: rpc.id, result: remoteTask('canceled') }));
+      }
+    });
+
+    const error = await new A2ACommunicationManager().sendTask('web-research', { ...request, timeout: 200 }, url).catch(e => e);
+
+    expect(error).toBeInstanceOf(TaskTimeoutError);
+    expect(error).toMatchObject({ taskId: 'task-1', timeoutMs: 200 });
+    await vi.waitFor(() => expect(cancelled).toEqual(['remote-1']));
+  });
+
+  it('aborts a task cancelled before its agent acknowledged it', async () => {
+    let received = 0;
+    const url = await agent(() => {
+      received++; // and never answer
+    });
+    const manager = new A2ACommunicationManager();
+
+    const sent = manager.sendTask('web-research', request, url).catch(e => e);
+    await vi.waitFor(() => expect(received).toBe(1));
+    expect(await manager.checkTaskStatus('task-1')).toBe('pending');
+
+    expect(await manager.cancelTask('task-1')).toBe(true);
+    expect(await sent).toBeInstanceOf(TaskCancelledError);
+    expect(await manager.checkTaskStatus('task-1')).toBe('not-found');
+  });
+
+  it('cancels an acknowledged task on its agent and keeps what it published', async () => {
+    let stream: { rpc: RpcRequest; res: ServerResponse } | undefined;
+    let polled = 0;
+    const url = await agent((rpc, res) => {
+      if (rpc.method === 'message/stream') {
+        stream = { rpc, res };
+        sendEvent(res, rpc, remoteTask('working'));
+        sendEvent(res, rpc, {
+          kind: 'artifact-update',
+          taskId: 'remote-1',
+          contextId: 'context-1',
+          artifact: { artifactId: 'findings', parts: [{ kind: 'data', data: { findings: ['Solar is cheap'] } }] },
+        });
+      } else if (rpc.method === 'tasks/get') {
+        polled++;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: rpc.id, result: remoteTask('working') }));
+      } else if (rpc.method === 'tasks/cancel' && stream) {
+        sendEvent(stream.res, stream.rpc, { kind: 'status-update', taskId: 'remote-1', contextId: 'context-1', status: { state: 'canceled' }, final: true });
+        stream.res.end();
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: rpc.id, result: remoteTask('canceled') }));
+      }
+    });
+    const manager = new A2ACommunicationManager();
+
+    const sent = manager.sendTask('web-research', request, url);
+    // Status checks reach the agent once it has acknowledged the task
+    await vi.waitFor(async () => {
+      expect(await manager.checkTaskStatus('task-1')).toBe('pending');
+      expect(polled).toBeGreaterThan(0);
+    });
+
+    expect(await manager.cancelTask('task-1')).toBe(true);
+    const response = await sent;
+    expect(response).toMatchObject({ taskId: 'task-1', status: 'cancelled', result: { findings: ['Solar is cheap'] } });
+  });
+});
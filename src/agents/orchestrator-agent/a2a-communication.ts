@@ -1,13 +1,22 @@
-import type { A2AMessage, TaskRequest, TaskResponse, AgentType } from '../shared/interfaces.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { A2AClient } from '@a2a-js/sdk/client';
+import type { Message, Part, Task } from '@a2a-js/sdk';
+import type { TaskRequest, TaskResponse, AgentType } from '../shared/interfaces.js';
 
 /**
  * A2A Communication Manager for orchestrating inter-agent messaging
- * Handles task delegation, result collection, and status monitoring
+ * Handles task delegation, result collection, and status monitoring over the
+ * A2A JSON-RPC protocol (`message/stream`, `tasks/get`, `tasks/cancel`)
  */
 export class A2ACommunicationManager {
   private agentEndpoints: Map<AgentType, string> = new Map();
+  private agentClients: Map<string, A2AClient> = new Map(); // keyed by endpoint
   private pendingTasks: Map<string, TaskRequest> = new Map();
+  private remoteTasks: Map<string, RemoteTask> = new Map(); // local taskId -> remote A2A task
   private taskTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private taskControllers: Map<string, AbortController> = new Map();
+  private requestScope = new AsyncLocalStorage<RequestScope>(); // the task whose requests are being made
 
   constructor() {
     // Initialize agent endpoints from environment or configuration
@@ -15,61 +24,292 @@ export class A2ACommunicationManager {
   }
 
   private initializeAgentEndpoints(): void {
-    // These would typically come from environment variables or service discovery
-    this.agentEndpoints.set('web-research', process.env.WEB_RESEARCH_AGENT_URL ?? 'http://localhost:41246');
-    this.agentEndpoints.set('academic-research', process.env.ACADEMIC_RESEARCH_AGENT_URL ?? 'http://localhost:41247');
-    this.agentEndpoints.set('news-research', process.env.NEWS_RESEARCH_AGENT_URL ?? 'http://localhost:41248');
-    this.agentEndpoints.set('data-analysis', process.env.DATA_ANALYSIS_AGENT_URL ?? 'http://localhost:41249');
+    // Defaults match each agent's default port; AgentRegistry replaces them once agents are discovered
+    this.agentEndpoints.set('planning', process.env.PLANNING_AGENT_URL ?? 'http://localhost:41245');
+    this.agentEndpoints.set('web-research', process.env.WEB_RESEARCH_AGENT_URL ?? 'http://localhost:41244');
+    this.agentEndpoints.set('academic-research', process.env.ACADEMIC_RESEARCH_AGENT_URL ?? 'http://localhost:41248');
+    this.agentEndpoints.set('news-research', process.env.NEWS_RESEARCH_AGENT_URL ?? 'http://localhost:41246');
+    this.agentEndpoints.set('data-analysis', process.env.DATA_ANALYSIS_AGENT_URL ?? 'http://localhost:41247');
   }
 
   /**
-   * Send a task to the appropriate research agent
+   * Get (or lazily create) the A2A client for an endpoint
    */
-  async sendTask(agentType: AgentType, taskRequest: TaskRequest): Promise<TaskResponse> {
+  private getClient(endpoint: string): A2AClient {
+    let client = this.agentClients.get(endpoint);
+    if (!client) {
+      // The client takes no per-request signal, so requests made while sending
+      // a task pick up that task's signal. The agent card fetch belongs to no task.
+      // The client reports HTTP errors as plain errors, so the status is kept here.
+      client = this.requestScope.exit(() => new A2AClient(endpoint, {
+        fetchImpl: async (input, init) => {
+          const scope = this.requestScope.getStore();
+          const response = await fetch(input, { ...init, signal: init?.signal ?? scope?.signal });
+          if (scope && !response.ok) {
+            scope.rejectedStatus = response.status;
+          }
+          return response;
+        },
+      }));
+      this.agentClients.set(endpoint, client);
+    }
+    return client;
+  }
+
+  private getEndpoint(agentType: AgentType): string {
     const endpoint = this.agentEndpoints.get(agentType);
     if (!endpoint) {
       throw new Error(`No endpoint configured for agent type: ${agentType}`);
     }
+    return endpoint;
+  }
+
+  /**
+   * Send a task to a research agent and wait for the remote A2A task to reach
+   * a terminal state. The task goes to the given endpoint (e.g. the agent the
+   * MessageRouter selected), else to the endpoint configured for the agent type.
+   * A task still running after its timeout is cancelled on the agent and
+   * rejects with a TaskTimeoutError.
+   */
+  async sendTask(agentType: AgentType, taskRequest: TaskRequest, endpoint: string = this.getEndpoint(agentType)): Promise<TaskResponse> {
+    const client = this.getClient(endpoint);
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const scope: RequestScope = { signal: controller.signal };
 
     // Store pending task
     this.pendingTasks.set(taskRequest.taskId, taskRequest);
+    this.taskControllers.set(taskRequest.taskId, controller);
 
     // Set timeout for task completion
     const timeout = taskRequest.timeout ?? 300000; // 5 minutes default
     const timeoutHandle = setTimeout(() => {
-      this.handleTaskTimeout(taskRequest.taskId);
+      this.handleTaskTimeout(taskRequest.taskId, agentType, timeout);
     }, timeout);
     this.taskTimeouts.set(taskRequest.taskId, timeoutHandle);
 
     try {
-      const response = await fetch(`${endpoint}/execute`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(taskRequest),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Agent request failed: ${response.status} ${response.statusText}`);
+      // Aborting ends the wait even if the client is stuck before making a request
+      return await Promise.race([
+        this.requestScope.run(scope, () => this.streamTask(client, agentType, endpoint, taskRequest, startedAt)),
+        this.whenAborted(controller.signal),
+      ]);
+    } catch (error) {
+      if (controller.signal.reason instanceof TaskTimeoutError || controller.signal.reason instanceof TaskCancelledError) {
+        throw controller.signal.reason;
       }
-
-      const taskResponse: TaskResponse = await response.json();
-
+      throw new AgentRequestError(
+        `Failed to send task to ${agentType} agent: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        agentType,
+        scope.rejectedStatus
+      );
+    } finally {
       // Clear timeout and pending task
       clearTimeout(timeoutHandle);
       this.taskTimeouts.delete(taskRequest.taskId);
       this.pendingTasks.delete(taskRequest.taskId);
+      this.taskControllers.delete(taskRequest.taskId);
+      this.remoteTasks.delete(taskRequest.taskId);
+    }
+  }
 
-      return taskResponse;
-    } catch (error) {
-      // Clear timeout and pending task on error
-      clearTimeout(timeoutHandle);
-      this.taskTimeouts.delete(taskRequest.taskId);
-      this.pendingTasks.delete(taskRequest.taskId);
+  /**
+   * Stream a task to an agent, following its events until the task finishes
+   */
+  private async streamTask(
+    client: A2AClient,
+    agentType: AgentType,
+    endpoint: string,
+    taskRequest: TaskRequest,
+    startedAt: number
+  ): Promise<TaskResponse> {
+    let remoteTask: Task | undefined;
+    let directReply: Message | undefined;
+
+    const stream = client.sendMessageStream({
+      message: this.toA2AMessage(taskRequest),
+      configuration: {
+        acceptedOutputModes: ['text', 'data'],
+      },
+    });
+
+    for await (const event of stream) {
+      switch (event.kind) {
+        case 'task':
+          remoteTask = { ...event, artifacts: [...(event.artifacts ?? [])] };
+          this.remoteTasks.set(taskRequest.taskId, { agentType, endpoint, remoteTaskId: event.id });
+          break;
+
+        case 'status-update':
+          if (remoteTask) {
+            remoteTask.status = event.status;
+          } else {
+            remoteTask = { kind: 'task', id: event.taskId, contextId: event.contextId, status: event.status, artifacts: [] };
+            this.remoteTasks.set(taskRequest.taskId, { agentType, endpoint, remoteTaskId: event.taskId });
+          }
+          break;
+
+        case 'artifact-update':
+          if (remoteTask) {
+            this.mergeArtifact(remoteTask, event.artifact, event.append ?? false);
+          }
+          break;
+
+        case 'message':
+          directReply = event;
+          break;
+      }
+    }
+
+    // The stream may close before a terminal state is observed; ask the agent directly
+    if (remoteTask && !this.isTerminalState(remoteTask.status.state)) {
+      remoteTask = await this.fetchRemoteTask(client, remoteTask.id) ?? remoteTask;
+    }
 
-      throw new Error(`Failed to send task to ${agentType} agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!remoteTask && !directReply) {
+      throw new Error('Agent returned neither a task nor a message');
     }
+
+    return remoteTask
+      ? this.toTaskResponse(taskRequest, remoteTask, startedAt)
+      : this.messageToTaskResponse(taskRequest, directReply!, startedAt);
+  }
+
+  private whenAborted(signal: AbortSignal): Promise<never> {
+    return new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+  }
+
+  /**
+   * Translate a TaskRequest into an A2A message: a text part the agent can act
+   * on directly, plus the full request as a structured DataPart
+   */
+  private toA2AMessage(taskRequest: TaskRequest): Message {
+    const { parameters } = taskRequest;
+    const subject = parameters.query ?? parameters.topic ?? taskRequest.type;
+    const text = parameters.stepDescription ? `${subject}: ${parameters.stepDescription}` : String(subject);
+
+    return {
+      kind: 'message',
+      role: 'user',
+      messageId: uuidv4(),
+      contextId: taskRequest.metadata?.researchId,
+      parts: [
+        { kind: 'text', text },
+        {
+          kind: 'data',
+          data: {
+            taskType: taskRequest.type,
+            parameters,
+            priority: taskRequest.priority,
+          },
+        },
+      ],
+      metadata: {
+        ...taskRequest.metadata,
+        orchestratorTaskId: taskRequest.taskId,
+        taskType: taskRequest.type,
+      },
+    };
+  }
+
+  private mergeArtifact(task: Task, artifact: NonNullable<Task['artifacts']>[number], append: boolean): void {
+    const artifacts = task.artifacts ?? [];
+    const existing = artifacts.find(a => a.artifactId === artifact.artifactId);
+
+    if (existing && append) {
+      existing.parts.push(...artifact.parts);
+    } else if (existing) {
+      artifacts[artifacts.indexOf(existing)] = artifact;
+    } else {
+      artifacts.push(artifact);
+    }
+    task.artifacts = artifacts;
+  }
+
+  /**
+   * Map a finished remote A2A task back into a TaskResponse
+   */
+  private toTaskResponse(taskRequest: TaskRequest, task: Task, startedAt: number): TaskResponse {
+    const { state } = task.status;
+    const statusText = task.status.message ? this.extractText(task.status.message.parts) : undefined;
+    const artifactParts = (task.artifacts ?? []).flatMap(a => a.parts);
+
+    let status: TaskResponse['status'];
+    if (state === 'completed') {
+      status = 'success';
+    } else if (state === 'canceled') {
+      status = 'cancelled';
+    } else {
+      status = 'error';
+    }
+
+    return {
+      taskId: taskRequest.taskId,
+      status,
+      // A cancelled task keeps whatever it published before it stopped
+      result: status === 'success' || (status === 'cancelled' && artifactParts.length > 0)
+        ? this.extractResult(artifactParts)
+        : undefined,
+      error: status === 'error' ? (statusText || `Remote task ended in state ${state}`) : undefined,
+      processingTime: Date.now() - startedAt,
+      metadata: {
+        remoteTaskId: task.id,
+        contextId: task.contextId,
+        finalState: state,
+        agentMessage: statusText,
+      },
+    };
+  }
+
+  /**
+   * Agents may answer with a plain message instead of creating a task
+   */
+  private messageToTaskResponse(taskRequest: TaskRequest, message: Message, startedAt: number): TaskResponse {
+    return {
+      taskId: taskRequest.taskId,
+      status: 'success',
+      result: this.extractResult(message.parts),
+      processingTime: Date.now() - startedAt,
+      metadata: {
+        contextId: message.contextId,
+      },
+    };
+  }
+
+  /**
+   * Combine DataParts into a single result object, falling back to text content
+   */
+  private extractResult(parts: Part[]): any {
+    const data = parts.filter(p => p.kind === 'data').map(p => p.data);
+    if (data.length > 0) {
+      return Object.assign({}, ...data);
+    }
+
+    const text = this.extractText(parts);
+    return text ? { content: text } : {};
+  }
+
+  private extractText(parts: Part[]): string {
+    return parts
+      .filter(p => p.kind === 'text')
+      .map(p => p.text)
+      .join('\n')
+      .trim();
+  }
+
+  private isTerminalState(state: Task['status']['state']): boolean {
+    return state === 'completed' || state === 'failed' || state === 'canceled' || state === 'rejected';
+  }
+
+  private async fetchRemoteTask(client: A2AClient, remoteTaskId: string): Promise<Task | null> {
+    const response = await client.getTask({ id: remoteTaskId });
+    if ('error' in response) {
+      console.warn(`tasks/get failed for ${remoteTaskId}: ${response.error.message}`);
+      return null;
+    }
+    return response.result;
   }
 
   /**
@@ -90,20 +330,41 @@ export class A2ACommunicationManager {
   }
 
   /**
-   * Check status of a pending task
+   * Check status of a pending task by querying the remote agent (`tasks/get`)
    */
   async checkTaskStatus(taskId: string): Promise<'pending' | 'completed' | 'failed' | 'not-found'> {
-    if (this.pendingTasks.has(taskId)) {
-      return 'pending';
+    const remote = this.remoteTasks.get(taskId);
+    if (!remote) {
+      // Sent but the agent has not acknowledged it with a task yet
+      return this.pendingTasks.has(taskId) ? 'pending' : 'not-found';
     }
 
-    // In a real implementation, this would query the agent for status
-    // For now, assume tasks are either pending or completed
-    return 'not-found';
+    try {
+      const task = await this.fetchRemoteTask(this.getClient(remote.endpoint), remote.remoteTaskId);
+      if (!task) {
+        return 'not-found';
+      }
+
+      switch (task.status.state) {
+        case 'completed':
+          return 'completed';
+        case 'failed':
+        case 'canceled':
+        case 'rejected':
+          return 'failed';
+        default:
+          return 'pending';
+      }
+    } catch (error) {
+      console.error(`Failed to check status of task ${taskId}:`, error);
+      return 'not-found';
+    }
   }
 
   /**
-   * Cancel a pending task
+   * Cancel a pending task on the remote agent (`tasks/cancel`). A task the
+   * agent has not acknowledged yet is aborted locally, so sendTask rejects
+   * with a TaskCancelledError.
    */
   async cancelTask(taskId: string): Promise<boolean> {
     const timeoutHandle = this.taskTimeouts.get(taskId);
@@ -112,28 +373,50 @@ export class A2ACommunicationManager {
       this.taskTimeouts.delete(taskId);
     }
 
-    const task = this.pendingTasks.get(taskId);
-    if (task) {
-      this.pendingTasks.delete(taskId);
+    const wasPending = this.pendingTasks.delete(taskId);
+    const remote = this.remoteTasks.get(taskId);
+    if (!remote) {
+      this.taskControllers.get(taskId)?.abort(new TaskCancelledError(taskId));
+      return wasPending;
+    }
 
-      // In a real implementation, this would send a cancel request to the agent
-      // For now, just remove from local tracking
-      return true;
+    try {
+      const cancelled = await this.cancelRemoteTask(remote);
+      if (cancelled) {
+        this.remoteTasks.delete(taskId);
+      }
+      return cancelled;
+    } catch (error) {
+      console.error(`Failed to cancel task ${taskId}:`, error);
+      return false;
     }
+  }
 
-    return false;
+  private async cancelRemoteTask(remote: RemoteTask): Promise<boolean> {
+    // Never under a task's signal: cancelling a timed out task must not be aborted with it
+    const response = await this.requestScope.exit(() =>
+      this.getClient(remote.endpoint).cancelTask({ id: remote.remoteTaskId })
+    );
+    if ('error' in response) {
+      console.warn(`tasks/cancel failed for ${remote.remoteTaskId}: ${response.error.message}`);
+      return false;
+    }
+    return true;
   }
 
   /**
-   * Handle task timeout
+   * Fail a task that ran past its timeout: stop its work on the remote agent
+   * and abort its requests, so sendTask rejects with a TaskTimeoutError
    */
-  private handleTaskTimeout(taskId: string): void {
-    console.warn(`Task ${taskId} timed out`);
-    this.pendingTasks.delete(taskId);
+  private handleTaskTimeout(taskId: string, agentType: AgentType, timeoutMs: number): void {
+    console.warn(`Task ${taskId} timed out after ${timeoutMs}ms`);
     this.taskTimeouts.delete(taskId);
 
-    // In a real implementation, this would trigger error handling
-    // For now, just log the timeout
+    const remote = this.remoteTasks.get(taskId);
+    if (remote) {
+      this.cancelRemoteTask(remote).catch(error => console.error(`Failed to cancel timed out task ${taskId}:`, error));
+    }
+    this.taskControllers.get(taskId)?.abort(new TaskTimeoutError(taskId, agentType, timeoutMs));
   }
 
   /**
@@ -156,74 +439,45 @@ export class A2ACommunicationManager {
 }
 
 /**
- * Message Router for handling A2A protocol messages
+ * Thrown by sendTask when a delegated task does not finish within its timeout
  */
-export class MessageRouter {
-  private communicationManager: A2ACommunicationManager;
-
-  constructor(communicationManager: A2ACommunicationManager) {
-    this.communicationManager = communicationManager;
-  }
-
-  /**
-   * Route a message to the appropriate handler
-   */
-  async routeMessage(message: A2AMessage): Promise<any> {
-    switch (message.type) {
-      case 'task-request':
-        return await this.handleTaskRequest(message);
-      case 'status-update':
-        return await this.handleStatusUpdate(message);
-      case 'error':
-        return await this.handleError(message);
-      case 'cancel':
-        return await this.handleCancel(message);
-      default:
-        throw new Error(`Unknown message type: ${message.type}`);
-    }
-  }
-
-  private async handleTaskRequest(message: A2AMessage): Promise<TaskResponse> {
-    const payload = message.payload as TaskRequest;
-    // Determine agent type from task parameters
-    const agentType = this.determineAgentType(payload);
-
-    return await this.communicationManager.sendTask(agentType, payload);
-  }
-
-  private async handleStatusUpdate(message: A2AMessage): Promise<void> {
-    // Handle status updates from agents
-    console.log(`Status update from ${message.from}:`, message.payload);
-    // In a real implementation, this would update orchestration state
+export class TaskTimeoutError extends Error {
+  constructor(readonly taskId: string, readonly agentType: AgentType, readonly timeoutMs: number) {
+    super(`Task ${taskId} on ${agentType} agent timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TaskTimeoutError';
   }
+}
 
-  private async handleError(message: A2AMessage): Promise<void> {
-    // Handle error messages from agents
-    console.error(`Error from ${message.from}:`, message.payload);
-    // In a real implementation, this would trigger error recovery
+/**
+ * Thrown by sendTask when a task is cancelled before its agent acknowledged it
+ */
+export class TaskCancelledError extends Error {
+  constructor(readonly taskId: string) {
+    super(`Task ${taskId} was cancelled before its agent acknowledged it`);
+    this.name = 'TaskCancelledError';
   }
+}
 
-  private async handleCancel(message: A2AMessage): Promise<boolean> {
-    const { taskId } = message.payload;
-    return await this.communicationManager.cancelTask(taskId);
+/**
+ * Thrown by sendTask when a task cannot be delivered to its agent or the agent
+ * rejects it. `status` is the HTTP status the agent answered with, if any.
+ */
+export class AgentRequestError extends Error {
+  constructor(message: string, readonly agentType: AgentType, readonly status?: number) {
+    super(message);
+    this.name = 'AgentRequestError';
   }
+}
 
-  private determineAgentType(taskRequest: TaskRequest): AgentType {
-    // Determine agent type based on task parameters
-    // This is a simplified implementation
-    const taskType = taskRequest.type;
-
-    if (taskType.includes('web') || taskType.includes('search')) {
-      return 'web-research';
-    } else if (taskType.includes('academic') || taskType.includes('scholar')) {
-      return 'academic-research';
-    } else if (taskType.includes('news') || taskType.includes('current')) {
-      return 'news-research';
-    } else if (taskType.includes('data') || taskType.includes('analysis') || taskType.includes('statistics')) {
-      return 'data-analysis';
-    }
+// Requests made while sending a task: aborted with it, and the HTTP status an agent rejected them with
+interface RequestScope {
+  signal: AbortSignal;
+  rejectedStatus?: number;
+}
 
-    // Default to web research for general tasks
-    return 'web-research';
-  }
-}
\ No newline at end of file
+// Where a delegated task runs, so status checks and cancellation reach the same agent
+interface RemoteTask {
+  agentType: AgentType;
+  endpoint: string;
+  remoteTaskId: string;
+}
@@ -0,0 +1,308 @@
+import type { AgentCard } from '@a2a-js/sdk';
+import type { AgentType } from '../shared/interfaces.js';
+import type { A2ACommunicationManager } from './a2a-communication.js';
+import type { MessageRouter } from './message-router.js';
+
+/**
+ * Agent Registry for the Orchestrator Agent
+ * Discovers agents from their published agent cards, maps them to agent types,
+ * and keeps the communication manager and message router in sync with their health
+ */
+export class AgentRegistry {
+  private agents: Map<string, RegisteredAgent> = new Map(); // keyed by base URL
+  private agentUrls: string[];
+  private probeIntervalMs: number;
+  private probeTimeoutMs: number;
+  private probeTimer?: NodeJS.Timeout;
+
+  // Skill IDs published by the agents in this repository
+  private static readonly SKILL_AGENT_TYPES: Record<string, AgentType> = {
+    'research_planning': 'planning',
+    'research_orchestration': 'orchestrator',
+    'web_research': 'web-research',
+    'academic_research': 'academic-research',
+    'news_research': 'news-research',
+    'data_analysis': 'data-analysis',
+  };
+
+  // Skill tags used as a fallback when no known skill ID is present
+  private static readonly TAG_AGENT_TYPES: Array<[string, AgentType]> = [
+    ['web', 'web-research'],
+    ['academic', 'academic-research'],
+    ['scholarly', 'academic-research'],
+    ['news', 'news-research'],
+    ['current-events', 'news-research'],
+    ['statistics', 'data-analysis'],
+    ['quantitative', 'data-analysis'],
+    ['planning', 'planning'],
+  ];
+
+  // Capabilities referenced by the message router's routing rules
+  private static readonly TYPE_CAPABILITIES: Record<AgentType, string[]> = {
+    'planning': ['research-planning'],
+    'orchestrator': ['orchestration'],
+    'web-research': ['web-search'],
+    'academic-research': ['academic-search'],
+    'news-research': ['news-search'],
+    'data-analysis': ['data-analysis'],
+  };
+
+  constructor(
+    private a2aManager: A2ACommunicationManager,
+    private messageRouter?: MessageRouter,
+    options: AgentRegistryOptions = {}
+  ) {
+    this.agentUrls = (options.agentUrls ?? AgentRegistry.urlsFromEnvironment() ?? Object.values(a2aManager.getAgentEndpoints()))
+      .map(url => url.replace(/\/+$/, ''));
+    this.probeIntervalMs = options.probeIntervalMs ?? Number(process.env.AGENT_REGISTRY_PROBE_INTERVAL_MS ?? 30000);
+    this.probeTimeoutMs = options.probeTimeoutMs ?? 5000;
+  }
+
+  /**
+   * Read the comma-separated AGENT_REGISTRY_URLS list, if configured
+   */
+  private static urlsFromEnvironment(): string[] | undefined {
+    const configured = process.env.AGENT_REGISTRY_URLS;
+    if (!configured) {
+      return undefined;
+    }
+    return configured.split(',').map(url => url.trim()).filter(url => url.length > 0);
+  }
+
+  /**
+   * Probe every configured URL and register the agents that respond with a valid card
+   */
+  async discover(): Promise<RegisteredAgent[]> {
+    await Promise.all(this.agentUrls.map(url => this.probeAgent(url)));
+    return this.getHealthyAgents();
+  }
+
+  /**
+   * Periodically re-probe all configured agents
+   */
+  startHealthChecks(): void {
+    if (this.probeTimer) {
+      return;
+    }
+    this.probeTimer = setInterval(() => {
+      this.discover().catch(error => console.error('[AgentRegistry] Health check failed:', error));
+    }, this.probeIntervalMs);
+    this.probeTimer.unref();
+  }
+
+  stopHealthChecks(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+  }
+
+  /**
+   * Fetch and validate a single agent card, updating registration state
+   */
+  private async probeAgent(url: string): Promise<void> {
+    const previous = this.agents.get(url);
+
+    try {
+      const card = await this.fetchAgentCard(url);
+      const validationErrors = this.validateAgentCard(card);
+      if (validationErrors.length > 0) {
+        throw new Error(`Invalid agent card: ${validationErrors.join('; ')}`);
+      }
+
+      const agentType = this.mapToAgentType(card);
+      if (!agentType) {
+        throw new Error(`Could not map skills of "${card.name}" to a known agent type`);
+      }
+
+      if (!this.sameOrigin(card.url, url)) {
+        console.warn(`[AgentRegistry] ${card.name} advertises ${card.url} but was discovered at ${url}`);
+      }
+
+      const agent: RegisteredAgent = {
+        id: previous?.id ?? this.assignAgentId(agentType, url),
+        url,
+        agentType,
+        card,
+        status: 'healthy',
+        registeredAt: previous?.registeredAt ?? new Date(),
+        lastChecked: new Date(),
+        consecutiveFailures: 0,
+      };
+      this.agents.set(url, agent);
+
+      if (previous?.status !== 'healthy') {
+        console.log(`[AgentRegistry] Registered ${agent.card.name} (${agentType}) at ${url}`);
+        this.registerWithRouter(agent);
+      } else {
+        this.messageRouter?.recordHealthyProbe(agent.id);
+      }
+      this.syncEndpoint(agentType);
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!previous) {
+        console.warn(`[AgentRegistry] Agent at ${url} unavailable: ${message}`);
+        return;
+      }
+
+      previous.consecutiveFailures++;
+      previous.lastChecked = new Date();
+      previous.lastError = message;
+      if (previous.status === 'healthy') {
+        console.warn(`[AgentRegistry] ${previous.card.name} at ${url} became unhealthy: ${message}`);
+        previous.status = 'unhealthy';
+        this.messageRouter?.unregisterAgent(previous.id);
+        this.syncEndpoint(previous.agentType);
+      }
+    }
+  }
+
+  private async fetchAgentCard(url: string): Promise<AgentCard> {
+    const response = await fetch(`${url}/.well-known/agent-card.json`, {
+      headers: { 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(this.probeTimeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Agent card request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as AgentCard;
+  }
+
+  /**
+   * Check that a card carries everything the orchestrator relies on
+   */
+  private validateAgentCard(card: AgentCard): string[] {
+    const errors: string[] = [];
+
+    if (!card.name) {
+      errors.push('missing name');
+    }
+    if (!card.url) {
+      errors.push('missing url');
+    }
+    if (!card.protocolVersion) {
+      errors.push('missing protocolVersion');
+    }
+    if (!Array.isArray(card.skills) || card.skills.length === 0) {
+      errors.push('no skills declared');
+    } else if (card.skills.some(skill => !skill.id)) {
+      errors.push('skill without id');
+    }
+    // Tasks are delegated via message/stream
+    if (!card.capabilities?.streaming) {
+      errors.push('streaming capability required');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Map an agent card to an AgentType using skill IDs, then skill tags
+   */
+  private mapToAgentType(card: AgentCard): AgentType | null {
+    for (const skill of card.skills) {
+      const agentType = AgentRegistry.SKILL_AGENT_TYPES[skill.id];
+      if (agentType) {
+        return agentType;
+      }
+    }
+
+    const tags = new Set(card.skills.flatMap(skill => skill.tags ?? []));
+    for (const [tag, agentType] of AgentRegistry.TAG_AGENT_TYPES) {
+      if (tags.has(tag)) {
+        return agentType;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Routing rules address agents as `<type>-agent`; later agents of the same
+   * type are disambiguated by host
+   */
+  private assignAgentId(agentType: AgentType, url: string): string {
+    const baseId = `${agentType}-agent`;
+    const taken = Array.from(this.agents.values()).some(agent => agent.id === baseId);
+    return taken ? `${baseId}@${new URL(url).host}` : baseId;
+  }
+
+  private registerWithRouter(agent: RegisteredAgent): void {
+    if (!this.messageRouter) {
+      return;
+    }
+
+    this.messageRouter.registerAgent(agent.id, {
+      id: agent.id,
+      type: agent.agentType,
+      capabilities: [
+        ...AgentRegistry.TYPE_CAPABILITIES[agent.agentType],
+        ...agent.card.skills.map(skill => skill.id),
+        ...agent.card.skills.flatMap(skill => skill.tags ?? []),
+      ],
+      endpoint: agent.url,
+      status: 'active',
+      registeredAt: agent.registeredAt,
+      lastSeen: agent.lastChecked,
+    });
+  }
+
+  /**
+   * Point the communication manager at a healthy agent of the given type
+   */
+  private syncEndpoint(agentType: AgentType): void {
+    const current = this.a2aManager.getAgentEndpoints()[agentType];
+    const candidates = this.getHealthyAgents().filter(agent => agent.agentType === agentType);
+
+    if (candidates.length === 0 || candidates.some(agent => agent.url === current)) {
+      return;
+    }
+
+    console.log(`[AgentRegistry] Routing ${agentType} tasks to ${candidates[0].url}`);
+    this.a2aManager.updateAgentEndpoint(agentType, candidates[0].url);
+  }
+
+  private sameOrigin(advertised: string, discovered: string): boolean {
+    try {
+      return new URL(advertised).origin === new URL(discovered).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  getAgents(): RegisteredAgent[] {
+    return Array.from(this.agents.values());
+  }
+
+  getHealthyAgents(): RegisteredAgent[] {
+    return this.getAgents().filter(agent => agent.status === 'healthy');
+  }
+
+  getAgentsByType(agentType: AgentType): RegisteredAgent[] {
+    return this.getHealthyAgents().filter(agent => agent.agentType === agentType);
+  }
+}
+
+/**
+ * Type definitions for the agent registry
+ */
+export interface AgentRegistryOptions {
+  agentUrls?: string[];
+  probeIntervalMs?: number;
+  probeTimeoutMs?: number;
+}
+
+export interface RegisteredAgent {
+  id: string;
+  url: string;
+  agentType: AgentType;
+  card: AgentCard;
+  status: 'healthy' | 'unhealthy';
+  registeredAt: Date;
+  lastChecked: Date;
+  consecutiveFailures: number;
+  lastError?: string;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ContradictionAnalyzer, judgeByRules, judgeSupportByRules } from './contradiction-analysis.js';
+import { SemanticSimilarity } from './semantic-similarity.js';
+
+describe('judgeByRules', () => {
+  it('finds opposite directions of change for the same subject', () => {
+    const judgement = judgeByRules('Solar capacity in Germany increased in 2023', 'Solar capacity in Germany decreased in 2023');
+    expect(judgement.label).toBe('contradicts');
+    expect(judgement.rationale).toContain('increase vs decrease');
+  });
+
+  it('finds a claim denying the change the other reports', () => {
+    expect(judgeByRules('Solar capacity in Germany increased in 2023', 'Solar capacity in Germany did not increase in 2023').label).toBe('contradicts');
+  });
+
+  it('finds different values for the same quantity and year', () => {
+    const judgement = judgeByRules('Renewables supplied 52% of German electricity in 2023', 'Renewables supplied 31% of German electricity in 2023');
+    expect(judgement.label).toBe('contradicts');
+    expect(judgement.rationale).toContain('52% vs 31%');
+  });
+
+  it('does not compare values for different years', () => {
+    expect(judgeByRules('Renewables supplied 52% of German electricity in 2023', 'Renewables supplied 31% of German electricity in 2015').label).toBe('neutral');
+  });
+
+  it('treats values within the tolerance as the same statement', () => {
+    expect(judgeByRules('Renewables supplied 52% of German electricity in 2023', 'Renewables supplied 51% of German electricity in 2023').label).toBe('entails');
+  });
+
+  it('leaves claims about different subjects neutral', () => {
+    expect(judgeByRules('Solar capacity in Germany increased', 'Coffee prices in Brazil fell').label).toBe('neutral');
+  });
+});
+
+describe('judgeSupportByRules', () => {
+  it('does not let evidence support a sentence that adds facts to it', () => {
+    const judgement = judgeSupportByRules('Sales grew 35% in 2023', 'Sales grew 35% in 2023 and the company was fined for fraud.');
+    expect(judgement.label).toBe('neutral');
+    expect(judgement.rationale).toBe('The evidence does not mention company, fined, fraud');
+  });
+
+  it('supports a sentence the evidence states in full', () => {
+    expect(judgeSupportByRules('Sales grew 35% in 2023 according to the annual report', 'Sales grew 35% in 2023.').label).toBe('entails');
+  });
+
+  it('requires the evidence to give the same values and years', () => {
+    expect(judgeSupportByRules('Sales grew 35% in 2023', 'Sales grew 35% in 2024.').label).toBe('neutral');
+    expect(judgeSupportByRules('Sales grew 35% in 2023', 'Sales grew 20% in 2023.').label).toBe('contradicts');
+  });
+
+  it('requires the evidence to give the same direction of change', () => {
+    expect(judgeSupportByRules('Sales in 2023', 'Sales grew in 2023.').label).toBe('neutral');
+    expect(judgeSupportByRules('Sales fell in 2023', 'Sales grew in 2023.').label).toBe('contradicts');
+  });
+});
+
+describe('ContradictionAnalyzer', () => {
+  const analyzer = new ContradictionAnalyzer(new SemanticSimilarity({ embedder: 'local' }), { judge: 'rules' });
+
+  it('judges pairs in order, including repeated and previously judged pairs', async () => {
+    const increase = 'Solar capacity in Germany increased in 2023';
+    const decrease = 'Solar capacity in Germany decreased in 2023';
+    const unrelated = 'Coffee prices in Brazil fell';
+    await analyzer.judge([{ claim1: increase, claim2: decrease }]);
+
+    const judgements = await analyzer.judge([
+      { claim1: decrease, claim2: increase },
+      { claim1: increase, claim2: unrelated },
+      { claim1: increase, claim2: decrease },
+    ]);
+    expect(judgements.map(judgement => judgement.label)).toEqual(['contradicts', 'neutral', 'contradicts']);
+  });
+
+  it('checks support in one direction only', async () => {
+    const [forward, backward] = await analyzer.checkSupport([
+      { evidence: 'Sales grew 35% in 2023 and the company was fined for fraud', claim: 'Sales grew 35% in 2023' },
+      { evidence: 'Sales grew 35% in 2023', claim: 'Sales grew 35% in 2023 and the company was fined for fraud' },
+    ]);
+    expect(forward.label).toBe('entails');
+    expect(backward.label).toBe('neutral');
+  });
+
+  it('pairs related claims and finds the contradicting ones', async () => {
+    const relations = await analyzer.findRelations([
+      'Solar capacity in Germany increased in 2023',
+      'Solar capacity in Germany decreased in 2023',
+      'Coffee prices in Brazil fell',
+    ]);
+    expect(relations).toHaveLength(1);
+    expect(relations[0]).toMatchObject({ label: 'contradicts', method: 'rules' });
+  });
+});
@@ -0,0 +1,414 @@
+import { z } from 'zod';
+import { ai } from './genkit.js';
+import { SemanticSimilarity, tokenize } from './semantic-similarity.js';
+
+const claimInferencePrompt = ai.definePrompt({
+  name: 'claim-inference',
+  input: {
+    schema: z.object({
+      pairs: z.array(z.object({ id: z.number(), claim1: z.string(), claim2: z.string() })),
+    }),
+  },
+  output: {
+    schema: z.object({
+      judgements: z.array(z.object({
+        id: z.number(),
+        label: z.enum(['entails', 'contradicts', 'neutral']),
+        confidence: z.number().min(0).max(1),
+        rationale: z.string(),
+      })),
+    }),
+  },
+  prompt: `
+You are a fact-checking assistant comparing claims gathered by different research agents.
+
+For each pair of claims, decide how they relate:
+- "entails": the claims state the same fact, or one supports the other
+- "contradicts": both cannot be true at once, e.g. opposite directions of change or different values for the same quantity, time and place
+- "neutral": the claims are compatible or about different things (e.g. different regions, periods or populations)
+
+Only answer "contradicts" when the claims are about the same subject. Give your confidence (0-1) and a one-sentence rationale.
+
+{{#each pairs}}
+Pair {{id}}:
+- Claim 1: {{claim1}}
+- Claim 2: {{claim2}}
+{{/each}}
+`,
+});
+
+const claimSupportPrompt = ai.definePrompt({
+  name: 'claim-support',
+  input: {
+    schema: z.object({
+      pairs: z.array(z.object({ id: z.number(), evidence: z.string(), claim: z.string() })),
+    }),
+  },
+  output: {
+    schema: z.object({
+      judgements: z.array(z.object({
+        id: z.number(),
+        label: z.enum(['entails', 'contradicts', 'neutral']),
+        confidence: z.number().min(0).max(1),
+        rationale: z.string(),
+      })),
+    }),
+  },
+  prompt: `
+You are a fact-checking assistant verifying sentences of a research report against the evidence they cite.
+
+For each pair, decide whether the evidence supports the claim:
+- "entails": every part of the claim is stated or directly implied by the evidence, including its numbers, dates and direction of change
+- "contradicts": the evidence shows the claim, or part of it, is false
+- "neutral": anything else, including claims only partly covered by the evidence
+
+A claim that adds facts the evidence does not mention is "neutral", even if the rest is supported. Give your confidence (0-1) and a one-sentence rationale.
+
+{{#each pairs}}
+Pair {{id}}:
+- Evidence: {{evidence}}
+- Claim: {{claim}}
+{{/each}}
+`,
+});
+
+/**
+ * Contradiction Analysis for the Orchestrator Agent
+ * Pairs related claims by semantic similarity and classifies each pair as
+ * entailing, contradicting or neutral. Pairs are judged by the model with a
+ * structured schema; pairs it cannot judge (offline, with
+ * `ORCHESTRATOR_CONTRADICTION_JUDGE=rules` or when the call fails) are
+ * judged by rules for opposite directions, negation and conflicting numbers.
+ * checkSupport answers the directional question of whether evidence
+ * supports a claim, the same way.
+ */
+export class ContradictionAnalyzer {
+  private judgeMode: 'model' | 'rules';
+  private maxPairs: number;
+  private batchSize: number;
+  private numericTolerance: number;
+  private judgementCache: Map<string, ClaimJudgement> = new Map();
+
+  constructor(private similarity: SemanticSimilarity = new SemanticSimilarity(), options: ContradictionAnalyzerOptions = {}) {
+    this.judgeMode = options.judge ?? (process.env.ORCHESTRATOR_CONTRADICTION_JUDGE === 'rules' ? 'rules' : 'model');
+    this.maxPairs = options.maxPairs ?? 50;
+    this.batchSize = options.batchSize ?? 10;
+    this.numericTolerance = options.numericTolerance ?? 0.1;
+  }
+
+  /**
+   * Judge each related pair of a claim in `claims` and a different claim in
+   * `against` (by default, the claims among themselves). Pairs below the
+   * `related` similarity threshold are not judged; beyond `maxPairs`, the most
+   * similar pairs are judged.
+   */
+  async findRelations(claims: string[], against: string[] = claims): Promise<ClaimRelation[]> {
+    const vectors = await this.similarity.vectorize([...claims, ...against]);
+
+    const pairs = new Map<string, { claim1: string; claim2: string; similarity: number }>();
+    for (const claim1 of new Set(claims)) {
+      for (const claim2 of new Set(against)) {
+        const key = pairKey(claim1, claim2);
+        if (claim1 !== claim2 && !pairs.has(key) && vectors.isSimilar(claim1, claim2, 'related')) {
+          pairs.set(key, { claim1, claim2, similarity: vectors.similarity(claim1, claim2) });
+        }
+      }
+    }
+
+    const relatedPairs = Array.from(pairs.values())
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, this.maxPairs);
+    const judgements = await this.judge(relatedPairs);
+
+    return relatedPairs.map((pair, index) => ({ ...pair, ...judgements[index] }));
+  }
+
+  /**
+   * Judge the given pairs, whether or not they are related, in order
+   */
+  async judge(pairs: Array<{ claim1: string; claim2: string }>): Promise<ClaimJudgement[]> {
+    return this.judgeUncached(
+      pairs,
+      pair => pairKey(pair.claim1, pair.claim2),
+      batch => this.judgeWithModel(batch),
+      pair => judgeByRules(pair.claim1, pair.claim2, this.numericTolerance)
+    );
+  }
+
+  /**
+   * Judge whether each evidence supports its claim: `entails` when it states
+   * every part of the claim, `contradicts` when it refutes any part of it
+   */
+  async checkSupport(pairs: Array<{ evidence: string; claim: string }>): Promise<ClaimJudgement[]> {
+    return this.judgeUncached(
+      pairs,
+      pair => supportKey(pair.evidence, pair.claim),
+      batch => this.checkSupportWithModel(batch),
+      pair => judgeSupportByRules(pair.evidence, pair.claim, this.numericTolerance)
+    );
+  }
+
+  /**
+   * Judge the pairs not judged before, with the model in batches and the rest
+   * by rules, and return the judgements of all pairs in order
+   */
+  private async judgeUncached<T>(
+    pairs: T[],
+    keyOf: (pair: T) => string,
+    judgeWithModel: (batch: T[]) => Promise<Map<number, ClaimJudgement>>,
+    judgeWithRules: (pair: T) => ClaimJudgement
+  ): Promise<ClaimJudgement[]> {
+    const keys = pairs.map(keyOf);
+    const judgements = new Map<string, ClaimJudgement>();
+    const unjudged = new Map<string, T>();
+    pairs.forEach((pair, index) => {
+      const cached = this.judgementCache.get(keys[index]);
+      if (cached) {
+        judgements.set(keys[index], cached);
+      } else {
+        unjudged.set(keys[index], pair);
+      }
+    });
+
+    const unjudgedPairs = Array.from(unjudged.entries());
+    for (let start = 0; start < unjudgedPairs.length; start += this.batchSize) {
+      const batch = unjudgedPairs.slice(start, start + this.batchSize);
+      const modelJudgements = this.judgeMode === 'model' ? await judgeWithModel(batch.map(([, pair]) => pair)) : new Map<number, ClaimJudgement>();
+      batch.forEach(([key, pair], index) => {
+        const judgement = modelJudgements.get(index) ?? judgeWithRules(pair);
+        judgements.set(key, judgement);
+        this.cacheJudgement(key, judgement);
+      });
+    }
+
+    return keys.flatMap(key => judgements.get(key) ?? []);
+  }
+
+  private async judgeWithModel(pairs: Array<{ claim1: string; claim2: string }>): Promise<Map<number, ClaimJudgement>> {
+    try {
+      const { output } = await claimInferencePrompt({ pairs: pairs.map((pair, id) => ({ id, ...pair })) });
+      return new Map((output?.judgements ?? [])
+        .filter(judgement => judgement.id >= 0 && judgement.id < pairs.length)
+        .map(judgement => [judgement.id, {
+          label: judgement.label,
+          confidence: judgement.confidence,
+          rationale: judgement.rationale,
+          method: 'model',
+        }]));
+    } catch (error) {
+      console.warn('[ContradictionAnalyzer] Model judge failed, judging claims by rules:', error instanceof Error ? error.message : error);
+      return new Map();
+    }
+  }
+
+  private async checkSupportWithModel(pairs: Array<{ evidence: string; claim: string }>): Promise<Map<number, ClaimJudgement>> {
+    try {
+      const { output } = await claimSupportPrompt({ pairs: pairs.map((pair, id) => ({ id, ...pair })) });
+      return new Map((output?.judgements ?? [])
+        .filter(judgement => judgement.id >= 0 && judgement.id < pairs.length)
+        .map(judgement => [judgement.id, {
+          label: judgement.label,
+          confidence: judgement.confidence,
+          rationale: judgement.rationale,
+          method: 'model',
+        }]));
+    } catch (error) {
+      console.warn('[ContradictionAnalyzer] Model support check failed, checking support by rules:', error instanceof Error ? error.message : error);
+      return new Map();
+    }
+  }
+
+  private cacheJudgement(key: string, judgement: ClaimJudgement): void {
+    this.judgementCache.set(key, judgement);
+    if (this.judgementCache.size > 1000) {
+      this.judgementCache.delete(this.judgementCache.keys().next().value!); // oldest first
+    }
+  }
+}
+
+// Judgements are symmetric, so a pair is cached under the same key in either order
+function pairKey(claim1: string, claim2: string): string {
+  return JSON.stringify(claim1 < claim2 ? [claim1, claim2] : [claim2, claim1]);
+}
+
+// Support is directional: evidence that supports a claim need not be supported by it
+function supportKey(evidence: string, claim: string): string {
+  return JSON.stringify(['supports', evidence, claim]);
+}
+
+const INCREASE = /\b(increas\w*|ris(?:e|es|ing|en)|rose|grow(?:s|ing|n)?|grew|gain(?:s|ed|ing)?|expand\w*|improv\w*|higher|climb\w*|surg\w*|boost\w*|up)\b/gi;
+const DECREASE = /\b(decreas\w*|declin\w*|fall(?:s|ing|en)?|fell|drop\w*|shr[iau]nk\w*|reduc\w*|lower|los(?:e|es|ing|t)|worsen\w*|plung\w*|down|cut)\b/gi;
+const NEGATION = /\b(not|no|never|none|cannot|without)\b|n't\b/gi;
+const ANTONYMS: Array<[RegExp, RegExp]> = [
+  [/\beffective\b/i, /\bineffective\b/i],
+  [/\bbeneficial\b/i, /\bharmful\b/i],
+  [/\bpositive\b/i, /\bnegative\b/i],
+  [/\bsuccessful\b/i, /\bunsuccessful\b/i],
+  [/\bsafe\b/i, /\bunsafe\b/i],
+];
+
+/**
+ * Rule-based judgement: opposite directions of change or antonyms about the
+ * same subject, one claim negating the other, or different values for the
+ * same quantity in the same years contradict; the same subject otherwise entails
+ */
+export function judgeByRules(claim1: string, claim2: string, numericTolerance = 0.1): ClaimJudgement {
+  const topicOverlap = overlap(topicTerms(claim1), topicTerms(claim2));
+  const direction1 = direction(claim1);
+  const direction2 = direction(claim2);
+  const negated1 = hasMatch(claim1, NEGATION);
+  const negated2 = hasMatch(claim2, NEGATION);
+
+  if (topicOverlap >= 0.5 && direction1 && direction2 && (direction1 !== direction2) !== (negated1 !== negated2)) {
+    return {
+      label: 'contradicts',
+      confidence: 0.7,
+      rationale: direction1 !== direction2
+        ? `The claims report opposite changes (${direction1} vs ${direction2}) for the same subject`
+        : `One claim denies the ${direction1} the other reports`,
+      method: 'rules',
+    };
+  }
+
+  const antonym = ANTONYMS.find(([word, opposite]) =>
+    (word.test(claim1) && opposite.test(claim2)) || (opposite.test(claim1) && word.test(claim2)));
+  if (topicOverlap >= 0.5 && antonym && negated1 === negated2) {
+    return { label: 'contradicts', confidence: 0.6, rationale: 'The claims describe the same subject in opposite terms', method: 'rules' };
+  }
+
+  if (topicOverlap >= 0.8 && negated1 !== negated2 && !(direction1 && direction2)) {
+    return { label: 'contradicts', confidence: 0.6, rationale: 'One claim negates the other', method: 'rules' };
+  }
+
+  const quantityComparison = compareQuantities(claim1, claim2, numericTolerance);
+  if (topicOverlap >= 0.8 && quantityComparison.conflict) {
+    return { label: 'contradicts', confidence: 0.6, rationale: `The claims give different values (${quantityComparison.conflict})`, method: 'rules' };
+  }
+
+  if (topicOverlap >= 0.8 && negated1 === negated2 && quantityComparison.comparable) {
+    return { label: 'entails', confidence: 0.5, rationale: 'The claims state the same thing', method: 'rules' };
+  }
+  return { label: 'neutral', confidence: 0.5, rationale: 'No conflict between the claims was found', method: 'rules' };
+}
+
+/**
+ * Rule-based support check: evidence supports a claim when it does not
+ * contradict it and covers the claim's terms, its direction of change,
+ * negation, years and values
+ */
+export function judgeSupportByRules(evidence: string, claim: string, numericTolerance = 0.1): ClaimJudgement {
+  const relation = judgeByRules(evidence, claim, numericTolerance);
+  if (relation.label === 'contradicts') {
+    return relation;
+  }
+
+  const evidenceTerms = topicTerms(evidence);
+  const missingTerms = new Set(Array.from(topicTerms(claim)).filter(term => !evidenceTerms.has(term)));
+  const claimDirection = direction(claim);
+  const evidenceQuantities = quantities(evidence);
+  const claimQuantities = quantities(claim);
+  const missing = [
+    // The claim's own words, rather than their stems
+    ...new Set((claim.match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => tokenize(word).some(term => missingTerms.has(term)))),
+    ...(claimDirection && !hasMatch(evidence, claimDirection === 'increase' ? INCREASE : DECREASE) ? [`the ${claimDirection}`] : []),
+    ...(hasMatch(claim, NEGATION) && !hasMatch(evidence, NEGATION) ? ['the negation'] : []),
+    ...Array.from(claimQuantities.years).filter(year => !evidenceQuantities.years.has(year)).map(String),
+    ...claimQuantities.values
+      .filter(quantity => !evidenceQuantities.values.some(other => other.unit === quantity.unit
+        && Math.abs(other.value - quantity.value) <= numericTolerance * Math.max(Math.abs(other.value), Math.abs(quantity.value))))
+      .map(quantity => `${quantity.value}${quantity.unit}`),
+  ];
+
+  if (missing.length === 0) {
+    return { label: 'entails', confidence: 0.5, rationale: 'The evidence states every part of the claim', method: 'rules' };
+  }
+  return { label: 'neutral', confidence: 0.5, rationale: `The evidence does not mention ${missing.join(', ')}`, method: 'rules' };
+}
+
+function hasMatch(text: string, pattern: RegExp): boolean {
+  return (text.match(pattern)?.length ?? 0) > 0;
+}
+
+function direction(text: string): 'increase' | 'decrease' | undefined {
+  const increases = hasMatch(text, INCREASE);
+  const decreases = hasMatch(text, DECREASE);
+  if (increases === decreases) {
+    return undefined; // neither, or both (e.g. "fell after rising")
+  }
+  return increases ? 'increase' : 'decrease';
+}
+
+// What a claim is about: its terms without directions, negation or numbers
+function topicTerms(text: string): Set<string> {
+  const stripped = text.replace(INCREASE, ' ').replace(DECREASE, ' ').replace(NEGATION, ' ');
+  return new Set(tokenize(stripped).filter(term => !/\d/.test(term)));
+}
+
+// Share of the smaller claim's terms that the other claim also has
+function overlap(terms1: Set<string>, terms2: Set<string>): number {
+  const smaller = Math.min(terms1.size, terms2.size);
+  return smaller > 0 ? Array.from(terms1).filter(term => terms2.has(term)).length / smaller : 0;
+}
+
+/**
+ * Compare the numbers in two claims. Claims about different years are not
+ * comparable; otherwise values of the same kind (percentages or plain numbers)
+ * that differ by more than the tolerance conflict, described as "35% vs 20%".
+ */
+function compareQuantities(claim1: string, claim2: string, tolerance: number): { comparable: boolean; conflict?: string } {
+  const quantities1 = quantities(claim1);
+  const quantities2 = quantities(claim2);
+  if (quantities1.years.size > 0 && quantities2.years.size > 0 && ![...quantities1.years].some(year => quantities2.years.has(year))) {
+    return { comparable: false };
+  }
+
+  for (const unit of ['%', ''] as const) {
+    const values1 = quantities1.values.filter(quantity => quantity.unit === unit).map(quantity => quantity.value);
+    const values2 = quantities2.values.filter(quantity => quantity.unit === unit).map(quantity => quantity.value);
+    if (values1.length === 0 || values2.length === 0) {
+      continue;
+    }
+    const agree = values1.some(value1 => values2.some(value2 =>
+      Math.abs(value1 - value2) <= tolerance * Math.max(Math.abs(value1), Math.abs(value2))));
+    if (!agree) {
+      return { comparable: true, conflict: `${values1[0]}${unit} vs ${values2[0]}${unit}` };
+    }
+  }
+  return { comparable: true };
+}
+
+function quantities(text: string): { years: Set<number>; values: Array<{ value: number; unit: '%' | '' }> } {
+  const years = new Set<number>();
+  const values: Array<{ value: number; unit: '%' | '' }> = [];
+  for (const match of text.matchAll(/(\d+(?:,\d{3})*(?:\.\d+)?)\s*(%|percent\b|per cent\b)?/gi)) {
+    const value = Number(match[1].replace(/,/g, ''));
+    if (!match[2] && Number.isInteger(value) && value >= 1900 && value <= 2100) {
+      years.add(value);
+    } else {
+      values.push({ value, unit: match[2] ? '%' : '' });
+    }
+  }
+  return { years, values };
+}
+
+export type InferenceLabel = 'entails' | 'contradicts' | 'neutral';
+
+export interface ClaimJudgement {
+  label: InferenceLabel;
+  confidence: number; // 0-1
+  rationale: string;
+  method: 'model' | 'rules';
+}
+
+export interface ClaimRelation extends ClaimJudgement {
+  claim1: string;
+  claim2: string;
+  similarity: number; // semantic similarity of the claims, 0-1
+}
+
+export interface ContradictionAnalyzerOptions {
+  judge?: 'model' | 'rules'; // 'rules' skips the model, for contradictions and support checks
+  maxPairs?: number; // most similar pairs judged per call
+  batchSize?: number; // pairs judged per model request
+  numericTolerance?: number; // relative difference within which values agree
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OrchestrationState, ResearchStep, ResearchStepExecution } from '../shared/interfaces.js';
+import { TaskTimeoutError } from './a2a-communication.js';
+import { ErrorRecovery } from './error-recovery.js';
+import type { TaskDelegator } from './task-delegator.js';
+
+const step = (id: string, dependencies: string[] = [], fallbackStrategies: string[] = []): ResearchStep => ({
+  id,
+  description: `Step ${id}`,
+  agentType: 'web-research',
+  dependencies,
+  estimatedDuration: 10,
+  successCriteria: 'done',
+  fallbackStrategies,
+  priority: 3,
+});
+
+const state = (steps: ResearchStep[]): OrchestrationState => ({
+  researchId: 'research-1',
+  plan: {
+    id: 'plan-1',
+    topic: 'Solar power',
+    objectives: [],
+    methodology: { approach: 'exploratory', justification: 'test', phases: [], qualityControls: [] },
+    dataSources: [],
+    executionSteps: steps,
+    riskAssessment: [],
+    contingencyPlans: [],
+    qualityThresholds: [],
+    estimatedTimeline: '1 hour',
+    version: '1.0',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  currentPhase: 'execution',
+  activeSteps: [],
+  completedSteps: [],
+  issues: [],
+  progress: { completedSteps: 0, totalSteps: steps.length, estimatedTimeRemaining: 0, overallConfidence: 0 },
+  startedAt: new Date(),
+  lastUpdated: new Date(),
+});
+
+const execution = (agentId: string): ResearchStepExecution => ({
+  stepId: 'search',
+  agentId,
+  status: 'failed',
+  progressUpdates: [],
+  retryCount: 0,
+});
+
+const withCode = (message: string, code: number | string) => Object.assign(new Error(message), { code });
+
+describe('ErrorRecovery', () => {
+  let redelegateStep: ReturnType<typeof vi.fn>;
+  let recovery: ErrorRecovery;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    redelegateStep = vi.fn();
+    recovery = new ErrorRecovery({ redelegateStep } as unknown as TaskDelegator);
+  });
+
+  it('counts retries per agent type, so a fallback agent gets retries of its own', async () => {
+    const research = state([step('search', [], ['Try academic sources']), step('compare', ['search'])]);
+    let failed = execution('web-research');
+
+    const retryCounts: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const outcome = await recovery.handleStepFailure('search', failed, withCode('socket hang up', 'ECONNRESET'), research);
+      expect(outcome.recoveryAction).toBe('retry');
+      retryCounts.push(outcome.newExecution!.retryCount);
+      failed = outcome.newExecution!;
+    }
+    expect(retryCounts).toEqual([1, 2, 3]);
+    expect(redelegateStep.mock.calls.map(call => call[3])).toEqual([1000, 2000, 4000]);
+
+    const fallback = await recovery.handleStepFailure('search', failed, withCode('socket hang up', 'ECONNRESET'), research);
+    expect(fallback).toMatchObject({ recoveryAction: 'fallback', newExecution: { agentId: 'academic-research', retryCount: 0 } });
+
+    const retry = await recovery.handleStepFailure('search', fallback.newExecution!, withCode('socket hang up', 'ECONNRESET'), research);
+    expect(retry).toMatchObject({ recoveryAction: 'retry', newExecution: { agentId: 'academic-research', retryCount: 1 } });
+    expect(recovery.getRecoveryStatus('research-1', 'search').retryCount).toBe(4);
+  });
+
+  it('falls back only to agent types the step has not run on, then escalates', async () => {
+    const research = state([step('search')]);
+    const unavailable = withCode('Service unavailable', 503);
+
+    const first = await recovery.handleStepFailure('search', execution('web-research'), unavailable, research);
+    expect(first.newExecution?.agentId).toBe('academic-research');
+
+    // Academic research falls back to web research first, which has already failed
+    const second = await recovery.handleStepFailure('search', first.newExecution!, unavailable, research);
+    expect(second.newExecution?.agentId).toBe('news-research');
+
+    const third = await recovery.handleStepFailure('search', second.newExecution!, unavailable, research);
+    expect(third).toMatchObject({ recoveryAction: 'escalate', issue: { type: 'agent-failure', severity: 'high' } });
+    expect(redelegateStep).toHaveBeenCalledTimes(2);
+  });
+
+  it('escalates critical failures and critical-path steps out of retries', async () => {
+    const research = state([step('search'), step('compare', ['search']), step('report', ['compare'])]);
+
+    const denied = await recovery.handleStepFailure('search', execution('web-research'), withCode('Forbidden', 403), research);
+    expect(denied).toMatchObject({ recoveryAction: 'escalate', issue: { severity: 'high', affectedSteps: ['compare', 'report'] } });
+
+    const timeout = new TaskTimeoutError('task-1', 'web-research', 60000);
+    const retried = await recovery.handleStepFailure('search', execution('web-research'), timeout, research);
+    expect(retried.recoveryAction).toBe('retry');
+    const exhausted = await recovery.handleStepFailure('search', retried.newExecution!, timeout, research);
+    expect(exhausted).toMatchObject({
+      recoveryAction: 'escalate',
+      issue: { type: 'timeout', severity: 'critical', affectedSteps: ['compare', 'report'] },
+    });
+  });
+});
@@ -1,65 +1,114 @@
-import type { OrchestrationState, OrchestrationIssue, ResearchStepExecution} from '../shared/interfaces.js';
-import { TaskResponse } from '../shared/interfaces.js';
+import { v4 as uuidv4 } from 'uuid';
+import type { AgentType, OrchestrationState, OrchestrationIssue, ResearchStep, ResearchStepExecution} from '../shared/interfaces.js';
+import { PlanGraph } from '../shared/plan-graph.js';
+import { TaskTimeoutError } from './a2a-communication.js';
+import { isStepKeyOf, stepKey } from './step-key.js';
 import type { TaskDelegator } from './task-delegator.js';
 
+export type RecoveryAction = 'retry' | 'fallback' | 'escalate' | 'abort';
+
+/**
+ * How a failed step is being recovered. For `retry` and `fallback` the step has
+ * already been re-delegated as `newExecution`; `escalate` and `abort` end the
+ * step and explain why in `issue`.
+ */
+export interface RecoveryOutcome {
+  recoveryAction: RecoveryAction;
+  newExecution?: ResearchStepExecution;
+  retryDelayMs?: number;
+  issue?: OrchestrationIssue;
+}
+
 /**
  * Error Recovery System for the Orchestrator Agent
  * Handles failures, implements fallback strategies, and manages recovery processes
  */
 export class ErrorRecovery {
-  private retryAttempts: Map<string, number> = new Map();
+  private retryAttempts: Map<string, Map<string, number>> = new Map(); // retries of each step per agent type
   private backoffDelays: Map<string, number> = new Map();
   private recoveryInProgress: Set<string> = new Set();
+  private attemptedAgents: Map<string, Set<string>> = new Map(); // agent types each step has run on
 
   constructor(private taskDelegator: TaskDelegator) {}
 
   /**
-   * Handle a failed research step execution
+   * Handle a failed research step execution. Retries and fallbacks are
+   * re-delegated through the TaskDelegator before this resolves.
    */
   async handleStepFailure(
     stepId: string,
     execution: ResearchStepExecution,
-    error: any,
+    error: unknown,
     orchestrationState: OrchestrationState
-  ): Promise<{
-    recoveryAction: 'retry' | 'fallback' | 'escalate' | 'abort';
-    newExecution?: ResearchStepExecution;
-    issue?: OrchestrationIssue;
-  }> {
+  ): Promise<RecoveryOutcome> {
+    const key = stepKey(orchestrationState.researchId, stepId);
+    const step = orchestrationState.plan.executionSteps.find(s => s.id === stepId);
+    if (!step) {
+      return {
+        recoveryAction: 'abort',
+        issue: this.createIssue(stepId, 'agent-failure', 'medium',
+          `Step ${stepId} failed and is not part of the research plan: ${errorMessage(error)}`)
+      };
+    }
+
     const failureType = this.classifyFailure(error);
-    const retryCount = this.retryAttempts.get(stepId) ?? 0;
+    const retryCount = this.retryAttempts.get(key)?.get(execution.agentId) ?? 0;
+    this.recordAttemptedAgent(key, execution.agentId);
+    this.recoveryInProgress.add(key);
 
-    // Check if we've exceeded maximum retries
-    if (retryCount >= this.getMaxRetries(failureType)) {
-      return await this.handleExhaustedRetries(stepId, execution, failureType, orchestrationState);
-    }
+    try {
+      // Past the research deadline nothing is retried; the research finishes with what it has
+      if (this.isPastDeadline(orchestrationState)) {
+        return {
+          recoveryAction: 'abort',
+          issue: this.createIssue(step.id, 'timeout', 'medium',
+            `Step ${step.id} failed after the research deadline passed: ${errorMessage(error)}`,
+            `Research continues with the results gathered so far`)
+        };
+      }
+
+      // Check if we've exceeded maximum retries
+      if (retryCount >= this.getMaxRetries(failureType)) {
+        return this.handleExhaustedRetries(step, execution, failureType, orchestrationState);
+      }
+
+      // Attempt recovery based on failure type
+      switch (failureType) {
+        case 'temporary':
+          return this.handleTemporaryFailure(step, execution, retryCount, orchestrationState);
 
-    // Attempt recovery based on failure type
-    switch (failureType) {
-      case 'temporary':
-        return this.handleTemporaryFailure(stepId, execution, retryCount);
+        case 'timeout':
+          return this.handleTimeoutFailure(step, execution, retryCount, orchestrationState);
 
-      case 'rate-limit':
-        return this.handleRateLimitFailure(stepId, execution, retryCount);
+        case 'rate-limit':
+          return this.handleRateLimitFailure(step, execution, retryCount, orchestrationState);
 
-      case 'agent-unavailable':
-        return this.handleAgentUnavailableFailure(stepId, execution, orchestrationState);
+        case 'agent-unavailable':
+          return this.handleAgentUnavailableFailure(step, execution, orchestrationState);
 
-      case 'data-quality':
-        return this.handleDataQualityFailure(stepId, execution, orchestrationState);
+        case 'data-quality':
+          return this.handleDataQualityFailure(step, execution, retryCount, orchestrationState);
 
-      case 'critical':
-      default:
-        return this.handleCriticalFailure(stepId, execution, error, orchestrationState);
+        case 'critical':
+        default:
+          return this.handleCriticalFailure(step.id, error, orchestrationState);
+      }
+    } finally {
+      this.recoveryInProgress.delete(key);
     }
   }
 
   /**
    * Classify the type of failure based on error characteristics
    */
-  private classifyFailure(error: any): 'temporary' | 'rate-limit' | 'agent-unavailable' | 'data-quality' | 'critical' {
-    const errorMessage = error?.message?.toLowerCase() ?? '';
-    const errorCode = error?.code ?? error?.status;
+  private classifyFailure(error: unknown): 'temporary' | 'timeout' | 'rate-limit' | 'agent-unavailable' | 'data-quality' | 'critical' {
+    const message = errorMessage(error).toLowerCase();
+    const errorCode = errorField(error, 'code') ?? errorField(error, 'status');
+
+    // Delegated tasks that ran past their timeout
+    if (error instanceof TaskTimeoutError) {
+      return 'timeout';
+    }
 
     // Network and temporary errors
     if (errorCode === 'ECONNRESET' || errorCode === 'ETIMEDOUT' || errorCode === 'ENOTFOUND') {
@@ -67,22 +116,22 @@ export class ErrorRecovery {
     }
 
     // Rate limiting
-    if (errorCode === 429 || (Boolean(errorMessage.includes('rate limit'))) || (Boolean(errorMessage.includes('quota')))) {
+    if (errorCode === 429 || (Boolean(message.includes('rate limit'))) || (Boolean(message.includes('quota')))) {
       return 'rate-limit';
     }
 
     // Agent unavailable
-    if (errorCode === 503 || (Boolean(errorMessage.includes('service unavailable'))) || (Boolean(errorMessage.includes('agent unavailable')))) {
+    if (errorCode === 503 || (Boolean(message.includes('service unavailable'))) || (Boolean(message.includes('agent unavailable')))) {
       return 'agent-unavailable';
     }
 
     // Data quality issues
-    if ((Boolean(errorMessage.includes('invalid data'))) || (Boolean(errorMessage.includes('malformed'))) || (Boolean(errorMessage.includes('quality')))) {
+    if ((Boolean(message.includes('invalid data'))) || (Boolean(message.includes('malformed'))) || (Boolean(message.includes('quality')))) {
       return 'data-quality';
     }
 
     // Authentication and permission errors
-    if (errorCode === 401 || errorCode === 403 || (Boolean(errorMessage.includes('unauthorized'))) || (Boolean(errorMessage.includes('forbidden')))) {
+    if (errorCode === 401 || errorCode === 403 || (Boolean(message.includes('unauthorized'))) || (Boolean(message.includes('forbidden')))) {
       return 'critical';
     }
 
@@ -96,6 +145,7 @@ export class ErrorRecovery {
   private getMaxRetries(failureType: string): number {
     const retryLimits = {
       'temporary': 3,
+      'timeout': 1,
       'rate-limit': 5,
       'agent-unavailable': 2,
       'data-quality': 1,
@@ -109,28 +159,30 @@ export class ErrorRecovery {
    * Handle temporary failures with exponential backoff
    */
   private handleTemporaryFailure(
-    stepId: string,
+    step: ResearchStep,
     execution: ResearchStepExecution,
-    retryCount: number
-  ): {
-    recoveryAction: 'retry' | 'fallback' | 'escalate' | 'abort';
-    newExecution?: ResearchStepExecution;
-  } {
+    retryCount: number,
+    orchestrationState: OrchestrationState
+  ): RecoveryOutcome {
     const backoffDelay = this.calculateBackoffDelay(retryCount);
-    this.backoffDelays.set(stepId, backoffDelay);
-
-    // Schedule retry after backoff delay
-    setTimeout(() => {
-      this.executeRetry(stepId, execution);
-    }, backoffDelay);
+    return this.executeRetry(step, execution, backoffDelay, orchestrationState);
+  }
 
+  /**
+   * Handle a step that ran past its timeout: record the timeout and retry it
+   */
+  private handleTimeoutFailure(
+    step: ResearchStep,
+    execution: ResearchStepExecution,
+    retryCount: number,
+    orchestrationState: OrchestrationState
+  ): RecoveryOutcome {
+    const backoffDelay = this.calculateBackoffDelay(retryCount);
     return {
-      recoveryAction: 'retry',
-      newExecution: {
-        ...execution,
-        status: 'pending',
-        retryCount: retryCount + 1
-      }
+      ...this.executeRetry(step, execution, backoffDelay, orchestrationState),
+      issue: this.createIssue(step.id, 'timeout', 'low',
+        `Step ${step.id} timed out on ${execution.agentId}`,
+        `Retried once; check the step's estimatedDuration if it keeps timing out`)
     };
   }
 
@@ -138,91 +190,33 @@ export class ErrorRecovery {
    * Handle rate limiting with appropriate backoff
    */
   private handleRateLimitFailure(
-    stepId: string,
+    step: ResearchStep,
     execution: ResearchStepExecution,
-    retryCount: number
-  ): {
-    recoveryAction: 'retry' | 'fallback' | 'escalate' | 'abort';
-    newExecution?: ResearchStepExecution;
-  } {
+    retryCount: number,
+    orchestrationState: OrchestrationState
+  ): RecoveryOutcome {
     // Rate limits typically need longer backoff
     const backoffDelay = Math.min(30000 * Math.pow(2, retryCount), 300000); // Max 5 minutes
-    this.backoffDelays.set(stepId, backoffDelay);
-
-    setTimeout(() => {
-      this.executeRetry(stepId, execution);
-    }, backoffDelay);
-
-    return {
-      recoveryAction: 'retry',
-      newExecution: {
-        ...execution,
-        status: 'pending',
-        retryCount: retryCount + 1
-      }
-    };
+    return this.executeRetry(step, execution, backoffDelay, orchestrationState);
   }
 
   /**
    * Handle agent unavailable failures by trying alternative agents
    */
-  private async handleAgentUnavailableFailure(
-    stepId: string,
+  private handleAgentUnavailableFailure(
+    step: ResearchStep,
     execution: ResearchStepExecution,
     orchestrationState: OrchestrationState
-  ): Promise<{
-    recoveryAction: 'retry' | 'fallback' | 'escalate' | 'abort';
-    newExecution?: ResearchStepExecution;
-    issue?: OrchestrationIssue;
-  }> {
-    // Try to find an alternative agent for this step
-    const alternativeAgent = this.findAlternativeAgent(execution.agentId, orchestrationState.plan.executionSteps);
-
-    if (alternativeAgent) {
-      // Delegate to alternative agent
-      try {
-        // Prefer public delegation methods if available. Fall back to any-cast to allow calling a private
-        // implementation if no public wrapper exists (keeps behavior without breaking TS compilation).
-        const stepDef = orchestrationState.plan.executionSteps.find(s => s.id === stepId)!;
-        const delegateCandidates = [
-          // common public wrapper names if implemented
-          (this.taskDelegator as any).delegate,
-          (this.taskDelegator as any).delegateStepPublic,
-          (this.taskDelegator as any).delegateStepToAgent,
-          // lastly, allow calling the underlying private method via any cast
-          (this.taskDelegator as any).delegateStep
-        ];
-
-        const delegateFn = delegateCandidates.find(fn => typeof fn === 'function')?.bind(this.taskDelegator);
-        if (!delegateFn) {
-          throw new Error('No delegate function available on TaskDelegator');
-        }
-
-        const newExecution = await delegateFn(stepDef, orchestrationState);
-
-        return {
-          recoveryAction: 'fallback',
-          newExecution: {
-            ...newExecution,
-            assignedAgent: alternativeAgent,
-            retryCount: execution.retryCount + 1
-          }
-        };
-      } catch (error) {
-        // Fallback failed, escalate
-        return {
-          recoveryAction: 'escalate',
-          issue: this.createIssue(stepId, 'agent-failure', 'high',
-            `Primary agent ${execution.agentId} and alternative agent ${alternativeAgent} both unavailable`,
-            `Consider manual intervention or system maintenance`)
-        };
-      }
+  ): RecoveryOutcome {
+    const fallback = this.executeFallback(step, execution, orchestrationState);
+    if (fallback) {
+      return fallback;
     }
 
     // No alternative available
     return {
       recoveryAction: 'escalate',
-      issue: this.createIssue(stepId, 'agent-failure', 'high',
+      issue: this.createIssue(step.id, 'agent-failure', 'high',
         `Agent ${execution.agentId} unavailable with no alternatives`,
         `Check agent health and consider adding redundant agents`)
     };
@@ -232,35 +226,23 @@ export class ErrorRecovery {
    * Handle data quality failures
    */
   private handleDataQualityFailure(
-    stepId: string,
+    step: ResearchStep,
     execution: ResearchStepExecution,
+    retryCount: number,
     orchestrationState: OrchestrationState
-  ): {
-    recoveryAction: 'retry' | 'fallback' | 'escalate' | 'abort';
-    newExecution?: ResearchStepExecution;
-    issue?: OrchestrationIssue;
-  } {
+  ): RecoveryOutcome {
     // For data quality issues, we typically can't retry the same agent
     // Try an alternative approach or escalate
-    const step = orchestrationState.plan.executionSteps.find(s => s.id === stepId);
-
-    if (step && this.canRetryWithDifferentParameters(step)) {
-      // Modify parameters and retry
-      return {
-        recoveryAction: 'retry',
-        newExecution: {
-          ...execution,
-          status: 'pending',
-          retryCount: execution.retryCount + 1
-        }
-      };
+    if (this.canRetryWithDifferentParameters(step)) {
+      // Search-style steps get a fresh attempt (the task request is rebuilt)
+      return this.executeRetry(step, execution, this.calculateBackoffDelay(retryCount), orchestrationState);
     }
 
     // Escalate data quality issues
     return {
       recoveryAction: 'escalate',
-      issue: this.createIssue(stepId, 'data-quality', 'medium',
-        `Data quality issues detected in step ${stepId}`,
+      issue: this.createIssue(step.id, 'data-quality', 'medium',
+        `Data quality issues detected in step ${step.id}`,
         `Review data validation rules and consider manual data verification`)
     };
   }
@@ -268,15 +250,11 @@ export class ErrorRecovery {
   /**
    * Handle critical failures that require escalation
    */
-  private async handleCriticalFailure(
+  private handleCriticalFailure(
     stepId: string,
-    execution: ResearchStepExecution,
-    error: any,
+    error: unknown,
     orchestrationState: OrchestrationState
-  ): Promise<{
-    recoveryAction: 'retry' | 'fallback' | 'escalate' | 'abort';
-    issue?: OrchestrationIssue;
-  }> {
+  ): RecoveryOutcome {
     // Check if this affects other steps
     const dependentSteps = this.findDependentSteps(stepId, orchestrationState);
 
@@ -285,7 +263,7 @@ export class ErrorRecovery {
     return {
       recoveryAction: 'escalate',
       issue: this.createIssue(stepId, 'agent-failure', severity,
-        `Critical failure in step ${stepId}: ${error.message}`,
+        `Critical failure in step ${stepId}: ${errorMessage(error)}`,
         `Manual intervention required. ${dependentSteps.length} dependent steps may be affected.`,
         dependentSteps)
     };
@@ -294,36 +272,32 @@ export class ErrorRecovery {
   /**
    * Handle exhausted retries - decide between fallback, escalation, or abort
    */
-  private async handleExhaustedRetries(
-    stepId: string,
+  private handleExhaustedRetries(
+    step: ResearchStep,
     execution: ResearchStepExecution,
     failureType: string,
     orchestrationState: OrchestrationState
-  ): Promise<{
-    recoveryAction: 'retry' | 'fallback' | 'escalate' | 'abort';
-    issue?: OrchestrationIssue;
-  }> {
-    const step = orchestrationState.plan.executionSteps.find(s => s.id === stepId);
-    const hasFallback = step?.fallbackStrategies && step.fallbackStrategies.length > 0;
+  ): RecoveryOutcome {
+    const stepId = step.id;
+    const hasFallback = step.fallbackStrategies.length > 0;
 
     if (hasFallback && failureType !== 'critical') {
-      // Try fallback strategy
-      return {
-        recoveryAction: 'fallback',
-        issue: this.createIssue(stepId, 'dependency-blocked', 'medium',
-          `Step ${stepId} failed after maximum retries, attempting fallback`,
-          `Fallback strategies: ${step.fallbackStrategies.join(', ')}`)
-      };
+      // Try fallback strategy on another agent type
+      const fallback = this.executeFallback(step, execution, orchestrationState);
+      if (fallback) {
+        return fallback;
+      }
     }
 
     // Check impact on overall research
     const dependentSteps = this.findDependentSteps(stepId, orchestrationState);
     const isCriticalPath = this.isCriticalPath(stepId, orchestrationState);
+    const issueType = failureType === 'timeout' ? 'timeout' : 'agent-failure';
 
     if (isCriticalPath || dependentSteps.length > 5) {
       return {
         recoveryAction: 'escalate',
-        issue: this.createIssue(stepId, 'agent-failure', 'critical',
+        issue: this.createIssue(stepId, issueType, 'critical',
           `Critical step ${stepId} failed permanently`,
           `This failure blocks ${dependentSteps.length} dependent steps. Manual intervention required.`,
           dependentSteps)
@@ -333,7 +307,7 @@ export class ErrorRecovery {
     // For non-critical steps, we can abort this step and continue
     return {
       recoveryAction: 'abort',
-      issue: this.createIssue(stepId, 'agent-failure', 'low',
+      issue: this.createIssue(stepId, issueType, 'low',
         `Step ${stepId} aborted after exhausting all recovery options`,
         `Research can continue with reduced scope`)
     };
@@ -351,31 +325,94 @@ export class ErrorRecovery {
   }
 
   /**
-   * Execute a retry for a failed step
+   * Re-delegate a failed step to the same agent type once the backoff delay has passed
    */
-  private async executeRetry(stepId: string, execution: ResearchStepExecution): Promise<void> {
-    try {
-      // Update retry count
-      this.retryAttempts.set(stepId, execution.retryCount + 1);
+  private executeRetry(
+    step: ResearchStep,
+    execution: ResearchStepExecution,
+    backoffDelay: number,
+    orchestrationState: OrchestrationState
+  ): RecoveryOutcome {
+    const key = stepKey(orchestrationState.researchId, step.id);
+    const newExecution = this.nextExecution(key, execution, execution.agentId as AgentType);
+    this.backoffDelays.set(key, backoffDelay);
 
-      // Re-delegate the task (this would need to be implemented in TaskDelegator)
-      console.log(`Retrying step ${stepId} (attempt ${execution.retryCount + 1})`);
+    console.log(`Retrying step ${step.id} on ${newExecution.agentId} in ${backoffDelay}ms (attempt ${newExecution.retryCount + 1})`);
+    this.taskDelegator.redelegateStep(step, orchestrationState, newExecution, backoffDelay);
 
-      // The actual retry logic would be handled by re-calling the task delegation
+    return {
+      recoveryAction: 'retry',
+      newExecution,
+      retryDelayMs: backoffDelay
+    };
+  }
 
-    } catch (error) {
-      console.error(`Retry failed for step ${stepId}:`, error);
-    } finally {
-      this.backoffDelays.delete(stepId);
+  /**
+   * Re-delegate a failed step to an alternative agent type, if one is left to try
+   */
+  private executeFallback(
+    step: ResearchStep,
+    execution: ResearchStepExecution,
+    orchestrationState: OrchestrationState
+  ): RecoveryOutcome | null {
+    const key = stepKey(orchestrationState.researchId, step.id);
+    const alternativeAgent = this.findAlternativeAgent(
+      execution.agentId,
+      orchestrationState.plan.executionSteps,
+      this.attemptedAgents.get(key) ?? new Set()
+    );
+    if (!alternativeAgent) {
+      return null;
     }
+
+    const newExecution = this.nextExecution(key, execution, alternativeAgent);
+    this.backoffDelays.delete(key);
+
+    console.log(`Falling back from ${execution.agentId} to ${alternativeAgent} for step ${step.id}`);
+    this.taskDelegator.redelegateStep(step, orchestrationState, newExecution);
+
+    return {
+      recoveryAction: 'fallback',
+      newExecution
+    };
   }
 
   /**
-   * Find an alternative agent for a failed step
+   * Build the pending execution that replaces the failed one. Retries are
+   * counted per agent type, so a fallback agent gets retries of its own.
    */
-  private findAlternativeAgent(failedAgent: string, steps: Array<{ agentType: string }>): string | null {
+  private nextExecution(key: string, execution: ResearchStepExecution, agentType: AgentType): ResearchStepExecution {
+    const attempts = this.retryAttempts.get(key) ?? new Map<string, number>();
+    const retryCount = (attempts.get(agentType) ?? 0) + (agentType === execution.agentId ? 1 : 0);
+    attempts.set(agentType, retryCount);
+    this.retryAttempts.set(key, attempts);
+
+    return {
+      stepId: execution.stepId,
+      agentId: agentType,
+      assignedAgent: agentType,
+      status: 'pending',
+      progressUpdates: [],
+      retryCount
+    };
+  }
+
+  private recordAttemptedAgent(key: string, agentType: string): void {
+    const attempted = this.attemptedAgents.get(key) ?? new Set<string>();
+    attempted.add(agentType);
+    this.attemptedAgents.set(key, attempted);
+  }
+
+  /**
+   * Find an alternative agent for a failed step, skipping agent types it already failed on
+   */
+  private findAlternativeAgent(
+    failedAgent: string,
+    steps: Array<{ agentType: string }>,
+    attemptedAgents: Set<string>
+  ): AgentType | null {
     // Define agent type mappings for fallbacks
-    const agentFallbacks: Record<string, string[]> = {
+    const agentFallbacks: Record<string, AgentType[]> = {
       'web-research': ['academic-research', 'news-research'],
       'academic-research': ['web-research', 'news-research'],
       'news-research': ['web-research', 'academic-research'],
@@ -386,6 +423,9 @@ export class ErrorRecovery {
 
     // Find a fallback that's not already overloaded
     for (const fallback of fallbacks) {
+      if (attemptedAgents.has(fallback)) {
+        continue;
+      }
       const usageCount = steps.filter(s => s.agentType === fallback).length;
       if (usageCount < 3) { // Arbitrary limit to prevent overload
         return fallback;
@@ -408,28 +448,23 @@ export class ErrorRecovery {
            description.includes('limit');
   }
 
+  private isPastDeadline(orchestrationState: OrchestrationState): boolean {
+    const { deadline } = orchestrationState.plan;
+    return deadline !== undefined && deadline.getTime() <= Date.now();
+  }
+
   /**
-   * Find steps that depend on the given step
+   * Find steps that depend on the given step, directly or transitively
    */
   private findDependentSteps(stepId: string, orchestrationState: OrchestrationState): string[] {
-    return orchestrationState.plan.executionSteps
-      .filter(step => step.dependencies.includes(stepId))
-      .map(step => step.id);
+    return new PlanGraph(orchestrationState.plan.executionSteps).getDescendants(stepId);
   }
 
   /**
-   * Check if a step is on the critical path
+   * Check if a step is on the critical path, so losing it delays or blocks the research
    */
   private isCriticalPath(stepId: string, orchestrationState: OrchestrationState): boolean {
-    // A simple heuristic: steps with high priority or many dependencies
-    const step = orchestrationState.plan.executionSteps.find(s => s.id === stepId);
-
-    if (!step) {return false;}
-
-    const dependentCount = this.findDependentSteps(stepId, orchestrationState).length;
-    const hasHighPriority = step.priority >= 4;
-
-    return hasHighPriority || dependentCount >= 3;
+    return new PlanGraph(orchestrationState.plan.executionSteps).isCritical(stepId);
   }
 
   /**
@@ -444,7 +479,7 @@ export class ErrorRecovery {
     affectedSteps?: string[]
   ): OrchestrationIssue {
     return {
-      id: `issue-${stepId}-${Date.now()}`,
+      id: uuidv4(),
       type,
       severity,
       description,
@@ -457,15 +492,16 @@ export class ErrorRecovery {
   /**
    * Get recovery status for a step
    */
-  getRecoveryStatus(stepId: string): {
+  getRecoveryStatus(researchId: string, stepId: string): {
     retryCount: number;
     backoffDelay: number;
     inProgress: boolean;
   } {
+    const key = stepKey(researchId, stepId);
     return {
-      retryCount: this.retryAttempts.get(stepId) ?? 0,
-      backoffDelay: this.backoffDelays.get(stepId) ?? 0,
-      inProgress: this.recoveryInProgress.has(stepId)
+      retryCount: sum(this.retryAttempts.get(key)?.values() ?? []),
+      backoffDelay: this.backoffDelays.get(key) ?? 0,
+      inProgress: this.recoveryInProgress.has(key)
     };
   }
 
@@ -474,11 +510,12 @@ export class ErrorRecovery {
    */
   cleanupRecoveryState(researchId: string): void {
     // Clean up step-specific recovery state
-    for (const [stepId] of this.retryAttempts.entries()) {
-      if (stepId.startsWith(`${researchId}-`)) {
-        this.retryAttempts.delete(stepId);
-        this.backoffDelays.delete(stepId);
-        this.recoveryInProgress.delete(stepId);
+    for (const key of this.attemptedAgents.keys()) {
+      if (isStepKeyOf(key, researchId)) {
+        this.retryAttempts.delete(key);
+        this.backoffDelays.delete(key);
+        this.recoveryInProgress.delete(key);
+        this.attemptedAgents.delete(key);
       }
     }
   }
@@ -491,7 +528,7 @@ export class ErrorRecovery {
     activeRecoveries: number;
     successRate: number;
   } {
-    const totalRetries = Array.from(this.retryAttempts.values()).reduce((sum, count) => sum + count, 0);
+    const totalRetries = sum(Array.from(this.retryAttempts.values()).flatMap(attempts => Array.from(attempts.values())));
     const activeRecoveries = this.recoveryInProgress.size;
 
     // Calculate success rate (simplified - would need more tracking in real implementation)
@@ -503,4 +540,19 @@ export class ErrorRecovery {
       successRate
     };
   }
-}
\ No newline at end of file
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// A field such as `code` or `status` that transport errors carry
+function errorField(error: unknown, field: string): unknown {
+  return typeof error === 'object' && error !== null && field in error
+    ? (error as Record<string, unknown>)[field]
+    : undefined;
+}
+
+function sum(counts: Iterable<number>): number {
+  return Array.from(counts).reduce((total, count) => total + count, 0);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { ResearchResult, SourceCitation } from '../shared/interfaces.js';
+import { ContradictionAnalyzer } from './contradiction-analysis.js';
+import { GroundedSynthesizer } from './grounded-synthesis.js';
+import { SemanticSimilarity } from './semantic-similarity.js';
+
+const source = (title: string): SourceCitation => ({
+  url: `https://example.com/${title.toLowerCase().replace(/\s+/g, '-')}`,
+  title,
+  credibilityScore: 0.8,
+  type: 'web',
+  accessedAt: new Date('2026-01-10T00:00:00Z'),
+});
+
+const researchResult: ResearchResult = {
+  topic: 'Acme Corp',
+  findings: [
+    { claim: 'Acme sales grew 35% in 2023', evidence: 'The annual report shows sales grew 35% in 2023', confidence: 0.9, sources: [0], category: 'factual' },
+    { claim: 'Acme opened 12 stores in Spain', evidence: '', confidence: 0.7, sources: [1], category: 'factual' },
+  ],
+  sources: [source('Annual Report'), source('Store News'), source('Unused Source')],
+  methodology: 'test',
+  confidence: 0.8,
+  generatedAt: new Date('2026-01-10T00:00:00Z'),
+  processingTime: 0,
+};
+
+const synthesizer = (unsupportedSentences: 'flag' | 'remove' = 'flag') => new GroundedSynthesizer(
+  new ContradictionAnalyzer(new SemanticSimilarity({ embedder: 'local' }), { judge: 'rules' }),
+  { writer: 'template', unsupportedSentences }
+);
+
+describe('GroundedSynthesizer.verify', () => {
+  it('labels each sentence by whether the evidence it cites supports it', async () => {
+    const draft = [
+      '# Research Synthesis: Acme Corp',
+      '',
+      'Acme sales grew 35% in 2023 [1]. Acme sales grew 35% in 2023 and the company was fined for fraud [1].',
+      '- Acme sales fell 35% in 2023 [1].',
+      '- Acme opened 12 stores in Spain. [2]',
+      'Acme is well known. Acme plans more stores [3].',
+    ].join('\n');
+
+    const { narrative, attribution } = await synthesizer().verify(draft, researchResult);
+
+    expect(attribution.sentences.map(sentence => [sentence.sentence, sentence.status])).toEqual([
+      ['Acme sales grew 35% in 2023.', 'supported'],
+      ['Acme sales grew 35% in 2023 and the company was fined for fraud.', 'unsupported'],
+      ['Acme sales fell 35% in 2023.', 'contradicted'],
+      ['Acme opened 12 stores in Spain.', 'supported'],
+      ['Acme is well known.', 'uncited'],
+      ['Acme plans more stores.', 'unsupported'],
+    ]);
+    expect(attribution.sentences[5].rationale).toBe('The cited sources have no evidence to check against');
+    expect(attribution.supportedRate).toBeCloseTo(2 / 6);
+    expect(narrative).toContain('Acme sales grew 35% in 2023 [1]. Acme sales grew 35% in 2023 and the company was fined for fraud [1]. [unsupported]');
+    expect(narrative).toContain('- Acme sales fell 35% in 2023 [1]. [unsupported]');
+    expect(narrative).toContain('## Sources\n\n[1] Annual Report. https://example.com/annual-report');
+  });
+
+  it('leaves out unsupported sentences in remove mode', async () => {
+    const draft = 'Acme sales grew 35% in 2023 [1]. Acme was fined for fraud [1].\n- Acme is well known.';
+
+    const { narrative, attribution } = await synthesizer('remove').verify(draft, researchResult);
+
+    expect(attribution.removedSentences).toBe(2);
+    expect(narrative.split('\n\n## Sources')[0]).toBe('Acme sales grew 35% in 2023 [1].');
+  });
+
+  it('writes a grounded synthesis from the findings without the model', async () => {
+    const { narrative, attribution } = await synthesizer().synthesize(researchResult, ['Explain growth']);
+
+    expect(narrative).toContain('- Acme sales grew 35% in 2023 [1].');
+    expect(narrative).toContain('- Acme opened 12 stores in Spain [2].');
+    expect(attribution.supportedRate).toBe(1);
+  });
+});
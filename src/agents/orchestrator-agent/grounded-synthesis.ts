@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import type { ResearchResult, SentenceAttribution, SynthesisAttribution } from '../shared/interfaces.js';
+import { ai } from './genkit.js';
+import { ContradictionAnalyzer } from './contradiction-analysis.js';
+
+const groundedSynthesisPrompt = ai.definePrompt({
+  name: 'grounded-synthesis',
+  input: {
+    schema: z.object({
+      topic: z.string(),
+      objectives: z.array(z.string()),
+      findings: z.array(z.object({ claim: z.string(), evidence: z.string(), citations: z.string() })),
+    }),
+  },
+  prompt: `
+You are a research writer. Write a synthesis of the findings below on "{{topic}}" in Markdown, addressing these objectives: {{#each objectives}}{{this}}; {{/each}}
+
+Rules:
+- Use only the findings below; do not add facts, numbers or sources of your own
+- End every sentence with the citation markers of the findings it is based on, before the full stop, e.g. "Sales grew 35% in 2023 [1][3]."
+- Use section headings (##) and paragraphs; do not add a list of sources
+
+{{#each findings}}
+Finding: {{claim}}
+Evidence: {{evidence}}
+Cite as: {{citations}}
+
+{{/each}}
+`,
+});
+
+/**
+ * Grounded Synthesis for the Orchestrator Agent
+ * Writes a synthesis in which every sentence cites the aggregated sources as
+ * inline markers ([n] for `ResearchResult.sources[n - 1]`), then verifies each
+ * sentence against the evidence of the findings that cite its sources. The
+ * draft is written by the model; a draft without citations, or a failed call,
+ * falls back to one sentence per finding. Sentences their sources do not
+ * support are flagged `[unsupported]` or, with `unsupportedSentences: 'remove'`, dropped.
+ */
+export class GroundedSynthesizer {
+  private static readonly CITATION_MARKERS = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+  private writer: 'model' | 'template';
+  private unsupportedSentences: 'flag' | 'remove';
+  private maxEvidencePerSentence: number;
+
+  constructor(private contradictionAnalyzer: ContradictionAnalyzer = new ContradictionAnalyzer(), options: GroundedSynthesizerOptions = {}) {
+    this.writer = options.writer ?? 'model';
+    this.unsupportedSentences = options.unsupportedSentences
+      ?? (process.env.ORCHESTRATOR_UNSUPPORTED_SENTENCES === 'remove' ? 'remove' : 'flag');
+    this.maxEvidencePerSentence = options.maxEvidencePerSentence ?? 5;
+  }
+
+  /**
+   * Write and verify a citation-grounded synthesis of the aggregated research
+   */
+  async synthesize(researchResult: ResearchResult, objectives: string[]): Promise<GroundedSynthesis> {
+    const draft = (this.writer === 'model' ? await this.writeWithModel(researchResult, objectives) : undefined)
+      ?? this.writeFromFindings(researchResult);
+    return this.verify(`# Research Synthesis: ${researchResult.topic}\n\n${draft}`, researchResult);
+  }
+
+  /**
+   * Check that the evidence of the sources each sentence of a draft cites
+   * supports the whole sentence, flag or remove those that are not supported, and append the list
+   * of sources. Headings are kept as they are.
+   */
+  async verify(draft: string, researchResult: ResearchResult): Promise<GroundedSynthesis> {
+    const sourceEvidence = this.collectSourceEvidence(researchResult);
+    const lines = draft.split('\n').map(line => {
+      const [, prefix, text] = /^(\s*(?:[-*]|\d+\.)?\s*)(.*)$/.exec(line)!;
+      const verifiable = text.trim().length > 0 && !text.startsWith('#');
+      return { prefix, sentences: verifiable ? this.parseSentences(text, researchResult.sources.length) : undefined, line };
+    });
+
+    // Check each cited sentence against the evidence of its sources, taken together, in one batch
+    const sentences = lines.flatMap(line => line.sentences ?? []);
+    const evidence = sentences.map(sentence => sentence.sourceIndices
+      .flatMap(sourceIndex => sourceEvidence.get(sourceIndex) ?? [])
+      .slice(0, this.maxEvidencePerSentence));
+    const checked = sentences.flatMap((sentence, sentenceIndex) => evidence[sentenceIndex].length > 0
+      ? [{ sentenceIndex, evidence: evidence[sentenceIndex].join('\n'), claim: sentence.sentence }]
+      : []);
+    const judgements = new Map((await this.contradictionAnalyzer.checkSupport(checked))
+      .map((judgement, index) => [checked[index].sentenceIndex, judgement]));
+
+    const attributions: SentenceAttribution[] = sentences.map(({ sentence, sourceIndices }, sentenceIndex) => {
+      if (sourceIndices.length === 0) {
+        return { sentence, sourceIndices, status: 'uncited', rationale: 'The sentence cites no source' };
+      }
+      const judgement = judgements.get(sentenceIndex);
+      if (!judgement) {
+        return { sentence, sourceIndices, status: 'unsupported', rationale: 'The cited sources have no evidence to check against' };
+      }
+      if (judgement.label === 'entails') {
+        return { sentence, sourceIndices, status: 'supported', rationale: judgement.rationale };
+      }
+      if (judgement.label === 'contradicts') {
+        return { sentence, sourceIndices, status: 'contradicted', rationale: judgement.rationale };
+      }
+      return { sentence, sourceIndices, status: 'unsupported', rationale: judgement.rationale };
+    });
+
+    // Rebuild the draft with the verdicts applied
+    let attributionIndex = 0;
+    let removedSentences = 0;
+    const output: string[] = [];
+    for (const line of lines) {
+      if (!line.sentences) {
+        output.push(line.line);
+        continue;
+      }
+      const kept = line.sentences.flatMap(sentence => {
+        const attribution = attributions[attributionIndex++];
+        if (attribution.status === 'supported') {
+          return [sentence.text];
+        }
+        if (this.unsupportedSentences === 'remove') {
+          removedSentences++;
+          return [];
+        }
+        return [`${sentence.text} [unsupported]`];
+      });
+      if (kept.length > 0) {
+        output.push(line.prefix + kept.join(' '));
+      }
+    }
+
+    const sourceList = researchResult.sources.map((source, index) => `[${index + 1}] ${source.title}. ${source.url}`);
+    const narrative = output.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+      + (sourceList.length > 0 ? `\n\n## Sources\n\n${sourceList.join('\n')}` : '');
+
+    return {
+      narrative,
+      attribution: {
+        sentences: attributions,
+        supportedRate: attributions.length > 0 ? attributions.filter(a => a.status === 'supported').length / attributions.length : 0,
+        removedSentences,
+      },
+    };
+  }
+
+  private async writeWithModel(researchResult: ResearchResult, objectives: string[]): Promise<string | undefined> {
+    try {
+      const { text } = await groundedSynthesisPrompt({
+        topic: researchResult.topic,
+        objectives,
+        findings: researchResult.findings.map(finding => ({
+          claim: finding.claim,
+          evidence: finding.evidence,
+          citations: this.formatMarkers(finding.sources) || '(no sources)',
+        })),
+      });
+      if (text.match(GroundedSynthesizer.CITATION_MARKERS)) {
+        return text.replace(/^#\s.*\n+/, ''); // the title is added with the research topic
+      }
+      console.warn('[GroundedSynthesizer] Model draft cites no sources, writing the synthesis from the findings');
+    } catch (error) {
+      console.warn('[GroundedSynthesizer] Model draft failed, writing the synthesis from the findings:', error instanceof Error ? error.message : error);
+    }
+    return undefined;
+  }
+
+  /**
+   * One sentence per finding, most confident first, citing the finding's sources
+   */
+  private writeFromFindings(researchResult: ResearchResult): string {
+    const sentences = [...researchResult.findings]
+      .sort((a, b) => b.confidence - a.confidence)
+      .map(finding => {
+        const markers = this.formatMarkers(finding.sources);
+        return `${finding.claim.trim().replace(/[.!?]+$/, '')}${markers ? ` ${markers}` : ''}.`;
+      });
+    return `## Key Findings\n\n${sentences.map(sentence => `- ${sentence}`).join('\n')}`;
+  }
+
+  private formatMarkers(sourceIndices: number[]): string {
+    return sourceIndices.map(index => `[${index + 1}]`).join('');
+  }
+
+  /**
+   * The evidence each source provides: the claims and evidence of the
+   * findings that cite it
+   */
+  private collectSourceEvidence(researchResult: ResearchResult): Map<number, string[]> {
+    const sourceEvidence = new Map<number, string[]>();
+    for (const finding of researchResult.findings) {
+      const evidence = [finding.claim, finding.evidence].filter(text => text.trim().length > 0).join(' — ');
+      for (const sourceIndex of finding.sources) {
+        sourceEvidence.set(sourceIndex, [...sourceEvidence.get(sourceIndex) ?? [], evidence]);
+      }
+    }
+    return sourceEvidence;
+  }
+
+  /**
+   * Split text into sentences with the source indices they cite. Markers may
+   * follow the full stop ("grew. [1]") or precede it ("grew [1]."); markers
+   * outside the source list are ignored.
+   */
+  private parseSentences(text: string, sourceCount: number): ParsedSentence[] {
+    return text
+      .split(/(?<=[.!?](?:\s*\[\d+(?:\s*,\s*\d+)*\])*)\s+(?=[^\s[])/)
+      .filter(sentence => sentence.trim().length > 0)
+      .map(sentence => {
+        const sourceIndices = new Set<number>();
+        for (const match of sentence.matchAll(GroundedSynthesizer.CITATION_MARKERS)) {
+          match[1].split(',')
+            .map(marker => Number(marker.trim()) - 1)
+            .filter(index => index >= 0 && index < sourceCount)
+            .forEach(index => sourceIndices.add(index));
+        }
+        return {
+          text: sentence.trim(),
+          sentence: sentence.replace(GroundedSynthesizer.CITATION_MARKERS, '').trim(),
+          sourceIndices: Array.from(sourceIndices),
+        };
+      });
+  }
+}
+
+export interface GroundedSynthesis {
+  narrative: string; // Markdown with inline citation markers and a list of sources
+  attribution: SynthesisAttribution;
+}
+
+interface ParsedSentence {
+  text: string; // as written, with its citation markers
+  sentence: string;
+  sourceIndices: number[];
+}
+
+export interface GroundedSynthesizerOptions {
+  writer?: 'model' | 'template'; // 'template' writes one sentence per finding without the model
+  unsupportedSentences?: 'flag' | 'remove';
+  maxEvidencePerSentence?: number; // evidence passages checked per sentence
+}
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TaskRequest, TaskResponse } from '../shared/interfaces.js';
+import { TaskCancelledError, TaskTimeoutError, type A2ACommunicationManager } from './a2a-communication.js';
+import { MessageRouter, type AgentInfo, type MessageRouterOptions } from './message-router.js';
+
+const request: TaskRequest = { taskId: 'task-1', type: 'research', parameters: {}, priority: 3 };
+
+const agent = (id: string, capabilities: string[] = []): AgentInfo => ({
+  id,
+  type: 'web-research',
+  capabilities,
+  endpoint: `http://${id}`,
+  status: 'active',
+  registeredAt: new Date(),
+  lastSeen: new Date(),
+});
+
+// Delivers to every endpoint but the failing ones
+function createRouter(failures: Record<string, Error> = {}, options?: MessageRouterOptions) {
+  const sendTask = vi.fn(async (_agentType: string, taskRequest: TaskRequest, endpoint?: string): Promise<TaskResponse> => {
+    const failure = failures[endpoint ?? ''];
+    if (failure) {
+      throw failure;
+    }
+    return { taskId: taskRequest.taskId, status: 'success', result: { endpoint }, processingTime: 1 };
+  });
+  const router = new MessageRouter({ sendTask } as unknown as A2ACommunicationManager, options);
+  return { router, sendTask, endpoints: () => sendTask.mock.calls.map(call => call[2]) };
+}
+
+describe('MessageRouter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('falls back to the next target when a delivery fails', async () => {
+    const { router, endpoints } = createRouter({ 'http://web-research-agent': new Error('connection refused') });
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+    router.registerAgent('web-research-agent-2', agent('web-research-agent-2'));
+
+    const response = await router.routeTask('web-research', request);
+
+    expect(response.result).toEqual({ endpoint: 'http://web-research-agent-2' });
+    expect(endpoints()).toEqual(['http://web-research-agent', 'http://web-research-agent-2']);
+  });
+
+  it('rethrows the last error once every target has failed', async () => {
+    const { router } = createRouter({
+      'http://web-research-agent': new Error('connection refused'),
+      'http://web-research-agent-2': new Error('bad gateway'),
+    });
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+    router.registerAgent('web-research-agent-2', agent('web-research-agent-2'));
+
+    await expect(router.routeTask('web-research', request)).rejects.toThrow('bad gateway');
+  });
+
+  it('does not send a cancelled task on to another target', async () => {
+    const { router, endpoints } = createRouter({ 'http://web-research-agent': new TaskCancelledError('task-1') });
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+    router.registerAgent('web-research-agent-2', agent('web-research-agent-2'));
+
+    await expect(router.routeTask('web-research', request)).rejects.toBeInstanceOf(TaskCancelledError);
+    expect(endpoints()).toEqual(['http://web-research-agent']);
+  });
+
+  it('routes to the agent of a matching rule and counts its hits and deliveries', async () => {
+    const { router, endpoints } = createRouter();
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+    router.registerAgent('deep-web-agent', agent('deep-web-agent', ['deep-crawl']));
+    router.addRoutingRule('task-request', { id: 'deep-crawl', targetAgentId: 'deep-web-agent', requiredCapability: 'deep-crawl', priority: 5, timeout: 60000 });
+    router.addRoutingRule('task-request', { id: 'missing-capability', targetAgentId: 'web-research-agent', requiredCapability: 'deep-crawl', priority: 9, timeout: 60000 });
+
+    await router.routeTask('web-research', request);
+
+    expect(endpoints()).toEqual(['http://deep-web-agent']);
+    const rules = router.getRoutingStats().rules;
+    expect(rules.find(rule => rule.ruleId === 'deep-crawl')).toMatchObject({ hits: 1, delivered: 1 });
+    expect(rules.find(rule => rule.ruleId === 'missing-capability')).toMatchObject({ hits: 0, delivered: 0 });
+  });
+
+  it('fills in template variables and skips rules whose variables cannot be resolved', async () => {
+    const { router, endpoints } = createRouter();
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+    router.registerAgent('web-research-agent-eu', agent('web-research-agent-eu'));
+    router.addRoutingRule('task-request', { id: 'by-region', targetAgentId: '${agentType}-agent-${payload.metadata.region}', priority: 5, timeout: 60000 });
+
+    await router.routeTask('web-research', { ...request, metadata: { region: 'eu' } });
+    await router.routeTask('web-research', request);
+
+    expect(endpoints()).toEqual(['http://web-research-agent-eu', 'http://web-research-agent']);
+    expect(router.getRoutingStats().rules.find(rule => rule.ruleId === 'by-region')).toMatchObject({ hits: 1 });
+  });
+
+  it('sends tasks past the primary agent\'s load threshold to the least loaded agent', async () => {
+    const { router, sendTask, endpoints } = createRouter();
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+    router.registerAgent('web-research-agent-2', agent('web-research-agent-2'));
+    router.registerAgent('web-research-agent-3', agent('web-research-agent-3'));
+    // The first three tasks keep running
+    sendTask.mockImplementationOnce(() => new Promise(() => undefined))
+      .mockImplementationOnce(() => new Promise(() => undefined))
+      .mockImplementationOnce(() => new Promise(() => undefined));
+
+    void router.routeTask('web-research', request);
+    void router.routeTask('web-research', request);
+    void router.routeTask('web-research', request);
+    await router.routeTask('web-research', request);
+
+    // Below the threshold of 2 the primary takes tasks; past it the idle agent does
+    expect(endpoints()).toEqual(['http://web-research-agent', 'http://web-research-agent', 'http://web-research-agent-2', 'http://web-research-agent-3']);
+    expect(router.getRoutingStats().activeTasks).toBe(3);
+  });
+
+  it('skips an agent that keeps failing until its cooldown has passed, and recovers it on a healthy probe', async () => {
+    vi.useFakeTimers();
+    const failures: Record<string, Error> = { 'http://web-research-agent': new Error('connection refused') };
+    const { router, endpoints } = createRouter(failures, { unhealthyCooldownMs: 60000 });
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+    router.registerAgent('web-research-agent-2', agent('web-research-agent-2'));
+
+    for (let i = 0; i < 3; i++) {
+      await router.routeTask('web-research', request);
+    }
+    expect(router.getRoutingStats().activeAgents).toBe(1);
+
+    await router.routeTask('web-research', request);
+    expect(endpoints().slice(6)).toEqual(['http://web-research-agent-2']);
+
+    // Past the cooldown a failed trial delivery starts the cooldown again
+    vi.advanceTimersByTime(60000);
+    await router.routeTask('web-research', request);
+    await router.routeTask('web-research', request);
+    expect(endpoints().slice(7)).toEqual(['http://web-research-agent', 'http://web-research-agent-2', 'http://web-research-agent-2']);
+
+    delete failures['http://web-research-agent'];
+    router.recordHealthyProbe('web-research-agent');
+    await router.routeTask('web-research', request);
+    expect(endpoints().slice(10)).toEqual(['http://web-research-agent']);
+    expect(router.getRoutingStats().activeAgents).toBe(2);
+  });
+
+  it('leaves an agent healthy when its tasks are cancelled or time out', async () => {
+    const failures: Record<string, Error> = { 'http://web-research-agent': new TaskTimeoutError('task-1', 'web-research', 1000) };
+    const { router } = createRouter(failures);
+    router.registerAgent('web-research-agent', agent('web-research-agent'));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(router.routeTask('web-research', request)).rejects.toBeInstanceOf(TaskTimeoutError);
+    }
+    failures['http://web-research-agent'] = new TaskCancelledError('task-1');
+    for (let i = 0; i < 3; i++) {
+      await expect(router.routeTask('web-research', request)).rejects.toBeInstanceOf(TaskCancelledError);
+    }
+
+    expect(router.getRoutingStats().activeAgents).toBe(1);
+  });
+});
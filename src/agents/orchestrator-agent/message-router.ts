@@ -1,17 +1,22 @@
-import type { OrchestrationState, A2AMessage } from '../shared/interfaces.js';
-import { ResearchStepExecution, TaskResponse } from '../shared/interfaces.js';
-import type { TaskDelegator } from './task-delegator.js';
+import type { A2AMessage, AgentType, OrchestrationState, ResearchStep, TaskRequest, TaskResponse } from '../shared/interfaces.js';
+import { TaskCancelledError, TaskTimeoutError, type A2ACommunicationManager } from './a2a-communication.js';
 
 /**
  * Message Router for the Orchestrator Agent
- * Handles A2A message routing, agent discovery, and communication coordination
+ * Routes A2A messages to registered agents: routing rules and load pick the
+ * target, and the A2A communication manager delivers to it
  */
 export class MessageRouter {
   private agentRegistry: Map<string, AgentInfo> = new Map();
-  private messageQueue: A2AMessage[] = [];
   private routingRules: Map<string, RoutingRule[]> = new Map();
-
-  constructor(private taskDelegator: TaskDelegator) {
+  private ruleSource = 'built-in';
+  private ruleStats: Map<string, RuleStats> = new Map();
+  private deliveries = 0;
+  private totalResponseTime = 0;
+  private unhealthyCooldownMs: number;
+
+  constructor(private communicationManager: A2ACommunicationManager, options: MessageRouterOptions = {}) {
+    this.unhealthyCooldownMs = options.unhealthyCooldownMs ?? 60000;
     this.initializeRoutingRules();
   }
 
@@ -23,24 +28,130 @@ export class MessageRouter {
       ...info,
       registeredAt: new Date(),
       lastSeen: new Date(),
-      status: 'active'
+      status: 'active',
+      activeTasks: this.agentRegistry.get(agentId)?.activeTasks ?? 0, // tasks still running from before
     });
   }
 
+  /**
+   * Mark an agent that failed deliveries healthy again after a successful
+   * health probe
+   */
+  recordHealthyProbe(agentId: string): void {
+    const agent = this.agentRegistry.get(agentId);
+    if (!agent) {
+      return;
+    }
+    agent.lastSeen = new Date();
+    if (agent.status === 'unhealthy') {
+      agent.status = 'active';
+      agent.consecutiveFailures = 0;
+      agent.unhealthySince = undefined;
+    }
+  }
+
   /**
    * Unregister an agent from the router
    */
   unregisterAgent(agentId: string): void {
     this.agentRegistry.delete(agentId);
-    // Clean up routing rules for this agent
-    this.routingRules.delete(agentId);
   }
 
   /**
-   * Route a message to the appropriate agent(s)
+   * Add a routing rule for a message type
+   */
+  addRoutingRule(messageType: string, rule: RoutingRule): void {
+    const rules = this.routingRules.get(messageType) ?? [];
+    this.routingRules.set(messageType, [...rules.filter(existing => existing.id !== rule.id), rule]);
+  }
+
+  /**
+   * Replace every routing rule, e.g. with those of a routing config file.
+   * Hit counts carry over for rules whose ID is kept.
+   */
+  setRoutingRules(rules: RoutingRule[], source: string): void {
+    const routingRules = new Map<string, RoutingRule[]>();
+    for (const rule of rules) {
+      const messageType = rule.messageType ?? 'task-request';
+      routingRules.set(messageType, [...routingRules.get(messageType) ?? [], rule]);
+    }
+    this.routingRules = routingRules;
+    this.ruleSource = source;
+
+    const ruleIds = new Set(rules.map(rule => rule.id));
+    for (const ruleId of this.ruleStats.keys()) {
+      if (!ruleIds.has(ruleId)) {
+        this.ruleStats.delete(ruleId);
+      }
+    }
+  }
+
+  /**
+   * Route a message. Task requests are delivered to the best target, falling
+   * back to the next one when delivery fails; cancellations reach the agent
+   * running the task; status updates and errors are addressed to the orchestrator.
+   */
+  async routeMessage(message: A2AMessage, orchestrationState?: OrchestrationState): Promise<RoutingResult> {
+    switch (message.type) {
+      case 'task-request':
+        return this.routeTaskRequest(message, orchestrationState);
+
+      case 'cancel': {
+        const cancelled = await this.communicationManager.cancelTask(message.payload?.taskId);
+        return {
+          success: cancelled,
+          messageId: message.id,
+          results: [{ agentId: message.to, success: cancelled }],
+          error: cancelled ? undefined : `Task ${message.payload?.taskId} could not be cancelled`,
+        };
+      }
+
+      case 'status-update':
+        console.log(`[MessageRouter] Status update from ${message.from}:`, message.payload);
+        return { success: true, messageId: message.id };
+
+      case 'error':
+        console.error(`[MessageRouter] Error from ${message.from}:`, message.payload);
+        return { success: true, messageId: message.id };
+
+      default:
+        return { success: false, messageId: message.id, error: `Unknown message type: ${message.type}` };
+    }
+  }
+
+  /**
+   * Send a research task to the best agent of a type and wait for its result,
+   * falling back to the next target when delivery fails. Without registered
+   * agents of the type, the task goes to the type's configured endpoint. The
+   * last delivery error is rethrown unchanged for error recovery.
    */
-  async routeMessage(message: A2AMessage, orchestrationState: OrchestrationState): Promise<RoutingResult> {
-    const routingDecision = await this.determineRouting(message, orchestrationState);
+  async routeTask(agentType: AgentType, taskRequest: TaskRequest, orchestrationState?: OrchestrationState): Promise<TaskResponse> {
+    const message = this.createTaskMessage(agentType, taskRequest);
+    const { targets } = this.determineRouting(message, orchestrationState, agentType);
+
+    if (targets.length === 0) {
+      return this.communicationManager.sendTask(agentType, taskRequest);
+    }
+
+    let lastError: unknown;
+    for (const target of targets) {
+      try {
+        return await this.deliverTask(message, agentType, target);
+      } catch (error) {
+        // A cancelled task must not run elsewhere, and a timed out one has used up its time
+        if (error instanceof TaskCancelledError || error instanceof TaskTimeoutError) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private async routeTaskRequest(message: A2AMessage, orchestrationState?: OrchestrationState): Promise<RoutingResult> {
+    const taskRequest = message.payload as TaskRequest;
+    const agentType = (message.payload?.agentType ?? message.payload?.step?.agentType) as AgentType | undefined;
+    const routingDecision = this.determineRouting(message, orchestrationState, agentType);
 
     if (routingDecision.targets.length === 0) {
       return {
@@ -50,21 +161,21 @@ export class MessageRouter {
       };
     }
 
+    // Each task runs once: try the targets in order until one accepts it
     const results: RouteResult[] = [];
-
     for (const target of routingDecision.targets) {
+      const startedAt = Date.now();
       try {
-        const result = await this.sendToAgent(message, target);
-        results.push(result);
-
-        // Update agent status based on response
-        this.updateAgentStatus(target.agentId, result.success);
-
+        const agent = this.agentRegistry.get(target.agentId)!;
+        const response = await this.deliverTask({ ...message, payload: taskRequest }, agentType ?? agent.type as AgentType, target);
+        results.push({ agentId: target.agentId, success: true, response, responseTime: Date.now() - startedAt });
+        break;
       } catch (error) {
         results.push({
           agentId: target.agentId,
           success: false,
-          error: error instanceof Error ? error.message : String(error)
+          error: error instanceof Error ? error.message : String(error),
+          responseTime: Date.now() - startedAt,
         });
       }
     }
@@ -81,112 +192,125 @@ export class MessageRouter {
   }
 
   /**
-   * Determine the best routing targets for a message
+   * Deliver a task request to a target agent through the A2A client, tracking
+   * its load while the task runs
    */
-  private async determineRouting(message: A2AMessage, orchestrationState: OrchestrationState): Promise<RoutingDecision> {
-    const targets: RouteTarget[] = [];
-    const rules = this.routingRules.get(message.type) || [];
-
-    // Apply routing rules
-    for (const rule of rules) {
-      if (await this.evaluateRule(rule, message, orchestrationState)) {
-        const agent = this.agentRegistry.get(rule.targetAgentId);
-        if (agent && agent.status === 'active') {
-          targets.push({
-            agentId: rule.targetAgentId,
-            priority: rule.priority,
-            timeout: rule.timeout
-          });
-        }
-      }
+  private async deliverTask(message: A2AMessage, agentType: AgentType, target: RouteTarget): Promise<TaskResponse> {
+    const agent = this.agentRegistry.get(target.agentId);
+    if (!agent) {
+      throw new Error(`Agent ${target.agentId} not found in registry`);
     }
 
-    // If no rules matched, use default routing
-    if (targets.length === 0) {
-      targets.push(...this.getDefaultTargets(message, orchestrationState));
-    }
+    const taskRequest: TaskRequest = {
+      ...message.payload,
+      timeout: message.payload.timeout ?? target.timeout, // the delegator sizes timeouts to the step and deadline
+    };
+    const startedAt = Date.now();
+    agent.activeTasks = (agent.activeTasks ?? 0) + 1;
 
-    // Sort by priority and limit to max targets
-    targets.sort((a, b) => b.priority - a.priority);
+    try {
+      const response = await this.communicationManager.sendTask(agentType, taskRequest, agent.endpoint);
+      this.updateAgentStatus(target.agentId, true);
+      if (target.ruleId) {
+        this.getRuleStats(target.ruleId).delivered++;
+      }
+      return response;
+    } catch (error) {
+      // Cancelled and timed out tasks say nothing about the agent's health
+      if (!(error instanceof TaskCancelledError || error instanceof TaskTimeoutError)) {
+        this.updateAgentStatus(target.agentId, false);
+      }
+      throw error;
+    } finally {
+      agent.activeTasks = Math.max(0, (agent.activeTasks ?? 1) - 1);
+      this.deliveries++;
+      this.totalResponseTime += Date.now() - startedAt;
+    }
+  }
 
+  private createTaskMessage(agentType: AgentType, taskRequest: TaskRequest): A2AMessage {
     return {
-      targets: targets.slice(0, 3), // Max 3 targets
-      strategy: targets.length > 1 ? 'parallel' : 'single'
+      id: taskRequest.taskId,
+      from: 'orchestrator-agent',
+      to: `${agentType}-agent`,
+      type: 'task-request',
+      payload: { ...taskRequest, agentType },
+      timestamp: new Date(),
+      correlationId: taskRequest.metadata?.researchId,
     };
   }
 
   /**
-   * Send a message to a specific agent
+   * Determine the targets for a message, best first: agents named by matching
+   * rules, then every active agent of the requested type. Among equal
+   * priorities the least loaded agent goes first.
    */
-  private async sendToAgent(message: A2AMessage, target: RouteTarget): Promise<RouteResult> {
-    const agent = this.agentRegistry.get(target.agentId);
-    if (!agent) {
-      throw new Error(`Agent ${target.agentId} not found in registry`);
-    }
-
-    try {
-      // Create a timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Request timeout')), target.timeout);
-      });
+  private determineRouting(message: A2AMessage, orchestrationState: OrchestrationState | undefined, agentType?: AgentType): RoutingDecision {
+    const context = this.createRoutingContext(message, orchestrationState, agentType);
+    const targets = new Map<string, RouteTarget>();
+    const addTarget = (target: RouteTarget): void => {
+      const existing = targets.get(target.agentId);
+      if (!existing || target.priority > existing.priority) {
+        targets.set(target.agentId, target);
+      }
+    };
 
-      // Send the message (this would integrate with actual A2A transport)
-      const responsePromise = this.sendMessageToAgent(message, agent);
+    // Apply routing rules
+    for (const rule of this.routingRules.get(message.type) ?? []) {
+      const targetAgentId = this.interpolate(rule.targetAgentId, context);
+      if (targetAgentId === undefined || !this.evaluateRule(rule, targetAgentId, message, context)) {
+        continue;
+      }
+      const agents = this.resolveRuleTargets(targetAgentId, agentType);
+      if (agents.length > 0) {
+        const stats = this.getRuleStats(rule.id);
+        stats.hits++;
+        stats.lastHitAt = new Date();
+      }
+      for (const agent of agents) {
+        addTarget({ agentId: agent.id, priority: rule.priority, timeout: rule.timeout, ruleId: rule.id });
+      }
+    }
 
-      const response = await Promise.race([responsePromise, timeoutPromise]);
+    // Any active agent of the requested type can take the message
+    this.getDefaultTargets(agentType).forEach(addTarget);
 
-      return {
-        agentId: target.agentId,
-        success: true,
-        response,
-        responseTime: Date.now()
-      };
+    const ranked = Array.from(targets.values()).sort((a, b) =>
+      b.priority - a.priority ||
+      this.getAgentLoad(a.agentId) - this.getAgentLoad(b.agentId) ||
+      (this.agentRegistry.get(a.agentId)?.consecutiveFailures ?? 0) - (this.agentRegistry.get(b.agentId)?.consecutiveFailures ?? 0)
+    );
 
-    } catch (error) {
-      return {
-        agentId: target.agentId,
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
-      };
-    }
+    return {
+      targets: ranked.slice(0, 3), // Max 3 targets
+      strategy: ranked.length > 1 ? 'fallback' : 'single'
+    };
   }
 
   /**
-   * Send message to agent (placeholder for actual A2A transport)
+   * Active agents a rule sends to; `all` addresses every active agent
    */
-  private async sendMessageToAgent(message: A2AMessage, agent: AgentInfo): Promise<any> {
-    // This would be replaced with actual A2A communication
-    // For now, simulate agent response based on message type
+  private resolveRuleTargets(targetAgentId: string, agentType?: AgentType): AgentInfo[] {
+    const agents = targetAgentId === 'all'
+      ? Array.from(this.agentRegistry.values())
+      : [this.agentRegistry.get(targetAgentId)].filter((agent): agent is AgentInfo => agent !== undefined);
 
-    switch (message.type) {
-      case 'task-request':
-        // For task requests, we would delegate through the task delegator
-        // Since delegateStep is private, we'll simulate the delegation
-        return { status: 'delegated', taskId: message.payload?.taskId };
-
-      case 'status-update':
-        return { status: 'acknowledged' };
-
-      case 'error':
-        return { status: 'error-received' };
-
-      default:
-        return { status: 'processed' };
-    }
+    // A task only goes to an agent of the type it was delegated to
+    return agents.filter(agent => this.isAvailable(agent) && (!agentType || agent.type === agentType));
   }
 
   /**
    * Evaluate a routing rule against a message
    */
-  private async evaluateRule(rule: RoutingRule, message: A2AMessage, orchestrationState: OrchestrationState): Promise<boolean> {
+  private evaluateRule(rule: RoutingRule, targetAgentId: string, message: A2AMessage, context: RoutingContext): boolean {
     // Check message type match
     if (rule.messageType && rule.messageType !== message.type) {
       return false;
     }
 
     // Check agent capability match
-    if (rule.requiredCapability) {
-      const agent = this.agentRegistry.get(rule.targetAgentId);
+    if (rule.requiredCapability && targetAgentId !== 'all') {
+      const agent = this.agentRegistry.get(targetAgentId);
       if (!agent?.capabilities.includes(rule.requiredCapability)) {
         return false;
       }
@@ -194,27 +318,29 @@ export class MessageRouter {
 
     // Check orchestration state conditions
     if (rule.condition) {
-      return this.evaluateCondition(rule.condition, orchestrationState);
+      return this.evaluateCondition(this.interpolateCondition(rule.condition, context), context.state);
     }
 
     return true;
   }
 
   /**
-   * Evaluate a routing condition
+   * Evaluate a routing condition whose template variables have been filled in
    */
-  private evaluateCondition(condition: RoutingCondition, orchestrationState: OrchestrationState): boolean {
+  private evaluateCondition(condition: RoutingCondition, orchestrationState: OrchestrationState | undefined): boolean {
     switch (condition.type) {
       case 'step-status':
-        { const step = orchestrationState.activeSteps.find(e => e.stepId === condition.stepId);
-        return step?.status === condition.expectedStatus; }
+        { if (!condition.stepId || !orchestrationState) {
+          return false;
+        }
+        return this.getStepStatus(condition.stepId, orchestrationState) === condition.expectedStatus; }
 
       case 'agent-availability':
         { if (!condition.agentId) {
           return false;
         }
         const agent = this.agentRegistry.get(condition.agentId);
-        return agent?.status === 'active'; }
+        return agent !== undefined && this.isAvailable(agent); }
 
       case 'load-threshold':
         { if (!condition.agentId || condition.threshold === undefined) {
@@ -229,99 +355,104 @@ export class MessageRouter {
   }
 
   /**
-   * Get default routing targets when no rules match
+   * A step's status: its running execution's, its result's, or pending
    */
-  private getDefaultTargets(message: A2AMessage, orchestrationState: OrchestrationState): RouteTarget[] {
-    const targets: RouteTarget[] = [];
-
-    // For task execution messages, route to appropriate agent types
-    if (message.type === 'task-request') {
-      const step = message.payload?.step;
-      if (step) {
-        const { agentType } = step;
-        const agents = Array.from(this.agentRegistry.values())
-          .filter(agent => agent.type === agentType && agent.status === 'active')
-          .map(agent => ({
-            agentId: agent.id,
-            priority: 1,
-            timeout: 30000
-          }));
-
-        targets.push(...agents);
-      }
+  private getStepStatus(stepId: string, orchestrationState: OrchestrationState): string {
+    const execution = orchestrationState.activeSteps.find(e => e.stepId === stepId);
+    if (execution) {
+      return execution.status;
     }
-
-    // For other messages, route to orchestrator agents
-    if (targets.length === 0) {
-      const orchestrators = Array.from(this.agentRegistry.values())
-        .filter(agent => agent.type === 'orchestrator' && agent.status === 'active')
-        .map(agent => ({
-          agentId: agent.id,
-          priority: 1,
-          timeout: 30000
-        }));
-
-      targets.push(...orchestrators);
+    const result = orchestrationState.completedSteps.find(r => r.stepId === stepId);
+    if (result) {
+      return result.status === 'failed' ? 'failed' : 'completed';
     }
+    return 'pending';
+  }
+
+  /**
+   * Fill in `${path}` template variables, e.g. `${step.id}` or
+   * `${payload.metadata.researchId}`. Returns undefined when a variable cannot
+   * be resolved, so a rule or condition using it does not apply.
+   */
+  private interpolate(value: string, context: RoutingContext): string | undefined {
+    let unresolved = false;
+    const result = value.replace(/\$\{([^}]+)\}/g, (_, path: string) => {
+      const resolved = path.trim().split('.').reduce<any>((current, key) => current?.[key], context);
+      if (resolved === undefined || resolved === null) {
+        unresolved = true;
+        return '';
+      }
+      return String(resolved);
+    });
+    return unresolved ? undefined : result;
+  }
+
+  private interpolateCondition(condition: RoutingCondition, context: RoutingContext): RoutingCondition {
+    const interpolate = (value: string | undefined): string | undefined =>
+      value === undefined ? undefined : this.interpolate(value, context);
+
+    return {
+      ...condition,
+      stepId: interpolate(condition.stepId),
+      expectedStatus: interpolate(condition.expectedStatus),
+      agentId: interpolate(condition.agentId),
+    };
+  }
+
+  /**
+   * Values available to template variables: the message, its payload, the
+   * plan step a task request is for, the requested agent type and the research state
+   */
+  private createRoutingContext(message: A2AMessage, orchestrationState: OrchestrationState | undefined, agentType?: AgentType): RoutingContext {
+    const stepId = message.payload?.step?.id ?? message.payload?.metadata?.stepId;
+    const step: ResearchStep | undefined = message.payload?.step
+      ?? orchestrationState?.plan.executionSteps.find(s => s.id === stepId);
 
-    return targets;
+    return {
+      message,
+      payload: message.payload,
+      step,
+      agentType,
+      state: orchestrationState,
+    };
+  }
+
+  /**
+   * Get default routing targets: the active agents of the requested type
+   */
+  private getDefaultTargets(agentType?: AgentType): RouteTarget[] {
+    if (!agentType) {
+      return [];
+    }
+    return Array.from(this.agentRegistry.values())
+      .filter(agent => agent.type === agentType && this.isAvailable(agent))
+      .map(agent => ({
+        agentId: agent.id,
+        priority: 1,
+        timeout: 300000
+      }));
   }
 
   /**
-   * Initialize default routing rules
+   * Initialize default routing rules: a task goes to the first agent discovered
+   * for its type (`<type>-agent`, see AgentRegistry) while that agent has
+   * capacity; otherwise the least loaded agent of the type takes it
    */
   private initializeRoutingRules(): void {
-    // Task execution routing
-    this.routingRules.set('task-execution', [
-      {
-        id: 'web-research-routing',
-        messageType: 'task-execution',
-        targetAgentId: 'web-research-agent',
-        requiredCapability: 'web-search',
-        priority: 2,
-        timeout: 60000,
-        condition: {
-          type: 'step-status',
-          stepId: '${step.id}',
-          expectedStatus: 'pending'
-        }
-      },
+    this.routingRules.set('task-request', [
       {
-        id: 'academic-research-routing',
-        messageType: 'task-execution',
-        targetAgentId: 'academic-research-agent',
-        requiredCapability: 'academic-search',
+        id: 'primary-agent',
+        messageType: 'task-request',
+        targetAgentId: '${agentType}-agent',
         priority: 2,
-        timeout: 120000,
+        timeout: 300000,
         condition: {
-          type: 'step-status',
-          stepId: '${step.id}',
-          expectedStatus: 'pending'
+          type: 'load-threshold',
+          agentId: '${agentType}-agent',
+          threshold: 2
         }
       }
     ]);
-
-    // Status update routing
-    this.routingRules.set('status-update', [
-      {
-        id: 'orchestrator-status',
-        messageType: 'status-update',
-        targetAgentId: 'orchestrator-agent',
-        priority: 1,
-        timeout: 10000
-      }
-    ]);
-
-    // Health check routing
-    this.routingRules.set('health-check', [
-      {
-        id: 'health-check-all',
-        messageType: 'health-check',
-        targetAgentId: 'all',
-        priority: 1,
-        timeout: 5000
-      }
-    ]);
   }
 
   /**
@@ -335,36 +466,64 @@ export class MessageRouter {
         agent.consecutiveFailures = (agent.consecutiveFailures || 0) + 1;
         if (agent.consecutiveFailures >= 3) {
           agent.status = 'unhealthy';
+          agent.unhealthySince = new Date(); // a failed trial delivery restarts the cooldown
         }
       } else {
         agent.consecutiveFailures = 0;
         agent.status = 'active';
+        agent.unhealthySince = undefined;
       }
     }
   }
 
   /**
-   * Get current load for an agent
+   * Whether an agent can be routed to: active agents can, and unhealthy ones
+   * get a trial delivery once their cooldown has passed
+   */
+  private isAvailable(agent: AgentInfo): boolean {
+    if (agent.status === 'unhealthy') {
+      return Date.now() - (agent.unhealthySince?.getTime() ?? 0) >= this.unhealthyCooldownMs;
+    }
+    return agent.status === 'active';
+  }
+
+  private getRuleStats(ruleId: string): RuleStats {
+    let stats = this.ruleStats.get(ruleId);
+    if (!stats) {
+      stats = { hits: 0, delivered: 0 };
+      this.ruleStats.set(ruleId, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Get current load for an agent: the tasks routed to it that are still running
    */
   private getAgentLoad(agentId: string): number {
-    // Simplified load calculation - would be more sophisticated in real implementation
     const agent = this.agentRegistry.get(agentId);
     return agent?.activeTasks || 0;
   }
 
   /**
-   * Get routing statistics
+   * Get routing statistics, including how often each rule matched (`hits`) and
+   * how many tasks went to the agents it chose (`delivered`)
    */
   getRoutingStats(): RoutingStats {
     const agents = Array.from(this.agentRegistry.values());
     const activeAgents = agents.filter(a => a.status === 'active').length;
-    const totalMessages = this.messageQueue.length;
 
     return {
       totalAgents: agents.length,
       activeAgents,
-      queuedMessages: totalMessages,
-      averageResponseTime: 0 // Would track this in real implementation
+      activeTasks: agents.reduce((sum, agent) => sum + (agent.activeTasks ?? 0), 0),
+      averageResponseTime: this.deliveries > 0 ? this.totalResponseTime / this.deliveries : 0,
+      ruleSource: this.ruleSource,
+      rules: Array.from(this.routingRules.values()).flat().map(rule => ({
+        ruleId: rule.id,
+        messageType: rule.messageType ?? 'task-request',
+        priority: rule.priority,
+        ...(this.ruleStats.get(rule.id) ?? { hits: 0, delivered: 0 }),
+      })),
     };
   }
 
@@ -393,19 +552,23 @@ export interface AgentInfo {
   registeredAt: Date;
   lastSeen: Date;
   consecutiveFailures?: number;
+  unhealthySince?: Date; // when failed deliveries marked the agent unhealthy
   activeTasks?: number;
 }
 
 export interface RoutingRule {
   id: string;
   messageType?: string;
-  targetAgentId: string;
+  targetAgentId: string; // an agent ID, or 'all'
   requiredCapability?: string;
   priority: number;
   timeout: number;
   condition?: RoutingCondition;
 }
 
+/**
+ * String fields may contain template variables such as `${step.id}`
+ */
 export interface RoutingCondition {
   type: 'step-status' | 'agent-availability' | 'load-threshold';
   stepId?: string;
@@ -418,6 +581,7 @@ export interface RouteTarget {
   agentId: string;
   priority: number;
   timeout: number;
+  ruleId?: string; // the rule that chose the agent, if any
 }
 
 export interface RoutingDecision {
@@ -429,7 +593,7 @@ export interface RouteResult {
   agentId: string;
   success: boolean;
   response?: any;
-  responseTime?: number;
+  responseTime?: number; // milliseconds
   error?: string;
 }
 
@@ -443,6 +607,26 @@ export interface RoutingResult {
 export interface RoutingStats {
   totalAgents: number;
   activeAgents: number;
-  queuedMessages: number;
-  averageResponseTime: number;
-}
\ No newline at end of file
+  activeTasks: number;
+  averageResponseTime: number; // milliseconds
+  ruleSource: string; // 'built-in', or the routing config file the rules came from
+  rules: Array<RuleStats & { ruleId: string; messageType: string; priority: number }>;
+}
+
+export interface RuleStats {
+  hits: number; // routing decisions in which the rule matched an agent
+  delivered: number; // tasks completed by an agent the rule chose
+  lastHitAt?: Date;
+}
+
+interface RoutingContext {
+  message: A2AMessage;
+  payload: any;
+  step?: ResearchStep;
+  agentType?: AgentType;
+  state?: OrchestrationState;
+}
+
+export interface MessageRouterOptions {
+  unhealthyCooldownMs?: number; // how long an agent marked unhealthy by failed deliveries is skipped
+}
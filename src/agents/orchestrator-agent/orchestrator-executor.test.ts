@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Message, TaskArtifactUpdateEvent, TaskStatusUpdateEvent } from '@a2a-js/sdk';
+import { DefaultExecutionEventBus, RequestContext, type AgentExecutionEvent } from '@a2a-js/sdk/server';
+import type { ResearchPlan, ResearchProgressData, ResearchStep, TaskRequest, TaskResponse } from '../shared/interfaces.js';
+import type { A2ACommunicationManager } from './a2a-communication.js';
+import type { MessageRouter } from './message-router.js';
+import { OrchestratorAgentExecutor } from './orchestrator-executor.js';
+import { OrchestratorStateManager } from './state-manager.js';
+import { SynthesisEngine } from './synthesis-engine.js';
+import { TaskDelegator } from './task-delegator.js';
+import { TaskScheduler } from './task-scheduler.js';
+
+const step = (id: string, dependencies: string[] = []): ResearchStep => ({
+  id,
+  description: `Step ${id}`,
+  agentType: 'web-research',
+  dependencies,
+  estimatedDuration: 10,
+  successCriteria: 'done',
+  fallbackStrategies: [],
+  priority: 3,
+});
+
+const plan: ResearchPlan = {
+  id: 'plan-1',
+  topic: 'Solar power',
+  objectives: [],
+  methodology: { approach: 'exploratory', justification: 'test', phases: [], qualityControls: [] },
+  dataSources: [],
+  executionSteps: [step('search'), step('compare', ['search'])],
+  riskAssessment: [],
+  contingencyPlans: [],
+  qualityThresholds: [],
+  estimatedTimeline: '1 hour',
+  version: '1.0',
+  createdAt: new Date('2026-01-10T00:00:00Z'),
+  updatedAt: new Date('2026-01-10T00:00:00Z'),
+};
+
+// Research agents answer every step with one finding and its source
+const answer = async (_agentType: string, request: TaskRequest): Promise<TaskResponse> => ({
+  taskId: request.taskId,
+  status: 'success',
+  result: {
+    findings: [{ claim: `Solar output grew 42% according to ${request.taskId}`, evidence: 'Annual report', confidence: 0.8, sources: [0] }],
+    sources: [{ url: `https://example.com/${request.taskId}`, title: 'Annual report', credibilityScore: 0.8, type: 'web' }],
+    confidence: 0.8,
+  },
+  processingTime: 5,
+});
+
+function createOrchestrator() {
+  const a2aManager = { cancelTask: vi.fn(async () => true) } as unknown as A2ACommunicationManager;
+  const router = { routeTask: vi.fn(answer) } as unknown as MessageRouter;
+  const stateManager = new OrchestratorStateManager();
+  const executor = new OrchestratorAgentExecutor(new TaskDelegator(a2aManager, new TaskScheduler(), router), a2aManager, stateManager);
+
+  const eventBus = new DefaultExecutionEventBus();
+  const events: AgentExecutionEvent[] = [];
+  eventBus.on('event', event => events.push(event));
+
+  const userMessage: Message = {
+    kind: 'message',
+    role: 'user',
+    messageId: 'message-1',
+    contextId: 'context-1',
+    parts: [{ kind: 'data', data: { researchPlan: plan } }],
+  };
+  const run = () => executor.execute(new RequestContext(userMessage, 'research-1', 'context-1'), eventBus);
+  const taskId = () => events.find(event => event.kind === 'task')?.id ?? '';
+  const finalState = () => events
+    .filter((event): event is TaskStatusUpdateEvent => event.kind === 'status-update' && event.final)
+    .map(event => event.status.state);
+
+  return { executor, stateManager, eventBus, events, run, taskId, finalState };
+}
+
+describe('OrchestratorAgentExecutor', () => {
+  beforeEach(() => {
+    // The fake model has no script here: the orchestrator review and model judges fall back
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs the plan to a completed research', async () => {
+    const { stateManager, run, taskId, finalState } = createOrchestrator();
+
+    await run();
+
+    expect(finalState()).toEqual(['completed']);
+    expect(stateManager.getResearchState(taskId())?.currentPhase).toBe('completed');
+  });
+
+  it('publishes step progress as working status updates with the progress as data', async () => {
+    const { events, run, taskId } = createOrchestrator();
+
+    await run();
+
+    const updates = events
+      .filter((event): event is TaskStatusUpdateEvent => event.kind === 'status-update' && event.status.state === 'working')
+      .map(event => event.status.message?.parts ?? [])
+      .filter(parts => parts.some(part => part.kind === 'data'));
+    const progress = updates.map(parts => parts.find(part => part.kind === 'data')?.data as unknown as ResearchProgressData);
+    expect(updates.map(parts => parts[0])).toContainEqual({ kind: 'text', text: 'Step search completed (1/2)' });
+    expect(progress.map(data => data.stepId)).toEqual(expect.arrayContaining(['search', 'compare']));
+    expect(progress.at(-1)).toMatchObject({
+      type: 'research-progress',
+      researchId: taskId(),
+      stepId: 'compare',
+      completedSteps: 2,
+      totalSteps: 2,
+      percentage: 100,
+    });
+    expect(progress.every(data => !('atRiskOfDelay' in data))).toBe(true);
+  });
+
+  it('appends the findings of each settled step to the research-findings artifact', async () => {
+    const { events, run, taskId } = createOrchestrator();
+
+    await run();
+
+    const chunks = events.filter((event): event is TaskArtifactUpdateEvent =>
+      event.kind === 'artifact-update' && event.artifact.name === 'research-findings');
+    expect(chunks.map(chunk => chunk.append)).toEqual([false, true]);
+    expect(chunks.every(chunk => chunk.artifact.artifactId === `${taskId()}-findings` && !chunk.lastChunk)).toBe(true);
+    expect(chunks.map(chunk => chunk.artifact.parts[0])).toEqual([
+      { kind: 'text', text: expect.stringMatching(/: 1 findings, 1 sources$/) },
+      { kind: 'text', text: expect.stringMatching(/: 1 findings, 1 sources$/) },
+    ]);
+    const data = chunks[1].artifact.parts[1];
+    expect(data).toMatchObject({ kind: 'data', data: { status: 'success', findings: [{ claim: expect.stringContaining('Solar output grew 42%') }] } });
+  });
+
+  it('leaves a research cancelled during synthesis cancelled', async () => {
+    const { executor, stateManager, eventBus, run, taskId, finalState } = createOrchestrator();
+    const synthesize = SynthesisEngine.prototype.synthesizeResults;
+    vi.spyOn(SynthesisEngine.prototype, 'synthesizeResults').mockImplementationOnce(async function (this: SynthesisEngine, ...args) {
+      await executor.cancelTask(taskId(), eventBus);
+      return synthesize.apply(this, args);
+    });
+
+    await run();
+
+    expect(finalState()).toEqual(['canceled']);
+    expect(stateManager.getResearchState(taskId())?.currentPhase).toBe('cancelled');
+  });
+});
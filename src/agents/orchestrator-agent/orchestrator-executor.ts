@@ -0,0 +1,674 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+import { MessageData } from "genkit";
+import {
+  Artifact,
+  DataPart,
+  Message,
+  TextPart,
+} from "@a2a-js/sdk";
+import type { TaskStore } from "@a2a-js/sdk/server";
+import { BaseAgentExecutor, type AgentTaskContext, type AgentTaskOutcome } from "../shared/base-executor.js";
+import { ai } from "./genkit.js";
+import {
+  OrchestrationState,
+  ResearchPlan,
+  ResearchResult,
+  ResearchProgressData,
+  ResearchStepExecution,
+  ResearchStepResult,
+  SynthesisResult,
+} from "../shared/interfaces.js";
+import { PlanGraph, PlanValidationError } from "../shared/plan-graph.js";
+import { CITATION_FORMATS, exportCitations, type CitationFormat } from "../shared/citation-formats.js";
+import type { TaskDelegator } from "./task-delegator.js";
+import type { A2ACommunicationManager } from "./a2a-communication.js";
+import { OrchestratorStateManager } from "./state-manager.js";
+import { ResultAggregator } from "./result-aggregator.js";
+import { SemanticSimilarity } from "./semantic-similarity.js";
+import { ContradictionAnalyzer } from "./contradiction-analysis.js";
+import { SynthesisEngine } from "./synthesis-engine.js";
+import { QualityValidator } from "./quality-validator.js";
+import { ReportRenderer } from "./report-renderer.js";
+import { StreamingHandler, type BufferedProgressUpdate } from "./streaming-handler.js";
+import { ProgressTracker } from "./progress-tracker.js";
+import { StepDataFlow } from "./step-data-flow.js";
+import { parseResearchPlan } from "./research-plan-schema.js";
+
+// Load the Genkit prompt
+const orchestratorPrompt = ai.prompt('orchestrator');
+
+// The orchestrator prompt answers { orchestrationDecision: {...} } or the bare decision
+const orchestrationDecisionSchema = z.object({ issues: z.array(z.unknown()).default([]) }).passthrough();
+
+const decisionIssueSchema = z.object({
+  type: z.enum(['agent-failure', 'data-quality', 'dependency-blocked', 'resource-exhausted', 'timeout']).default('data-quality'),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
+  description: z.string().default('Issue detected'),
+  affectedTasks: z.array(z.string()).default([]),
+  resolution: z.string().optional(),
+});
+
+/**
+ * OrchestratorAgentExecutor implements the agent's core logic for coordinating research tasks.
+ */
+export class OrchestratorAgentExecutor extends BaseAgentExecutor {
+  private taskDelegator: TaskDelegator;
+  private a2aManager: A2ACommunicationManager;
+  private stateManager: OrchestratorStateManager;
+  private resultAggregator: ResultAggregator;
+  private synthesisEngine: SynthesisEngine;
+  private qualityValidator: QualityValidator;
+  private reportRenderer: ReportRenderer;
+  private streamingHandler: StreamingHandler;
+  private progressTracker: ProgressTracker;
+  private stepDataFlow: StepDataFlow;
+
+  constructor(
+    taskDelegator: TaskDelegator,
+    a2aManager: A2ACommunicationManager,
+    stateManager: OrchestratorStateManager = new OrchestratorStateManager(),
+    streamingHandler: StreamingHandler = new StreamingHandler(),
+    taskStore?: TaskStore
+  ) {
+    super({
+      name: 'OrchestratorAgentExecutor',
+      workingMessage: 'Coordinating research execution...',
+      cancelledMessage: 'Research orchestration cancelled.',
+      failurePrefix: 'Orchestration failed',
+    }, taskStore);
+    this.taskDelegator = taskDelegator;
+    this.a2aManager = a2aManager;
+    this.stateManager = stateManager;
+    const semanticSimilarity = new SemanticSimilarity(); // shares cached embeddings
+    const contradictionAnalyzer = new ContradictionAnalyzer(semanticSimilarity); // shares cached judgements
+    this.resultAggregator = new ResultAggregator(semanticSimilarity, contradictionAnalyzer);
+    this.synthesisEngine = new SynthesisEngine(contradictionAnalyzer);
+    this.qualityValidator = new QualityValidator(semanticSimilarity);
+    this.reportRenderer = new ReportRenderer();
+    this.streamingHandler = streamingHandler;
+    this.progressTracker = new ProgressTracker();
+    this.stepDataFlow = new StepDataFlow();
+  }
+
+  /**
+   * Cascade a cancellation to the delegated agents and report what the
+   * research gathered before it was cancelled
+   */
+  protected async onCancel(taskId: string): Promise<Artifact[]> {
+    const researchId = taskId;
+    const researchState = this.stateManager.getResearchState(researchId);
+    if (!researchState) {
+      // Still waiting for the planning agent
+      await this.a2aManager.cancelTask(`plan-${researchId}`);
+      return [];
+    }
+
+    // Fold in the steps that settle while their agents stop
+    await this.taskDelegator.cancelResearch(researchId);
+    for (const recovery of this.taskDelegator.collectRecoveryEvents(researchId)) {
+      if (recovery.issue) {
+        this.stateManager.addIssue(researchId, recovery.issue);
+      }
+    }
+    for (const result of this.taskDelegator.collectSettledResults(researchId)) {
+      this.stateManager.completeStep(researchId, result.stepId, result);
+    }
+    const unsettledStepIds = this.stateManager.cancelActiveSteps(researchId);
+    this.stateManager.updatePhase(researchId, 'cancelled');
+    this.taskDelegator.cleanupCompletedTasks(researchId);
+    this.taskDelegator.cleanupRecoveryState(researchId);
+
+    const cancelledStepIds = [
+      ...researchState.completedSteps.filter(result => result.metadata.cancelled === true).map(result => result.stepId),
+      ...unsettledStepIds,
+    ];
+    const gatheredResults = researchState.completedSteps.filter(result => result.status !== 'failed');
+    console.log(`[OrchestratorAgentExecutor] Research ${researchId} cancelled with ${gatheredResults.length}/${researchState.progress.totalSteps} steps gathered, ${cancelledStepIds.length} steps cancelled`);
+
+    const artifacts: Artifact[] = [];
+    if (gatheredResults.length > 0) {
+      const researchResult = await this.resultAggregator.aggregateResults(gatheredResults, researchState);
+      const synthesis = await this.synthesisEngine.synthesizeResults(gatheredResults, researchState, researchResult);
+      const qualityAssessment = await this.qualityValidator.validateResearchQuality(gatheredResults, researchState);
+      artifacts.push(this.createReportArtifact(researchState, synthesis, researchResult, qualityAssessment, cancelledStepIds));
+      artifacts.push(...this.createRenderedReportArtifacts(researchState, synthesis, researchResult));
+      artifacts.push(...this.createSourcesArtifacts(researchState, researchResult));
+    }
+
+    await this.stateManager.flush();
+    return artifacts;
+  }
+
+  protected async handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome> {
+    const { taskId, userMessage } = task;
+    const researchId = taskId; // Use taskId as researchId for simplicity
+
+    // 1. Resume persisted research for this task, or obtain a plan and start fresh
+    let researchState = this.stateManager.getResearchState(researchId);
+    if (researchState) {
+      if (!this.taskDelegator.hasInFlightSteps(researchId)) {
+        // Delegations from before a restart cannot be observed any more; run them again
+        const requeued = this.stateManager.requeueActiveSteps(researchId);
+        console.log(`[OrchestratorAgentExecutor] Resuming research ${researchId}, re-running ${requeued.length} interrupted steps`);
+      }
+      this.publishWorking(
+        task,
+        `Resuming research "${researchState.plan.topic}" (${researchState.progress.completedSteps}/${researchState.progress.totalSteps} steps done).`
+      );
+    } else {
+      const researchQuery = userMessage.parts
+        .filter((p): p is TextPart => p.kind === 'text')
+        .map((p) => p.text)
+        .join(' ')
+        .trim();
+      const plan = await this.obtainResearchPlan(userMessage, researchQuery, researchId);
+      plan.deadline = plan.deadline ?? this.extractDeadline(userMessage);
+      this.validateResearchPlan(plan);
+      researchState = this.stateManager.initializeResearch(researchId, plan);
+      this.publishWorking(
+        task,
+        `Executing research plan "${plan.topic}" with ${plan.executionSteps.length} steps.`
+      );
+    }
+
+    // Dashboards follow the research at /research/:id/stream until it ends;
+    // A2A clients see the same progress as status updates on this task
+    this.progressTracker.initializeProgressTracking(researchState);
+    this.streamingHandler.startStream(researchId, researchState);
+    const bridgeId = this.streamingHandler.subscribeToStream(researchId, {
+      callback: message => {
+        if (message.type === 'progress-update' && message.update) {
+          this.publishProgress(task, researchState, message.update);
+        }
+      },
+    });
+    try {
+      const outcome = await this.executeResearch(task, researchState);
+      this.streamingHandler.endStream(researchId, 'completed');
+      return outcome;
+    } catch (error) {
+      // onCancel records the outcome of a cancelled research once its steps settle
+      if (!this.isCancelled(taskId)) {
+        this.stateManager.updatePhase(researchId, 'failed');
+      }
+      this.streamingHandler.endStream(researchId, this.isCancelled(taskId) ? 'cancelled' : 'failed');
+      throw error;
+    } finally {
+      this.streamingHandler.unsubscribeFromStream(researchId, bridgeId);
+      this.progressTracker.cleanupResearchProgress(researchId);
+    }
+  }
+
+  /**
+   * Run the orchestration loop over a research plan's steps, then synthesize,
+   * validate and publish the report
+   */
+  private async executeResearch(task: AgentTaskContext, researchState: OrchestrationState): Promise<AgentTaskOutcome> {
+    const { taskId } = task;
+    const { researchId } = researchState;
+    const researchPlan = researchState.plan;
+    this.stateManager.updatePhase(researchId, 'execution');
+
+    // 2. Orchestration loop: delegate ready steps, then fold in results as they settle
+    while (!this.isCancelled(taskId)) {
+      const executions = await this.taskDelegator.delegateResearchSteps(
+        researchPlan.executionSteps,
+        researchState
+      );
+      executions.forEach(execution => {
+        this.stateManager.addActiveStep(researchId, execution);
+        this.progressTracker.recordStepStart(researchState, execution);
+        this.streamStepProgress(researchState, execution, `Step ${execution.stepId} delegated to ${execution.agentId}`);
+      });
+
+      if (!this.taskDelegator.hasInFlightSteps(researchId) && !this.taskDelegator.hasUncollectedResults(researchId)) {
+        break; // Nothing running and nothing left that can start
+      }
+
+      // Steps skipped for the deadline settle without running
+      if (!this.taskDelegator.hasUncollectedResults(researchId)) {
+        await this.taskDelegator.waitForSettledStep(researchId);
+      }
+      if (this.isCancelled(taskId)) {
+        break; // onCancel collects what settles from here on
+      }
+
+      // Retries and fallbacks replace the failed execution; escalations and aborts raise an issue
+      for (const recovery of this.taskDelegator.collectRecoveryEvents(researchId)) {
+        if (recovery.issue) {
+          this.stateManager.addIssue(researchId, recovery.issue);
+        }
+        if (recovery.execution) {
+          this.stateManager.addActiveStep(researchId, recovery.execution);
+          this.progressTracker.recordStepStart(researchState, recovery.execution);
+          this.streamStepProgress(researchState, recovery.execution, recovery.description);
+        } else {
+          this.publishWorking(task, recovery.description);
+        }
+      }
+
+      const settledResults = this.taskDelegator.collectSettledResults(researchId);
+      for (const result of settledResults) {
+        const execution: ResearchStepExecution = researchState.activeSteps.find(step => step.stepId === result.stepId) ?? {
+          stepId: result.stepId,
+          agentId: result.metadata.agentType ?? 'unknown',
+          status: result.status === 'failed' ? 'failed' : 'completed',
+          progressUpdates: [],
+          retryCount: result.metadata.retryCount ?? 0,
+        };
+        this.stateManager.completeStep(researchId, result.stepId, result);
+        this.progressTracker.recordStepCompletion(result.stepId, result, researchState);
+        const hasRecoveryIssue = researchState.issues.some(issue => issue.affectedSteps.includes(result.stepId));
+        if (result.status === 'failed' && !hasRecoveryIssue && result.metadata.cancelled !== true) {
+          this.stateManager.addIssue(researchId, {
+            id: uuidv4(),
+            type: 'agent-failure',
+            severity: 'high',
+            description: `Step ${result.stepId} failed: ${result.issues.join('; ')}`,
+            affectedSteps: [result.stepId],
+            createdAt: new Date(),
+          });
+        }
+        this.streamStepProgress(
+          researchState,
+          execution,
+          `Step ${result.stepId} ${result.status === 'failed' ? 'failed' : 'completed'} (${researchState.progress.completedSteps}/${researchState.progress.totalSteps})`
+        );
+        if (result.status !== 'failed') {
+          this.publishFindings(task, researchState, result);
+        }
+      }
+
+      if (settledResults.length > 0) {
+        await this.consultOrchestrator(researchState, task.messages);
+      }
+    }
+
+    // Stop here if the loop ended because the task was cancelled
+    this.throwIfCancelled(taskId);
+
+    // Steps that never started were blocked by failed dependencies
+    const settledStepIds = new Set(researchState.completedSteps.map(result => result.stepId));
+    const blockedSteps = researchPlan.executionSteps.filter(step => !settledStepIds.has(step.id));
+    if (blockedSteps.length > 0) {
+      this.stateManager.addIssue(researchId, {
+        id: uuidv4(),
+        type: 'dependency-blocked',
+        severity: 'medium',
+        description: `${blockedSteps.length} steps could not run because their dependencies failed`,
+        affectedSteps: blockedSteps.map(step => step.id),
+        createdAt: new Date(),
+      });
+    }
+    this.taskDelegator.cleanupCompletedTasks(researchId);
+    this.taskDelegator.cleanupRecoveryState(researchId);
+
+    const successfulResults = researchState.completedSteps.filter(result => result.status !== 'failed');
+    if (successfulResults.length === 0) {
+      throw new Error('No research steps produced results');
+    }
+
+    // 3. Synthesize and validate the gathered results
+    this.stateManager.updatePhase(researchId, 'synthesis');
+    this.publishWorking(task, 'Synthesizing research findings...');
+    // A cancellation during these stages is reported by onCancel, not completed here
+    const researchResult = await this.resultAggregator.aggregateResults(successfulResults, researchState);
+    this.throwIfCancelled(taskId);
+    const synthesis = await this.synthesisEngine.synthesizeResults(successfulResults, researchState, researchResult);
+    this.throwIfCancelled(taskId);
+
+    this.stateManager.updatePhase(researchId, 'validation');
+    const qualityAssessment = await this.qualityValidator.validateResearchQuality(successfulResults, researchState);
+    this.throwIfCancelled(taskId);
+
+    // 4. Publish the synthesized report as an artifact
+    this.stateManager.updatePhase(researchId, 'reporting');
+    this.publishArtifact(task, this.createReportArtifact(researchState, synthesis, researchResult, qualityAssessment));
+    for (const artifact of [
+      ...this.createRenderedReportArtifacts(researchState, synthesis, researchResult),
+      ...this.createSourcesArtifacts(researchState, researchResult),
+    ]) {
+      this.publishArtifact(task, artifact);
+    }
+
+    this.stateManager.updatePhase(researchId, 'completed');
+    await this.stateManager.flush();
+
+    return {
+      message: `Research orchestration completed. ${successfulResults.length}/${researchState.progress.totalSteps} steps succeeded, quality score ${qualityAssessment.overallScore.toFixed(2)}, ${researchState.issues.length} issues recorded.`,
+    };
+  }
+
+  /**
+   * Feed a step's progress to the research's progress stream
+   */
+  private streamStepProgress(researchState: OrchestrationState, execution: ResearchStepExecution, message: string): void {
+    const progress = this.progressTracker.calculateOverallProgress(researchState);
+    this.streamingHandler.updateProgress(researchState.researchId, execution, {
+      timestamp: new Date(),
+      message,
+      percentage: Math.round(progress.percentage),
+      currentActivity: `${execution.stepId} on ${execution.agentId}: ${execution.status}`,
+      estimatedTimeRemaining: Math.round(progress.estimatedTimeRemaining * 10) / 10,
+    });
+  }
+
+  /**
+   * Publish a progress stream update as a `working` status update, with the
+   * structured progress in a DataPart
+   */
+  private publishProgress(task: AgentTaskContext, researchState: OrchestrationState, update: BufferedProgressUpdate): void {
+    const progress = this.progressTracker.calculateOverallProgress(researchState);
+    const { deadline } = researchState.plan;
+    const data: ResearchProgressData = {
+      type: 'research-progress',
+      researchId: researchState.researchId,
+      stepId: update.stepId,
+      stepStatus: update.stepStatus,
+      percentage: update.percentage ?? Math.round(progress.percentage),
+      completedSteps: progress.completedSteps,
+      totalSteps: progress.totalSteps,
+      estimatedTimeRemaining: update.estimatedTimeRemaining ?? Math.round(progress.estimatedTimeRemaining * 10) / 10,
+      confidence: progress.overallConfidence,
+      currentActivity: update.currentActivity,
+      ...(deadline ? { atRiskOfDelay: this.progressTracker.isAtRiskOfDelay(researchState, deadline) } : {}),
+    };
+    this.publishWorking(task, [
+      { kind: 'text', text: update.message },
+      { kind: 'data', data: { ...data } },
+    ]);
+  }
+
+  /**
+   * Append a settled step's findings and sources to the research's
+   * `research-findings` artifact, so clients see results before the report
+   */
+  private publishFindings(task: AgentTaskContext, researchState: OrchestrationState, result: ResearchStepResult): void {
+    const step = researchState.plan.executionSteps.find(s => s.id === result.stepId);
+    const output = this.stepDataFlow.extractOutputs(result, step, ['findings', 'sources']);
+    const findings = output.findings ?? [];
+    if (findings.length === 0 && result.sources.length === 0) {
+      return;
+    }
+
+    // The first chunk creates the artifact, later ones (also after a resume) extend it
+    const earlierResults = researchState.completedSteps.filter(r => r.status !== 'failed' && r.stepId !== result.stepId);
+    this.publishArtifact(task, {
+      artifactId: `${researchState.researchId}-findings`,
+      name: 'research-findings',
+      description: `Findings gathered so far for: ${researchState.plan.topic}`,
+      parts: [
+        { kind: 'text', text: `${output.description}: ${findings.length} findings, ${output.sources?.length ?? 0} sources` },
+        { kind: 'data', data: { ...output, status: result.status, qualityScore: result.qualityScore } },
+      ],
+    }, { append: earlierResults.length > 0, lastChunk: false });
+  }
+
+  /**
+   * The research report artifact. A report of a cancelled research covers the
+   * steps that settled before the cancellation and lists the cancelled steps.
+   */
+  private createReportArtifact(
+    researchState: OrchestrationState,
+    synthesis: SynthesisResult,
+    researchResult: ResearchResult,
+    qualityAssessment: Awaited<ReturnType<QualityValidator['validateResearchQuality']>>,
+    cancelledStepIds?: string[]
+  ): Artifact {
+    const { topic } = researchState.plan;
+    return {
+      artifactId: synthesis.id,
+      name: 'research-report',
+      description: cancelledStepIds
+        ? `Partial research report for: ${topic} (cancelled after ${researchState.progress.completedSteps}/${researchState.progress.totalSteps} steps)`
+        : `Research report for: ${topic}`,
+      parts: [
+        { kind: 'text', text: synthesis.synthesis },
+        {
+          kind: 'data',
+          data: {
+            synthesis,
+            researchResult,
+            qualityAssessment,
+            issues: researchState.issues,
+            ...(cancelledStepIds ? { cancelled: true, cancelledSteps: cancelledStepIds } : {}),
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * The report rendered in each configured export format (Markdown, HTML,
+   * JSON-LD), one file artifact per format
+   */
+  private createRenderedReportArtifacts(
+    researchState: OrchestrationState,
+    synthesis: SynthesisResult,
+    researchResult: ResearchResult
+  ): Artifact[] {
+    return this.reportRenderer.renderAll(synthesis, researchResult).map(report => ({
+      artifactId: `${synthesis.id}-${report.format}`,
+      name: `research-report-${report.format}`,
+      description: `Research report for: ${researchState.plan.topic} (${report.mimeType}, ${this.reportRenderer.citationStyle} references)`,
+      parts: [
+        {
+          kind: 'file',
+          file: { name: report.fileName, mimeType: report.mimeType, bytes: Buffer.from(report.content, 'utf8').toString('base64') },
+        },
+      ],
+    }));
+  }
+
+  /**
+   * The deduplicated sources of the research as BibTeX, RIS and CSL-JSON
+   * files for reference managers, in one `research-sources` artifact
+   */
+  private createSourcesArtifacts(researchState: OrchestrationState, researchResult: ResearchResult): Artifact[] {
+    if (researchResult.sources.length === 0) {
+      return [];
+    }
+    return [{
+      artifactId: `${researchState.researchId}-sources`,
+      name: 'research-sources',
+      description: `${researchResult.sources.length} sources for: ${researchState.plan.topic}`,
+      parts: (Object.keys(CITATION_FORMATS) as CitationFormat[]).map(format => ({
+        kind: 'file',
+        file: {
+          name: `research-sources.${CITATION_FORMATS[format].extension}`,
+          mimeType: CITATION_FORMATS[format].mimeType,
+          bytes: Buffer.from(exportCitations(researchResult.sources, format), 'utf8').toString('base64'),
+        },
+      })),
+    }];
+  }
+
+  /**
+   * Resolve the research plan for a request. A plan supplied in the message
+   * (as a DataPart or JSON text) is used directly; otherwise the planning
+   * agent is asked to produce one for the research query.
+   */
+  private async obtainResearchPlan(
+    userMessage: Message,
+    researchQuery: string,
+    researchId: string
+  ): Promise<ResearchPlan> {
+    const suppliedPlan = this.extractSuppliedPlan(userMessage);
+    if (suppliedPlan) {
+      return suppliedPlan;
+    }
+
+    if (!researchQuery) {
+      throw new Error('No research plan or research query found in user message');
+    }
+
+    const response = await this.a2aManager.sendTask('planning', {
+      taskId: `plan-${researchId}`,
+      type: 'research-planning',
+      parameters: { query: researchQuery },
+      priority: 1,
+      metadata: { researchId },
+    });
+
+    if (response.status !== 'success') {
+      throw new Error(`Planning agent did not produce a plan: ${response.error ?? response.status}`);
+    }
+
+    const plan = parseResearchPlan(response.result);
+    if (!plan) {
+      throw new Error('Planning agent response did not contain a research plan');
+    }
+    return plan;
+  }
+
+  /**
+   * Reject plans whose steps could never all run (unknown dependencies, cycles),
+   * rather than leaving those steps blocked
+   */
+  private validateResearchPlan(plan: ResearchPlan): void {
+    const planGraph = new PlanGraph(plan.executionSteps);
+    const validation = planGraph.validate();
+    validation.warnings.forEach(warning => console.warn(`[OrchestratorAgentExecutor] ${warning.message}`));
+    if (!validation.valid) {
+      throw new PlanValidationError(validation.errors);
+    }
+
+    const { totalDuration, criticalPath } = planGraph.schedule();
+    console.log(`[OrchestratorAgentExecutor] Plan "${plan.topic}" needs at least ${totalDuration} minutes; critical path: ${criticalPath.map(step => step.id).join(' -> ')}`);
+    if (plan.deadline) {
+      const minutesLeft = Math.floor((plan.deadline.getTime() - Date.now()) / 60000);
+      const log = totalDuration > minutesLeft ? console.warn : console.log;
+      log(`[OrchestratorAgentExecutor] Research deadline ${plan.deadline.toISOString()} is ${minutesLeft} minutes away`);
+    }
+  }
+
+  /**
+   * The research deadline (ResearchQuery.deadline), given in the message
+   * metadata or a DataPart as `deadline` or `researchQuery.deadline`
+   */
+  private extractDeadline(message: Message): Date | undefined {
+    const candidates: unknown[] = [
+      message.metadata?.deadline,
+      ...message.parts
+        .filter((p): p is DataPart => p.kind === 'data')
+        .flatMap(p => [p.data.deadline, (p.data.researchQuery as { deadline?: unknown } | undefined)?.deadline]),
+    ];
+
+    for (const candidate of candidates) {
+      if (typeof candidate === 'string' || typeof candidate === 'number') {
+        const deadline = new Date(candidate);
+        if (!Number.isNaN(deadline.getTime())) {
+          return deadline;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private extractSuppliedPlan(message: Message): ResearchPlan | null {
+    for (const part of message.parts) {
+      let candidate: unknown;
+      if (part.kind === 'data') {
+        candidate = part.data;
+      } else if (part.kind === 'text' && part.text.trim().startsWith('{')) {
+        try {
+          candidate = JSON.parse(part.text);
+        } catch {
+          continue; // Not JSON - treat the text as a research query
+        }
+      }
+      const plan = parseResearchPlan(candidate);
+      if (plan) {
+        return plan;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Ask the orchestrator prompt to review the current state and record any
+   * issues it raises. Prompt failures never abort the research run.
+   */
+  private async consultOrchestrator(state: OrchestrationState, messages: MessageData[]): Promise<void> {
+    const currentStateSummary = JSON.stringify({
+      currentPhase: state.currentPhase,
+      activeTasks: state.activeSteps.map(s => ({
+        id: s.stepId,
+        agentType: s.agentId,
+        status: s.status,
+      })),
+      completedTasks: state.completedSteps.map(r => ({ id: r.stepId, status: r.status })),
+      issues: state.issues.length,
+      progress: state.progress,
+    });
+    const settledStepIds = new Set(state.completedSteps.map(r => r.stepId));
+    const pendingTasks = JSON.stringify(
+      state.plan.executionSteps
+        .filter(step => !settledStepIds.has(step.id))
+        .map(step => ({ id: step.id, agentType: step.agentType, description: step.description }))
+    );
+
+    try {
+      const response = await orchestratorPrompt(
+        {
+          currentState: currentStateSummary,
+          pendingTasks,
+          now: new Date().toISOString()
+        },
+        { messages }
+      );
+      const orchestrationDecision = this.parseOrchestrationDecision(response.text);
+      this.recordDecisionIssues(state, orchestrationDecision);
+    } catch (error) {
+      console.warn('[OrchestratorAgentExecutor] Orchestration review failed, continuing:', error);
+    }
+  }
+
+  private parseOrchestrationDecision(responseText: string): unknown {
+    try {
+      const parsed: unknown = JSON.parse(responseText);
+      return typeof parsed === 'object' && parsed !== null && 'orchestrationDecision' in parsed
+        ? parsed.orchestrationDecision
+        : parsed;
+    } catch {
+      console.warn('[OrchestratorAgentExecutor] Could not parse orchestration decision as JSON, ignoring');
+      return { issues: [] };
+    }
+  }
+
+  /**
+   * Record the issues of an orchestration decision, skipping invalid ones and
+   * those already recorded
+   */
+  private recordDecisionIssues(state: OrchestrationState, decision: unknown): void {
+    const parsed = orchestrationDecisionSchema.safeParse(decision);
+    if (!parsed.success) {
+      console.warn('[OrchestratorAgentExecutor] Ignoring an orchestration decision without an issues list');
+      return;
+    }
+
+    parsed.data.issues.forEach((candidate, index) => {
+      const issue = decisionIssueSchema.safeParse(candidate);
+      if (!issue.success) {
+        console.warn(`[OrchestratorAgentExecutor] Ignoring invalid orchestration issue ${index}: ${issue.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+        return;
+      }
+      const { description, type, severity, affectedTasks, resolution } = issue.data;
+      if (state.issues.some(existing => existing.description === description)) {
+        return;
+      }
+      this.stateManager.addIssue(state.researchId, {
+        id: uuidv4(),
+        type,
+        severity,
+        description,
+        affectedSteps: affectedTasks,
+        resolution,
+        createdAt: new Date(),
+      });
+    });
+  }
+
+}
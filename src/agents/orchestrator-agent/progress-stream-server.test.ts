@@ -0,0 +1,127 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import type { OrchestrationState, ResearchStepExecution } from '../shared/interfaces.js';
+import { ProgressStreamServer, type ProgressStreamServerOptions } from './progress-stream-server.js';
+import { StreamingHandler, type StreamMessage } from './streaming-handler.js';
+
+const state = {
+  plan: { executionSteps: [{ id: 'search' }, { id: 'compare' }] },
+  progress: { estimatedTimeRemaining: 10 },
+} as unknown as OrchestrationState;
+
+const execution = (stepId: string): ResearchStepExecution => ({
+  stepId,
+  agentId: 'web-research',
+  status: 'running',
+  progressUpdates: [],
+  retryCount: 0,
+});
+
+const progress = (handler: StreamingHandler, stepId: string, message: string): void =>
+  handler.updateProgress('research-1', execution(stepId), { timestamp: new Date(), message, currentActivity: 'Searching' });
+
+interface ServerSentEvent {
+  event: string;
+  data?: StreamMessage;
+  comment?: string;
+}
+
+// Server-Sent Events, comments included as events of their own
+const parseEvents = (body: string): ServerSentEvent[] => body.split('\n\n').filter(Boolean).map(block => {
+  if (block.startsWith(':')) {
+    return { event: 'comment', comment: block.slice(1).trim() };
+  }
+  const fields = Object.fromEntries(block.split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 1).trim()]));
+  return { event: fields.event, data: JSON.parse(fields.data) };
+});
+
+describe('ProgressStreamServer', () => {
+  let handler: StreamingHandler;
+  let server: Server;
+  let baseUrl: string;
+
+  const start = async (options: ProgressStreamServerOptions = {}): Promise<void> => {
+    const streams = new ProgressStreamServer(handler, { heartbeatIntervalMs: 60000, ...options });
+    const app = express();
+    streams.setupRoutes(app);
+    server = await new Promise<Server>(resolve => {
+      const httpServer = app.listen(0, '127.0.0.1', () => resolve(httpServer));
+    });
+    streams.attach(server);
+    baseUrl = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    handler = new StreamingHandler();
+    handler.startStream('research-1', state);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('streams the session state, recent and live progress as Server-Sent Events until the research ends', async () => {
+    await start();
+    progress(handler, 'search', 'Searching the web');
+
+    const response = await fetch(`http://${baseUrl}/research/research-1/stream`);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    progress(handler, 'compare', 'Comparing sources');
+    handler.endStream('research-1', 'completed');
+
+    const events = parseEvents(await response.text());
+    expect(events.map(event => event.event)).toEqual(['session-state', 'progress-update', 'progress-update', 'session-ended']);
+    expect(events.map(event => event.data?.update?.message)).toEqual([undefined, 'Searching the web', 'Comparing sources', undefined]);
+    expect(events[3].data?.finalStatus).toBe('completed');
+  });
+
+  it('sends heartbeats on idle event streams', async () => {
+    await start({ heartbeatIntervalMs: 20 });
+
+    const response = await fetch(`http://${baseUrl}/research/research-1/stream`);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    handler.endStream('research-1', 'cancelled');
+
+    const events = parseEvents(await response.text());
+    expect(events).toContainEqual({ event: 'comment', comment: 'keep-alive' });
+    expect(events.at(-1)?.data).toMatchObject({ type: 'session-ended', finalStatus: 'cancelled' });
+  });
+
+  it('streams progress over a WebSocket and closes it when the research ends', async () => {
+    await start({ replayLimit: 1 });
+    progress(handler, 'search', 'Searching the web');
+    progress(handler, 'search', 'Reading results');
+
+    const socket = new WebSocket(`ws://${baseUrl}/research/research-1/stream`);
+    const messages: StreamMessage[] = [];
+    socket.on('message', data => messages.push(JSON.parse(String(data))));
+    await new Promise(resolve => socket.once('open', resolve));
+    // The replay is sent as the connection opens; wait for it before updating
+    await vi.waitFor(() => expect(messages).toHaveLength(2));
+    progress(handler, 'compare', 'Comparing sources');
+    handler.endStream('research-1', 'failed');
+
+    const [code, reason] = await new Promise<[number, string]>(resolve => socket.once('close', (c, r) => resolve([c, String(r)])));
+    expect(code).toBe(1000);
+    expect(reason).toBe('Research stream ended');
+    expect(messages.map(message => message.type)).toEqual(['session-state', 'progress-update', 'progress-update', 'session-ended']);
+    expect(messages.map(message => message.update?.message)).toEqual([undefined, 'Reading results', 'Comparing sources', undefined]);
+  });
+
+  it('answers 404 for research without a progress stream', async () => {
+    await start();
+
+    const response = await fetch(`http://${baseUrl}/research/unknown/stream`);
+    expect(response.status).toBe(404);
+
+    const socket = new WebSocket(`ws://${baseUrl}/research/unknown/stream`);
+    const error = await new Promise<Error>(resolve => socket.once('error', resolve));
+    expect(error.message).toContain('404');
+  });
+});
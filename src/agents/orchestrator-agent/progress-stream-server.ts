@@ -0,0 +1,176 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import type { Express, Request, Response } from 'express';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { StreamingHandler, StreamMessage } from './streaming-handler.js';
+
+/**
+ * Progress Stream Server for the Orchestrator Agent
+ * Serves a research's StreamingHandler progress at `/research/:id/stream`, as
+ * Server-Sent Events or, for WebSocket upgrade requests, as WebSocket messages.
+ * Each connection first receives the session state and recent progress, and
+ * is closed once the research's stream ends.
+ */
+export class ProgressStreamServer {
+  private static readonly STREAM_PATH = /^\/research\/([^/]+)\/stream\/?$/;
+
+  private streamingHandler: StreamingHandler;
+  private webSocketServer = new WebSocketServer({ noServer: true });
+  private connections: Set<StreamConnection> = new Set();
+  private closed = false;
+
+  private replayLimit: number;
+  private heartbeatIntervalMs: number;
+
+  constructor(streamingHandler: StreamingHandler, options: ProgressStreamServerOptions = {}) {
+    this.streamingHandler = streamingHandler;
+    this.replayLimit = options.replayLimit ?? Number(process.env.ORCHESTRATOR_STREAM_REPLAY_LIMIT ?? 20);
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? Number(process.env.ORCHESTRATOR_STREAM_HEARTBEAT_MS ?? 15000);
+  }
+
+  /**
+   * Add the Server-Sent Events route to the agent's Express app
+   */
+  setupRoutes(app: Express): void {
+    app.get('/research/:id/stream', (req, res) => this.handleEventStream(req, res));
+  }
+
+  /**
+   * Accept WebSocket upgrades for the stream route on the agent's HTTP server
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(request, socket, head);
+    });
+  }
+
+  /**
+   * End every open stream, e.g. when the server shuts down
+   */
+  close(): void {
+    this.closed = true;
+    for (const connection of this.connections) {
+      connection.close('Server is shutting down');
+    }
+    this.webSocketServer.close();
+  }
+
+  private handleEventStream(req: Request, res: Response): void {
+    const researchId = String(req.params.id);
+    if (this.closed || !this.streamingHandler.getStreamState(researchId)) {
+      res.status(404).json({ error: `No progress stream for research ${researchId}` });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // keep proxies from buffering the stream
+    });
+    res.flushHeaders();
+
+    const connection = this.connect(researchId, {
+      send: message => res.write(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`),
+      heartbeat: () => res.write(': keep-alive\n\n'),
+      end: () => res.end(),
+    });
+    req.on('close', () => connection.close());
+  }
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    const match = ProgressStreamServer.STREAM_PATH.exec(path);
+    if (!match) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const researchId = decodeURIComponent(match[1]);
+    if (this.closed || !this.streamingHandler.getStreamState(researchId)) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    this.webSocketServer.handleUpgrade(request, socket, head, (webSocket: WebSocket) => {
+      const connection = this.connect(researchId, {
+        send: message => webSocket.send(JSON.stringify(message)),
+        heartbeat: () => webSocket.ping(),
+        end: reason => webSocket.close(1000, reason),
+      });
+      webSocket.on('close', () => connection.close());
+      webSocket.on('error', error => {
+        console.warn(`[ProgressStreamServer] WebSocket error on research ${researchId}:`, error);
+        connection.close();
+      });
+    });
+  }
+
+  /**
+   * Subscribe a connection to a research's progress: replay the session state
+   * and recent progress, then forward updates until the stream ends
+   */
+  private connect(researchId: string, transport: StreamTransport): StreamConnection {
+    let subscriptionId: string | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let open = true;
+
+    const connection: StreamConnection = {
+      close: (reason?: string) => {
+        if (!open) {
+          return;
+        }
+        open = false;
+        clearInterval(heartbeat);
+        if (subscriptionId) {
+          this.streamingHandler.unsubscribeFromStream(researchId, subscriptionId);
+        }
+        this.connections.delete(connection);
+        transport.end(reason);
+      },
+    };
+    this.connections.add(connection);
+
+    const send = (message: StreamMessage): void => {
+      if (!open) {
+        return;
+      }
+      transport.send(message);
+      if (message.type === 'session-ended') {
+        connection.close('Research stream ended');
+      }
+    };
+
+    // Subscribing sends the session state; recent progress follows before any new update
+    subscriptionId = this.streamingHandler.subscribeToStream(researchId, { callback: send });
+    for (const update of this.streamingHandler.getRecentProgress(researchId, this.replayLimit)) {
+      send({ type: 'progress-update', update, timestamp: update.bufferedAt });
+    }
+
+    // A stream that already ended is replayed and closed right away
+    const session = this.streamingHandler.getStreamState(researchId);
+    if (session && session.status !== 'active') {
+      send({ type: 'session-ended', session, finalStatus: session.status, timestamp: session.endedAt ?? new Date() });
+    }
+
+    if (open) {
+      heartbeat = setInterval(() => transport.heartbeat(), this.heartbeatIntervalMs);
+    }
+    return connection;
+  }
+}
+
+export interface ProgressStreamServerOptions {
+  replayLimit?: number; // recent progress updates sent to a new connection
+  heartbeatIntervalMs?: number; // keeps idle connections open through proxies
+}
+
+interface StreamTransport {
+  send: (message: StreamMessage) => void;
+  heartbeat: () => void;
+  end: (reason?: string) => void;
+}
+
+interface StreamConnection {
+  close: (reason?: string) => void;
+}
@@ -1,4 +1,6 @@
 import type { OrchestrationState, ResearchStepExecution, ProgressUpdate, ResearchStepResult } from '../shared/interfaces.js';
+import { PlanGraph } from '../shared/plan-graph.js';
+import { isStepKeyOf, stepIdOf, stepKey } from './step-key.js';
 
 /**
  * Progress Tracking System for the Orchestrator Agent
@@ -6,8 +8,8 @@ import type { OrchestrationState, ResearchStepExecution, ProgressUpdate, Researc
  */
 export class ProgressTracker {
   private progressHistory: Map<string, ProgressUpdate[]> = new Map();
-  private stepStartTimes: Map<string, Date> = new Map();
-  private estimatedDurations: Map<string, number> = new Map();
+  private stepStartTimes: Map<string, Date> = new Map(); // keyed by step key
+  private estimatedDurations: Map<string, number> = new Map(); // keyed by step key, minutes
 
   /**
    * Initialize progress tracking for a research plan
@@ -20,7 +22,7 @@ export class ProgressTracker {
 
     // Store estimated durations for progress calculations
     plan.executionSteps.forEach(step => {
-      this.estimatedDurations.set(step.id, step.estimatedDuration);
+      this.estimatedDurations.set(stepKey(researchId, step.id), step.estimatedDuration);
     });
 
     // Add initial progress update
@@ -29,23 +31,23 @@ export class ProgressTracker {
       message: `Research initialized with ${plan.executionSteps.length} steps`,
       percentage: 0,
       currentActivity: 'Planning phase',
-      estimatedTimeRemaining: this.calculateTotalEstimatedTime(plan.executionSteps)
+      estimatedTimeRemaining: this.calculateEstimatedTimeRemaining(orchestrationState)
     });
   }
 
   /**
    * Record the start of a research step execution
    */
-  recordStepStart(stepId: string, execution: ResearchStepExecution): void {
-    this.stepStartTimes.set(stepId, execution.startedAt || new Date());
+  recordStepStart(orchestrationState: OrchestrationState, execution: ResearchStepExecution): void {
+    const { researchId } = orchestrationState;
+    this.stepStartTimes.set(stepKey(researchId, execution.stepId), execution.startedAt || new Date());
 
     // Add progress update for step start
-    const researchId = this.extractResearchIdFromStepId(stepId);
     this.addProgressUpdate(researchId, {
       timestamp: new Date(),
       message: `Started executing step: ${execution.stepId}`,
       currentActivity: `Running ${execution.agentId} agent`,
-      estimatedTimeRemaining: this.calculateEstimatedTimeRemaining(researchId)
+      estimatedTimeRemaining: this.calculateEstimatedTimeRemaining(orchestrationState)
     });
   }
 
@@ -53,14 +55,14 @@ export class ProgressTracker {
    * Record the completion of a research step
    */
   recordStepCompletion(stepId: string, result: ResearchStepResult, orchestrationState: OrchestrationState): void {
-    const startTime = this.stepStartTimes.get(stepId);
+    const { researchId } = orchestrationState;
+    const startTime = this.stepStartTimes.get(stepKey(researchId, stepId));
     const actualDuration = startTime ? Date.now() - startTime.getTime() : 0;
 
     // Update estimated duration based on actual performance
-    this.updateEstimatedDuration(stepId, actualDuration);
+    this.updateEstimatedDuration(stepKey(researchId, stepId), actualDuration);
 
     // Add progress update for step completion
-    const { researchId } = orchestrationState;
     const progress = this.calculateOverallProgress(orchestrationState);
 
     this.addProgressUpdate(researchId, {
@@ -108,22 +110,28 @@ export class ProgressTracker {
     estimatedTimeRemaining: number;
     overallConfidence: number;
   } {
-    const { completedSteps, activeSteps, plan } = orchestrationState;
+    const { researchId, completedSteps, activeSteps, plan } = orchestrationState;
     const totalSteps = plan.executionSteps.length;
     const completedCount = completedSteps.length;
-    const activeCount = activeSteps.length;
 
     // Calculate base completion percentage
-    let percentage = (completedCount / totalSteps) * 100;
-
-    // Add partial credit for active steps (assume 50% complete)
-    percentage += (activeCount * 0.5 / totalSteps) * 100;
+    let percentage = totalSteps > 0 ? (completedCount / totalSteps) * 100 : 0;
+
+    // Add partial credit for active steps: the share of their estimate that has elapsed, at most 90%
+    for (const execution of activeSteps) {
+      const key = stepKey(researchId, execution.stepId);
+      const startTime = this.stepStartTimes.get(key);
+      const estimate = this.estimatedDurations.get(key);
+      const elapsed = startTime ? (Date.now() - startTime.getTime()) / (1000 * 60) : 0;
+      const share = estimate ? Math.min(elapsed / estimate, 0.9) : 0.5;
+      percentage += (share / totalSteps) * 100;
+    }
 
     // Ensure percentage doesn't exceed 100%
     percentage = Math.min(percentage, 100);
 
     // Calculate estimated time remaining
-    const estimatedTimeRemaining = this.calculateEstimatedTimeRemaining(orchestrationState.researchId);
+    const estimatedTimeRemaining = this.calculateEstimatedTimeRemaining(orchestrationState);
 
     // Calculate overall confidence based on completed step quality
     const overallConfidence = this.calculateOverallConfidence(completedSteps);
@@ -138,33 +146,26 @@ export class ProgressTracker {
   }
 
   /**
-   * Calculate estimated time remaining for the research
+   * Calculate estimated time remaining for the research: the critical path
+   * through the steps that have not settled, with running steps shortened by
+   * the time they have already run
    */
-  private calculateEstimatedTimeRemaining(researchId: string): number {
-    const updates = this.progressHistory.get(researchId) || [];
-    const latestUpdate = updates[updates.length - 1];
-
-    if (latestUpdate?.estimatedTimeRemaining !== undefined) {
-      return latestUpdate.estimatedTimeRemaining;
-    }
-
-    // Fallback: sum remaining estimated durations
-    let remainingTime = 0;
-    for (const [stepId, estimatedDuration] of this.estimatedDurations.entries()) {
-      // Assume steps not in progress history are remaining
-      if (!this.stepStartTimes.has(stepId)) {
-        remainingTime += estimatedDuration;
-      }
-    }
-
-    return remainingTime;
-  }
+  private calculateEstimatedTimeRemaining(orchestrationState: OrchestrationState): number {
+    const { researchId, completedSteps, plan } = orchestrationState;
+    const settledStepIds = new Set(completedSteps.map(result => result.stepId));
+    const now = Date.now();
+
+    const remainingSteps = plan.executionSteps
+      .filter(step => !settledStepIds.has(step.id))
+      .map(step => {
+        const key = stepKey(researchId, step.id);
+        const estimate = this.estimatedDurations.get(key) ?? step.estimatedDuration;
+        const startTime = this.stepStartTimes.get(key);
+        const elapsed = startTime ? (now - startTime.getTime()) / (1000 * 60) : 0;
+        return { ...step, estimatedDuration: Math.max(estimate - elapsed, 0) };
+      });
 
-  /**
-   * Calculate total estimated time for all steps
-   */
-  private calculateTotalEstimatedTime(steps: Array<{ estimatedDuration: number }>): number {
-    return steps.reduce((total, step) => total + step.estimatedDuration, 0);
+    return new PlanGraph(remainingSteps).schedule().totalDuration;
   }
 
   /**
@@ -208,15 +209,6 @@ export class ProgressTracker {
     }
   }
 
-  /**
-   * Extract research ID from step ID (assumes format: researchId-stepId)
-   */
-  private extractResearchIdFromStepId(stepId: string): string {
-    // This is a simple implementation - in practice, you might want a more robust way
-    // to associate steps with research IDs
-    return stepId.split('-')[0] || 'unknown';
-  }
-
   /**
    * Get progress history for a research project
    */
@@ -318,11 +310,11 @@ export class ProgressTracker {
   cleanupResearchProgress(researchId: string): void {
     this.progressHistory.delete(researchId);
 
-    // Clean up step-specific data
-    for (const [stepId, startTime] of this.stepStartTimes.entries()) {
-      if (stepId.startsWith(`${researchId}-`)) {
-        this.stepStartTimes.delete(stepId);
-        this.estimatedDurations.delete(stepId);
+    // Clean up step-specific data, including steps that never started
+    for (const key of [...this.stepStartTimes.keys(), ...this.estimatedDurations.keys()]) {
+      if (isStepKeyOf(key, researchId)) {
+        this.stepStartTimes.delete(key);
+        this.estimatedDurations.delete(key);
       }
     }
   }
@@ -338,10 +330,10 @@ export class ProgressTracker {
   } {
     const history = this.progressHistory.get(researchId) || [];
     const completedSteps = Array.from(this.stepStartTimes.entries())
-      .filter(([stepId]) => stepId.startsWith(`${researchId}-`))
-      .filter(([stepId]) => {
+      .filter(([key]) => isStepKeyOf(key, researchId))
+      .filter(([key]) => {
         // Check if step is completed (simplified check)
-        return history.some(update => update.message.includes(`Completed step ${stepId}`));
+        return history.some(update => update.message.includes(`Completed step ${stepIdOf(key)}`));
       });
 
     if (completedSteps.length === 0) {
@@ -353,9 +345,9 @@ export class ProgressTracker {
       };
     }
 
-    const durations = completedSteps.map(([stepId, startTime]) => {
+    const durations = completedSteps.map(([key, startTime]) => {
       const completionUpdate = history.find(update =>
-        update.message.includes(`Completed step ${stepId}`)
+        update.message.includes(`Completed step ${stepIdOf(key)}`)
       );
       if (completionUpdate) {
         return completionUpdate.timestamp.getTime() - startTime.getTime();
@@ -365,7 +357,7 @@ export class ProgressTracker {
 
     const averageStepDuration = durations.reduce((sum, dur) => sum + dur, 0) / durations.length;
     const totalEstimatedTime = Array.from(this.estimatedDurations.entries())
-      .filter(([stepId]) => stepId.startsWith(`${researchId}-`))
+      .filter(([key]) => isStepKeyOf(key, researchId))
       .reduce((sum, [, duration]) => sum + duration, 0);
 
     const totalActualTime = durations.reduce((sum, dur) => sum + dur, 0);
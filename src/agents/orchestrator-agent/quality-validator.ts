@@ -1,4 +1,5 @@
 import type { ResearchStepResult, SourceCitation, ResearchFinding, OrchestrationState, QualityThreshold } from '../shared/interfaces.js';
+import { SemanticSimilarity, type TextVectors } from './semantic-similarity.js';
 
 /**
  * Quality Validation System for the Orchestrator Agent
@@ -22,13 +23,15 @@ export class QualityValidator {
     'outdated': 0.2    // Over 1 year
   };
 
+  constructor(private similarity: SemanticSimilarity = new SemanticSimilarity()) {}
+
   /**
    * Validate overall quality of research results
    */
-  validateResearchQuality(
+  async validateResearchQuality(
     results: ResearchStepResult[],
     orchestrationState: OrchestrationState
-  ): {
+  ): Promise<{
     overallScore: number;
     qualityBreakdown: {
       sourceCredibility: number;
@@ -40,9 +43,9 @@ export class QualityValidator {
     issues: QualityIssue[];
     recommendations: string[];
     meetsThresholds: boolean;
-  } {
+  }> {
     const sourceCredibility = this.calculateSourceCredibility(results);
-    const dataConsistency = this.calculateDataConsistency(results);
+    const dataConsistency = await this.calculateDataConsistency(results);
     const crossValidation = this.calculateCrossValidation(results);
     const recency = this.calculateRecencyScore(results);
     const completeness = this.calculateCompleteness(results);
@@ -97,13 +100,14 @@ export class QualityValidator {
   /**
    * Calculate data consistency across results
    */
-  private calculateDataConsistency(results: ResearchStepResult[]): number {
+  private async calculateDataConsistency(results: ResearchStepResult[]): Promise<number> {
     if (results.length < 2) {
       return 1.0; // Single result is perfectly consistent
     }
 
     const findings = this.extractAllFindings(results);
-    const consistencyPairs = this.calculateFindingConsistencyPairs(findings);
+    const vectors = await this.similarity.vectorize(findings.map(finding => finding.claim));
+    const consistencyPairs = this.calculateFindingConsistencyPairs(findings, vectors);
 
     if (consistencyPairs.length === 0) {
       return 0.5; // No comparable findings
@@ -205,7 +209,7 @@ export class QualityValidator {
   /**
    * Calculate finding consistency pairs
    */
-  private calculateFindingConsistencyPairs(findings: ResearchFinding[]): Array<{
+  private calculateFindingConsistencyPairs(findings: ResearchFinding[], vectors: TextVectors): Array<{
     finding1: ResearchFinding;
     finding2: ResearchFinding;
     consistency: number;
@@ -218,7 +222,7 @@ export class QualityValidator {
 
     for (let i = 0; i < findings.length; i++) {
       for (let j = i + 1; j < findings.length; j++) {
-        const consistency = this.calculateFindingSimilarity(findings[i], findings[j]);
+        const consistency = this.calculateFindingSimilarity(findings[i], findings[j], vectors);
         pairs.push({
           finding1: findings[i],
           finding2: findings[j],
@@ -233,18 +237,9 @@ export class QualityValidator {
   /**
    * Calculate similarity between two findings
    */
-  private calculateFindingSimilarity(finding1: ResearchFinding, finding2: ResearchFinding): number {
-    // Simple text similarity based on claims
-    const claim1 = finding1.claim.toLowerCase();
-    const claim2 = finding2.claim.toLowerCase();
-
-    const words1 = new Set(claim1.split(/\s+/).filter(w => w.length > 2));
-    const words2 = new Set(claim2.split(/\s+/).filter(w => w.length > 2));
-
-    const intersection = new Set([...words1].filter(x => words2.has(x)));
-    const union = new Set([...words1, ...words2]);
-
-    const textSimilarity = intersection.size / union.size;
+  private calculateFindingSimilarity(finding1: ResearchFinding, finding2: ResearchFinding, vectors: TextVectors): number {
+    // Semantic similarity of the claims
+    const textSimilarity = vectors.similarity(finding1.claim, finding2.claim);
 
     // Factor in confidence agreement
     const confidenceSimilarity = 1 - Math.abs(finding1.confidence - finding2.confidence);
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { ResearchResult, SynthesisResult } from '../shared/interfaces.js';
+import { ReportRenderer } from './report-renderer.js';
+
+const researchResult: ResearchResult = {
+  topic: 'Solar <Power> & Storage',
+  findings: [
+    { claim: 'Battery costs fell 20% in 2023', evidence: 'Industry survey', confidence: 0.8, sources: [0], category: 'factual' },
+  ],
+  sources: [
+    {
+      url: 'https://www.energy.example.org/battery-survey',
+      title: 'Battery Price Survey',
+      author: 'Jane Marie Doe and John Smith',
+      publicationDate: new Date('2024-03-05T00:00:00Z'),
+      credibilityScore: 0.9,
+      type: 'academic',
+      accessedAt: new Date('2026-01-10T00:00:00Z'),
+    },
+  ],
+  methodology: 'test',
+  confidence: 0.8,
+  generatedAt: new Date('2026-01-10T00:00:00Z'),
+  processingTime: 0,
+};
+
+const synthesis: SynthesisResult = {
+  id: 'synthesis-1',
+  researchId: 'research-1',
+  synthesis: '# Research Synthesis\n\n## Costs\n\nBattery costs fell **20%** in 2023 [1]. See [2].\n\n- Storage grows\n- Solar grows\n\n## Sources\n\n[1] Battery Price Survey',
+  keyFindings: [{ dimension: 'costs', finding: 'Battery costs fell', confidence: 0.8, validationStatus: 'confirmed', supportingSources: [], consensusLevel: 1 }],
+  confidenceMetrics: { overallConfidence: 0.75, sourceDiversity: 0.5, validationRate: 1, contradictionRate: 0 },
+  gapsAndRecommendations: { knowledgeGaps: [], methodologicalLimitations: [], recommendations: [] },
+  sourceSummary: { totalSources: 1, sourceTypes: { academic: 1 }, topSources: [] },
+  generatedAt: new Date('2026-01-10T12:00:00Z'),
+  version: '1.0',
+};
+
+describe('ReportRenderer', () => {
+  it('renders Markdown with a reference list in the configured style', () => {
+    const render = (citationStyle: 'apa' | 'mla' | 'chicago') =>
+      new ReportRenderer({ citationStyle, formats: ['markdown'] }).renderMarkdown(synthesis, researchResult);
+
+    const markdown = render('apa');
+    expect(markdown).toContain('# Solar <Power> & Storage\n\n*Generated 2026-01-10 · 1 finding from 1 source · overall confidence 75% · references in APA style*');
+    expect(markdown).toContain('## Research Synthesis\n\n### Costs');
+    expect(markdown).not.toContain('## Sources');
+    expect(markdown).toContain('## References\n\n[1] Doe, J. M., & Smith, J. (2024, March 5). *Battery Price Survey*. energy.example.org. https://www.energy.example.org/battery-survey');
+    expect(render('mla')).toContain('[1] Doe, Jane Marie, and John Smith. "Battery Price Survey." *energy.example.org*, 5 Mar. 2024, www.energy.example.org/battery-survey. Accessed 10 Jan. 2026.');
+    expect(render('chicago')).toContain('[1] Doe, Jane Marie, and John Smith. "Battery Price Survey." energy.example.org. March 5, 2024. https://www.energy.example.org/battery-survey.');
+  });
+
+  it('renders escaped HTML whose citation markers link to their references', () => {
+    const html = new ReportRenderer({ citationStyle: 'apa' }).renderHtml(synthesis, researchResult);
+
+    expect(html).toContain('<title>Solar &lt;Power&gt; &amp; Storage</title>');
+    expect(html).toContain('<p>Battery costs fell <strong>20%</strong> in 2023 <a class="cite" href="#ref-1">[1]</a>. See [2].</p>');
+    expect(html).toContain('<ul>\n      <li>Storage grows</li>\n      <li>Solar grows</li>\n    </ul>');
+    expect(html).toContain('<li id="ref-1">Doe, J. M., &amp; Smith, J. (2024, March 5). <em>Battery Price Survey</em>.');
+  });
+
+  it('renders schema.org JSON-LD citing the sources', () => {
+    const jsonLd = new ReportRenderer({ citationStyle: 'apa' }).renderJsonLd(synthesis, researchResult);
+
+    expect(jsonLd).toMatchObject({
+      '@type': 'ScholarlyArticle',
+      'headline': 'Solar <Power> & Storage',
+      'keywords': ['costs'],
+      'citation': [{
+        '@type': 'ScholarlyArticle',
+        '@id': '#ref-1',
+        'author': [
+          { '@type': 'Person', 'familyName': 'Doe', 'givenName': 'Jane Marie' },
+          { '@type': 'Person', 'familyName': 'Smith', 'givenName': 'John' },
+        ],
+        'datePublished': '2024-03-05',
+      }],
+      'hasPart': [{ '@type': 'Claim', 'text': 'Battery costs fell 20% in 2023', 'citation': [{ '@id': '#ref-1' }] }],
+    });
+  });
+
+  it('renders each configured format as a named file', () => {
+    const reports = new ReportRenderer({ citationStyle: 'apa', formats: ['markdown', 'jsonld'] }).renderAll(synthesis, researchResult);
+
+    expect(reports.map(({ format, fileName, mimeType }) => ({ format, fileName, mimeType }))).toEqual([
+      { format: 'markdown', fileName: 'research-report-solar-power-storage.md', mimeType: 'text/markdown' },
+      { format: 'jsonld', fileName: 'research-report-solar-power-storage.jsonld', mimeType: 'application/ld+json' },
+    ]);
+    expect(JSON.parse(reports[1].content)).toMatchObject({ identifier: 'synthesis-1' });
+  });
+});
@@ -0,0 +1,283 @@
+import type { ResearchResult, SourceCitation, SynthesisResult } from '../shared/interfaces.js';
+import { CITATION_STYLES, formatBibliography, parseAuthors, toDate, type CitationStyle } from '../shared/bibliography.js';
+
+/**
+ * Report Renderer for the Orchestrator Agent
+ * Renders a synthesis and its aggregated research as a Markdown document, a
+ * standalone HTML page and schema.org JSON-LD (a `ScholarlyArticle`), each
+ * with a reference list in the configured citation style. Citation markers
+ * ([n] for `ResearchResult.sources[n - 1]`) refer to the numbered references.
+ */
+export class ReportRenderer {
+  private static readonly FORMATS: Record<ReportFormat, { mimeType: string; extension: string }> = {
+    'markdown': { mimeType: 'text/markdown', extension: 'md' },
+    'html': { mimeType: 'text/html', extension: 'html' },
+    'jsonld': { mimeType: 'application/ld+json', extension: 'jsonld' },
+  };
+
+  private static readonly SCHEMA_TYPES: Record<SourceCitation['type'], string> = {
+    'academic': 'ScholarlyArticle',
+    'news': 'NewsArticle',
+    'government': 'Report',
+    'web': 'WebPage',
+    'expert': 'CreativeWork',
+  };
+
+  readonly citationStyle: CitationStyle;
+  readonly formats: ReportFormat[];
+
+  constructor(options: ReportRendererOptions = {}) {
+    this.citationStyle = options.citationStyle ?? ReportRenderer.citationStyleFromEnvironment();
+    this.formats = options.formats ?? ReportRenderer.formatsFromEnvironment();
+  }
+
+  private static citationStyleFromEnvironment(): CitationStyle {
+    const style = process.env.ORCHESTRATOR_CITATION_STYLE?.trim().toLowerCase();
+    if (!style) {
+      return 'apa';
+    }
+    if (!CITATION_STYLES.includes(style as CitationStyle)) {
+      console.warn(`[ReportRenderer] Unknown citation style "${style}", using APA`);
+      return 'apa';
+    }
+    return style as CitationStyle;
+  }
+
+  // ORCHESTRATOR_REPORT_FORMATS is a comma-separated list; empty disables the exports
+  private static formatsFromEnvironment(): ReportFormat[] {
+    const value = process.env.ORCHESTRATOR_REPORT_FORMATS;
+    if (value === undefined) {
+      return ['markdown', 'html', 'jsonld'];
+    }
+    const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(format => format.length > 0);
+    formats
+      .filter(format => !(format in ReportRenderer.FORMATS))
+      .forEach(format => console.warn(`[ReportRenderer] Ignoring unknown report format "${format}"`));
+    return Array.from(new Set(formats.filter((format): format is ReportFormat => format in ReportRenderer.FORMATS)));
+  }
+
+  /**
+   * Render the report in each configured format
+   */
+  renderAll(synthesis: SynthesisResult, researchResult: ResearchResult): RenderedReport[] {
+    return this.formats.map(format => this.render(synthesis, researchResult, format));
+  }
+
+  render(synthesis: SynthesisResult, researchResult: ResearchResult, format: ReportFormat): RenderedReport {
+    const content = format === 'markdown'
+      ? this.renderMarkdown(synthesis, researchResult)
+      : format === 'html'
+        ? this.renderHtml(synthesis, researchResult)
+        : JSON.stringify(this.renderJsonLd(synthesis, researchResult), null, 2);
+    const { mimeType, extension } = ReportRenderer.FORMATS[format];
+    return { format, fileName: `${slugify(researchResult.topic)}.${extension}`, mimeType, content };
+  }
+
+  renderMarkdown(synthesis: SynthesisResult, researchResult: ResearchResult): string {
+    const references = formatBibliography(researchResult.sources, this.citationStyle);
+    return [
+      `# ${researchResult.topic}`,
+      `*${this.describe(synthesis, researchResult)}*`,
+      this.reportBody(synthesis),
+      ...(references.length > 0 ? ['## References', references.map((reference, index) => `[${index + 1}] ${reference}`).join('\n\n')] : []),
+    ].join('\n\n') + '\n';
+  }
+
+  /**
+   * A standalone HTML page; citation markers link to their references
+   */
+  renderHtml(synthesis: SynthesisResult, researchResult: ResearchResult): string {
+    const sourceCount = researchResult.sources.length;
+    const references = formatBibliography(researchResult.sources, this.citationStyle)
+      .map((reference, index) => `      <li id="ref-${index + 1}">${renderInline(reference, sourceCount)}</li>`);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(researchResult.topic)}</title>
+  <style>
+    body { font-family: Georgia, serif; line-height: 1.6; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+    .meta { color: #666; font-style: italic; }
+    a.cite { text-decoration: none; }
+    #references li { margin-bottom: 0.5rem; word-break: break-word; }
+  </style>
+</head>
+<body>
+  <article>
+    <header>
+      <h1>${escapeHtml(researchResult.topic)}</h1>
+      <p class="meta">${escapeHtml(this.describe(synthesis, researchResult))}</p>
+    </header>
+${markdownToHtml(this.reportBody(synthesis), sourceCount)}
+${references.length > 0 ? `    <section id="references">
+      <h2>References</h2>
+      <ol>
+${references.join('\n')}
+      </ol>
+    </section>
+` : ''}  </article>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * schema.org JSON-LD: the report as a `ScholarlyArticle` citing its sources,
+   * with the aggregated findings as `Claim` parts
+   */
+  renderJsonLd(synthesis: SynthesisResult, researchResult: ResearchResult): Record<string, unknown> {
+    const references = formatBibliography(researchResult.sources, this.citationStyle);
+    return {
+      '@context': 'https://schema.org',
+      '@type': 'ScholarlyArticle',
+      'identifier': synthesis.id,
+      'headline': researchResult.topic,
+      'about': researchResult.topic,
+      'keywords': Array.from(new Set(synthesis.keyFindings.map(finding => finding.dimension))),
+      'dateCreated': toDate(synthesis.generatedAt)?.toISOString(),
+      'version': synthesis.version,
+      'inLanguage': 'en',
+      'articleBody': this.reportBody(synthesis),
+      'citation': researchResult.sources.map((source, index) => ({
+        '@type': ReportRenderer.SCHEMA_TYPES[source.type] ?? 'CreativeWork',
+        '@id': `#ref-${index + 1}`,
+        'name': source.title,
+        'url': source.url,
+        'author': parseAuthors(source.author).map(name => name.literal
+          ? { '@type': 'Organization', 'name': name.literal }
+          : { '@type': 'Person', 'familyName': name.family, 'givenName': name.given, 'name': [name.given, name.family].filter(Boolean).join(' ') }),
+        'datePublished': toDate(source.publicationDate)?.toISOString().slice(0, 10),
+        'description': references[index],
+      })),
+      'hasPart': researchResult.findings.map(finding => ({
+        '@type': 'Claim',
+        'text': finding.claim,
+        'description': finding.evidence || undefined,
+        'genre': finding.category,
+        'citation': finding.sources
+          .filter(index => index >= 0 && index < researchResult.sources.length)
+          .map(index => ({ '@id': `#ref-${index + 1}` })),
+      })),
+      'additionalProperty': [
+        { '@type': 'PropertyValue', 'name': 'overallConfidence', 'value': synthesis.confidenceMetrics.overallConfidence },
+        { '@type': 'PropertyValue', 'name': 'validationRate', 'value': synthesis.confidenceMetrics.validationRate },
+        { '@type': 'PropertyValue', 'name': 'contradictionRate', 'value': synthesis.confidenceMetrics.contradictionRate },
+        ...(synthesis.attribution
+          ? [{ '@type': 'PropertyValue', 'name': 'supportedSentenceRate', 'value': synthesis.attribution.supportedRate }]
+          : []),
+      ],
+    };
+  }
+
+  private describe(synthesis: SynthesisResult, researchResult: ResearchResult): string {
+    const generatedAt = toDate(synthesis.generatedAt);
+    return [
+      generatedAt ? `Generated ${generatedAt.toISOString().slice(0, 10)}` : undefined,
+      `${plural(researchResult.findings.length, 'finding')} from ${plural(researchResult.sources.length, 'source')}`,
+      `overall confidence ${(synthesis.confidenceMetrics.overallConfidence * 100).toFixed(0)}%`,
+      `references in ${this.citationStyle === 'apa' ? 'APA' : this.citationStyle === 'mla' ? 'MLA' : 'Chicago'} style`,
+    ].filter(Boolean).join(' · ');
+  }
+
+  /**
+   * The synthesis narrative below the report title: its headings are demoted
+   * one level and a source list of its own is replaced by the references
+   */
+  private reportBody(synthesis: SynthesisResult): string {
+    return synthesis.synthesis
+      .replace(/\n#{1,2} Sources\n[\s\S]*$/, '')
+      .split('\n')
+      .map(line => /^#{1,5}\s/.test(line) ? `#${line}` : line)
+      .join('\n')
+      .trim();
+  }
+}
+
+/**
+ * Convert the Markdown the synthesis is written in (headings, lists,
+ * paragraphs, emphasis) to HTML; all text is escaped
+ */
+function markdownToHtml(markdown: string, sourceCount: number): string {
+  const html: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | undefined;
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      html.push(`    <p>${renderInline(paragraph.join(' '), sourceCount)}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      html.push(`    <${list.tag}>\n${list.items.map(item => `      <li>${item}</li>`).join('\n')}\n    </${list.tag}>`);
+      list = undefined;
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const item = /^\s*(?:([-*])|\d+\.)\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      html.push(`    <h${heading[1].length}>${renderInline(heading[2], sourceCount)}</h${heading[1].length}>`);
+    } else if (item) {
+      const tag = item[1] ? 'ul' : 'ol';
+      if (paragraph.length > 0 || list?.tag !== tag) {
+        flush();
+        list = { tag, items: [] };
+      }
+      list.items.push(renderInline(item[2], sourceCount));
+    } else if (line.trim().length === 0) {
+      flush();
+    } else {
+      if (list) {
+        flush();
+      }
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+  return html.join('\n');
+}
+
+function renderInline(text: string, sourceCount: number): string {
+  return escapeHtml(text)
+    .replace(/https?:\/\/[^\s<]+[^\s<.,;:)]/g, url => `<a href="${url}">${url}</a>`)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*\w])\*([^*\s](?:[^*]*[^*\s])?)\*(?![*\w])/g, '$1<em>$2</em>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\[(\d+)\]/g, (marker, number) =>
+      Number(number) >= 1 && Number(number) <= sourceCount ? `<a class="cite" href="#ref-${number}">${marker}</a>` : marker);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function slugify(topic: string): string {
+  const slug = topic.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60).replace(/-+$/, '');
+  return `research-report${slug ? `-${slug}` : ''}`;
+}
+
+export type ReportFormat = 'markdown' | 'html' | 'jsonld';
+
+export interface RenderedReport {
+  format: ReportFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface ReportRendererOptions {
+  citationStyle?: CitationStyle; // style of the reference list
+  formats?: ReportFormat[]; // formats published as report artifacts
+}
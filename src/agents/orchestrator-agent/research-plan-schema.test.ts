@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ResearchPlanFormatError, parseResearchPlan } from './research-plan-schema.js';
+
+const step = { id: 'search', description: 'Search the web', agentType: 'web-research' };
+
+describe('parseResearchPlan', () => {
+  it('fills defaults and revives dates of a plan sent as JSON', () => {
+    const plan = parseResearchPlan(JSON.parse(JSON.stringify({
+      researchPlan: { title: 'Solar power', executionSteps: [step], deadline: '2026-02-01T00:00:00Z' },
+    })));
+
+    expect(plan).toMatchObject({
+      topic: 'Solar power',
+      objectives: [],
+      methodology: { approach: 'exploratory' },
+      executionSteps: [{ ...step, dependencies: [], estimatedDuration: 30, successCriteria: 'N/A', fallbackStrategies: [], priority: 3 }],
+      deadline: new Date('2026-02-01T00:00:00Z'),
+    });
+    expect(plan?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('returns null for data that is not a plan', () => {
+    expect(parseResearchPlan({ researchQuery: { topic: 'Solar power' } })).toBeNull();
+    expect(parseResearchPlan('Solar power')).toBeNull();
+  });
+
+  it('reports every invalid field with its path', () => {
+    const plan = {
+      executionSteps: [step, { ...step, id: 'compare', agentType: 'web research agent', dependencies: 'search' }],
+      deadline: 'soon',
+    };
+
+    try {
+      parseResearchPlan(plan);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ResearchPlanFormatError);
+      const issues = (error as ResearchPlanFormatError).issues.join('\n');
+      expect(issues).toContain('executionSteps.1.agentType');
+      expect(issues).toContain('executionSteps.1.dependencies');
+      expect(issues).toContain('deadline: Invalid date');
+    }
+  });
+});
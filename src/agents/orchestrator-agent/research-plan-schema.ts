@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import type { ContingencyPlan, ResearchPlan, RiskFactor } from '../shared/interfaces.js';
+
+// Research plans reach the orchestrator as JSON, from the planning agent or
+// supplied in a message. Fields it relies on are checked; missing ones get defaults.
+
+const researchStepSchema = z.object({
+  id: z.string().min(1),
+  description: z.string(),
+  agentType: z.enum(['planning', 'orchestrator', 'web-research', 'academic-research', 'news-research', 'data-analysis']),
+  dependencies: z.array(z.string()).default([]),
+  estimatedDuration: z.number().nonnegative().default(30),
+  successCriteria: z.string().default('N/A'),
+  fallbackStrategies: z.array(z.string()).default([]),
+  priority: z.number().default(3),
+  inputs: z.array(z.object({
+    stepId: z.string(),
+    outputs: z.array(z.enum(['findings', 'sources', 'entities', 'statistics'])).optional(),
+  })).optional(),
+}).passthrough();
+
+const dataSourceSchema = z.object({
+  type: z.enum(['web', 'academic', 'news', 'social', 'government', 'statistical']),
+  priority: z.number(),
+  credibilityWeight: z.number().min(0).max(1),
+  estimatedVolume: z.enum(['high', 'medium', 'low']),
+  accessRequirements: z.array(z.string()).optional(),
+  rateLimits: z.object({ requestsPerMinute: z.number(), requestsPerHour: z.number() }).optional(),
+}).passthrough();
+
+const qualityThresholdSchema = z.object({
+  metric: z.enum(['source-credibility', 'data-completeness', 'cross-validation', 'recency', 'consistency']),
+  minimumValue: z.number().min(0).max(1),
+  acceptableRange: z.tuple([z.number(), z.number()]),
+  measurementMethod: z.string(),
+}).passthrough();
+
+const researchPlanSchema = z.object({
+  id: z.string().default(() => `plan-${Date.now()}`),
+  topic: z.string().optional(),
+  title: z.string().optional(),
+  objectives: z.array(z.string()).default([]),
+  methodology: z.object({
+    approach: z.enum(['systematic', 'exploratory', 'comparative', 'case-study']),
+    justification: z.string(),
+    phases: z.array(z.string()),
+    qualityControls: z.array(z.string()),
+  }).default({ approach: 'exploratory', justification: 'Not specified', phases: [], qualityControls: [] }),
+  dataSources: z.array(dataSourceSchema).default([]),
+  executionSteps: z.array(researchStepSchema),
+  // Not read by the orchestrator, passed on as they are
+  riskAssessment: z.array(z.custom<RiskFactor>()).default([]),
+  contingencyPlans: z.array(z.custom<ContingencyPlan>()).default([]),
+  qualityThresholds: z.array(qualityThresholdSchema).default([]),
+  estimatedTimeline: z.string().default('Not specified'),
+  version: z.string().default('1.0'),
+  deadline: z.coerce.date().optional(), // dates arrive as JSON strings
+  createdAt: z.coerce.date().default(() => new Date()),
+  updatedAt: z.coerce.date().default(() => new Date()),
+}).passthrough();
+
+/**
+ * Thrown when a message or the planning agent supplies a research plan whose
+ * fields are missing or of the wrong type
+ */
+export class ResearchPlanFormatError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Research plan is invalid:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ResearchPlanFormatError';
+  }
+}
+
+/**
+ * Read either `{ researchPlan }` or a bare plan. Returns null for anything
+ * without execution steps, which is not meant as a plan.
+ */
+export function parseResearchPlan(candidate: unknown): ResearchPlan | null {
+  const plan = typeof candidate === 'object' && candidate !== null && 'researchPlan' in candidate
+    ? candidate.researchPlan
+    : candidate;
+  if (typeof plan !== 'object' || plan === null || !('executionSteps' in plan) || !Array.isArray(plan.executionSteps)) {
+    return null;
+  }
+
+  const parsed = researchPlanSchema.safeParse(plan);
+  if (!parsed.success) {
+    throw new ResearchPlanFormatError(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+  }
+  const { title, ...fields } = parsed.data;
+  return { ...fields, topic: fields.topic ?? title ?? 'Untitled research' };
+}
@@ -1,4 +1,6 @@
 import type { ResearchStepResult, SourceCitation, OrchestrationState, ResearchFinding, ResearchResult } from '../shared/interfaces.js';
+import { SemanticSimilarity, type TextVectors } from './semantic-similarity.js';
+import { ContradictionAnalyzer } from './contradiction-analysis.js';
 
 /**
  * Result Aggregation System for the Orchestrator Agent
@@ -8,13 +10,18 @@ export class ResultAggregator {
   private resultCache: Map<string, ResearchStepResult[]> = new Map();
   private sourceDeduplicationCache: Map<string, SourceCitation> = new Map();
 
+  constructor(
+    private similarity: SemanticSimilarity = new SemanticSimilarity(),
+    private contradictionAnalyzer: ContradictionAnalyzer = new ContradictionAnalyzer(similarity)
+  ) {}
+
   /**
    * Aggregate results from completed research steps
    */
-  aggregateResults(
+  async aggregateResults(
     completedResults: ResearchStepResult[],
     orchestrationState: OrchestrationState
-  ): ResearchResult {
+  ): Promise<ResearchResult> {
     const { researchId, plan } = orchestrationState;
 
     // Cache results for this research
@@ -26,7 +33,8 @@ export class ResultAggregator {
 
     // Extract and consolidate findings
     const allFindings = this.extractAllFindings(completedResults);
-    const consolidatedFindings = this.consolidateFindings(allFindings, deduplicatedSources);
+    const vectors = await this.similarity.vectorize(allFindings.flatMap(finding => [finding.claim, finding.evidence]));
+    const consolidatedFindings = this.consolidateFindings(allFindings, deduplicatedSources, vectors);
 
     // Calculate overall confidence and processing time
     const overallConfidence = this.calculateOverallConfidence(completedResults);
@@ -76,10 +84,15 @@ export class ResultAggregator {
         deduplicated.push(source);
         this.sourceDeduplicationCache.set(key, source);
       } else {
-        // Merge credibility scores for duplicate sources
+        // Merge credibility scores and bibliographic details for duplicate sources
         const existing = this.sourceDeduplicationCache.get(key);
         if (existing) {
           existing.credibilityScore = Math.max(existing.credibilityScore, source.credibilityScore);
+          existing.author ??= source.author;
+          existing.publicationDate ??= source.publicationDate;
+          existing.venue ??= source.venue;
+          existing.doi ??= source.doi;
+          existing.arxivId ??= source.arxivId;
         }
       }
     }
@@ -91,6 +104,14 @@ export class ResultAggregator {
    * Generate a unique key for source deduplication
    */
   private generateSourceKey(source: SourceCitation): string {
+    // Papers found through different indexes share their DOI or arXiv ID
+    if (source.doi) {
+      return `doi:${source.doi.toLowerCase()}`;
+    }
+    if (source.arxivId) {
+      return `arxiv:${source.arxivId.replace(/v\d+$/, '')}`;
+    }
+
     // Normalize URL for comparison
     const normalizedUrl = this.normalizeUrl(source.url);
 
@@ -194,13 +215,14 @@ export class ResultAggregator {
       category: 'factual' | 'analytical' | 'speculative';
       stepId: string;
     }>,
-    sources: SourceCitation[]
+    sources: SourceCitation[],
+    vectors: TextVectors
   ): ResearchFinding[] {
     const consolidated: ResearchFinding[] = [];
     const processedClaims = new Set<string>();
 
     // Group similar findings
-    const claimGroups = this.groupSimilarFindings(findings);
+    const claimGroups = this.groupSimilarFindings(findings, vectors);
 
     for (const group of claimGroups) {
       if (group.length === 0) {
@@ -214,7 +236,7 @@ export class ResultAggregator {
 
       // Merge evidence from all similar findings
       const allEvidence = group.map(f => f.evidence).filter(e => e);
-      const consolidatedEvidence = this.consolidateEvidence(allEvidence);
+      const consolidatedEvidence = this.consolidateEvidence(allEvidence, vectors);
 
       // Collect all source indices
       const allSourceIndices = new Set<number>();
@@ -240,7 +262,8 @@ export class ResultAggregator {
   }
 
   /**
-   * Group similar findings based on claim similarity
+   * Group findings whose claims say the same thing. Each finding joins the
+   * group whose first claim it is most similar to, if similar enough.
    */
   private groupSimilarFindings(findings: Array<{
     claim: string;
@@ -249,23 +272,26 @@ export class ResultAggregator {
     sourceIndices: number[];
     category: 'factual' | 'analytical' | 'speculative';
     stepId: string;
-  }>): Array<typeof findings> {
+  }>, vectors: TextVectors): Array<typeof findings> {
     const groups: Array<typeof findings> = [];
 
     for (const finding of findings) {
-      let addedToGroup = false;
+      let bestGroup: typeof findings | undefined;
+      let bestSimilarity = 0;
 
-      // Check if this finding is similar to any existing group
+      // Find the most similar existing group
       for (const group of groups) {
-        if (this.areClaimsSimilar(finding.claim, group[0].claim)) {
-          group.push(finding);
-          addedToGroup = true;
-          break;
+        const similarity = vectors.similarity(finding.claim, group[0].claim);
+        if (this.areClaimsSimilar(finding.claim, group[0].claim, vectors) && similarity > bestSimilarity) {
+          bestGroup = group;
+          bestSimilarity = similarity;
         }
       }
 
-      // Create new group if no similar claims found
-      if (!addedToGroup) {
+      // Join the most similar group, or start a new one
+      if (bestGroup) {
+        bestGroup.push(finding);
+      } else {
         groups.push([finding]);
       }
     }
@@ -274,30 +300,16 @@ export class ResultAggregator {
   }
 
   /**
-   * Check if two claims are similar using simple text similarity
+   * Check if two claims are similar enough to merge (see SemanticSimilarity)
    */
-  private areClaimsSimilar(claim1: string, claim2: string): boolean {
-    const normalize = (text: string) =>
-      text.toLowerCase()
-        .replace(/[^\w\s]/g, '')
-        .split(/\s+/)
-        .filter(word => word.length > 2);
-
-    const words1 = new Set(normalize(claim1));
-    const words2 = new Set(normalize(claim2));
-
-    const intersection = new Set([...words1].filter(x => words2.has(x)));
-    const union = new Set([...words1, ...words2]);
-
-    const similarity = intersection.size / union.size;
-
-    return similarity > 0.6; // 60% word overlap threshold
+  private areClaimsSimilar(claim1: string, claim2: string, vectors: TextVectors): boolean {
+    return vectors.isSimilar(claim1, claim2, 'claim');
   }
 
   /**
    * Consolidate evidence from multiple similar findings
    */
-  private consolidateEvidence(evidenceList: string[]): string {
+  private consolidateEvidence(evidenceList: string[], vectors: TextVectors): string {
     if (evidenceList.length === 0) {
       return '';
     }
@@ -306,7 +318,7 @@ export class ResultAggregator {
     }
 
     // Remove duplicates and very similar evidence
-    const uniqueEvidence = this.deduplicateEvidence(evidenceList);
+    const uniqueEvidence = this.deduplicateEvidence(evidenceList, vectors);
 
     if (uniqueEvidence.length === 1) {
       return uniqueEvidence[0];
@@ -319,12 +331,12 @@ export class ResultAggregator {
   /**
    * Remove duplicate or very similar evidence
    */
-  private deduplicateEvidence(evidenceList: string[]): string[] {
+  private deduplicateEvidence(evidenceList: string[], vectors: TextVectors): string[] {
     const unique: string[] = [];
 
     for (const evidence of evidenceList) {
       const isDuplicate = unique.some(existing =>
-        this.calculateTextSimilarity(evidence, existing) > 0.8
+        vectors.isSimilar(evidence, existing, 'evidence')
       );
 
       if (!isDuplicate) {
@@ -335,19 +347,6 @@ export class ResultAggregator {
     return unique;
   }
 
-  /**
-   * Calculate simple text similarity
-   */
-  private calculateTextSimilarity(text1: string, text2: string): number {
-    const words1 = new Set(text1.toLowerCase().split(/\s+/));
-    const words2 = new Set(text2.toLowerCase().split(/\s+/));
-
-    const intersection = new Set([...words1].filter(x => words2.has(x)));
-    const union = new Set([...words1, ...words2]);
-
-    return intersection.size / union.size;
-  }
-
   /**
    * Determine consensus category from multiple findings
    */
@@ -458,11 +457,11 @@ export class ResultAggregator {
   /**
    * Validate result integrity and detect potential issues
    */
-  validateResultIntegrity(aggregatedResult: ResearchResult): {
+  async validateResultIntegrity(aggregatedResult: ResearchResult): Promise<{
     isValid: boolean;
     issues: string[];
     recommendations: string[];
-  } {
+  }> {
     const issues: string[] = [];
     const recommendations: string[] = [];
 
@@ -490,7 +489,7 @@ export class ResultAggregator {
     }
 
     // Check for contradictory findings
-    const contradictions = this.detectContradictions(aggregatedResult.findings);
+    const contradictions = await this.detectContradictions(aggregatedResult.findings);
     if (contradictions.length > 0) {
       issues.push(`Found ${contradictions.length} potential contradictions in findings`);
       recommendations.push('Review and resolve contradictory findings manually');
@@ -504,50 +503,22 @@ export class ResultAggregator {
   }
 
   /**
-   * Detect potential contradictions in findings
+   * Detect findings whose claims contradict each other (see ContradictionAnalyzer)
    */
-  private detectContradictions(findings: ResearchFinding[]): Array<{
+  private async detectContradictions(findings: ResearchFinding[]): Promise<Array<{
     finding1: ResearchFinding;
     finding2: ResearchFinding;
     contradictionType: string;
-  }> {
-    const contradictions: Array<{
-      finding1: ResearchFinding;
-      finding2: ResearchFinding;
-      contradictionType: string;
-    }> = [];
-
-    // Simple contradiction detection based on keyword opposites
-    const oppositePairs = [
-      ['increase', 'decrease'],
-      ['positive', 'negative'],
-      ['effective', 'ineffective'],
-      ['beneficial', 'harmful'],
-      ['successful', 'unsuccessful']
-    ];
-
-    for (let i = 0; i < findings.length; i++) {
-      for (let j = i + 1; j < findings.length; j++) {
-        const finding1 = findings[i];
-        const finding2 = findings[j];
-
-        const text1 = (finding1.claim + ' ' + finding1.evidence).toLowerCase();
-        const text2 = (finding2.claim + ' ' + finding2.evidence).toLowerCase();
-
-        for (const [word1, word2] of oppositePairs) {
-          if ((text1.includes(word1) && text2.includes(word2)) ||
-              (text1.includes(word2) && text2.includes(word1))) {
-            contradictions.push({
-              finding1,
-              finding2,
-              contradictionType: `${word1} vs ${word2}`
-            });
-          }
-        }
-      }
-    }
-
-    return contradictions;
+  }>> {
+    const relations = await this.contradictionAnalyzer.findRelations(findings.map(f => f.claim));
+
+    return relations
+      .filter(relation => relation.label === 'contradicts')
+      .map(relation => ({
+        finding1: findings.find(f => f.claim === relation.claim1)!,
+        finding2: findings.find(f => f.claim === relation.claim2)!,
+        contradictionType: relation.rationale
+      }));
   }
 
   /**
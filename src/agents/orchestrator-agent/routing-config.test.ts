@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigurationError } from '../shared/configuration-error.js';
+import { RoutingConfigError, parseRoutingConfig } from './routing-config.js';
+
+const rule = {
+  id: 'academic-first',
+  targetAgentId: 'academic-research-agent',
+  priority: 3,
+  timeout: 60000,
+  condition: { type: 'load-threshold', agentId: 'academic-research-agent', threshold: 2 },
+};
+
+describe('parseRoutingConfig', () => {
+  it('reads JSON rules, defaulting their message type', () => {
+    expect(parseRoutingConfig(JSON.stringify({ version: 1, rules: [rule] }), 'routing.json')).toEqual([
+      { ...rule, messageType: 'task-request' },
+    ]);
+  });
+
+  it('reads YAML files as YAML', () => {
+    const yaml = [
+      'rules:',
+      '  - id: step-two-to-news',
+      '    targetAgentId: news-research-agent',
+      '    priority: 1',
+      '    timeout: 30000',
+      '    condition:',
+      '      type: step-status',
+      '      stepId: step-1',
+      '      expectedStatus: completed',
+    ].join('\n');
+
+    expect(parseRoutingConfig(yaml, 'routing.YML')).toEqual([{
+      id: 'step-two-to-news',
+      messageType: 'task-request',
+      targetAgentId: 'news-research-agent',
+      priority: 1,
+      timeout: 30000,
+      condition: { type: 'step-status', stepId: 'step-1', expectedStatus: 'completed' },
+    }]);
+  });
+
+  it('reports every invalid field with its path', () => {
+    const config = { rules: [rule, { ...rule, id: 'slow', timeout: -1, extra: true }, { ...rule, id: 'other', condition: { type: 'load-threshold', agentId: 'x' } }] };
+
+    try {
+      parseRoutingConfig(JSON.stringify(config), 'routing.json');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RoutingConfigError);
+      const issues = (error as RoutingConfigError).issues.join('\n');
+      expect(issues).toContain('rules.1: Unrecognized key(s) in object: \'extra\'');
+      expect(issues).toContain('rules.1.timeout');
+      expect(issues).toContain('rules.2.condition.threshold');
+    }
+  });
+
+  it('rejects duplicate rule IDs', () => {
+    expect(() => parseRoutingConfig(JSON.stringify({ rules: [rule, rule] }), 'routing.json'))
+      .toThrow('rules.1.id: Duplicate rule ID "academic-first"');
+  });
+
+  it('reports syntax errors', () => {
+    expect(() => parseRoutingConfig('{ "rules": [', 'routing.json')).toThrow(RoutingConfigError);
+    expect(() => parseRoutingConfig('{ "rules": [', 'routing.json')).toThrow(ConfigurationError); // fails the start
+    expect(() => parseRoutingConfig('rules: [', 'routing.yaml')).toThrow(/Invalid routing config routing.yaml/);
+  });
+});
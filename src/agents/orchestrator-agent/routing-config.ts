@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { watch, type FSWatcher } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, dirname, extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ConfigurationError } from '../shared/configuration-error.js';
+import type { MessageRouter, RoutingRule } from './message-router.js';
+
+// Declarative routing rules for the MessageRouter, loaded from a JSON or YAML file and reloaded when it changes
+
+const templateString = z.string().min(1); // may contain ${...} template variables
+
+const routingConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('step-status'), stepId: templateString, expectedStatus: templateString }).strict(),
+  z.object({ type: z.literal('agent-availability'), agentId: templateString }).strict(),
+  z.object({ type: z.literal('load-threshold'), agentId: templateString, threshold: z.number().positive() }).strict(),
+]);
+
+const routingRuleSchema = z.object({
+  id: z.string().min(1),
+  messageType: z.literal('task-request').default('task-request'), // other messages are not routed to agents
+  targetAgentId: templateString, // an agent ID such as `web-research-agent`, or `all`
+  requiredCapability: z.string().min(1).optional(),
+  priority: z.number().int(),
+  timeout: z.number().int().positive(), // milliseconds, for requests that set none
+  condition: routingConditionSchema.optional(),
+}).strict();
+
+export const routingConfigSchema = z.object({
+  version: z.literal(1).default(1),
+  rules: z.array(routingRuleSchema),
+}).strict().superRefine((config, context) => {
+  const seen = new Set<string>();
+  config.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule ID "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export type RoutingConfig = z.infer<typeof routingConfigSchema>;
+
+/**
+ * Thrown when a routing config file cannot be read, parsed or validated. At
+ * startup it fails the orchestrator like any other invalid configuration.
+ */
+export class RoutingConfigError extends ConfigurationError {
+  constructor(readonly path: string, readonly issues: string[]) {
+    super(`Invalid routing config ${path}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'RoutingConfigError';
+  }
+}
+
+/**
+ * Parse and validate a routing config. `.yaml`/`.yml` files are read as YAML,
+ * anything else as JSON.
+ */
+export function parseRoutingConfig(source: string, path: string): RoutingRule[] {
+  let document: unknown;
+  try {
+    document = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(source) : JSON.parse(source);
+  } catch (error) {
+    throw new RoutingConfigError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const result = routingConfigSchema.safeParse(document);
+  if (!result.success) {
+    throw new RoutingConfigError(
+      path,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data.rules;
+}
+
+/**
+ * Routing Config Loader for the Orchestrator Agent
+ * Applies the rules of a config file to the message router and, once watching,
+ * re-applies them whenever the file changes. A change that fails validation is
+ * logged and the rules in effect are kept.
+ */
+export class RoutingConfigLoader {
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private appliedHash?: string;
+  private debounceMs: number;
+
+  constructor(private path: string, private messageRouter: MessageRouter, options: RoutingConfigLoaderOptions = {}) {
+    this.debounceMs = options.debounceMs ?? 250;
+  }
+
+  /**
+   * Read, validate and apply the config. Throws a RoutingConfigError when it is invalid.
+   */
+  async load(): Promise<RoutingRule[]> {
+    let source: string;
+    try {
+      source = await readFile(this.path, 'utf8');
+    } catch (error) {
+      throw new RoutingConfigError(this.path, [error instanceof Error ? error.message : String(error)]);
+    }
+
+    const hash = createHash('sha256').update(source).digest('hex');
+    const rules = parseRoutingConfig(source, this.path);
+    if (hash !== this.appliedHash) {
+      this.messageRouter.setRoutingRules(rules, this.path);
+      this.appliedHash = hash;
+      console.log(`[RoutingConfigLoader] Applied ${rules.length} routing rules from ${this.path}`);
+    }
+    return rules;
+  }
+
+  /**
+   * Reload the config whenever it changes. The directory is watched so edits
+   * that replace the file (as most editors do) are picked up too.
+   */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+    const fileName = basename(this.path);
+    this.watcher = watch(dirname(this.path), (_event, changed) => {
+      if (changed === fileName) {
+        this.scheduleReload();
+      }
+    });
+    this.watcher.on('error', error => console.error(`[RoutingConfigLoader] Stopped watching ${this.path}:`, error));
+    this.watcher.unref();
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  // Editors write in several steps; reload once the file has settled
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.load().catch(error => {
+        console.error(`[RoutingConfigLoader] Keeping the current routing rules: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, this.debounceMs);
+  }
+}
+
+export interface RoutingConfigLoaderOptions {
+  debounceMs?: number; // quiet period after a change before reloading
+}
+
+/**
+ * Create a loader for the file named by ORCHESTRATOR_ROUTING_CONFIG, if any;
+ * without one the router keeps its built-in rules
+ */
+export function createRoutingConfigFromEnv(messageRouter: MessageRouter): RoutingConfigLoader | undefined {
+  const path = process.env.ORCHESTRATOR_ROUTING_CONFIG;
+  return path ? new RoutingConfigLoader(path, messageRouter) : undefined;
+}
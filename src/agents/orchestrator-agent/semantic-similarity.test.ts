@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { SemanticSimilarity, tokenize } from './semantic-similarity.js';
+
+describe('tokenize', () => {
+  it('stems words, drops stop words and keeps numbers', () => {
+    expect(tokenize('The studies showed prices rising by 3.5% in 2023')).toEqual(['study', 'show', 'pric', 'ris', '3.5%', '2023']);
+  });
+});
+
+describe('SemanticSimilarity', () => {
+  const similarity = new SemanticSimilarity({ embedder: 'local' });
+  const claim = 'Solar panel installations increased sharply in Germany';
+  const paraphrase = 'Germany saw a sharp increase in solar panel installations';
+  const unrelated = 'Coffee exports from Brazil reached a record';
+
+  it('compares texts with local TF-IDF vectors when offline', async () => {
+    const vectors = await similarity.vectorize([claim, paraphrase, unrelated]);
+
+    expect(vectors.source).toBe('local');
+    expect(vectors.similarity(claim, claim)).toBe(1);
+    expect(vectors.similarity(claim, paraphrase)).toBeGreaterThan(vectors.similarity(claim, unrelated));
+    expect(vectors.isSimilar(claim, paraphrase, 'related')).toBe(true);
+    expect(vectors.isSimilar(claim, unrelated, 'related')).toBe(false);
+    expect(vectors.similarity(claim, 'a text that was not vectorized')).toBe(0);
+  });
+
+  it('applies threshold overrides to local vectors', async () => {
+    const strict = new SemanticSimilarity({ embedder: 'local', thresholds: { local: { related: 0.99 } } });
+    const vectors = await strict.vectorize([claim, paraphrase]);
+
+    expect(vectors.thresholds).toEqual({ claim: 0.6, evidence: 0.8, related: 0.99 });
+    expect(vectors.isSimilar(claim, paraphrase, 'related')).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { isOfflineModelMode } from '../shared/model-harness.js';
+import { ai } from './genkit.js';
+
+/**
+ * Semantic Similarity Service for the Orchestrator Agent
+ * Turns claims and evidence into vectors so paraphrases from different agents
+ * can be recognized. Texts are embedded with a Genkit embedder; offline, with
+ * `ORCHESTRATOR_EMBEDDER=local` or when the embedder fails, TF-IDF vectors
+ * over the texts being compared are used instead, which is deterministic.
+ */
+export class SemanticSimilarity {
+  private static readonly DEFAULT_THRESHOLDS: Record<VectorSource, SimilarityThresholds> = {
+    'embedding': { claim: 0.85, evidence: 0.92, related: 0.7 },
+    'local': { claim: 0.6, evidence: 0.8, related: 0.3 },
+  };
+
+  private embedder?: string;
+  private thresholds: Record<VectorSource, SimilarityThresholds>;
+  private embeddingCache: Map<string, number[]> = new Map();
+  private cacheSize: number;
+
+  constructor(options: SemanticSimilarityOptions = {}) {
+    const embedder = options.embedder ?? process.env.ORCHESTRATOR_EMBEDDER ?? 'googleai/gemini-embedding-001';
+    // Offline model modes have no embedder plugin loaded
+    this.embedder = embedder === 'local' || isOfflineModelMode() ? undefined : embedder;
+    this.cacheSize = options.cacheSize ?? 2000;
+
+    const overrides = options.thresholds ?? SemanticSimilarity.thresholdsFromEnvironment();
+    this.thresholds = {
+      'embedding': { ...SemanticSimilarity.DEFAULT_THRESHOLDS.embedding, ...overrides.embedding },
+      'local': { ...SemanticSimilarity.DEFAULT_THRESHOLDS.local, ...overrides.local },
+    };
+  }
+
+  /**
+   * Read threshold overrides from ORCHESTRATOR_SIMILARITY_THRESHOLDS, e.g.
+   * `claim=0.8,evidence=0.9,local.claim=0.5`; unprefixed keys apply to embeddings
+   */
+  private static thresholdsFromEnvironment(): Partial<Record<VectorSource, Partial<SimilarityThresholds>>> {
+    const thresholds: Partial<Record<VectorSource, Partial<SimilarityThresholds>>> = {};
+    for (const entry of (process.env.ORCHESTRATOR_SIMILARITY_THRESHOLDS ?? '').split(',')) {
+      const [key, value] = entry.split('=').map(part => part.trim());
+      const [source, purpose] = key?.includes('.') ? key.split('.') : ['embedding', key];
+      if ((source === 'embedding' || source === 'local') && ['claim', 'evidence', 'related'].includes(purpose) && Number(value) > 0) {
+        thresholds[source] = { ...thresholds[source], [purpose]: Number(value) };
+      }
+    }
+    return thresholds;
+  }
+
+  /**
+   * Vectorize texts for comparison with each other. All texts that will be
+   * compared should be passed in one call: they are embedded in one batch, and
+   * local vectors are weighted by the texts passed together.
+   */
+  async vectorize(texts: string[]): Promise<TextVectors> {
+    const uniqueTexts = Array.from(new Set(texts.filter(text => text.trim().length > 0)));
+
+    if (this.embedder && uniqueTexts.length > 0) {
+      try {
+        return new TextVectors(await this.embed(uniqueTexts, this.embedder), 'embedding', this.thresholds.embedding);
+      } catch (error) {
+        console.warn(`[SemanticSimilarity] Embedder ${this.embedder} failed, using local TF-IDF vectors:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return new TextVectors(tfIdfVectors(uniqueTexts), 'local', this.thresholds.local);
+  }
+
+  private async embed(texts: string[], embedder: string): Promise<Map<string, number[]>> {
+    const missing = texts.filter(text => !this.embeddingCache.has(text));
+    if (missing.length > 0) {
+      const embeddings = await ai.embedMany({ embedder, content: missing });
+      missing.forEach((text, index) => this.cacheEmbedding(text, embeddings[index].embedding));
+    }
+    return new Map(texts.map(text => [text, this.embeddingCache.get(text)!]));
+  }
+
+  private cacheEmbedding(text: string, embedding: number[]): void {
+    this.embeddingCache.set(text, embedding);
+    if (this.embeddingCache.size > this.cacheSize) {
+      this.embeddingCache.delete(this.embeddingCache.keys().next().value!); // oldest first
+    }
+  }
+}
+
+/**
+ * Vectors for a set of texts, compared by cosine similarity
+ */
+export class TextVectors {
+  constructor(
+    private vectors: Map<string, number[]>,
+    readonly source: VectorSource,
+    readonly thresholds: SimilarityThresholds
+  ) {}
+
+  /**
+   * Cosine similarity of two vectorized texts, from 0 (unrelated) to 1.
+   * Identical texts are 1; texts that were not vectorized are 0.
+   */
+  similarity(text1: string, text2: string): number {
+    if (text1 === text2) {
+      return 1;
+    }
+    const vector1 = this.vectors.get(text1);
+    const vector2 = this.vectors.get(text2);
+    if (!vector1 || !vector2) {
+      return 0;
+    }
+
+    let dot = 0;
+    let norm1 = 0;
+    let norm2 = 0;
+    for (let index = 0; index < vector1.length; index++) {
+      dot += vector1[index] * vector2[index];
+      norm1 += vector1[index] * vector1[index];
+      norm2 += vector2[index] * vector2[index];
+    }
+    return norm1 > 0 && norm2 > 0 ? Math.max(0, Math.min(1, dot / Math.sqrt(norm1 * norm2))) : 0;
+  }
+
+  /**
+   * Whether two texts are similar enough for a purpose: claims to merge,
+   * evidence to deduplicate, or related claims to check for contradictions
+   */
+  isSimilar(text1: string, text2: string, purpose: SimilarityPurpose): boolean {
+    return this.similarity(text1, text2) >= this.thresholds[purpose];
+  }
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'which', 'with', 'will', 'would',
+]);
+
+/**
+ * Lowercased word stems without stop words; numbers are kept since they often
+ * tell claims apart
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.,]\d+)*%?/gu) ?? [])
+    .filter(token => !STOP_WORDS.has(token))
+    .map(token => /^\p{L}+$/u.test(token) ? stem(token) : token);
+}
+
+/**
+ * Strip common English suffixes so inflections of a word match
+ */
+function stem(word: string): string {
+  for (const [suffix, replacement] of [['ies', 'y'], ['ing', ''], ['ed', ''], ['es', ''], ['s', '']] as const) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length) + replacement;
+    }
+  }
+  return word;
+}
+
+/**
+ * TF-IDF vectors (sublinear term frequency, smoothed inverse document
+ * frequency) over the given texts
+ */
+function tfIdfVectors(texts: string[]): Map<string, number[]> {
+  const termCounts = texts.map(text => {
+    const counts = new Map<string, number>();
+    tokenize(text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  termCounts.forEach(counts => counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+  const vocabulary = Array.from(documentFrequency.keys());
+  const idf = vocabulary.map(term => Math.log((1 + texts.length) / (1 + documentFrequency.get(term)!)) + 1);
+
+  return new Map(texts.map((text, index) => [
+    text,
+    vocabulary.map((term, termIndex) => {
+      const count = termCounts[index].get(term) ?? 0;
+      return count > 0 ? (1 + Math.log(count)) * idf[termIndex] : 0;
+    }),
+  ]));
+}
+
+export type VectorSource = 'embedding' | 'local';
+export type SimilarityPurpose = keyof SimilarityThresholds;
+
+export interface SimilarityThresholds {
+  claim: number; // claims at least this similar are merged into one finding
+  evidence: number; // evidence at least this similar is listed once
+  related: number; // claims at least this similar are about the same thing and checked for contradictions
+}
+
+export interface SemanticSimilarityOptions {
+  embedder?: string; // Genkit embedder name, or 'local' for TF-IDF vectors only
+  thresholds?: Partial<Record<VectorSource, Partial<SimilarityThresholds>>>;
+  cacheSize?: number; // embeddings kept for texts seen again
+}
@@ -0,0 +1,123 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OrchestrationIssue, ResearchPlan, ResearchStep, ResearchStepResult } from '../shared/interfaces.js';
+import { OrchestratorStateManager } from './state-manager.js';
+import { InMemoryStateStore, LibSQLStateStore } from './state-store.js';
+
+const step = (id: string, dependencies: string[] = []): ResearchStep => ({
+  id,
+  description: `Step ${id}`,
+  agentType: 'web-research',
+  dependencies,
+  estimatedDuration: 10,
+  successCriteria: 'done',
+  fallbackStrategies: [],
+  priority: 3,
+});
+
+const plan: ResearchPlan = {
+  id: 'plan-1',
+  topic: 'Solar power',
+  objectives: [],
+  methodology: { approach: 'exploratory', justification: 'test', phases: [], qualityControls: [] },
+  dataSources: [],
+  executionSteps: [step('search'), step('analyze', ['search'])],
+  riskAssessment: [],
+  contingencyPlans: [],
+  qualityThresholds: [],
+  estimatedTimeline: '1 hour',
+  version: '1.0',
+  createdAt: new Date('2026-01-10T00:00:00Z'),
+  updatedAt: new Date('2026-01-10T00:00:00Z'),
+};
+
+const result = (stepId: string, status: ResearchStepResult['status']): ResearchStepResult => ({
+  stepId,
+  status,
+  data: {},
+  sources: [],
+  processingTime: 1000,
+  qualityScore: 0.8,
+  issues: [],
+  metadata: {},
+});
+
+const issue = (id: string, description: string): OrchestrationIssue => ({
+  id,
+  type: 'agent-failure',
+  severity: 'high',
+  description,
+  affectedSteps: ['search'],
+  createdAt: new Date('2026-01-10T00:00:00Z'),
+});
+
+describe('OrchestratorStateManager', () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), 'orchestrator-state-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it('restores persisted research and resumes only what has not finished', async () => {
+    const store = new LibSQLStateStore(`file:${join(stateDir, 'state.db')}`);
+    const manager = new OrchestratorStateManager(store);
+    manager.initializeResearch('running', plan);
+    manager.updatePhase('running', 'execution');
+    manager.completeStep('running', 'search', result('search', 'success'));
+    // Finished with the second step blocked by the failed first one
+    manager.initializeResearch('blocked', plan);
+    manager.completeStep('blocked', 'search', result('search', 'failed'));
+    manager.updatePhase('blocked', 'completed');
+    manager.initializeResearch('cancelled', plan);
+    manager.updatePhase('cancelled', 'cancelled');
+    await manager.flush();
+
+    const restarted = new OrchestratorStateManager(store);
+    const inFlight = await restarted.restore();
+
+    expect(inFlight.map(state => state.researchId)).toEqual(['running']);
+    expect(inFlight[0].completedSteps).toEqual([result('search', 'success')]);
+    expect(restarted.listActiveResearch()).toEqual(['running']);
+    expect(restarted.isResearchFinished('blocked')).toBe(true);
+    await store.close();
+  });
+
+  it('persists every issue, also issues that share an ID', async () => {
+    const store = new LibSQLStateStore(`file:${join(stateDir, 'state.db')}`);
+    const manager = new OrchestratorStateManager(store);
+    manager.initializeResearch('research-1', plan);
+    manager.addIssue('research-1', issue('issue-1', 'First failure'));
+    manager.addIssue('research-1', issue('issue-1', 'Second failure'));
+    await manager.flush();
+
+    const restored = await store.load('research-1');
+
+    expect(restored?.issues.map(restoredIssue => restoredIssue.description)).toEqual(['First failure', 'Second failure']);
+    await store.close();
+  });
+
+  it('cleans up finished research once it is older than the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-10T00:00:00Z'));
+    const store = new InMemoryStateStore();
+    const manager = new OrchestratorStateManager(store);
+    manager.initializeResearch('running', plan);
+    manager.initializeResearch('failed', plan);
+    manager.updatePhase('failed', 'failed');
+    manager.initializeResearch('recent', plan);
+    vi.setSystemTime(new Date('2026-01-11T06:00:00Z'));
+    manager.updatePhase('recent', 'completed');
+    await manager.flush();
+
+    expect(manager.cleanupCompletedResearch(24)).toEqual(['failed']);
+    expect(manager.getResearchState('failed')).toBeNull();
+    expect((await store.loadAll()).map(state => state.researchId)).toEqual(['running', 'recent']);
+  });
+});
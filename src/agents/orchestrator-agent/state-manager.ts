@@ -5,24 +5,55 @@ import {
   ResearchStepResult,
   OrchestrationIssue,
   ProgressUpdate,
+  ResearchOutcome,
   ResearchStep
 } from '../shared/interfaces.js';
+import type { StateStore } from './state-store.js';
 
 /**
  * State Manager for orchestrating research execution
  * Maintains research state across agent interactions and system restarts
  */
 export class OrchestratorStateManager {
+  private static readonly OUTCOMES: ReadonlySet<string> = new Set<ResearchOutcome>(['completed', 'failed', 'cancelled']);
+
   private researchStates: Map<string, OrchestrationState> = new Map();
-  private statePersistenceEnabled: boolean = false;
+  private stateStore: StateStore | null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(stateStore: StateStore | null = null) {
+    this.stateStore = stateStore;
+  }
 
-  constructor(persistenceEnabled: boolean = false) {
-    this.statePersistenceEnabled = persistenceEnabled;
-    if (persistenceEnabled) {
-      this.loadPersistedStates();
+  /**
+   * Load persisted research states into memory, returning those still in flight
+   */
+  async restore(): Promise<OrchestrationState[]> {
+    if (!this.stateStore) {
+      return [];
+    }
+
+    try {
+      const states = await this.stateStore.loadAll();
+      for (const state of states) {
+        this.researchStates.set(state.researchId, state);
+      }
+      console.log(`Restored ${states.length} persisted research states`);
+      return states.filter(state => !this.isResearchFinished(state.researchId));
+    } catch (error) {
+      console.error('Failed to load persisted states:', error);
+      return [];
     }
   }
 
+  /**
+   * Wait for all queued state writes to reach the store
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+  }
+
   /**
    * Initialize a new research orchestration state
    */
@@ -95,6 +126,45 @@ export class OrchestratorStateManager {
     this.persistState(researchId, state);
   }
 
+  /**
+   * Drop active step executions so they are delegated again (e.g. after a restart
+   * lost track of the remote tasks). Returns the affected step IDs.
+   */
+  requeueActiveSteps(researchId: string): string[] {
+    const state = this.researchStates.get(researchId);
+    if (!state) {
+      throw new Error(`Research state not found: ${researchId}`);
+    }
+
+    const stepIds = state.activeSteps.map(s => s.stepId);
+    state.activeSteps = [];
+    state.lastUpdated = new Date();
+    this.persistState(researchId, state);
+
+    return stepIds;
+  }
+
+  /**
+   * Mark the pending and running steps of a cancelled research as cancelled.
+   * Returns the affected step IDs.
+   */
+  cancelActiveSteps(researchId: string): string[] {
+    const state = this.researchStates.get(researchId);
+    if (!state) {
+      throw new Error(`Research state not found: ${researchId}`);
+    }
+
+    const cancelled = state.activeSteps.filter(s => s.status === 'pending' || s.status === 'running');
+    cancelled.forEach(s => {
+      s.status = 'cancelled';
+      s.completedAt = new Date();
+    });
+    state.lastUpdated = new Date();
+    this.persistState(researchId, state);
+
+    return cancelled.map(s => s.stepId);
+  }
+
   /**
    * Complete an active step and move it to completed steps
    */
@@ -210,6 +280,15 @@ export class OrchestratorStateManager {
     return completedSteps === totalSteps && activeSteps === 0;
   }
 
+  /**
+   * Whether the research has ended: completed, failed or cancelled. Research
+   * that ended with steps blocked by failed dependencies is finished too.
+   */
+  isResearchFinished(researchId: string): boolean {
+    const state = this.researchStates.get(researchId);
+    return state !== undefined && OrchestratorStateManager.OUTCOMES.has(state.currentPhase);
+  }
+
   /**
    * Get research progress summary
    */
@@ -219,15 +298,18 @@ export class OrchestratorStateManager {
   }
 
   /**
-   * Clean up completed research states (for memory management)
+   * Clean up finished research states (for memory management)
    */
   cleanupCompletedResearch(maxAgeHours: number = 24): string[] {
     const cutoffTime = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
     const cleanedUp: string[] = [];
 
     for (const [researchId, state] of this.researchStates.entries()) {
-      if (state.lastUpdated < cutoffTime && this.isResearchComplete(researchId)) {
+      if (state.lastUpdated < cutoffTime && this.isResearchFinished(researchId)) {
         this.researchStates.delete(researchId);
+        this.stateStore?.delete(researchId).catch(error => {
+          console.error(`Failed to delete persisted state for research ${researchId}:`, error);
+        });
         cleanedUp.push(researchId);
       }
     }
@@ -235,13 +317,39 @@ export class OrchestratorStateManager {
     return cleanedUp;
   }
 
+  /**
+   * Clean up research finished more than maxAgeHours ago now and then
+   * periodically (at most hourly)
+   */
+  startCleanup(maxAgeHours: number): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+    const cleanup = (): void => {
+      const cleanedUp = this.cleanupCompletedResearch(maxAgeHours);
+      if (cleanedUp.length > 0) {
+        console.log(`Cleaned up ${cleanedUp.length} finished research states`);
+      }
+    };
+    cleanup();
+    this.cleanupTimer = setInterval(cleanup, Math.min(maxAgeHours * 60 * 60 * 1000, 60 * 60 * 1000));
+    this.cleanupTimer.unref();
+  }
+
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+  }
+
   /**
    * List all active research projects
    */
   listActiveResearch(): string[] {
     const active: string[] = [];
     for (const [researchId, state] of this.researchStates.entries()) {
-      if (!this.isResearchComplete(researchId)) {
+      if (!this.isResearchFinished(researchId)) {
         active.push(researchId);
       }
     }
@@ -278,31 +386,20 @@ export class OrchestratorStateManager {
     state.progress.overallConfidence = avgQuality || 0.5;
   }
 
+  /**
+   * Queue a write of the current state. Writes are serialized so the store
+   * always ends up with the latest snapshot.
+   */
   private persistState(researchId: string, state: OrchestrationState): void {
-    if (!this.statePersistenceEnabled) {
+    const store = this.stateStore;
+    if (!store) {
       return;
     }
 
-    try {
-      // In a real implementation, this would save to a database or file
-      // For now, just log that persistence would happen
-      console.log(`Persisting state for research ${researchId}`);
-    } catch (error) {
-      console.error(`Failed to persist state for research ${researchId}:`, error);
-    }
-  }
-
-  private loadPersistedStates(): void {
-    if (!this.statePersistenceEnabled) {
-      return;
-    }
-
-    try {
-      // In a real implementation, this would load from a database or file
-      // For now, just log that loading would happen
-      console.log('Loading persisted research states');
-    } catch (error) {
-      console.error('Failed to load persisted states:', error);
-    }
+    this.pendingWrites = this.pendingWrites
+      .then(() => store.save(state))
+      .catch(error => {
+        console.error(`Failed to persist state for research ${researchId}:`, error);
+      });
   }
-}
\ No newline at end of file
+}
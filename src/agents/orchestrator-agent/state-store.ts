@@ -0,0 +1,282 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { createClient } from '@libsql/client';
+import type { Client, InStatement } from '@libsql/client';
+import type { OrchestrationState, ResearchStepExecution } from '../shared/interfaces.js';
+import { ConfigurationError } from '../shared/configuration-error.js';
+
+/**
+ * Storage backend for orchestration state
+ * Implementations must return states whose Date fields are real Date objects
+ */
+export interface StateStore {
+  save(state: OrchestrationState): Promise<void>;
+  load(researchId: string): Promise<OrchestrationState | null>;
+  loadAll(): Promise<OrchestrationState[]>;
+  delete(researchId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Fields that hold Dates anywhere inside OrchestrationState
+const DATE_FIELDS = new Set([
+  'startedAt',
+  'completedAt',
+  'lastUpdated',
+  'createdAt',
+  'updatedAt',
+  'resolvedAt',
+  'timestamp',
+  'publicationDate',
+  'accessedAt',
+  'deadline',
+]);
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Parse JSON written by toJson, turning ISO strings in known date fields back into Dates
+ */
+function fromJson<T>(json: string): T {
+  return JSON.parse(json, (key, value) => {
+    if (DATE_FIELDS.has(key) && typeof value === 'string') {
+      return new Date(value);
+    }
+    return value;
+  }) as T;
+}
+
+/**
+ * Keeps serialized snapshots in memory. States do not survive a restart, but
+ * callers get the same copy semantics as the durable store.
+ */
+export class InMemoryStateStore implements StateStore {
+  private snapshots: Map<string, string> = new Map();
+
+  async save(state: OrchestrationState): Promise<void> {
+    this.snapshots.set(state.researchId, toJson(state));
+  }
+
+  async load(researchId: string): Promise<OrchestrationState | null> {
+    const snapshot = this.snapshots.get(researchId);
+    return snapshot ? fromJson<OrchestrationState>(snapshot) : null;
+  }
+
+  async loadAll(): Promise<OrchestrationState[]> {
+    return Array.from(this.snapshots.values()).map(snapshot => fromJson<OrchestrationState>(snapshot));
+  }
+
+  async delete(researchId: string): Promise<void> {
+    this.snapshots.delete(researchId);
+  }
+
+  async close(): Promise<void> {
+    this.snapshots.clear();
+  }
+}
+
+/**
+ * libSQL/SQLite-backed store. Each save replaces the research's rows in a
+ * single write transaction, so a crash never leaves a half-written state.
+ */
+export class LibSQLStateStore implements StateStore {
+  private client: Client;
+  private ready: Promise<void>;
+
+  constructor(url: string, authToken?: string) {
+    if (url.startsWith('file:')) {
+      mkdirSync(dirname(url.slice('file:'.length)), { recursive: true });
+    }
+    this.client = createClient({ url, authToken });
+    this.ready = this.migrate();
+    // A failure surfaces on first use; until then it must not go unhandled
+    this.ready.catch(() => undefined);
+  }
+
+  private async migrate(): Promise<void> {
+    await this.client.batch([
+      `CREATE TABLE IF NOT EXISTS research_states (
+        research_id TEXT PRIMARY KEY,
+        plan TEXT NOT NULL,
+        current_phase TEXT NOT NULL,
+        progress TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        last_updated TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS step_executions (
+        research_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        execution TEXT NOT NULL,
+        PRIMARY KEY (research_id, step_id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS progress_updates (
+        research_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        progress_update TEXT NOT NULL,
+        PRIMARY KEY (research_id, step_id, position)
+      )`,
+      `CREATE TABLE IF NOT EXISTS step_results (
+        research_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        result TEXT NOT NULL,
+        PRIMARY KEY (research_id, step_id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS issues (
+        research_id TEXT NOT NULL,
+        issue_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        issue TEXT NOT NULL,
+        PRIMARY KEY (research_id, position)
+      )`,
+    ], 'write');
+  }
+
+  async save(state: OrchestrationState): Promise<void> {
+    await this.ready;
+
+    const { researchId } = state;
+    const statements: InStatement[] = [
+      ...this.deleteStatements(researchId),
+      {
+        sql: `INSERT INTO research_states (research_id, plan, current_phase, progress, started_at, last_updated)
+              VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [
+          researchId,
+          toJson(state.plan),
+          state.currentPhase,
+          toJson(state.progress),
+          state.startedAt.toISOString(),
+          state.lastUpdated.toISOString(),
+        ],
+      },
+    ];
+
+    state.activeSteps.forEach((execution, position) => {
+      const { progressUpdates, ...executionFields } = execution;
+      statements.push({
+        sql: 'INSERT INTO step_executions (research_id, step_id, position, execution) VALUES (?, ?, ?, ?)',
+        args: [researchId, execution.stepId, position, toJson(executionFields)],
+      });
+      progressUpdates.forEach((update, updatePosition) => {
+        statements.push({
+          sql: 'INSERT INTO progress_updates (research_id, step_id, position, progress_update) VALUES (?, ?, ?, ?)',
+          args: [researchId, execution.stepId, updatePosition, toJson(update)],
+        });
+      });
+    });
+
+    state.completedSteps.forEach((result, position) => {
+      statements.push({
+        sql: 'INSERT INTO step_results (research_id, step_id, position, result) VALUES (?, ?, ?, ?)',
+        args: [researchId, result.stepId, position, toJson(result)],
+      });
+    });
+
+    state.issues.forEach((issue, position) => {
+      statements.push({
+        sql: 'INSERT INTO issues (research_id, issue_id, position, issue) VALUES (?, ?, ?, ?)',
+        args: [researchId, issue.id, position, toJson(issue)],
+      });
+    });
+
+    await this.client.batch(statements, 'write');
+  }
+
+  async load(researchId: string): Promise<OrchestrationState | null> {
+    await this.ready;
+
+    const stateRows = await this.client.execute({
+      sql: 'SELECT * FROM research_states WHERE research_id = ?',
+      args: [researchId],
+    });
+    if (stateRows.rows.length === 0) {
+      return null;
+    }
+
+    const row = stateRows.rows[0];
+    const [executions, updates, results, issues] = await Promise.all([
+      this.selectJson('SELECT step_id, execution AS json FROM step_executions WHERE research_id = ? ORDER BY position', researchId),
+      this.selectJson('SELECT step_id, progress_update AS json FROM progress_updates WHERE research_id = ? ORDER BY position', researchId),
+      this.selectJson('SELECT step_id, result AS json FROM step_results WHERE research_id = ? ORDER BY position', researchId),
+      this.selectJson('SELECT issue_id, issue AS json FROM issues WHERE research_id = ? ORDER BY position', researchId),
+    ]);
+
+    return {
+      researchId,
+      plan: fromJson(String(row.plan)),
+      currentPhase: String(row.current_phase) as OrchestrationState['currentPhase'],
+      progress: fromJson(String(row.progress)),
+      startedAt: new Date(String(row.started_at)),
+      lastUpdated: new Date(String(row.last_updated)),
+      activeSteps: executions.map(execution => ({
+        ...fromJson<Omit<ResearchStepExecution, 'progressUpdates'>>(execution.json),
+        progressUpdates: updates
+          .filter(update => update.step_id === execution.step_id)
+          .map(update => fromJson(update.json)),
+      })),
+      completedSteps: results.map(result => fromJson(result.json)),
+      issues: issues.map(issue => fromJson(issue.json)),
+    };
+  }
+
+  async loadAll(): Promise<OrchestrationState[]> {
+    await this.ready;
+
+    const ids = await this.client.execute('SELECT research_id FROM research_states ORDER BY started_at');
+    const states = await Promise.all(ids.rows.map(row => this.load(String(row.research_id))));
+    return states.filter((state): state is OrchestrationState => state !== null);
+  }
+
+  async delete(researchId: string): Promise<void> {
+    await this.ready;
+    await this.client.batch(this.deleteStatements(researchId), 'write');
+  }
+
+  async close(): Promise<void> {
+    await this.ready.catch(() => undefined);
+    this.client.close();
+  }
+
+  private deleteStatements(researchId: string): InStatement[] {
+    return ['research_states', 'step_executions', 'progress_updates', 'step_results', 'issues'].map(table => ({
+      sql: `DELETE FROM ${table} WHERE research_id = ?`,
+      args: [researchId],
+    }));
+  }
+
+  private async selectJson(sql: string, researchId: string): Promise<Array<Record<string, string>>> {
+    const result = await this.client.execute({ sql, args: [researchId] });
+    return result.rows.map(row => {
+      const record: Record<string, string> = {};
+      for (const column of result.columns) {
+        record[column] = String(row[column]);
+      }
+      return record;
+    });
+  }
+}
+
+/**
+ * Create the state store selected by ORCHESTRATOR_STATE_STORE ('memory' or 'libsql')
+ */
+export function createStateStoreFromEnv(): StateStore {
+  const backend = process.env.ORCHESTRATOR_STATE_STORE ?? 'memory';
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryStateStore();
+
+    case 'libsql':
+      return new LibSQLStateStore(
+        process.env.ORCHESTRATOR_STATE_DB_URL ?? 'file:.a2a-state/orchestrator-state.db',
+        process.env.ORCHESTRATOR_STATE_DB_AUTH_TOKEN
+      );
+
+    default:
+      throw new ConfigurationError(`Unknown ORCHESTRATOR_STATE_STORE "${backend}" (expected "memory" or "libsql")`);
+  }
+}
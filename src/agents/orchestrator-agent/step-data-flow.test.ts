@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { OrchestrationState, ResearchStep, ResearchStepResult } from '../shared/interfaces.js';
+import { StepDataFlow } from './step-data-flow.js';
+
+const result = (data: unknown): ResearchStepResult => ({
+  stepId: 'analyze',
+  status: 'success',
+  data,
+  sources: [{ url: 'https://example.com/report', title: 'Report', credibilityScore: 0.8, type: 'web', accessedAt: new Date('2026-01-10T00:00:00Z') }],
+  processingTime: 1000,
+  qualityScore: 0.7,
+  issues: [],
+  metadata: { agentType: 'data-analysis' },
+});
+
+describe('StepDataFlow', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('extracts findings and statistics from a data analysis result', () => {
+    const output = new StepDataFlow().extractOutputs(result({
+      statisticalAnalysis: {
+        keyFindings: [{ statement: 'Solar output grew 42% in 2025', confidence: 0.9, sources: [0] }],
+        testsPerformed: [{ testName: 'correlation', results: { statistic: 0.65, pValue: 0.001, interpretation: 'Strong positive correlation' } }],
+      },
+    }), undefined, ['findings', 'statistics']);
+
+    expect(output.findings).toEqual([
+      { claim: 'Solar output grew 42% in 2025', evidence: '', confidence: 0.9, sources: [0], category: 'analytical' },
+    ]);
+    expect(output.statistics).toEqual([
+      { value: 'correlation = 0.65, p = 0.001', context: 'Strong positive correlation' },
+      { value: '42%', context: 'Solar output grew 42% in 2025.', sourceUrl: 'https://example.com/report' },
+    ]);
+  });
+
+  it('drops only the invalid elements of a result and logs them', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const output = new StepDataFlow().extractOutputs(result({
+      findings: [{ evidence: 'no claim' }, { claim: 'Solar is cheap', confidence: 'high' }, { claim: 'Solar Power Europe reports record installs', sources: [0] }],
+      entities: ['Germany', { name: 42 }],
+    }), undefined, ['findings', 'sources', 'entities']);
+
+    expect(output.findings).toEqual([
+      { claim: 'Solar Power Europe reports record installs', evidence: '', confidence: 0.7, sources: [0], category: 'factual' },
+    ]);
+    expect(output.entities).toEqual(['Germany']);
+    expect(output.sources).toHaveLength(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+    const logged = warn.mock.calls[0][0] as string;
+    expect(logged).toContain('Dropped invalid data of step analyze');
+    expect(logged).toContain('findings.0: A finding needs a claim or statement');
+    expect(logged).toContain('findings.1.confidence');
+    expect(logged).toContain('entities.1');
+  });
+
+  it('reads the key studies of scholarly findings', () => {
+    const output = new StepDataFlow().extractOutputs(result({
+      scholarlyFindings: [{
+        topic: 'Solar adoption',
+        keyStudies: [
+          { title: 'Report', journal: 'Energy Policy', publicationYear: 2024, keyFindings: 'Subsidies doubled rooftop adoption', qualityScore: 0.9 },
+          { title: 'Study without findings' },
+        ],
+      }],
+    }), undefined, ['findings']);
+
+    expect(output.findings).toEqual([
+      { claim: 'Subsidies doubled rooftop adoption', evidence: 'Report (Energy Policy, 2024)', confidence: 0.9, sources: [0], category: 'factual' },
+    ]);
+  });
+
+  it('forwards upstream outputs only to agent types that read them', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const step = (agentType: ResearchStep['agentType'], inputs?: ResearchStep['inputs']): ResearchStep => ({
+      id: 'next', description: 'Next step', agentType, dependencies: ['analyze'], inputs,
+      estimatedDuration: 10, successCriteria: 'done', fallbackStrategies: [], priority: 3,
+    });
+    const state = {
+      plan: { executionSteps: [] },
+      completedSteps: [result({ findings: ['Solar is cheap'] })],
+    } as unknown as OrchestrationState;
+    const dataFlow = new StepDataFlow();
+
+    expect(dataFlow.resolveInputs(step('data-analysis'), 'data-analysis', state)).toHaveLength(1);
+    expect(dataFlow.resolveInputs(step('web-research'), 'web-research', state)).toEqual([]);
+    expect(warn).not.toHaveBeenCalled();
+
+    expect(dataFlow.resolveInputs(step('news-research', [{ stepId: 'analyze' }]), 'news-research', state)).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Step next declares inputs, but news-research agents do not read upstream outputs'));
+  });
+});
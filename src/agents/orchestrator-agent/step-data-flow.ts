@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import type {
+  AgentType,
+  ExtractedStatistic,
+  OrchestrationState,
+  ResearchFinding,
+  ResearchStep,
+  ResearchStepResult,
+  SourceCitation,
+  StepInput,
+  StepOutputKind,
+  UpstreamStepOutput,
+} from '../shared/interfaces.js';
+
+// Shapes agents return their results in: research agents a ResearchResult, the
+// academic prompt scholarly findings, data analysis its statistical tests
+// A bare string is a finding's claim
+const findingSchema = z.preprocess(finding => (typeof finding === 'string' ? { claim: finding } : finding), z.object({
+  claim: z.string().optional(),
+  statement: z.string().optional(),
+  evidence: z.string().optional(),
+  explanation: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  sources: z.array(z.number().int()).optional(), // indices into the step's sources
+  category: z.enum(['factual', 'analytical', 'speculative']).optional(),
+}).passthrough().refine(finding => finding.claim !== undefined || finding.statement !== undefined, {
+  message: 'A finding needs a claim or statement',
+}));
+
+const scholarlyStudySchema = z.object({
+  title: z.string(),
+  keyFindings: z.string(),
+  journal: z.string().optional(),
+  publicationYear: z.number().int().optional(),
+  doi: z.string().optional(),
+  qualityScore: z.number().min(0).max(1).optional(),
+}).passthrough();
+
+const entitySchema = z.preprocess(entity => (typeof entity === 'string' ? { name: entity } : entity), z.object({ name: z.string().min(1) }).passthrough());
+
+const statisticValueSchema = z.union([z.number(), z.string()]);
+
+const statisticalTestSchema = z.object({
+  testName: z.string().optional(),
+  results: z.object({
+    statistic: statisticValueSchema.optional(),
+    pValue: statisticValueSchema.optional(),
+    effectSize: statisticValueSchema.optional(),
+    interpretation: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+type FindingData = z.infer<typeof findingSchema>;
+
+/**
+ * The parts of a step result the data flow reads, each element validated on its own
+ */
+interface StepResultData {
+  findings: Array<{ finding: FindingData; category: ResearchFinding['category'] }>;
+  studies: Array<z.infer<typeof scholarlyStudySchema>>;
+  entities: Array<z.infer<typeof entitySchema>>;
+  tests: Array<z.infer<typeof statisticalTestSchema>>;
+}
+
+/**
+ * Step Data Flow for the Orchestrator Agent
+ * Resolves the outputs a step takes from the steps before it, so downstream
+ * agents build on what upstream agents found instead of starting from scratch
+ */
+export class StepDataFlow {
+  // Caps keep forwarded context within what an agent's prompt can use
+  private static readonly MAX_FINDINGS = 10;
+  private static readonly MAX_SOURCES = 10;
+  private static readonly MAX_ENTITIES = 20;
+  private static readonly MAX_STATISTICS = 15;
+
+  // Outputs forwarded from each dependency when a step declares no inputs, for
+  // the agent types that read parameters.upstream; the search agents do not
+  private static readonly DEFAULT_OUTPUTS: Partial<Record<AgentType, StepOutputKind[]>> = {
+    'data-analysis': ['statistics', 'findings', 'sources'],
+  };
+
+  /**
+   * Collect the outputs of completed upstream steps that a step takes as input.
+   * Failed or not yet completed steps contribute nothing.
+   */
+  resolveInputs(step: ResearchStep, agentType: AgentType, orchestrationState: OrchestrationState): UpstreamStepOutput[] {
+    const defaultOutputs = StepDataFlow.DEFAULT_OUTPUTS[agentType];
+    if (!defaultOutputs) {
+      if (step.inputs && step.inputs.length > 0) {
+        console.warn(`[StepDataFlow] Step ${step.id} declares inputs, but ${agentType} agents do not read upstream outputs; they are not sent`);
+      }
+      return [];
+    }
+
+    const inputs: StepInput[] = step.inputs ?? step.dependencies.map(stepId => ({ stepId, outputs: defaultOutputs }));
+
+    const upstream: UpstreamStepOutput[] = [];
+    for (const input of inputs) {
+      const result = orchestrationState.completedSteps.find(r => r.stepId === input.stepId && r.status !== 'failed');
+      const upstreamStep = orchestrationState.plan.executionSteps.find(s => s.id === input.stepId);
+      if (!result) {
+        continue;
+      }
+      upstream.push(this.extractOutputs(result, upstreamStep, input.outputs ?? ['findings', 'sources', 'entities', 'statistics']));
+    }
+    return upstream;
+  }
+
+  /**
+   * Pick the requested outputs out of a step result. Agents return different
+   * shapes: research agents a ResearchResult, the academic prompt scholarly
+   * findings, data analysis its statistical tests.
+   */
+  extractOutputs(result: ResearchStepResult, step: ResearchStep | undefined, kinds: StepOutputKind[]): UpstreamStepOutput {
+    const data = this.parseResultData(result);
+    const allSources = result.sources;
+    const allFindings = this.extractFindings(data, result.qualityScore, allSources);
+
+    // Keep the sources the forwarded findings cite, renumbered to the forwarded list
+    const findings = allFindings.slice(0, StepDataFlow.MAX_FINDINGS);
+    const sourceIndices = Array.from(new Set(findings.flatMap(finding => finding.sources)))
+      .filter(index => index >= 0 && index < allSources.length);
+    for (let index = 0; index < allSources.length && sourceIndices.length < StepDataFlow.MAX_SOURCES; index++) {
+      if (!sourceIndices.includes(index)) {
+        sourceIndices.push(index);
+      }
+    }
+    const renumbered = new Map(sourceIndices.map((original, position) => [original, position]));
+    const sources = sourceIndices.map(index => allSources[index]);
+
+    const output: UpstreamStepOutput = {
+      stepId: result.stepId,
+      agentType: result.metadata.agentType ?? step?.agentType,
+      description: step?.description ?? result.stepId,
+    };
+    if (kinds.includes('findings')) {
+      output.findings = findings.map(finding => ({
+        ...finding,
+        sources: finding.sources.filter(index => renumbered.has(index)).map(index => renumbered.get(index)!),
+      }));
+    }
+    if (kinds.includes('sources')) {
+      output.sources = sources;
+    }
+    if (kinds.includes('entities')) {
+      output.entities = this.extractEntities(data, allFindings);
+    }
+    if (kinds.includes('statistics')) {
+      output.statistics = this.extractStatistics(data, allFindings, allSources);
+    }
+    return output;
+  }
+
+  /**
+   * Read the findings, studies, entities and tests of a step result. Invalid
+   * elements (common in model output) are dropped and logged; the rest is kept.
+   */
+  private parseResultData(result: ResearchStepResult): StepResultData {
+    const data: StepResultData = { findings: [], studies: [], entities: [], tests: [] };
+    // Results without structured data (e.g. plain text) have nothing to extract
+    if (!result.data || typeof result.data !== 'object') {
+      return data;
+    }
+
+    const dropped: string[] = [];
+    const elements = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, path: string): T[] => {
+      if (value === undefined || value === null) {
+        return [];
+      }
+      if (!Array.isArray(value)) {
+        dropped.push(`${path}: Expected an array`);
+        return [];
+      }
+      return value.flatMap((element, index) => {
+        const parsed = schema.safeParse(element);
+        if (!parsed.success) {
+          dropped.push(...parsed.error.issues.map(issue => `${[path, index, ...issue.path].join('.')}: ${issue.message}`));
+          return [];
+        }
+        return [parsed.data];
+      });
+    };
+
+    const findings = (path: string, category: ResearchFinding['category']) =>
+      elements(findingSchema, fieldAt(result.data, path), path).map(finding => ({ finding, category }));
+    data.findings = [
+      ...findings('findings', 'factual'),
+      ...findings('keyFindings', 'factual'),
+      ...findings('statisticalAnalysis.keyFindings', 'analytical'),
+      ...findings('quantitativeInsights.primaryConclusions', 'analytical'),
+    ];
+    data.studies = elements(z.unknown(), fieldAt(result.data, 'scholarlyFindings'), 'scholarlyFindings')
+      .flatMap((group, index) => elements(scholarlyStudySchema, fieldAt(group, 'keyStudies'), `scholarlyFindings.${index}.keyStudies`));
+    data.entities = [
+      ...elements(entitySchema, fieldAt(result.data, 'entities'), 'entities'),
+      ...elements(entitySchema, fieldAt(result.data, 'keyEntities'), 'keyEntities'),
+    ];
+    data.tests = elements(statisticalTestSchema, fieldAt(result.data, 'statisticalAnalysis.testsPerformed'), 'statisticalAnalysis.testsPerformed');
+
+    if (dropped.length > 0) {
+      console.warn(`[StepDataFlow] Dropped invalid data of step ${result.stepId}: ${dropped.join('; ')}`);
+    }
+    return data;
+  }
+
+  private extractFindings(data: StepResultData, defaultConfidence: number, sources: SourceCitation[]): ResearchFinding[] {
+    const toFinding = (finding: FindingData, category: ResearchFinding['category']): ResearchFinding => ({
+      claim: finding.claim ?? finding.statement ?? '', // the schema requires one of them
+      evidence: finding.evidence ?? finding.explanation ?? '',
+      confidence: finding.confidence ?? defaultConfidence,
+      sources: finding.sources ?? [],
+      category: finding.category ?? category,
+    });
+
+    // A study's findings cite the study itself when it is among the step's sources
+    const studyFindings = data.studies.map((study): ResearchFinding => {
+      const sourceIndex = sources.findIndex(source => (study.doi !== undefined && source.doi === study.doi) || source.title === study.title);
+      const published = [study.journal, study.publicationYear].filter(part => part !== undefined).join(', ');
+      return {
+        claim: study.keyFindings,
+        evidence: published ? `${study.title} (${published})` : study.title,
+        confidence: study.qualityScore ?? defaultConfidence,
+        sources: sourceIndex >= 0 ? [sourceIndex] : [],
+        category: 'factual',
+      };
+    });
+
+    return [...data.findings.map(({ finding, category }) => toFinding(finding, category)), ...studyFindings];
+  }
+
+  /**
+   * Named entities: those an agent reported, else capitalized phrases that recur in the findings
+   */
+  private extractEntities(data: StepResultData, findings: ResearchFinding[]): string[] {
+    const reported = data.entities.map(entity => entity.name);
+    if (reported.length > 0) {
+      return Array.from(new Set(reported)).slice(0, StepDataFlow.MAX_ENTITIES);
+    }
+
+    const counts = new Map<string, number>();
+    for (const finding of findings) {
+      const text = `${finding.claim}. ${finding.evidence}`;
+      // Runs of two or more capitalized words, or acronyms
+      for (const match of text.matchAll(/\b(?:[A-Z][a-z]+(?:\s+(?:of|the|and|for)?\s*[A-Z][a-z]+)+|[A-Z]{2,})\b/g)) {
+        const entity = match[0].replace(/^The\s+/, '');
+        counts.set(entity, (counts.get(entity) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, StepDataFlow.MAX_ENTITIES)
+      .map(([entity]) => entity);
+  }
+
+  /**
+   * Statistical tests an analysis reported, and sentences in the findings that
+   * state a quantity (percentages, amounts, ratios) other than a bare year
+   */
+  private extractStatistics(data: StepResultData, findings: ResearchFinding[], sources: SourceCitation[]): ExtractedStatistic[] {
+    const statistics: ExtractedStatistic[] = [];
+
+    for (const test of data.tests) {
+      const results = test.results ?? {};
+      const values = [
+        results.statistic !== undefined ? `${test.testName ?? 'statistic'} = ${results.statistic}` : undefined,
+        results.pValue !== undefined ? `p = ${results.pValue}` : undefined,
+        results.effectSize !== undefined ? `effect size = ${results.effectSize}` : undefined,
+      ].filter((value): value is string => value !== undefined);
+      if (values.length > 0) {
+        statistics.push({ value: values.join(', '), context: results.interpretation ?? test.testName ?? '' });
+      }
+    }
+
+    const quantity = /(?:\d[\d,]*(?:\.\d+)?\s*(?:%|percent|per cent|million|billion|trillion|thousand)|\$\s?\d[\d,]*(?:\.\d+)?(?:\s*(?:million|billion|trillion|thousand))?|\b\d+(?:\.\d+)?\s*(?:x|times|fold)\b|\b(?!(?:19|20)\d{2}\b)\d+(?:\.\d+)?\b)/i;
+    for (const finding of findings) {
+      const sentences = `${finding.claim}. ${finding.evidence}`.split(/(?<=[.!?])\s+/);
+      for (const sentence of sentences) {
+        const match = sentence.match(quantity);
+        if (match) {
+          statistics.push({
+            value: match[0].trim(),
+            context: sentence.trim(),
+            sourceUrl: sources[finding.sources[0]]?.url,
+          });
+        }
+      }
+    }
+
+    const byContext = new Map(statistics.map(statistic => [statistic.context, statistic]));
+    return Array.from(byContext.values()).slice(0, StepDataFlow.MAX_STATISTICS);
+  }
+}
+
+// The value at a dotted path of nested objects
+function fieldAt(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Keys for state kept per research step. Step IDs are only unique within a
+ * research plan, so a key combines both IDs. Keys are JSON arrays, which no
+ * research or step ID can turn into a prefix of another research's keys.
+ */
+export function stepKey(researchId: string, stepId: string): string {
+  return JSON.stringify([researchId, stepId]);
+}
+
+/**
+ * Whether a step key belongs to a step of the research
+ */
+export function isStepKeyOf(key: string, researchId: string): boolean {
+  return key.startsWith(`${JSON.stringify([researchId]).slice(0, -1)},`);
+}
+
+/**
+ * The step ID a step key was built from
+ */
+export function stepIdOf(key: string): string {
+  return (JSON.parse(key) as [string, string])[1];
+}
@@ -84,7 +84,7 @@ export class StreamingHandler {
   /**
    * Subscribe to progress updates for a research task
    */
-  subscribeToStream(researchId: string, subscriber: StreamSubscriber): string {
+  subscribeToStream(researchId: string, subscriber: Omit<StreamSubscriber, 'subscriptionId' | 'subscribedAt'>): string {
     const subscriptionId = `sub-${researchId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     const subscribers = this.streamSubscribers.get(researchId) || [];
@@ -99,7 +99,7 @@ export class StreamingHandler {
     // Send current state to new subscriber
     const session = this.activeStreams.get(researchId);
     if (session) {
-      this.sendToSubscriber(subscriber, {
+      this.sendToSubscriber({ ...subscriber, subscriptionId, subscribedAt: new Date() }, {
         type: 'session-state',
         session,
         timestamp: new Date()
@@ -194,8 +194,8 @@ export class StreamingHandler {
     session.status = finalStatus;
     session.endedAt = new Date();
 
-    // Notify subscribers of completion
-    const subscribers = this.streamSubscribers.get(researchId) || [];
+    // Notify subscribers of completion; a copy, since subscribers may unsubscribe on this message
+    const subscribers = [...(this.streamSubscribers.get(researchId) || [])];
     subscribers.forEach(subscriber => {
       this.sendToSubscriber(subscriber, {
         type: 'session-ended',
@@ -1,16 +1,29 @@
-import type { ResearchStepResult, OrchestrationState, SynthesisResult } from '../shared/interfaces.js';
+import type { ResearchStepResult, OrchestrationState, SynthesisResult, ResearchResult } from '../shared/interfaces.js';
+import { ContradictionAnalyzer } from './contradiction-analysis.js';
+import { GroundedSynthesizer } from './grounded-synthesis.js';
 
 /**
  * Synthesis Engine for the Orchestrator Agent
  * Combines partial research results into coherent, comprehensive outputs
  */
 export class SynthesisEngine {
+  private mode: 'templated' | 'grounded';
+  private groundedSynthesizer: GroundedSynthesizer;
+
+  constructor(private contradictionAnalyzer: ContradictionAnalyzer = new ContradictionAnalyzer(), options: SynthesisEngineOptions = {}) {
+    this.mode = options.mode ?? (process.env.ORCHESTRATOR_SYNTHESIS_MODE === 'grounded' ? 'grounded' : 'templated');
+    this.groundedSynthesizer = options.groundedSynthesizer ?? new GroundedSynthesizer(contradictionAnalyzer);
+  }
+
   /**
-   * Synthesize research results into a comprehensive output
+   * Synthesize research results into a comprehensive output. In grounded mode
+   * the narrative is written from the aggregated research result, citing its
+   * sources sentence by sentence (see GroundedSynthesizer).
    */
   async synthesizeResults(
     results: ResearchStepResult[],
-    orchestrationState: OrchestrationState
+    orchestrationState: OrchestrationState,
+    researchResult?: ResearchResult
   ): Promise<SynthesisResult> {
     const synthesisId = `synth-${orchestrationState.researchId}-${Date.now()}`;
 
@@ -22,10 +35,13 @@ export class SynthesisEngine {
       const keyFindings = this.extractKeyFindings(groupedResults);
 
       // Cross-validate information across sources
-      const crossValidatedFindings = this.crossValidateFindings(keyFindings, results);
+      const crossValidatedFindings = await this.crossValidateFindings(keyFindings, results);
 
       // Generate synthesis narrative
-      const synthesis = await this.generateSynthesisNarrative(
+      const grounded = this.mode === 'grounded' && researchResult
+        ? await this.groundedSynthesizer.synthesize(researchResult, orchestrationState.plan.objectives)
+        : undefined;
+      const synthesis = grounded?.narrative ?? await this.generateSynthesisNarrative(
         crossValidatedFindings,
         orchestrationState.plan.objectives,
         results
@@ -48,6 +64,7 @@ export class SynthesisEngine {
         confidenceMetrics,
         gapsAndRecommendations,
         sourceSummary: this.generateSourceSummary(results),
+        attribution: grounded?.attribution,
         generatedAt: new Date(),
         version: '1.0'
       };
@@ -110,13 +127,13 @@ export class SynthesisEngine {
 
             if (existingFinding) {
               // Add supporting evidence
-              const sourceName = result.sources[0]?.title || result.sources[0]?.url || `Step ${result.stepId}`;
+              const sourceName = this.getSourceName(result);
               existingFinding.supportingSources.push(sourceName);
               existingFinding.evidence.push(finding.evidence);
               existingFinding.confidence = Math.max(existingFinding.confidence, finding.confidence);
             } else {
               // New finding
-              const sourceName = result.sources[0]?.title || result.sources[0]?.url || `Step ${result.stepId}`;
+              const sourceName = this.getSourceName(result);
               keyFindings.push({
                 dimension,
                 finding: finding.claim,
@@ -210,7 +227,7 @@ export class SynthesisEngine {
   /**
    * Cross-validate findings across multiple sources
    */
-  private crossValidateFindings(
+  private async crossValidateFindings(
     keyFindings: Array<{
       dimension: string;
       finding: string;
@@ -219,7 +236,7 @@ export class SynthesisEngine {
       evidence: string[];
     }>,
     allResults: ResearchStepResult[]
-  ): Array<{
+  ): Promise<Array<{
     dimension: string;
     finding: string;
     confidence: number;
@@ -227,10 +244,12 @@ export class SynthesisEngine {
     supportingSources: string[];
     contradictingSources?: string[];
     consensusLevel: number;
-  }> {
+  }>> {
+    const contradictingSources = await this.findContradictions(keyFindings.map(f => f.finding), allResults);
+
     return keyFindings.map(finding => {
       // Check for contradictions
-      const contradictions = this.findContradictions(finding.finding, allResults);
+      const contradictions = contradictingSources.get(finding.finding) ?? [];
 
       // Calculate consensus level (sources agreeing / total relevant sources)
       const relevantSources = allResults.filter((r): boolean => {
@@ -269,36 +288,40 @@ export class SynthesisEngine {
   }
 
   /**
-   * Find contradictions to a finding
+   * Find the sources contradicting each finding: those of the results with a
+   * claim that contradicts it (see ContradictionAnalyzer)
    */
-  private findContradictions(finding: string, results: ResearchStepResult[]): string[] {
-    const contradictions: string[] = [];
-    const findingLower = finding.toLowerCase();
-
+  private async findContradictions(findings: string[], results: ResearchStepResult[]): Promise<Map<string, string[]>> {
+    const claimSources = new Map<string, string[]>();
     for (const result of results) {
-      // Get content from result data
-      const content = typeof result.data === 'string' ? result.data :
-                     (result.data)?.content ?? JSON.stringify(result.data);
-      const contentLower = content.toLowerCase();
-
-      // Check for direct contradictions
-      if (contentLower.includes('however') || contentLower.includes('but') ||
-          contentLower.includes('contrary') || contentLower.includes('despite')) {
-        // Look for patterns that might indicate contradiction
-        const sentences = content.split(/[.!?]+/);
-        for (const sentence of sentences) {
-          if (sentence.toLowerCase().includes(findingLower.split(' ')[0]) &&
-              (sentence.toLowerCase().includes('not') || sentence.toLowerCase().includes('false') ||
-               sentence.toLowerCase().includes('incorrect'))) {
-            const sourceName = result.sources[0]?.title || result.sources[0]?.url || `Step ${result.stepId}`;
-            contradictions.push(sourceName);
-            break;
-          }
+      for (const { claim } of this.extractFindingsFromResult(result) ?? []) {
+        if (typeof claim === 'string') {
+          claimSources.set(claim, [...claimSources.get(claim) ?? [], this.getSourceName(result)]);
         }
       }
     }
 
-    return [...new Set(contradictions)]; // Remove duplicates
+    const relations = await this.contradictionAnalyzer.findRelations(findings, Array.from(claimSources.keys()));
+    const contradictions = new Map<string, string[]>();
+    const addContradiction = (finding: string, claim: string): void => {
+      if (findings.includes(finding)) {
+        contradictions.set(finding, [...contradictions.get(finding) ?? [], ...claimSources.get(claim) ?? []]);
+      }
+    };
+
+    for (const relation of relations.filter(r => r.label === 'contradicts')) {
+      addContradiction(relation.claim1, relation.claim2);
+      addContradiction(relation.claim2, relation.claim1);
+    }
+
+    for (const [finding, sources] of contradictions) {
+      contradictions.set(finding, [...new Set(sources)]); // Remove duplicates
+    }
+    return contradictions;
+  }
+
+  private getSourceName(result: ResearchStepResult): string {
+    return result.sources[0]?.title || result.sources[0]?.url || `Step ${result.stepId}`;
   }
 
   /**
@@ -694,4 +717,9 @@ ${this.generateResearchRecommendations(findings, objectives)}
       topSources
     };
   }
-}
\ No newline at end of file
+}
+
+export interface SynthesisEngineOptions {
+  mode?: 'templated' | 'grounded';
+  groundedSynthesizer?: GroundedSynthesizer;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { OrchestrationState, ResearchStep, ResearchStepExecution } from '../shared/interfaces.js';
+import type { A2ACommunicationManager } from './a2a-communication.js';
+import { TaskDelegator } from './task-delegator.js';
+
+const step: ResearchStep = {
+  id: 'search',
+  description: 'Search the web',
+  agentType: 'web-research',
+  dependencies: [],
+  estimatedDuration: 10,
+  successCriteria: 'done',
+  fallbackStrategies: [],
+  priority: 3,
+};
+
+const state: OrchestrationState = {
+  researchId: 'research-1',
+  plan: {
+    id: 'plan-1',
+    topic: 'Solar power',
+    objectives: [],
+    methodology: { approach: 'exploratory', justification: 'test', phases: [], qualityControls: [] },
+    dataSources: [],
+    executionSteps: [step],
+    riskAssessment: [],
+    contingencyPlans: [],
+    qualityThresholds: [],
+    estimatedTimeline: '1 hour',
+    version: '1.0',
+    createdAt: new Date('2026-01-10T00:00:00Z'),
+    updatedAt: new Date('2026-01-10T00:00:00Z'),
+  },
+  currentPhase: 'execution',
+  activeSteps: [],
+  completedSteps: [],
+  issues: [],
+  progress: { completedSteps: 0, totalSteps: 1, estimatedTimeRemaining: 10, overallConfidence: 0 },
+  startedAt: new Date('2026-01-10T00:00:00Z'),
+  lastUpdated: new Date('2026-01-10T00:00:00Z'),
+};
+
+describe('TaskDelegator', () => {
+  it('settles a step cancelled while it waits out its retry backoff', async () => {
+    const a2aManager = { cancelTask: vi.fn(async () => true) } as unknown as A2ACommunicationManager;
+    const delegator = new TaskDelegator(a2aManager);
+    const retry: ResearchStepExecution = {
+      stepId: step.id,
+      agentId: 'web-research',
+      status: 'pending',
+      progressUpdates: [],
+      retryCount: 1,
+    };
+
+    delegator.redelegateStep(step, state, retry, 20);
+    await delegator.cancelResearch(state.researchId, 1000);
+    expect(delegator.hasInFlightSteps(state.researchId)).toBe(false);
+    expect(delegator.collectSettledResults(state.researchId)).toMatchObject([
+      { stepId: step.id, status: 'failed', metadata: { cancelled: true } },
+    ]);
+
+    delegator.cleanupCompletedTasks(state.researchId);
+    // Cleanup must not keep the event loop busy: a later timer still fires
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(delegator.getActiveTasks()).toEqual([]);
+    expect(a2aManager.cancelTask).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,23 @@
-import { ResearchStep, ResearchStepExecution, TaskRequest, AgentType, OrchestrationState } from '../shared/interfaces.js';
-import { A2ACommunicationManager } from './a2a-communication.js';
+import { v4 as uuidv4 } from 'uuid';
+import { ResearchStep, ResearchStepExecution, ResearchStepResult, SourceCitation, TaskRequest, TaskResponse, AgentType, OrchestrationState, OrchestrationIssue } from '../shared/interfaces.js';
+import { PlanGraph } from '../shared/plan-graph.js';
+import type { A2ACommunicationManager } from './a2a-communication.js';
+import { MessageRouter } from './message-router.js';
+import { StepDataFlow } from './step-data-flow.js';
+import { isStepKeyOf, stepKey } from './step-key.js';
+import { ErrorRecovery, type RecoveryAction, type RecoveryOutcome } from './error-recovery.js';
+import { TaskScheduler, isOverloadError } from './task-scheduler.js';
+
+/**
+ * A recovery decision for a failed step, for the orchestrator to record and report
+ */
+export interface StepRecoveryEvent {
+  stepId: string;
+  action: RecoveryAction;
+  description: string;
+  execution?: ResearchStepExecution; // replacement execution for retries and fallbacks
+  issue?: OrchestrationIssue;
+}
 
 /**
  * Task Delegation System for the Orchestrator Agent
@@ -7,10 +25,28 @@ import { A2ACommunicationManager } from './a2a-communication.js';
  */
 export class TaskDelegator {
   private a2aManager: A2ACommunicationManager;
-  private activeTasks: Map<string, ResearchStepExecution> = new Map();
-
-  constructor(a2aManager: A2ACommunicationManager) {
+  private activeTasks: Map<string, ResearchStepExecution> = new Map(); // step key -> execution
+  private inFlightSteps: Map<string, Map<string, Promise<void>>> = new Map(); // researchId -> stepId -> settlement
+  private settledResults: Map<string, ResearchStepResult[]> = new Map(); // researchId -> results not yet collected
+  private recoveryEvents: Map<string, StepRecoveryEvent[]> = new Map(); // researchId -> events not yet collected
+  private cancelledResearch: Set<string> = new Set();
+  private errorRecovery: ErrorRecovery;
+  private scheduler: TaskScheduler;
+  private messageRouter: MessageRouter;
+  private dataFlow: StepDataFlow = new StepDataFlow();
+
+  // Steps of this priority or lower are skipped when the remaining work no longer fits before the deadline
+  private static readonly DEADLINE_SKIP_PRIORITY = 4;
+
+  constructor(
+    a2aManager: A2ACommunicationManager,
+    scheduler: TaskScheduler = new TaskScheduler(),
+    messageRouter: MessageRouter = new MessageRouter(a2aManager)
+  ) {
     this.a2aManager = a2aManager;
+    this.errorRecovery = new ErrorRecovery(this);
+    this.scheduler = scheduler;
+    this.messageRouter = messageRouter;
   }
 
   /**
@@ -20,15 +56,22 @@ export class TaskDelegator {
     steps: ResearchStep[],
     orchestrationState: OrchestrationState
   ): Promise<ResearchStepExecution[]> {
-    const executableSteps = this.identifyExecutableSteps(steps, orchestrationState);
-    const prioritizedSteps = this.prioritizeSteps(executableSteps);
+    if (this.cancelledResearch.has(orchestrationState.researchId)) {
+      return [];
+    }
+    this.scheduler.applyRateLimits(orchestrationState.plan.dataSources, orchestrationState.researchId);
+    const executableSteps = this.skipStepsForDeadline(
+      this.identifyExecutableSteps(steps, orchestrationState),
+      steps,
+      orchestrationState
+    );
+    const prioritizedSteps = this.prioritizeSteps(executableSteps, new PlanGraph(steps));
     const executions: ResearchStepExecution[] = [];
 
     for (const step of prioritizedSteps) {
       try {
         const execution = await this.delegateStep(step, orchestrationState);
         executions.push(execution);
-        this.activeTasks.set(step.id, execution);
       } catch (error) {
         console.error(`Failed to delegate step ${step.id}:`, error);
         // Continue with other steps - error recovery will handle this
@@ -45,30 +88,111 @@ export class TaskDelegator {
     allSteps: ResearchStep[],
     state: OrchestrationState
   ): ResearchStep[] {
-    const completedStepIds = new Set(
+    const settledStepIds = new Set(
       state.completedSteps.map(result => result.stepId)
     );
+    const satisfiedStepIds = new Set(
+      state.completedSteps
+        .filter(result => result.status !== 'failed')
+        .map(result => result.stepId)
+    );
 
     return allSteps.filter(step => {
       // Check if step is already completed or active
-      if (completedStepIds.has(step.id)) return false;
-      if (this.activeTasks.has(step.id)) return false;
+      if (settledStepIds.has(step.id)) return false;
+      if (this.activeTasks.has(stepKey(state.researchId, step.id))) return false;
+
+      // Check if all dependencies are satisfied (failed dependencies never are)
+      return step.dependencies.every(depId => satisfiedStepIds.has(depId));
+    });
+  }
+
+  /**
+   * Degrade gracefully as the research deadline approaches: once the work left
+   * (its critical path) no longer fits before the deadline, low-priority steps
+   * are skipped, and once the deadline has passed every step is. Skipped steps
+   * settle as failed with a `timeout` issue; returns the steps that may run.
+   */
+  private skipStepsForDeadline(
+    executableSteps: ResearchStep[],
+    allSteps: ResearchStep[],
+    orchestrationState: OrchestrationState
+  ): ResearchStep[] {
+    const { deadline } = orchestrationState.plan;
+    if (!deadline || executableSteps.length === 0) {
+      return executableSteps;
+    }
+
+    const minutesLeft = (deadline.getTime() - Date.now()) / 60000;
+    const settledStepIds = new Set(orchestrationState.completedSteps.map(result => result.stepId));
+    const workLeft = new PlanGraph(allSteps.filter(step => !settledStepIds.has(step.id))).schedule().totalDuration;
+    if (workLeft <= minutesLeft) {
+      return executableSteps;
+    }
+
+    const reason = minutesLeft <= 0
+      ? 'the research deadline has passed'
+      : `about ${Math.ceil(workLeft)} minutes of work are left but only ${Math.floor(minutesLeft)} minutes remain before the research deadline`;
+    return executableSteps.filter(step => {
+      if (minutesLeft > 0 && step.priority < TaskDelegator.DEADLINE_SKIP_PRIORITY) {
+        return true;
+      }
+      this.recordSkippedStep(step, orchestrationState, reason);
+      return false;
+    });
+  }
+
+  private recordSkippedStep(step: ResearchStep, orchestrationState: OrchestrationState, reason: string): void {
+    const { researchId } = orchestrationState;
+    console.warn(`Skipping step ${step.id}: ${reason}`);
 
-      // Check if all dependencies are satisfied
-      return step.dependencies.every(depId => completedStepIds.has(depId));
+    this.recordRecoveryEvent(researchId, {
+      stepId: step.id,
+      action: 'abort',
+      description: `Step ${step.id} skipped: ${reason}`,
+      issue: {
+        id: uuidv4(),
+        type: 'timeout',
+        severity: 'low',
+        description: `Step ${step.id} skipped because ${reason}`,
+        affectedSteps: [step.id],
+        resolution: 'Research continues with reduced scope',
+        createdAt: new Date()
+      }
+    });
+    this.recordSettledResult(researchId, {
+      stepId: step.id,
+      status: 'failed',
+      data: null,
+      sources: [],
+      processingTime: 0,
+      qualityScore: 0,
+      issues: [`Skipped: ${reason}`],
+      metadata: {
+        agentType: this.determineAgentType(step),
+        retryCount: 0,
+        skipped: 'deadline'
+      }
     });
   }
 
   /**
-   * Prioritize steps based on priority, dependencies, and resource availability
+   * Prioritize steps based on priority, the critical path, dependencies, and resource availability
    */
-  private prioritizeSteps(steps: ResearchStep[]): ResearchStep[] {
+  private prioritizeSteps(steps: ResearchStep[], planGraph: PlanGraph): ResearchStep[] {
     return steps.sort((a, b) => {
       // Higher priority first (lower number = higher priority)
       if (a.priority !== b.priority) {
         return a.priority - b.priority;
       }
 
+      // Critical-path steps first, then the steps with the least slack
+      const slackA = planGraph.getSlack(a.id);
+      const slackB = planGraph.getSlack(b.id);
+      if (slackA !== slackB) {
+        return slackA - slackB;
+      }
+
       // Fewer dependencies first (to unblock other steps)
       if (a.dependencies.length !== b.dependencies.length) {
         return a.dependencies.length - b.dependencies.length;
@@ -86,35 +210,96 @@ export class TaskDelegator {
     step: ResearchStep,
     orchestrationState: OrchestrationState
   ): Promise<ResearchStepExecution> {
-    const agentType = this.determineAgentType(step);
-    const taskRequest = this.createTaskRequest(step, orchestrationState);
-
     const execution: ResearchStepExecution = {
       stepId: step.id,
-      agentId: agentType,
+      agentId: this.determineAgentType(step),
       status: 'pending',
       progressUpdates: [],
-      retryCount: 0,
-      startedAt: new Date()
+      retryCount: 0
     };
 
-    try {
-      // Send task asynchronously - don't wait for completion
-      this.a2aManager.sendTask(agentType, taskRequest).then(response => {
-        this.handleTaskCompletion(step.id, response);
-      }).catch(error => {
-        this.handleTaskFailure(step.id, error);
-      });
+    this.sendStep(step, orchestrationState, execution);
+    return execution;
+  }
 
-      execution.status = 'running';
-      execution.assignedAgent = agentType;
+  /**
+   * Re-delegate a failed step as the given execution, whose agent type may
+   * differ from the step's, once the delay has passed. The step stays in
+   * flight while it waits so the orchestration loop keeps waiting for it.
+   */
+  redelegateStep(
+    step: ResearchStep,
+    orchestrationState: OrchestrationState,
+    execution: ResearchStepExecution,
+    delayMs = 0
+  ): void {
+    const inFlight = this.getInFlightSteps(orchestrationState.researchId);
+    this.activeTasks.set(stepKey(orchestrationState.researchId, step.id), execution);
+
+    const pending: Promise<void> = new Promise<void>(resolve => setTimeout(resolve, delayMs)).then(() => {
+      if (this.isStepCancelled(orchestrationState.researchId, step.id)) {
+        this.recordCancelledResult(step, orchestrationState);
+        return;
+      }
+      this.sendStep(step, orchestrationState, execution);
+    }).finally(() => {
+      // Once sent, the step's settlement has replaced this wait
+      if (inFlight.get(step.id) === pending) {
+        inFlight.delete(step.id);
+      }
+    });
+    inFlight.set(step.id, pending);
+  }
 
-    } catch (error) {
-      execution.status = 'failed';
-      console.error(`Failed to delegate step ${step.id}:`, error);
-    }
+  /**
+   * Queue a step for the execution's agent type without waiting for the result.
+   * The step stays pending until the scheduler has a slot for it.
+   */
+  private sendStep(
+    step: ResearchStep,
+    orchestrationState: OrchestrationState,
+    execution: ResearchStepExecution
+  ): void {
+    const agentType = execution.agentId as AgentType;
+    const inFlight = this.getInFlightSteps(orchestrationState.researchId);
+
+    execution.status = 'pending';
+    execution.assignedAgent = agentType;
+    this.activeTasks.set(stepKey(orchestrationState.researchId, step.id), execution);
+
+    const settlement: Promise<void> = this.scheduler
+      .schedule(agentType, step.priority, () => {
+        if (this.isStepCancelled(orchestrationState.researchId, step.id)) {
+          throw new Error(`Step ${step.id} was cancelled before it started`);
+        }
+        const taskRequest = this.createTaskRequest(step, orchestrationState, agentType);
+        execution.taskId = taskRequest.taskId;
+        // Routing rules see the step as pending; it runs once routed to an agent
+        const response = this.messageRouter.routeTask(agentType, taskRequest, orchestrationState);
+        execution.status = 'running';
+        execution.startedAt = new Date();
+        return response;
+      }, orchestrationState.researchId)
+      .then(
+        response => this.handleTaskCompletion(step, orchestrationState, response),
+        error => this.handleTaskFailure(step, orchestrationState, error)
+      )
+      .catch(error => {
+        console.error(`Failed to settle step ${step.id}:`, error);
+      })
+      .finally(() => {
+        // A retry may already have replaced this settlement
+        if (inFlight.get(step.id) === settlement) {
+          inFlight.delete(step.id);
+        }
+      });
+    inFlight.set(step.id, settlement);
+  }
 
-    return execution;
+  private getInFlightSteps(researchId: string): Map<string, Promise<void>> {
+    const inFlight = this.inFlightSteps.get(researchId) ?? new Map<string, Promise<void>>();
+    this.inFlightSteps.set(researchId, inFlight);
+    return inFlight;
   }
 
   /**
@@ -154,16 +339,17 @@ export class TaskDelegator {
    */
   private createTaskRequest(
     step: ResearchStep,
-    orchestrationState: OrchestrationState
+    orchestrationState: OrchestrationState,
+    agentType: AgentType
   ): TaskRequest {
-    const taskParameters = this.extractTaskParameters(step, orchestrationState);
+    const taskParameters = this.extractTaskParameters(step, orchestrationState, agentType);
 
     return {
-      taskId: `task-${step.id}-${Date.now()}`,
-      type: this.mapStepToTaskType(step),
+      taskId: uuidv4(), // unique even when two concurrent researches share step IDs
+      type: this.mapStepToTaskType(step, agentType),
       parameters: taskParameters,
       priority: step.priority,
-      timeout: step.estimatedDuration * 60000, // Convert minutes to milliseconds
+      timeout: this.calculateTimeout(step, orchestrationState),
       metadata: {
         stepId: step.id,
         researchId: orchestrationState.researchId,
@@ -173,14 +359,28 @@ export class TaskDelegator {
     };
   }
 
+  /**
+   * A step may run for its estimated duration, but not past the research deadline
+   */
+  private calculateTimeout(step: ResearchStep, orchestrationState: OrchestrationState): number {
+    const timeout = Math.max(step.estimatedDuration, 1) * 60000; // Convert minutes to milliseconds
+    const { deadline } = orchestrationState.plan;
+    if (!deadline) {
+      return timeout;
+    }
+    return Math.max(Math.min(timeout, deadline.getTime() - Date.now()), 1000);
+  }
+
   /**
    * Extract task parameters from the research step
    */
   private extractTaskParameters(
     step: ResearchStep,
-    orchestrationState: OrchestrationState
+    orchestrationState: OrchestrationState,
+    agentType: AgentType
   ): Record<string, any> {
-    // Base parameters available to all tasks
+    // Base parameters available to all tasks, including what earlier steps found
+    const upstream = this.dataFlow.resolveInputs(step, agentType, orchestrationState);
     const baseParams = {
       topic: orchestrationState.plan.topic,
       stepDescription: step.description,
@@ -188,12 +388,11 @@ export class TaskDelegator {
       researchContext: {
         objectives: orchestrationState.plan.objectives,
         methodology: orchestrationState.plan.methodology.approach
-      }
+      },
+      ...(upstream.length > 0 ? { upstream } : {})
     };
 
     // Add step-specific parameters based on agent type
-    const agentType = this.determineAgentType(step);
-
     switch (agentType) {
       case 'web-research':
         return {
@@ -235,8 +434,7 @@ export class TaskDelegator {
   /**
    * Map research step to specific task type for the target agent
    */
-  private mapStepToTaskType(step: ResearchStep): string {
-    const agentType = this.determineAgentType(step);
+  private mapStepToTaskType(step: ResearchStep, agentType: AgentType): string {
     const description = step.description.toLowerCase();
 
     switch (agentType) {
@@ -345,25 +543,243 @@ export class TaskDelegator {
   /**
    * Handle successful task completion
    */
-  private handleTaskCompletion(stepId: string, response: any): void {
-    const execution = this.activeTasks.get(stepId);
+  private async handleTaskCompletion(step: ResearchStep, orchestrationState: OrchestrationState, response: TaskResponse): Promise<void> {
+    if (response.status !== 'success' && this.isStepCancelled(orchestrationState.researchId, step.id)) {
+      this.recordCancelledResult(step, orchestrationState, response);
+      return;
+    }
+    if (response.status !== 'success') {
+      await this.handleTaskFailure(step, orchestrationState, new Error(response.error ?? `Task ${response.status}`));
+      return;
+    }
+
+    const { researchId } = orchestrationState;
+    const stepId = step.id;
+    const execution = this.activeTasks.get(stepKey(researchId, stepId));
+    this.scheduler.reportSuccess((execution?.agentId ?? this.determineAgentType(step)) as AgentType);
     if (execution) {
       execution.status = 'completed';
       execution.completedAt = new Date();
       console.log(`Task completed for step ${stepId}`);
     }
+
+    const data = response.result ?? {};
+    this.recordSettledResult(researchId, {
+      stepId,
+      status: 'success',
+      data,
+      sources: this.extractSources(data),
+      processingTime: response.processingTime || this.elapsedSince(execution?.startedAt),
+      qualityScore: typeof data.confidence === 'number' ? data.confidence : 0.5,
+      issues: [],
+      metadata: {
+        ...response.metadata,
+        taskId: response.taskId,
+        agentType: execution?.assignedAgent,
+        retryCount: execution?.retryCount ?? 0
+      }
+    });
   }
 
   /**
-   * Handle task failure
+   * Handle task failure: let error recovery retry the step, fall back to
+   * another agent type, or give up on it
    */
-  private handleTaskFailure(stepId: string, error: any): void {
-    const execution = this.activeTasks.get(stepId);
+  private async handleTaskFailure(step: ResearchStep, orchestrationState: OrchestrationState, error: any): Promise<void> {
+    // Cancelled steps fail by design; recovering them would start them again
+    if (this.isStepCancelled(orchestrationState.researchId, step.id)) {
+      this.recordCancelledResult(step, orchestrationState);
+      return;
+    }
+
+    const { researchId } = orchestrationState;
+    const stepId = step.id;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const execution = this.activeTasks.get(stepKey(researchId, stepId)) ?? {
+      stepId,
+      agentId: this.determineAgentType(step),
+      status: 'running',
+      progressUpdates: [],
+      retryCount: 0
+    };
+    execution.status = 'failed';
+    execution.completedAt = new Date();
+    console.error(`Task failed for step ${stepId}:`, error);
+
+    if (isOverloadError(error)) {
+      this.scheduler.reportOverload(execution.agentId as AgentType);
+    }
+
+    let recovery: RecoveryOutcome;
+    try {
+      recovery = await this.errorRecovery.handleStepFailure(stepId, execution, error, orchestrationState);
+    } catch (recoveryError) {
+      console.error(`Error recovery failed for step ${stepId}:`, recoveryError);
+      recovery = { recoveryAction: 'abort' };
+    }
+
+    this.recordRecoveryEvent(researchId, {
+      stepId,
+      action: recovery.recoveryAction,
+      description: this.describeRecovery(stepId, execution, errorMessage, recovery),
+      execution: recovery.newExecution,
+      issue: recovery.issue
+    });
+
+    // Retried and fallen back steps settle when their new execution does
+    if (recovery.newExecution) {
+      return;
+    }
+
+    this.recordSettledResult(researchId, {
+      stepId,
+      status: 'failed',
+      data: null,
+      sources: [],
+      processingTime: this.elapsedSince(execution.startedAt),
+      qualityScore: 0,
+      issues: [errorMessage],
+      metadata: {
+        agentType: execution.assignedAgent,
+        retryCount: execution.retryCount,
+        recoveryAction: recovery.recoveryAction
+      }
+    });
+  }
+
+  /**
+   * Settle a cancelled step, keeping whatever its agent returned before it stopped
+   */
+  private recordCancelledResult(step: ResearchStep, orchestrationState: OrchestrationState, response?: TaskResponse): void {
+    const execution = this.activeTasks.get(stepKey(orchestrationState.researchId, step.id));
     if (execution) {
-      execution.status = 'failed';
+      execution.status = 'cancelled';
       execution.completedAt = new Date();
-      console.error(`Task failed for step ${stepId}:`, error);
     }
+
+    const data = response?.result ?? null;
+    this.recordSettledResult(orchestrationState.researchId, {
+      stepId: step.id,
+      status: data !== null ? 'partial' : 'failed',
+      data,
+      sources: this.extractSources(data),
+      processingTime: response?.processingTime ?? this.elapsedSince(execution?.startedAt),
+      qualityScore: typeof data?.confidence === 'number' ? data.confidence : 0,
+      issues: ['Cancelled before the step completed'],
+      metadata: {
+        ...response?.metadata,
+        agentType: execution?.assignedAgent,
+        retryCount: execution?.retryCount ?? 0,
+        cancelled: true
+      }
+    });
+  }
+
+  private isStepCancelled(researchId: string, stepId: string): boolean {
+    return this.cancelledResearch.has(researchId) || this.activeTasks.get(stepKey(researchId, stepId))?.status === 'cancelled';
+  }
+
+  private describeRecovery(
+    stepId: string,
+    failed: ResearchStepExecution,
+    errorMessage: string,
+    recovery: RecoveryOutcome
+  ): string {
+    const next = recovery.newExecution;
+    switch (recovery.recoveryAction) {
+      case 'retry':
+        return `Step ${stepId} failed on ${failed.agentId} (${errorMessage}); retrying in ${Math.round((recovery.retryDelayMs ?? 0) / 1000)}s (attempt ${(next?.retryCount ?? 0) + 1})`;
+      case 'fallback':
+        return `Step ${stepId} failed on ${failed.agentId} (${errorMessage}); falling back to ${next?.agentId}`;
+      case 'escalate':
+        return `Step ${stepId} escalated: ${recovery.issue?.description ?? errorMessage}`;
+      case 'abort':
+      default:
+        return `Step ${stepId} aborted: ${recovery.issue?.description ?? errorMessage}`;
+    }
+  }
+
+  private recordRecoveryEvent(researchId: string, event: StepRecoveryEvent): void {
+    const events = this.recoveryEvents.get(researchId) ?? [];
+    events.push(event);
+    this.recoveryEvents.set(researchId, events);
+  }
+
+  private recordSettledResult(researchId: string, result: ResearchStepResult): void {
+    const results = this.settledResults.get(researchId) ?? [];
+    results.push(result);
+    this.settledResults.set(researchId, results);
+  }
+
+  /**
+   * Extract source citations from an agent result, reviving serialized dates
+   */
+  private extractSources(data: any): SourceCitation[] {
+    if (!Array.isArray(data?.sources)) {
+      return [];
+    }
+
+    return data.sources.map((source: any) => ({
+      ...source,
+      publicationDate: source.publicationDate ? new Date(source.publicationDate) : undefined,
+      accessedAt: source.accessedAt ? new Date(source.accessedAt) : new Date()
+    }));
+  }
+
+  private elapsedSince(startedAt?: Date): number {
+    return startedAt ? Date.now() - startedAt.getTime() : 0;
+  }
+
+  /**
+   * Check whether any delegated steps of a research are still awaiting a response
+   */
+  hasInFlightSteps(researchId: string): boolean {
+    return (this.inFlightSteps.get(researchId)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Check whether step results settled without being collected yet
+   */
+  hasUncollectedResults(researchId: string): boolean {
+    return (this.settledResults.get(researchId)?.length ?? 0) > 0;
+  }
+
+  /**
+   * Wait until at least one in-flight step of a research settles
+   */
+  async waitForSettledStep(researchId: string): Promise<void> {
+    const inFlight = this.inFlightSteps.get(researchId);
+    if (!inFlight || inFlight.size === 0) {
+      return;
+    }
+
+    await Promise.race(inFlight.values());
+  }
+
+  /**
+   * Drain the step results that settled since the last call
+   */
+  collectSettledResults(researchId: string): ResearchStepResult[] {
+    const results = this.settledResults.get(researchId) ?? [];
+    this.settledResults.delete(researchId);
+    return results;
+  }
+
+  /**
+   * Drain the recovery decisions made since the last call
+   */
+  collectRecoveryEvents(researchId: string): StepRecoveryEvent[] {
+    const events = this.recoveryEvents.get(researchId) ?? [];
+    this.recoveryEvents.delete(researchId);
+    return events;
+  }
+
+  /**
+   * Forget recovery state (retry counts, attempted agents) of a finished research
+   */
+  cleanupRecoveryState(researchId: string): void {
+    this.errorRecovery.cleanupRecoveryState(researchId);
+    this.recoveryEvents.delete(researchId);
   }
 
   /**
@@ -374,19 +790,22 @@ export class TaskDelegator {
   }
 
   /**
-   * Cancel a delegated task
+   * Cancel a delegated step. A queued step never starts; a running one is
+   * cancelled on its agent (`tasks/cancel`) and settles as a cancelled result.
+   * Returns false when the step is not active or its agent refused to cancel.
    */
-  async cancelTask(stepId: string): Promise<boolean> {
-    const execution = this.activeTasks.get(stepId);
-    if (!execution) return false;
+  async cancelTask(researchId: string, stepId: string): Promise<boolean> {
+    const execution = this.activeTasks.get(stepKey(researchId, stepId));
+    if (!execution || execution.status === 'completed' || execution.status === 'failed') return false;
 
-    try {
-      // Cancel through A2A manager (would need to be implemented)
-      // await this.a2aManager.cancelTask(execution.assignedAgent!, stepId);
-      execution.status = 'cancelled';
-      execution.completedAt = new Date();
-      this.activeTasks.delete(stepId);
+    const wasRunning = execution.status === 'running';
+    execution.status = 'cancelled';
+    if (!wasRunning || !execution.taskId) {
       return true;
+    }
+
+    try {
+      return await this.a2aManager.cancelTask(execution.taskId);
     } catch (error) {
       console.error(`Failed to cancel task for step ${stepId}:`, error);
       return false;
@@ -394,13 +813,63 @@ export class TaskDelegator {
   }
 
   /**
-   * Clean up completed tasks
+   * Cancel a whole research: stop delegating its steps, drop those still
+   * queued and cancel those running on their agents. Waits up to gracePeriodMs
+   * for the running steps to settle, so what they gathered can still be
+   * collected with collectSettledResults.
    */
-  cleanupCompletedTasks(): void {
-    for (const [stepId, execution] of this.activeTasks.entries()) {
-      if (execution.status === 'completed' || execution.status === 'failed' || execution.status === 'cancelled') {
-        this.activeTasks.delete(stepId);
+  async cancelResearch(researchId: string, gracePeriodMs = 5000): Promise<void> {
+    this.cancelledResearch.add(researchId);
+    const dropped = this.scheduler.cancelQueued(researchId);
+
+    const inFlight = this.inFlightSteps.get(researchId);
+    if (!inFlight || inFlight.size === 0) {
+      return;
+    }
+    const settlements = Array.from(inFlight.values());
+    const results = await Promise.all(Array.from(inFlight.keys()).map(stepId => this.cancelTask(researchId, stepId)));
+    console.log(`Cancelling research ${researchId}: dropped ${dropped} queued steps, cancelled ${results.filter(Boolean).length}/${results.length} delegated steps`);
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(settlements),
+      new Promise<void>(resolve => {
+        timer = setTimeout(resolve, gracePeriodMs);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Clean up a research's completed tasks. A cancelled research stays
+   * cancelled until its last step has settled; results that settle after the
+   * orchestrator stopped collecting are dropped.
+   */
+  cleanupCompletedTasks(researchId: string): void {
+    for (const [key, execution] of this.activeTasks.entries()) {
+      if (isStepKeyOf(key, researchId) && (execution.status === 'completed' || execution.status === 'failed' || execution.status === 'cancelled')) {
+        this.activeTasks.delete(key);
       }
     }
+
+    const inFlight = this.inFlightSteps.get(researchId);
+    if (inFlight && inFlight.size > 0) {
+      if (this.cancelledResearch.has(researchId)) {
+        // Clean up again once the steps settled, unless they left their settlements in flight
+        const settlements = Array.from(inFlight.values());
+        void Promise.all(settlements).then(() => {
+          const remaining = new Set(this.inFlightSteps.get(researchId)?.values());
+          if (settlements.some(settlement => !remaining.has(settlement))) {
+            this.cleanupCompletedTasks(researchId);
+          }
+        });
+      }
+      return;
+    }
+    this.inFlightSteps.delete(researchId);
+    this.scheduler.clearRateLimits(researchId);
+    if (this.cancelledResearch.delete(researchId)) {
+      this.settledResults.delete(researchId);
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { DataSource } from '../shared/interfaces.js';
+import { AgentRequestError } from './a2a-communication.js';
+import { TaskScheduler, isOverloadError } from './task-scheduler.js';
+
+// Let queued jobs start and finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+const webSource = (requestsPerMinute: number): DataSource => ({
+  type: 'web',
+  priority: 1,
+  credibilityWeight: 0.8,
+  estimatedVolume: 'medium',
+  rateLimits: { requestsPerMinute, requestsPerHour: 0 },
+});
+
+describe('TaskScheduler', () => {
+  it('starts queued jobs by priority within the concurrency limits', async () => {
+    const scheduler = new TaskScheduler({ maxConcurrent: 1, maxPerAgent: 1, agentLimits: {} });
+    const started: string[] = [];
+    let release!: () => void;
+    const blocker = scheduler.schedule('web-research', 3, () => new Promise<void>(resolve => {
+      started.push('blocker');
+      release = resolve;
+    }));
+    const jobs = [
+      scheduler.schedule('web-research', 5, async () => { started.push('low'); }),
+      scheduler.schedule('web-research', 1, async () => { started.push('high'); }),
+      scheduler.schedule('web-research', 1, async () => { started.push('high, queued later'); }),
+    ];
+    await settle();
+    expect(started).toEqual(['blocker']);
+    expect(scheduler.getStatus()).toMatchObject({ queued: 3, running: 1 });
+
+    release();
+    await Promise.all([blocker, ...jobs]);
+    expect(started).toEqual(['blocker', 'high', 'high, queued later', 'low']);
+  });
+
+  it('drops the queued jobs of a cancelled group', async () => {
+    const scheduler = new TaskScheduler({ maxConcurrent: 1, maxPerAgent: 1, agentLimits: {} });
+    let release!: () => void;
+    const running = scheduler.schedule('web-research', 1, () => new Promise<void>(resolve => { release = resolve; }), 'research-1');
+    const queued = scheduler.schedule('web-research', 1, async () => 'ran', 'research-1');
+    const other = scheduler.schedule('web-research', 1, async () => 'ran', 'research-2');
+
+    expect(scheduler.cancelQueued('research-1')).toBe(1);
+    await expect(queued).rejects.toThrow('Cancelled before it started (research-1)');
+    release();
+    await running;
+    await expect(other).resolves.toBe('ran');
+  });
+
+  it('rate limits each research by the limits its own plan declares', async () => {
+    const scheduler = new TaskScheduler({ maxConcurrent: 10, maxPerAgent: 10, agentLimits: {} });
+    scheduler.applyRateLimits([webSource(100), webSource(1)], 'strict');
+    scheduler.applyRateLimits([webSource(1)], 'strict'); // applying again keeps the spent tokens
+    scheduler.applyRateLimits([webSource(100)], 'lenient');
+    const started: string[] = [];
+    for (const group of ['strict', 'strict', 'lenient', 'lenient', 'lenient']) {
+      scheduler.schedule('web-research', 1, async () => { started.push(group); }, group).catch(() => undefined);
+    }
+    await settle();
+
+    expect(started).toEqual(['strict', 'lenient', 'lenient', 'lenient']);
+    scheduler.cancelQueued('strict');
+    scheduler.clearRateLimits('strict');
+  });
+
+  it('halves the concurrency of an overloaded agent and grows it back on success', () => {
+    const scheduler = new TaskScheduler({ maxConcurrent: 10, maxPerAgent: 4, agentLimits: {}, overloadCooldownMs: 1 });
+    scheduler.reportOverload('academic-research');
+    expect(scheduler.getStatus().agents).toEqual([expect.objectContaining({ agentType: 'academic-research', limit: 2 })]);
+
+    scheduler.reportSuccess('academic-research');
+    expect(scheduler.getStatus().agents[0].limit).toBe(3);
+  });
+});
+
+describe('isOverloadError', () => {
+  it('recognizes agents that answered 429 or 503', () => {
+    expect(isOverloadError(new AgentRequestError('Request failed', 'web-research', 429))).toBe(true);
+    expect(isOverloadError(new AgentRequestError('Agent is shutting down', 'web-research', 503))).toBe(true);
+    expect(isOverloadError(new AgentRequestError('Bad request', 'web-research', 400))).toBe(false);
+    expect(isOverloadError(new AgentRequestError('Connection refused', 'web-research'))).toBe(false);
+    // Only the transport's status counts, not what a message says
+    expect(isOverloadError(new Error('Rate limit exceeded'))).toBe(false);
+  });
+});
@@ -0,0 +1,331 @@
+import type { AgentType, DataSource } from '../shared/interfaces.js';
+import { AgentRequestError } from './a2a-communication.js';
+
+/**
+ * Task Scheduler for the Orchestrator Agent
+ * Queues delegated work by priority and releases it within global and per-agent
+ * concurrency limits, per-research rate limits and overload backoff
+ */
+export class TaskScheduler {
+  private queue: ScheduledJob[] = [];
+  private sequence = 0;
+  private running = 0;
+  private agents: Map<AgentType, AgentSchedule> = new Map();
+  private rateLimits: Map<string, Map<AgentType, RateLimitBuckets>> = new Map(); // group -> agent type -> buckets
+  private wakeTimer?: NodeJS.Timeout;
+  private wakeAt = Infinity;
+
+  private maxConcurrent: number;
+  private maxPerAgent: number;
+  private agentLimits: Partial<Record<AgentType, number>>;
+  private overloadCooldownMs: number;
+
+  // Agent type that queries each kind of data source
+  private static readonly SOURCE_AGENT_TYPES: Record<DataSource['type'], AgentType> = {
+    'web': 'web-research',
+    'social': 'web-research',
+    'academic': 'academic-research',
+    'news': 'news-research',
+    'government': 'data-analysis',
+    'statistical': 'data-analysis',
+  };
+
+  constructor(options: TaskSchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? Number(process.env.ORCHESTRATOR_MAX_CONCURRENT_TASKS ?? 6);
+    this.maxPerAgent = options.maxPerAgent ?? Number(process.env.ORCHESTRATOR_MAX_TASKS_PER_AGENT ?? 2);
+    this.agentLimits = options.agentLimits ?? TaskScheduler.agentLimitsFromEnvironment();
+    this.overloadCooldownMs = options.overloadCooldownMs ?? 5000;
+  }
+
+  /**
+   * Read per-agent concurrency overrides from ORCHESTRATOR_AGENT_CONCURRENCY,
+   * e.g. `academic-research=1,web-research=4`
+   */
+  private static agentLimitsFromEnvironment(): Partial<Record<AgentType, number>> {
+    const limits: Partial<Record<AgentType, number>> = {};
+    for (const entry of (process.env.ORCHESTRATOR_AGENT_CONCURRENCY ?? '').split(',')) {
+      const [agentType, limit] = entry.split('=').map(part => part.trim());
+      if (agentType && Number(limit) > 0) {
+        limits[agentType as AgentType] = Number(limit);
+      }
+    }
+    return limits;
+  }
+
+  /**
+   * Queue a job for an agent type. It runs once a slot and a rate-limit token
+   * are available; lower priority numbers run first, equal priorities in order.
+   * Jobs queued under a group (e.g. a research ID) can be dropped with cancelQueued.
+   */
+  schedule<T>(agentType: AgentType, priority: number, run: () => Promise<T>, group?: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        agentType,
+        priority,
+        sequence: this.sequence++,
+        group,
+        start: () => Promise.resolve().then(run).then(resolve, reject),
+        cancel: reject,
+      });
+      this.queue.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Drop the queued jobs of a group, rejecting them without running. Jobs that
+   * already started are left to finish. Returns how many jobs were dropped.
+   */
+  cancelQueued(group: string): number {
+    const cancelled = this.queue.filter(job => job.group === group);
+    this.queue = this.queue.filter(job => job.group !== group);
+    cancelled.forEach(job => job.cancel(new Error(`Cancelled before it started (${group})`)));
+    return cancelled.length;
+  }
+
+  /**
+   * Apply the rate limits a research plan declares on its data sources to the
+   * jobs its group (research ID) queues for the agent types that query them.
+   * The strictest limit among the plan's sources wins; applying the same
+   * limits again keeps the buckets and the tokens they hold.
+   */
+  applyRateLimits(dataSources: DataSource[], group: string): void {
+    const limits = new Map<AgentType, { perMinute: number; perHour: number }>();
+    for (const source of dataSources) {
+      if (!source.rateLimits) {
+        continue;
+      }
+      const agentType = TaskScheduler.SOURCE_AGENT_TYPES[source.type];
+      const limit = limits.get(agentType) ?? { perMinute: Infinity, perHour: Infinity };
+      const { requestsPerMinute, requestsPerHour } = source.rateLimits;
+      if (requestsPerMinute > 0) {
+        limit.perMinute = Math.min(limit.perMinute, requestsPerMinute);
+      }
+      if (requestsPerHour > 0) {
+        limit.perHour = Math.min(limit.perHour, requestsPerHour);
+      }
+      limits.set(agentType, limit);
+    }
+
+    const groupBuckets = this.rateLimits.get(group) ?? new Map<AgentType, RateLimitBuckets>();
+    for (const [agentType, { perMinute, perHour }] of limits) {
+      const buckets = groupBuckets.get(agentType) ?? {};
+      if (perMinute !== Infinity && buckets.minuteBucket?.capacity !== perMinute) {
+        buckets.minuteBucket = new TokenBucket(perMinute, 60 * 1000);
+      }
+      if (perHour !== Infinity && buckets.hourBucket?.capacity !== perHour) {
+        buckets.hourBucket = new TokenBucket(perHour, 60 * 60 * 1000);
+      }
+      groupBuckets.set(agentType, buckets);
+    }
+    if (groupBuckets.size > 0) {
+      this.rateLimits.set(group, groupBuckets);
+    }
+  }
+
+  /**
+   * Forget a group's rate limits once its research has finished
+   */
+  clearRateLimits(group: string): void {
+    this.rateLimits.delete(group);
+  }
+
+  /**
+   * Back off from an agent that reported overload: pause new work for it
+   * (doubling with each consecutive report) and halve its concurrency limit
+   */
+  reportOverload(agentType: AgentType): void {
+    const agent = this.getAgentSchedule(agentType);
+    agent.consecutiveOverloads++;
+    agent.pausedUntil = Date.now() + Math.min(this.overloadCooldownMs * Math.pow(2, agent.consecutiveOverloads - 1), 300000);
+    agent.limit = Math.max(1, Math.floor(agent.limit / 2));
+    console.warn(`[TaskScheduler] ${agentType} is overloaded, pausing until ${new Date(agent.pausedUntil).toISOString()} with at most ${agent.limit} concurrent tasks`);
+    this.dispatch();
+  }
+
+  /**
+   * Record a successful task, growing a reduced concurrency limit back by one
+   */
+  reportSuccess(agentType: AgentType): void {
+    const agent = this.getAgentSchedule(agentType);
+    agent.consecutiveOverloads = 0;
+    agent.limit = Math.min(agent.limit + 1, this.configuredLimit(agentType));
+    this.dispatch();
+  }
+
+  /**
+   * Queued and running work, overall and per agent type
+   */
+  getStatus(): {
+    queued: number;
+    running: number;
+    agents: Array<{ agentType: AgentType; queued: number; running: number; limit: number; pausedUntil?: Date }>;
+  } {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      agents: Array.from(this.agents.entries()).map(([agentType, agent]) => ({
+        agentType,
+        queued: this.queue.filter(job => job.agentType === agentType).length,
+        running: agent.running,
+        limit: agent.limit,
+        pausedUntil: agent.pausedUntil > Date.now() ? new Date(agent.pausedUntil) : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Start every queued job that fits, highest priority first. A job that has to
+   * wait does not hold back work queued for other agent types.
+   */
+  private dispatch(): void {
+    const now = Date.now();
+    let nextAttemptAt = Infinity;
+
+    for (let index = 0; index < this.queue.length && this.running < this.maxConcurrent;) {
+      const job = this.queue[index];
+      const agent = this.getAgentSchedule(job.agentType);
+      const buckets = this.getRateLimitBuckets(job);
+      const readyAt = this.readyAt(agent, buckets, now);
+
+      if (readyAt > now) {
+        nextAttemptAt = Math.min(nextAttemptAt, readyAt);
+        index++;
+        continue;
+      }
+
+      this.queue.splice(index, 1);
+      buckets?.minuteBucket?.take(now);
+      buckets?.hourBucket?.take(now);
+      this.start(job, agent);
+    }
+
+    this.scheduleWake(nextAttemptAt);
+  }
+
+  /**
+   * When an agent can take its next job: now, once its pause ends or its rate
+   * limits refill, or never (Infinity) while all its slots are taken
+   */
+  private readyAt(agent: AgentSchedule, buckets: RateLimitBuckets | undefined, now: number): number {
+    if (agent.running >= agent.limit) {
+      return Infinity; // a finishing job dispatches again
+    }
+    return Math.max(
+      now,
+      agent.pausedUntil,
+      buckets?.minuteBucket?.availableAt(now) ?? now,
+      buckets?.hourBucket?.availableAt(now) ?? now
+    );
+  }
+
+  private start(job: ScheduledJob, agent: AgentSchedule): void {
+    this.running++;
+    agent.running++;
+    job.start().finally(() => {
+      this.running--;
+      agent.running--;
+      this.dispatch();
+    });
+  }
+
+  private scheduleWake(at: number): void {
+    if (at === Infinity || at >= this.wakeAt) {
+      return;
+    }
+    clearTimeout(this.wakeTimer);
+    this.wakeAt = at;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeAt = Infinity;
+      this.dispatch();
+    }, at - Date.now());
+  }
+
+  private getAgentSchedule(agentType: AgentType): AgentSchedule {
+    let agent = this.agents.get(agentType);
+    if (!agent) {
+      agent = {
+        running: 0,
+        limit: this.configuredLimit(agentType),
+        pausedUntil: 0,
+        consecutiveOverloads: 0,
+      };
+      this.agents.set(agentType, agent);
+    }
+    return agent;
+  }
+
+  private getRateLimitBuckets(job: ScheduledJob): RateLimitBuckets | undefined {
+    return job.group === undefined ? undefined : this.rateLimits.get(job.group)?.get(job.agentType);
+  }
+
+  private configuredLimit(agentType: AgentType): number {
+    return this.agentLimits[agentType] ?? this.maxPerAgent;
+  }
+}
+
+/**
+ * Whether a failure means the agent is overloaded rather than unable to do the
+ * work: it answered 429 (rate limited) or 503 (unavailable or shutting down)
+ */
+export function isOverloadError(error: unknown): boolean {
+  return error instanceof AgentRequestError && (error.status === 429 || error.status === 503);
+}
+
+/**
+ * Token bucket holding `capacity` tokens that refills completely over `periodMs`
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number, private periodMs: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Time at which a token is available
+   */
+  availableAt(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? now : now + Math.ceil((1 - this.tokens) * this.periodMs / this.capacity);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.capacity / this.periodMs);
+    this.updatedAt = now;
+  }
+}
+
+export interface TaskSchedulerOptions {
+  maxConcurrent?: number; // tasks running at once across all agents
+  maxPerAgent?: number; // default tasks running at once per agent type
+  agentLimits?: Partial<Record<AgentType, number>>; // per agent type overrides
+  overloadCooldownMs?: number; // first pause after an agent reports overload
+}
+
+interface ScheduledJob {
+  agentType: AgentType;
+  priority: number;
+  sequence: number;
+  group?: string;
+  start: () => Promise<void>;
+  cancel: (reason: Error) => void;
+}
+
+interface AgentSchedule {
+  running: number;
+  limit: number; // current concurrency limit, reduced while the agent is overloaded
+  pausedUntil: number;
+  consecutiveOverloads: number;
+}
+
+interface RateLimitBuckets {
+  minuteBucket?: TokenBucket;
+  hourBucket?: TokenBucket;
+}
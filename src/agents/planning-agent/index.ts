@@ -1,23 +1,8 @@
-import express from "express";
-import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';  // Added import for Zod schemas
 
-import { MessageData } from "genkit";
-import {
-  AgentCard,
-  Task,
-  TaskStatusUpdateEvent,
-  TextPart,
-} from "@a2a-js/sdk";
-import {
-  InMemoryTaskStore,
-  TaskStore,
-  AgentExecutor,
-  RequestContext,
-  ExecutionEventBus,
-  DefaultRequestHandler,
-} from "@a2a-js/sdk/server";
-import { A2AExpressApp } from "@a2a-js/sdk/server/express";
+import { exitOnStartupFailure, startAgentServer, type AgentCardDefinition } from "../shared/agent-server.js";
+import { BaseAgentExecutor, type AgentTaskContext, type AgentTaskOutcome } from "../shared/base-executor.js";
+import type { TaskStore } from "@a2a-js/sdk/server";
 import { ai } from "./genkit.js";
 import {
   OrchestrationState,
@@ -272,243 +257,46 @@ Ensure the plan is actionable and accounts for parallel execution where possible
 /**
  * PlanningAgentExecutor implements the agent's core logic for research planning and strategy development.
  */
-class PlanningAgentExecutor implements AgentExecutor {
-  private cancelledTasks = new Set<string>();
+class PlanningAgentExecutor extends BaseAgentExecutor {
   private researchPlanner: ResearchPlanner;
 
-  constructor() {
+  constructor(taskStore?: TaskStore) {
+    super({
+      name: 'PlanningAgentExecutor',
+      workingMessage: 'Developing comprehensive research strategy...',
+      cancelledMessage: 'Research planning cancelled.',
+      failurePrefix: 'Research planning failed',
+    }, taskStore);
     this.researchPlanner = new ResearchPlanner();
   }
 
-  public cancelTask = async (
-    taskId: string,
-    eventBus: ExecutionEventBus,
-  ): Promise<void> => {
-    this.cancelledTasks.add(taskId);
-    // Publish immediate cancellation event
-    const cancelledUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: uuidv4(), // Generate context ID for cancellation
-      status: {
-        state: 'canceled',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Research planning cancelled.' }],
-          taskId: taskId,
-          contextId: uuidv4(),
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: true,
-    };
-    eventBus.publish(cancelledUpdate);
-  };
-
-  async execute(
-    requestContext: RequestContext,
-    eventBus: ExecutionEventBus
-  ): Promise<void> {
-    const { userMessage } = requestContext;
-    const existingTask = requestContext.task;
-
-    const taskId = existingTask?.id || uuidv4();
-    const contextId = userMessage.contextId || existingTask?.contextId || uuidv4();
-    const researchId = taskId; // For future orchestration integration
-
-    console.log(
-      `[PlanningAgentExecutor] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId}, research: ${researchId})`
-    );
-
-    // 1. Publish initial Task event if it's a new task
-    if (!existingTask) {
-      const initialTask: Task = {
-        kind: 'task',
-        id: taskId,
-        contextId: contextId,
-        status: {
-          state: 'submitted',
-          timestamp: new Date().toISOString(),
-        },
-        history: [userMessage],
-        metadata: userMessage.metadata,
-        artifacts: [],
-      };
-      eventBus.publish(initialTask);
+  protected async handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome> {
+    // 1. Extract the research query from the user message
+    const { messages } = task;
+    const userQuery = messages[messages.length - 1]?.content?.[0]?.text || '';
+    if (!userQuery) {
+      throw new Error('No research query found in user message');
     }
 
-    // 2. Publish "working" status update
-    const workingStatusUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: contextId,
-      status: {
-        state: 'working',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Developing comprehensive research strategy...' }],
-          taskId: taskId,
-          contextId: contextId,
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: false,
-    };
-    eventBus.publish(workingStatusUpdate);
-
-    // 3. Prepare messages for Genkit prompt
-    const historyForGenkit = existingTask?.history ? [...existingTask.history] : [];
-    if (!historyForGenkit.find(m => m.messageId === userMessage.messageId)) {
-      historyForGenkit.push(userMessage);
-    }
+    // 2. Execute comprehensive research planning using the new components
+    console.log(`[PlanningAgentExecutor] Starting comprehensive planning for: "${userQuery}"`);
+    const researchPlan = await this.researchPlanner.execute(userQuery);
 
-    const messages: MessageData[] = historyForGenkit
-      .map((m) => ({
-        role: (m.role === 'agent' ? 'model' : 'user') as 'user' | 'model',
-        content: m.parts
-          .filter((p): p is TextPart => p.kind === 'text' && !!(p as TextPart).text)
-          .map((p) => ({
-            text: (p as TextPart).text,
-          })),
-      }))
-      .filter((m) => m.content.length > 0);
-
-    if (messages.length === 0) {
-      console.warn(
-        `[PlanningAgentExecutor] No valid text messages found in history for task ${taskId}.`
-      );
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'No input message found to process.' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-      return;
-    }
+    // 3. Publish status update with planning results
+    this.publishWorking(
+      task,
+      `Research plan developed successfully. ${researchPlan.executionSteps.length} execution steps planned.`
+    );
 
-    try {
-      // 4. Extract the research query from the user message
-      const userQuery = messages[messages.length - 1]?.content?.[0]?.text || '';
-      if (!userQuery) {
-        throw new Error('No research query found in user message');
-      }
-
-      // 5. Execute comprehensive research planning using the new components
-      console.log(`[PlanningAgentExecutor] Starting comprehensive planning for: "${userQuery}"`);
-      const researchPlan = await this.researchPlanner.execute(userQuery);
-
-      // 6. Publish status update with planning results
-      const statusUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'working',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{
-              kind: 'text',
-              text: `Research plan developed successfully. ${researchPlan.executionSteps.length} execution steps planned.`
-            }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: false,
-      };
-      eventBus.publish(statusUpdate);
-
-      // Check if cancelled
-      if (this.cancelledTasks.has(taskId)) {
-        console.log(`[PlanningAgentExecutor] Request cancelled for task: ${taskId}`);
-        const cancelledUpdate: TaskStatusUpdateEvent = {
-          kind: 'status-update',
-          taskId: taskId,
-          contextId: contextId,
-          status: {
-            state: 'canceled',
-            message: {
-              kind: 'message',
-              role: 'agent',
-              messageId: uuidv4(),
-              parts: [{ kind: 'text', text: 'Research planning cancelled.' }],
-              taskId: taskId,
-              contextId: contextId,
-            },
-            timestamp: new Date().toISOString(),
-          },
-          final: true,
-        };
-        eventBus.publish(cancelledUpdate);
-        return;
-      }
-
-      // 7. Complete the planning task
-      const completionUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'completed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{
-              kind: 'text',
-              text: `Research strategy completed successfully. Plan ready for execution.`
-            }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(completionUpdate);
+    // 4. Publish the plan as a structured artifact for the orchestrator
+    this.publishArtifact(task, {
+      artifactId: researchPlan.id,
+      name: 'research-plan',
+      description: `Research plan for: ${researchPlan.topic}`,
+      parts: [{ kind: 'data', data: { researchPlan } }],
+    });
 
-    } catch (error) {
-      console.error(`[PlanningAgentExecutor] Error processing task ${taskId}:`, error);
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: `Research planning failed: ${error instanceof Error ? error.message : 'Unknown error'}` }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-    }
+    return { message: `Research strategy completed successfully. Plan ready for execution.` };
   }
 
   private parseResearchPlan(responseText: string): any {
@@ -528,12 +316,10 @@ class PlanningAgentExecutor implements AgentExecutor {
 
 // --- Server Setup ---
 
-const planningAgentCard: AgentCard = {
-  protocolVersion: '1.0',
+const planningAgentCard: AgentCardDefinition = {
   name: 'Planning Agent',
   description:
     'An agent that creates comprehensive, evidence-based research strategies with systematic planning, risk assessment, and execution blueprints.',
-  url: 'http://localhost:41245/',
   provider: {
     organization: 'A2A Samples',
     url: 'https://example.com/a2a-samples',
@@ -568,31 +354,14 @@ const planningAgentCard: AgentCard = {
   supportsAuthenticatedExtendedCard: false,
 };
 
-async function main() {
-  // 1. Create TaskStore
-  const taskStore: TaskStore = new InMemoryTaskStore();
-
-  // 2. Create AgentExecutor
-  const agentExecutor = new PlanningAgentExecutor();
-
-  // 3. Create DefaultRequestHandler
-  const requestHandler = new DefaultRequestHandler(
-    planningAgentCard,
-    taskStore,
-    agentExecutor
-  );
-
-  // 4. Create and setup A2AExpressApp
-  const appBuilder = new A2AExpressApp(requestHandler);
-  const expressApp = appBuilder.setupRoutes(express(), '');
-
-  // 5. Start the server
-  const PORT = process.env.PLANNING_AGENT_PORT || 41245;
-  expressApp.listen(PORT, () => {
-    console.log(`[PlanningAgent] Server started on http://localhost:${PORT}`);
-    console.log(`[PlanningAgent] Agent Card: http://localhost:${PORT}/.well-known/agent-card.json`);
-    console.log('[PlanningAgent] Press Ctrl+C to stop the server');
-  });
-}
-
-main().catch(console.error);
\ No newline at end of file
+startAgentServer({
+  id: 'planning-agent',
+  logName: 'PlanningAgent',
+  envPrefix: 'PLANNING_AGENT',
+  defaultPort: 41245,
+  card: planningAgentCard,
+  modelEnv: {
+    GEMINI_API_KEY: 'Gemini API key used by Genkit (https://aistudio.google.com/apikey)',
+  },
+  createExecutor: taskStore => new PlanningAgentExecutor(taskStore),
+}).catch(exitOnStartupFailure('PlanningAgent'));
@@ -1,4 +1,5 @@
 import { ResearchStep, ResearchDimension, DataSource } from '../shared/interfaces.js';
+import { PlanGraph } from '../shared/plan-graph.js';
 
 /**
  * Step Decomposition Engine for the Planning Agent
@@ -140,6 +141,10 @@ export class StepDecomposer {
         description: `Analyze quantitative data and statistical patterns for ${topic}`,
         agentType: 'data-analysis',
         dependencies: ['research-001', 'research-002'], // Depends on research steps
+        inputs: [
+          { stepId: 'research-001', outputs: ['statistics', 'findings', 'sources'] },
+          { stepId: 'research-002', outputs: ['statistics', 'findings', 'sources'] }
+        ],
         estimatedDuration: 20,
         successCriteria: 'Statistical analysis completed with key insights identified',
         fallbackStrategies: ['Use basic statistical methods', 'Focus on descriptive statistics'],
@@ -301,8 +306,13 @@ export class StepDecomposer {
    * Assign dependencies between steps
    */
   private assignDependencies(steps: ResearchStep[]): void {
-    // Dependencies are already assigned in the step creation methods
-    // This method could be used for more complex dependency logic in the future
+    // Dependencies are assigned in the step creation methods from fixed step IDs;
+    // drop those on steps this plan did not create (e.g. a second research step)
+    const stepIds = new Set(steps.map(step => step.id));
+    steps.forEach(step => {
+      step.dependencies = step.dependencies.filter(depId => stepIds.has(depId));
+      step.inputs = step.inputs?.filter(input => stepIds.has(input.stepId));
+    });
   }
 
   /**
@@ -392,33 +402,10 @@ export class StepDecomposer {
   }
 
   /**
-   * Calculate the critical path through the steps
+   * Calculate the critical path through the steps: the longest chain of
+   * dependent steps by estimated duration
    */
   private calculateCriticalPath(steps: ResearchStep[]): ResearchStep[] {
-    // Simplified critical path calculation
-    // In a real implementation, this would use proper project management algorithms
-    const stepMap = new Map(steps.map(step => [step.id, step]));
-    const criticalPath: ResearchStep[] = [];
-
-    // Start with the final step
-    const finalStep = steps.find(step => step.id.startsWith('validation-002'));
-    if (finalStep) {
-      criticalPath.unshift(finalStep);
-
-      // Walk backwards through dependencies
-      let currentDeps = finalStep.dependencies;
-      while (currentDeps.length > 0) {
-        const nextStepId = currentDeps[0]; // Take first dependency
-        const nextStep = stepMap.get(nextStepId);
-        if (nextStep) {
-          criticalPath.unshift(nextStep);
-          currentDeps = nextStep.dependencies;
-        } else {
-          break;
-        }
-      }
-    }
-
-    return criticalPath;
+    return new PlanGraph(steps).criticalPath();
   }
 }
\ No newline at end of file
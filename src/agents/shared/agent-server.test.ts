@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AgentExecutor } from '@a2a-js/sdk/server';
+import { ConfigurationError, resolveListenConfig, startAgentServer, validateEnvironment, type AgentServerDefinition } from './agent-server.js';
+
+// Works on every task until it is cancelled, publishing a working status first
+class EndlessExecutor implements AgentExecutor {
+  execute: AgentExecutor['execute'] = async (requestContext, eventBus) => {
+    eventBus.publish({
+      kind: 'task',
+      id: requestContext.taskId,
+      contextId: requestContext.contextId,
+      status: { state: 'working', timestamp: new Date().toISOString() },
+      history: [requestContext.userMessage],
+    });
+    await new Promise(() => undefined);
+  };
+
+  cancelTask: AgentExecutor['cancelTask'] = async () => undefined;
+}
+
+const definition = (overrides: Partial<AgentServerDefinition> = {}): AgentServerDefinition => ({
+  id: 'test-agent',
+  logName: 'TestAgent',
+  envPrefix: 'TEST_AGENT',
+  defaultPort: 0,
+  card: {
+    name: 'Test Agent',
+    description: 'Works until it is stopped',
+    version: '0.0.1',
+    capabilities: { streaming: true },
+    defaultInputModes: ['text'],
+    defaultOutputModes: ['text'],
+    skills: [],
+  },
+  createExecutor: () => new EndlessExecutor(),
+  ...overrides,
+});
+
+const message = (text: string) => ({ kind: 'message', messageId: crypto.randomUUID(), role: 'user', parts: [{ kind: 'text', text }] });
+
+const rpc = (url: string, method: string, params: unknown) => fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+});
+
+describe('validateEnvironment', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reports every missing required variable at once', () => {
+    vi.stubEnv('TEST_AGENT_KEY', '');
+    vi.stubEnv('TEST_AGENT_SECRET', '');
+    const requiredEnv = { TEST_AGENT_KEY: 'the key', TEST_AGENT_SECRET: 'the secret' };
+
+    expect(() => validateEnvironment(definition({ requiredEnv })))
+      .toThrow('TestAgent is missing required environment variables:\n  - TEST_AGENT_KEY: the key\n  - TEST_AGENT_SECRET: the secret');
+  });
+
+  it('rejects unknown task store backends', () => {
+    vi.stubEnv('A2A_TASK_STORE', 'redis');
+
+    expect(() => validateEnvironment(definition())).toThrow(ConfigurationError);
+  });
+});
+
+describe('resolveListenConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads the agent\'s own port and public URL', () => {
+    vi.stubEnv('TEST_AGENT_PORT', '4100');
+    vi.stubEnv('TEST_AGENT_PUBLIC_URL', 'https://agents.example.com/test/');
+
+    expect(resolveListenConfig(definition())).toMatchObject({ port: 4100, publicUrl: 'https://agents.example.com/test/' });
+  });
+
+  it('rejects invalid ports', () => {
+    vi.stubEnv('TEST_AGENT_PORT', '70000');
+
+    expect(() => resolveListenConfig(definition())).toThrow('TEST_AGENT_PORT must be a port number between 0 and 65535, got "70000"');
+  });
+});
+
+describe('startAgentServer', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects invalid configuration and leaves exiting to the entry point', async () => {
+    vi.stubEnv('TEST_AGENT_PORT', 'http');
+    const exit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    await expect(startAgentServer(definition())).rejects.toThrow(ConfigurationError);
+    expect(exit).not.toHaveBeenCalled();
+    exit.mockRestore();
+  });
+
+  it('serves task polling while draining and stops with a task stream still open', async () => {
+    vi.stubEnv('A2A_SHUTDOWN_TIMEOUT_MS', '200');
+    const { url, shutdown } = await startAgentServer(definition());
+
+    const stream = await rpc(url, 'message/stream', { message: message('Work forever') });
+    const reader = stream.body!.getReader();
+    const firstEvent = JSON.parse(new TextDecoder().decode((await reader.read()).value).replace(/^data: /, ''));
+    const taskId = firstEvent.result.id;
+
+    const stopped = shutdown('Test');
+    const polled = await rpc(url, 'tasks/get', { id: taskId });
+    const refused = await rpc(url, 'message/send', { message: message('More work') });
+
+    expect(polled.status).toBe(200);
+    expect((await polled.json()).result.status.state).toBe('working');
+    expect(refused.status).toBe(503);
+    await stopped;
+    await expect(reader.read()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,341 @@
+import { AsyncResource } from 'async_hooks';
+import express from 'express';
+import type { Express, Request, RequestHandler } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { AgentCard } from '@a2a-js/sdk';
+import { DefaultRequestHandler } from '@a2a-js/sdk/server';
+import type {
+  AgentExecutor,
+  ExecutionEventBus,
+  RequestContext,
+  TaskStore,
+} from '@a2a-js/sdk/server';
+import { A2AExpressApp } from '@a2a-js/sdk/server/express';
+import { ConfigurationError } from './configuration-error.js';
+import { isOfflineModelMode } from './model-harness.js';
+import { TASK_STORE_BACKENDS, createTaskStore } from './task-store.js';
+
+// Shared bootstrap for agent servers: configuration, agent card, health endpoints and shutdown
+
+export { ConfigurationError };
+
+/**
+ * Agent card fields an agent declares; the URL is derived from where the server actually listens
+ */
+export type AgentCardDefinition =
+  Omit<AgentCard, 'url' | 'protocolVersion' | 'provider' | 'supportsAuthenticatedExtendedCard'> &
+  Partial<Pick<AgentCard, 'protocolVersion' | 'provider' | 'supportsAuthenticatedExtendedCard'>>;
+
+export interface AgentServerDefinition {
+  id: string; // e.g. 'movie-agent', also namespaces the task store
+  logName: string; // e.g. 'MovieAgent'
+  envPrefix: string; // reads <PREFIX>_PORT, <PREFIX>_HOST and <PREFIX>_PUBLIC_URL
+  defaultPort: number;
+  card: AgentCardDefinition;
+  requiredEnv?: Record<string, string>; // variable -> what it is for
+  modelEnv?: Record<string, string>; // model API keys, not required when the model harness runs offline
+  optionalEnv?: Record<string, string>;
+  createExecutor: (taskStore: TaskStore) => AgentExecutor; // taskStore is the store the server keeps tasks in
+  readinessCheck?: () => boolean | Promise<boolean>;
+  setupRoutes?: (app: Express) => void; // extra HTTP routes, mounted next to the A2A routes
+  onListening?: (server: Server) => void; // e.g. to accept WebSocket upgrades
+  onShutdown?: () => Promise<void>; // runs once tasks have drained, before the server closes
+}
+
+export interface AgentServer {
+  card: AgentCard;
+  url: string;
+  server: Server;
+  shutdown: (reason: string) => Promise<void>;
+}
+
+const DEFAULT_PROVIDER = {
+  organization: 'A2A Samples',
+  url: 'https://example.com/a2a-samples',
+};
+
+// Protocol version implemented by @a2a-js/sdk 0.3.x
+const DEFAULT_PROTOCOL_VERSION = '0.3.0';
+
+// JSON-RPC methods still served while draining, so delegators can follow and cancel running tasks
+const DRAINING_METHODS = ['tasks/get', 'tasks/cancel'];
+
+// How long responses still open after the drain may take to finish before their connections are closed
+const SHUTDOWN_GRACE_MS = 1000;
+
+/**
+ * Build a complete AgentCard from a declarative definition and the advertised URL
+ */
+export function buildAgentCard(definition: AgentCardDefinition, url: string): AgentCard {
+  return {
+    ...definition,
+    url,
+    protocolVersion: definition.protocolVersion || DEFAULT_PROTOCOL_VERSION,
+    provider: definition.provider ?? DEFAULT_PROVIDER,
+    supportsAuthenticatedExtendedCard: definition.supportsAuthenticatedExtendedCard ?? false,
+  };
+}
+
+/**
+ * Check required environment variables, reporting every missing one at once,
+ * and the task store backend. Missing optional variables are only logged.
+ */
+export function validateEnvironment(definition: AgentServerDefinition): void {
+  const required = {
+    ...definition.requiredEnv,
+    ...(isOfflineModelMode() ? {} : definition.modelEnv),
+  };
+  const missing = Object.entries(required)
+    .filter(([name]) => !process.env[name]?.trim());
+
+  for (const [name, purpose] of Object.entries(definition.optionalEnv ?? {})) {
+    if (!process.env[name]?.trim()) {
+      console.warn(`[${definition.logName}] ${name} is not set: ${purpose}`);
+    }
+  }
+
+  if (missing.length > 0) {
+    const details = missing.map(([name, purpose]) => `  - ${name}: ${purpose}`).join('\n');
+    throw new ConfigurationError(
+      `${definition.logName} is missing required environment variables:\n${details}`
+    );
+  }
+
+  const taskStore = process.env.A2A_TASK_STORE;
+  if (taskStore !== undefined && !TASK_STORE_BACKENDS.includes(taskStore)) {
+    throw new ConfigurationError(`A2A_TASK_STORE must be one of ${TASK_STORE_BACKENDS.join(', ')}, got "${taskStore}"`);
+  }
+}
+
+/**
+ * Resolve bind host, port and advertised URL from the environment
+ */
+export function resolveListenConfig(definition: AgentServerDefinition): { host: string; port: number; publicUrl?: string } {
+  const prefix = definition.envPrefix;
+  const rawPort = process.env[`${prefix}_PORT`] ?? process.env.PORT ?? String(definition.defaultPort);
+  const port = Number(rawPort);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigurationError(`${prefix}_PORT must be a port number between 0 and 65535, got "${rawPort}"`);
+  }
+
+  const publicUrl = process.env[`${prefix}_PUBLIC_URL`];
+  if (publicUrl) {
+    try {
+      new URL(publicUrl);
+    } catch {
+      throw new ConfigurationError(`${prefix}_PUBLIC_URL must be an absolute URL, got "${publicUrl}"`);
+    }
+  }
+
+  return {
+    host: process.env[`${prefix}_HOST`] ?? process.env.A2A_HOST ?? '0.0.0.0',
+    port,
+    publicUrl,
+  };
+}
+
+/**
+ * Start an agent server: validate configuration, serve the A2A routes plus
+ * /healthz and /readyz, and drain running tasks on SIGTERM/SIGINT.
+ * Rejects with a ConfigurationError when configuration is invalid.
+ */
+export async function startAgentServer(definition: AgentServerDefinition): Promise<AgentServer> {
+  const { logName } = definition;
+  validateEnvironment(definition);
+  const { host, port, publicUrl } = resolveListenConfig(definition);
+  const card = buildAgentCard(definition.card, publicUrl ?? advertisedUrl(host, port));
+  const taskStore = createTaskStore(definition.id);
+  const executor = new DrainingExecutor(definition.createExecutor(taskStore));
+  const requestHandler = new DefaultRequestHandler(card, taskStore, executor);
+
+  let listening = false;
+  let shuttingDown = false;
+
+  const app = express();
+  app.get('/healthz', (_req, res) => {
+    res.json({ status: 'ok', agent: card.name, uptimeSeconds: Math.round(process.uptime()) });
+  });
+  app.get('/readyz', async (_req, res) => {
+    let ready = listening && !shuttingDown;
+    if (ready && definition.readinessCheck) {
+      ready = await Promise.resolve(definition.readinessCheck()).catch(() => false);
+    }
+    res.status(ready ? 200 : 503).json({
+      status: ready ? 'ready' : (shuttingDown ? 'shutting-down' : 'not-ready'),
+      runningTasks: executor.runningCount,
+    });
+  });
+  // Refuse new work once draining has started. A2A requests are checked once
+  // their JSON-RPC body is parsed, since delegators may still poll and cancel tasks.
+  const refuseWhileDraining = (allow: (req: Request) => boolean): RequestHandler => (req, res, next) => {
+    if (shuttingDown && !allow(req)) {
+      res.status(503).set('Connection', 'close').json({ error: 'Agent is shutting down' });
+      return;
+    }
+    next();
+  };
+  app.use(refuseWhileDraining(req => req.method === 'POST' && req.path === '/'));
+  definition.setupRoutes?.(app);
+  new A2AExpressApp(requestHandler).setupRoutes(app, '', [
+    refuseWhileDraining(req => DRAINING_METHODS.includes(req.body?.method)),
+  ]);
+
+  const server = await new Promise<Server>((resolve, reject) => {
+    const httpServer = app.listen(port, host, () => resolve(httpServer));
+    httpServer.once('error', reject);
+  });
+  listening = true;
+  definition.onListening?.(server);
+
+  // Port 0 binds an ephemeral port, so derive the URL from the real address
+  if (!publicUrl) {
+    card.url = advertisedUrl(host, (server.address() as AddressInfo).port);
+  }
+
+  console.log(`[${logName}] Server started on ${card.url}`);
+  console.log(`[${logName}] Agent Card: ${new URL('.well-known/agent-card.json', card.url)}`);
+  console.log(`[${logName}] Press Ctrl+C to stop the server`);
+
+  const shutdownTimeoutMs = Number(process.env.A2A_SHUTDOWN_TIMEOUT_MS ?? 30000);
+  // Bound to the context the server started in, so shutdown logs stay attributed to this agent
+  const shutdown = AsyncResource.bind(async (reason: string): Promise<void> => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.log(`[${logName}] ${reason}: draining ${executor.runningCount} running tasks`);
+
+    const drained = await executor.drain(shutdownTimeoutMs);
+    if (!drained) {
+      console.warn(`[${logName}] Shutdown timeout reached with ${executor.runningCount} tasks still running`);
+    }
+
+    // Before closing: long-lived connections such as event streams would keep close() waiting
+    await definition.onShutdown?.().catch(error => console.error(`[${logName}] Shutdown hook failed:`, error));
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeIdleConnections();
+    // close() waits for open responses; message/stream streams of tasks that outlived the drain never end
+    const forceClose = setTimeout(() => server.closeAllConnections(), drained ? SHUTDOWN_GRACE_MS : 0);
+    await closed;
+    clearTimeout(forceClose);
+    console.log(`[${logName}] Server stopped`);
+  });
+
+  const agentServer: AgentServer = { card, url: card.url, server, shutdown };
+  startedServers.push(agentServer);
+  installSignalHandlers();
+
+  return agentServer;
+}
+
+/**
+ * Startup failure handler for an agent's entry point: logs the error, a
+ * ConfigurationError by its message alone, and exits non-zero
+ */
+export function exitOnStartupFailure(logName: string): (error: unknown) => never {
+  return error => {
+    console.error(`[${logName}]`, error instanceof ConfigurationError ? error.message : error);
+    process.exit(1);
+  };
+}
+
+// Servers started in this process, in start order. The fleet launcher can run several.
+const startedServers: AgentServer[] = [];
+let signalHandlersInstalled = false;
+
+/**
+ * Agent servers started in this process
+ */
+export function getAgentServers(): readonly AgentServer[] {
+  return startedServers;
+}
+
+/**
+ * Shut down every agent server in this process, most recently started first,
+ * so agents that delegate work (the orchestrator) drain before the agents they call
+ */
+export async function shutdownAgentServers(reason: string): Promise<void> {
+  for (const agentServer of [...startedServers].reverse()) {
+    await agentServer.shutdown(reason);
+  }
+}
+
+function installSignalHandlers(): void {
+  if (signalHandlersInstalled) {
+    return;
+  }
+  signalHandlersInstalled = true;
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    // Genkit exits as soon as it sees these signals; run such handlers after draining instead
+    const deferred = process.listeners(signal);
+    deferred.forEach(listener => process.removeListener(signal, listener));
+
+    process.once(signal, () => {
+      // A second signal skips the drain
+      process.once(signal, () => process.exit(1));
+      shutdownAgentServers(`Received ${signal}`)
+        .then(() => 0, () => 1)
+        .then(async code => {
+          // Piped stdout is written asynchronously; let the last log lines out first
+          await new Promise(resolve => process.stdout.write('', resolve));
+          await Promise.allSettled(deferred.map(async listener => listener(signal)));
+          process.exit(code);
+        });
+    });
+  }
+}
+
+function advertisedUrl(host: string, port: number): string {
+  // Wildcard binds are reachable locally; advertise a name clients can connect to
+  const advertisedHost = ['0.0.0.0', '::', ''].includes(host) ? 'localhost' : host;
+  const formattedHost = advertisedHost.includes(':') ? `[${advertisedHost}]` : advertisedHost;
+  return `http://${formattedHost}:${port}/`;
+}
+
+/**
+ * Wraps an executor to track running executions so shutdown can wait for them
+ */
+class DrainingExecutor implements AgentExecutor {
+  private running: Set<Promise<void>> = new Set();
+
+  constructor(private inner: AgentExecutor) {}
+
+  get runningCount(): number {
+    return this.running.size;
+  }
+
+  execute(requestContext: RequestContext, eventBus: ExecutionEventBus): Promise<void> {
+    const execution = this.inner.execute(requestContext, eventBus);
+    const tracked = execution.catch(() => undefined).finally(() => this.running.delete(tracked));
+    this.running.add(tracked);
+    return execution;
+  }
+
+  cancelTask = (taskId: string, eventBus: ExecutionEventBus): Promise<void> =>
+    this.inner.cancelTask(taskId, eventBus);
+
+  /**
+   * Resolve true once no executions are running, or false after timeoutMs
+   */
+  async drain(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.running.size > 0) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return false;
+      }
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.all(this.running),
+        new Promise(resolve => {
+          timer = setTimeout(resolve, remaining);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+    return true;
+  }
+}
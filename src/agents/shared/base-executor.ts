@@ -0,0 +1,370 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { MessageData } from 'genkit';
+import type {
+  Artifact,
+  Message,
+  Part,
+  Task,
+  TaskArtifactUpdateEvent,
+  TaskState,
+  TaskStatusUpdateEvent,
+} from '@a2a-js/sdk';
+import type {
+  AgentExecutor,
+  ExecutionEventBus,
+  RequestContext,
+  TaskStore,
+} from '@a2a-js/sdk/server';
+
+type GenkitPart = MessageData['content'][number];
+
+/**
+ * Base AgentExecutor shared by all agents
+ * Owns the submitted → working → completed/failed/canceled event sequence,
+ * history conversion and cancellation so agents only implement handleTask
+ */
+export abstract class BaseAgentExecutor implements AgentExecutor {
+  protected cancelledTasks = new Set<string>();
+  private runningTasks: Map<string, string> = new Map(); // taskId -> contextId
+
+  // taskStore holds the tasks this executor serves, to look up tasks that are not running
+  constructor(protected config: AgentExecutorConfig, private taskStore?: TaskStore) {}
+
+  /**
+   * Domain logic for a single request. Throwing fails the task via mapError;
+   * returning after cancellation is harmless, the result is discarded.
+   */
+  protected abstract handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome>;
+
+  /**
+   * Hook for agents that need to stop domain work when a task is cancelled.
+   * Returned artifacts (e.g. partial results) are published before the final
+   * canceled status.
+   */
+  protected async onCancel(_taskId: string): Promise<Artifact[]> {
+    return [];
+  }
+
+  public cancelTask = async (
+    taskId: string,
+    eventBus: ExecutionEventBus,
+  ): Promise<void> => {
+    // Read before onCancel: execute may finish and forget the task while it runs
+    const runningContextId = this.runningTasks.get(taskId);
+    // execute clears the flag when it finishes, so only running tasks are flagged
+    if (runningContextId !== undefined) {
+      this.cancelledTasks.add(taskId);
+    }
+    const contextId = runningContextId ?? await this.storedContextId(taskId);
+    const partialArtifacts = await this.onCancel(taskId);
+
+    for (const artifact of partialArtifacts) {
+      const artifactUpdate: TaskArtifactUpdateEvent = {
+        kind: 'artifact-update',
+        taskId,
+        contextId,
+        artifact,
+        append: false,
+        lastChunk: true,
+      };
+      eventBus.publish(artifactUpdate);
+    }
+
+    // The request handler waits for this final event; later events from execute are dropped
+    const cancelledUpdate: TaskStatusUpdateEvent = {
+      kind: 'status-update',
+      taskId,
+      contextId,
+      status: {
+        state: 'canceled',
+        message: this.createAgentMessage({ taskId, contextId }, this.config.cancelledMessage),
+        timestamp: new Date().toISOString(),
+      },
+      final: true,
+    };
+    eventBus.publish(cancelledUpdate);
+  };
+
+  /**
+   * Context of a task that is not running, so its cancellation reaches the client's conversation
+   */
+  private async storedContextId(taskId: string): Promise<string> {
+    try {
+      const task = await this.taskStore?.load(taskId);
+      if (task) {
+        return task.contextId;
+      }
+    } catch (error) {
+      console.error(`[${this.config.name}] Failed to load task ${taskId}:`, error);
+    }
+    return uuidv4();
+  }
+
+  async execute(
+    requestContext: RequestContext,
+    eventBus: ExecutionEventBus
+  ): Promise<void> {
+    const { userMessage } = requestContext;
+    const existingTask = requestContext.task;
+
+    const taskId = existingTask?.id || uuidv4();
+    const contextId = userMessage.contextId || existingTask?.contextId || uuidv4();
+    const name = this.config.name;
+
+    console.log(
+      `[${name}] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId})`
+    );
+    this.runningTasks.set(taskId, contextId);
+
+    const history = this.collectHistory(userMessage, existingTask, contextId);
+    const task: AgentTaskContext = {
+      taskId,
+      contextId,
+      userMessage,
+      existingTask,
+      history,
+      messages: this.toGenkitMessages(history),
+      eventBus,
+    };
+
+    try {
+      // 1. Publish initial Task event if it's a new task
+      if (!existingTask) {
+        const initialTask: Task = {
+          kind: 'task',
+          id: taskId,
+          contextId,
+          status: {
+            state: 'submitted',
+            timestamp: new Date().toISOString(),
+          },
+          history: [userMessage],
+          metadata: userMessage.metadata,
+          artifacts: [],
+        };
+        this.publish(task, initialTask);
+      }
+
+      // 2. Publish "working" status update
+      this.publishWorking(task, this.config.workingMessage);
+
+      if (task.messages.length === 0) {
+        console.warn(`[${name}] No valid messages found in history for task ${taskId}.`);
+        this.publishFinal(task, { state: 'failed', message: 'No input message found to process.' });
+        return;
+      }
+
+      // 3. Run the agent's domain logic
+      let outcome: AgentTaskOutcome;
+      try {
+        outcome = await this.handleTask(task);
+      } catch (error) {
+        if (this.isCancelled(taskId)) {
+          console.log(`[${name}] Request cancelled for task: ${taskId}`);
+          return;
+        }
+        console.error(`[${name}] Error processing task ${taskId}:`, error);
+        outcome = this.mapError(error);
+      }
+
+      if (this.isCancelled(taskId)) {
+        console.log(`[${name}] Request cancelled for task: ${taskId}`);
+        return;
+      }
+
+      // 4. Publish final task status update
+      this.publishFinal(task, outcome);
+      console.log(`[${name}] Task ${taskId} finished with state: ${outcome.state ?? 'completed'}`);
+
+    } finally {
+      this.runningTasks.delete(taskId);
+      this.cancelledTasks.delete(taskId);
+    }
+  }
+
+  /**
+   * Messages to feed the model: the task's history plus the new user message.
+   * Agents that keep history across tasks in a context override this.
+   */
+  protected collectHistory(userMessage: Message, existingTask: Task | undefined, _contextId: string): Message[] {
+    const history = existingTask?.history ? [...existingTask.history] : [];
+    if (!history.find(m => m.messageId === userMessage.messageId)) {
+      history.push(userMessage);
+    }
+    return history;
+  }
+
+  /**
+   * Convert A2A messages to Genkit messages. Files become media parts and
+   * structured data is passed to the model as JSON text.
+   */
+  protected toGenkitMessages(history: Message[]): MessageData[] {
+    return history
+      .map((m) => ({
+        role: m.role === 'agent' ? 'model' as const : 'user' as const,
+        content: m.parts
+          .map((p) => this.toGenkitPart(p))
+          .filter((p): p is GenkitPart => p !== null),
+      }))
+      .filter((m) => m.content.length > 0);
+  }
+
+  private toGenkitPart(part: Part): GenkitPart | null {
+    switch (part.kind) {
+      case 'text':
+        return part.text ? { text: part.text } : null;
+
+      case 'file': {
+        const { file } = part;
+        const url = 'uri' in file
+          ? file.uri
+          : `data:${file.mimeType ?? 'application/octet-stream'};base64,${file.bytes}`;
+        return { media: { url, contentType: file.mimeType } };
+      }
+
+      case 'data':
+        return { text: JSON.stringify(part.data) };
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Turn an error thrown by handleTask into the task's final outcome
+   */
+  protected mapError(error: unknown): AgentTaskOutcome {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { state: 'failed', message: `${this.config.failurePrefix}: ${message}` };
+  }
+
+  protected isCancelled(taskId: string): boolean {
+    return this.cancelledTasks.has(taskId);
+  }
+
+  /**
+   * Abort domain work early once the task has been cancelled
+   */
+  protected throwIfCancelled(taskId: string): void {
+    if (this.isCancelled(taskId)) {
+      throw new TaskCancelledError(taskId);
+    }
+  }
+
+  protected createAgentMessage(
+    task: Pick<AgentTaskContext, 'taskId' | 'contextId'>,
+    content: string | Part[]
+  ): Message {
+    return {
+      kind: 'message',
+      role: 'agent',
+      messageId: uuidv4(),
+      parts: typeof content === 'string' ? [{ kind: 'text', text: content }] : content,
+      taskId: task.taskId,
+      contextId: task.contextId,
+    };
+  }
+
+  /**
+   * Publish a `working` status update, as text or as parts (e.g. structured progress)
+   */
+  protected publishWorking(task: AgentTaskContext, content: string | Part[]): void {
+    const statusUpdate: TaskStatusUpdateEvent = {
+      kind: 'status-update',
+      taskId: task.taskId,
+      contextId: task.contextId,
+      status: {
+        state: 'working',
+        message: this.createAgentMessage(task, content),
+        timestamp: new Date().toISOString(),
+      },
+      final: false,
+    };
+    this.publish(task, statusUpdate);
+  }
+
+  /**
+   * Publish an artifact, defaulting to a complete (non-appended) snapshot
+   */
+  protected publishArtifact(
+    task: AgentTaskContext,
+    artifact: Artifact,
+    options: { append?: boolean; lastChunk?: boolean } = {}
+  ): void {
+    const artifactUpdate: TaskArtifactUpdateEvent = {
+      kind: 'artifact-update',
+      taskId: task.taskId,
+      contextId: task.contextId,
+      artifact,
+      append: options.append ?? false,
+      lastChunk: options.lastChunk ?? true,
+    };
+    this.publish(task, artifactUpdate);
+  }
+
+  private publishFinal(task: AgentTaskContext, outcome: AgentTaskOutcome): void {
+    const message = typeof outcome.message === 'string' || Array.isArray(outcome.message)
+      ? this.createAgentMessage(task, outcome.message)
+      : outcome.message;
+
+    const finalUpdate: TaskStatusUpdateEvent = {
+      kind: 'status-update',
+      taskId: task.taskId,
+      contextId: task.contextId,
+      status: {
+        state: outcome.state ?? 'completed',
+        message,
+        timestamp: new Date().toISOString(),
+      },
+      final: true,
+    };
+    this.publish(task, finalUpdate);
+  }
+
+  /**
+   * Events published after cancellation would follow the final canceled status
+   */
+  private publish(
+    task: AgentTaskContext,
+    event: Task | TaskStatusUpdateEvent | TaskArtifactUpdateEvent
+  ): void {
+    if (!this.isCancelled(task.taskId)) {
+      task.eventBus.publish(event);
+    }
+  }
+}
+
+/**
+ * Thrown by throwIfCancelled to unwind domain logic of a cancelled task
+ */
+export class TaskCancelledError extends Error {
+  constructor(taskId: string) {
+    super(`Task ${taskId} was cancelled`);
+    this.name = 'TaskCancelledError';
+  }
+}
+
+/**
+ * Type definitions for the base executor
+ */
+export interface AgentExecutorConfig {
+  name: string; // log prefix, e.g. 'MovieAgentExecutor'
+  workingMessage: string;
+  cancelledMessage: string;
+  failurePrefix: string;
+}
+
+export interface AgentTaskContext {
+  taskId: string;
+  contextId: string;
+  userMessage: Message;
+  existingTask?: Task;
+  history: Message[];
+  messages: MessageData[];
+  eventBus: ExecutionEventBus;
+}
+
+export interface AgentTaskOutcome {
+  state?: TaskState; // defaults to 'completed'
+  message: string | Part[] | Message;
+}
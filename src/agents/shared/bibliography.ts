@@ -0,0 +1,223 @@
+import type { SourceCitation } from './interfaces.js';
+
+// Reference list formatting for SourceCitations in APA (7th), MLA (9th) and Chicago (notes-bibliography) styles
+
+export type CitationStyle = 'apa' | 'mla' | 'chicago';
+
+export const CITATION_STYLES: CitationStyle[] = ['apa', 'mla', 'chicago'];
+
+/**
+ * An author's name: a person's family and given names, or the literal name of
+ * an organization
+ */
+export interface AuthorName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+const ORGANIZATION_WORDS = /\b(agency|association|board|bureau|center|centre|commission|committee|council|department|foundation|group|inc|institute|ltd|ministry|office|organi[sz]ation|press|society|university)\b/i;
+
+/**
+ * Split a SourceCitation's `author` into names. Authors may be separated by
+ * `;`, or else by `and`, `&` or commas ("Jane Doe, John Smith"), and written
+ * as "Given Family" or "Family, Given". Organizations and single words are
+ * kept as literal names.
+ */
+export function parseAuthors(author: string | undefined): AuthorName[] {
+  if (!author?.trim()) {
+    return [];
+  }
+  const names = author.includes(';')
+    ? author.split(';')
+    : ORGANIZATION_WORDS.test(author) && !author.includes(',')
+      ? [author]
+      : author.split(/\s+(?:and|&)\s+/i).flatMap(splitCommaList);
+  return names
+    .map(name => name.trim().replace(/\.$/, ''))
+    .filter(name => name.length > 0)
+    .map(parseAuthorName);
+}
+
+/**
+ * Parse one author's name, "Given Family" or "Family, Given"
+ */
+export function parseAuthorName(name: string): AuthorName {
+  if (ORGANIZATION_WORDS.test(name)) {
+    return { literal: name };
+  }
+  const comma = name.indexOf(',');
+  if (comma > 0) {
+    return { family: name.slice(0, comma).trim(), given: name.slice(comma + 1).trim() || undefined };
+  }
+  const words = name.split(/\s+/);
+  return words.length > 1 ? { family: words[words.length - 1], given: words.slice(0, -1).join(' ') } : { literal: name };
+}
+
+/**
+ * Tell a list of names ("Jane Doe, John Smith", "Doe, J., Smith, J.") from
+ * a single inverted name ("van der Berg, Hans")
+ */
+function splitCommaList(names: string): string[] {
+  const parts = names.split(/\s*,\s*/).filter(part => part.length > 0);
+  if (parts.length < 2 || ORGANIZATION_WORDS.test(names)) {
+    return [names];
+  }
+  if (parts.every(part => part.includes(' '))) {
+    return parts;
+  }
+  if (parts.length > 2 && parts.length % 2 === 0 && parts.every(part => !part.includes(' '))) {
+    return parts.flatMap((part, index) => index % 2 === 0 ? [`${part}, ${parts[index + 1]}`] : []);
+  }
+  return parts.length > 2 ? parts : [names];
+}
+
+/**
+ * Parse a date that may have been serialized to a string
+ */
+export function toDate(value: Date | string | undefined): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * The site a source was published on, from its URL ("www." removed)
+ */
+export function siteName(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format a source as a reference list entry. Titles of standalone works are
+ * italicized with Markdown `*…*`.
+ */
+export function formatReference(source: SourceCitation, style: CitationStyle): string {
+  switch (style) {
+    case 'apa':
+      return formatApa(source);
+    case 'mla':
+      return formatMla(source);
+    case 'chicago':
+      return formatChicago(source);
+  }
+}
+
+/**
+ * Format sources as a reference list, in the order given
+ */
+export function formatBibliography(sources: SourceCitation[], style: CitationStyle): string[] {
+  return sources.map(source => formatReference(source, style));
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MLA_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+/**
+ * APA: Family, G. M., & Family, G. (2024, March 5). *Title*. Site. URL
+ */
+function formatApa(source: SourceCitation): string {
+  const names = parseAuthors(source.author).map(name =>
+    name.literal ?? [name.family, initials(name.given)].filter(Boolean).join(', '));
+  const authors = names.length > 20
+    ? `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`
+    : joinNames(names, ', ', names.length > 1 ? ', & ' : ' & ');
+  const published = toDate(source.publicationDate);
+  const date = published
+    ? `(${published.getUTCFullYear()}, ${MONTHS[published.getUTCMonth()]} ${published.getUTCDate()})`
+    : '(n.d.)';
+  const site = siteName(source.url);
+  const siteSegment = site && site !== authors ? ` ${site}.` : '';
+
+  const title = `*${stripPeriod(source.title)}*${/[?!]$/.test(source.title.trim()) ? '' : '.'}`;
+
+  return authors
+    ? `${withPeriod(authors)} ${date}. ${title}${siteSegment} ${source.url}`
+    : `${title} ${date}.${siteSegment} ${source.url}`;
+}
+
+/**
+ * MLA: Family, Given, and Given Family. "Title." *Site*, 5 Mar. 2024, url. Accessed 6 Mar. 2024.
+ */
+function formatMla(source: SourceCitation): string {
+  const names = parseAuthors(source.author);
+  const formatted = names.map((name, index) => name.literal ?? (index === 0
+    ? [name.family, name.given].filter(Boolean).join(', ')
+    : [name.given, name.family].filter(Boolean).join(' ')));
+  const authors = formatted.length > 2 ? `${formatted[0]}, et al` : joinNames(formatted, ', ', ', and ');
+  const published = toDate(source.publicationDate);
+  const accessed = toDate(source.accessedAt);
+  const site = siteName(source.url);
+  const container = [site ? `*${site}*` : undefined, published ? mlaDate(published) : undefined, source.url.replace(/^https?:\/\//, '')]
+    .filter(Boolean)
+    .join(', ');
+
+  return [
+    authors ? withPeriod(authors) : undefined,
+    `"${withPeriod(source.title)}"`,
+    withPeriod(container),
+    accessed ? `Accessed ${mlaDate(accessed)}.` : undefined,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Chicago: Family, Given, and Given Family. "Title." Site. March 5, 2024. URL.
+ * Sources without a publication date give the access date instead.
+ */
+function formatChicago(source: SourceCitation): string {
+  const names = parseAuthors(source.author);
+  const formatted = names.map((name, index) => name.literal ?? (index === 0
+    ? [name.family, name.given].filter(Boolean).join(', ')
+    : [name.given, name.family].filter(Boolean).join(' ')));
+  const authors = formatted.length > 10
+    ? `${formatted.slice(0, 7).join(', ')}, et al`
+    : joinNames(formatted, ', ', ', and ');
+  const published = toDate(source.publicationDate);
+  const accessed = toDate(source.accessedAt);
+  const site = siteName(source.url);
+
+  return [
+    authors ? withPeriod(authors) : undefined,
+    `"${withPeriod(source.title)}"`,
+    site ? `${site}.` : undefined,
+    published ? `${chicagoDate(published)}.` : accessed ? `Accessed ${chicagoDate(accessed)}.` : undefined,
+    `${source.url}.`,
+  ].filter(Boolean).join(' ');
+}
+
+function initials(given: string | undefined): string | undefined {
+  return given
+    ?.split(/[\s.]+/)
+    .filter(part => part.length > 0)
+    .map(part => part.split('-').map(piece => `${piece.charAt(0).toUpperCase()}.`).join('-'))
+    .join(' ');
+}
+
+// Join names as "A, B and C", with its own separator before the last name
+function joinNames(names: string[], separator: string, lastSeparator: string): string {
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(separator)}${lastSeparator}${names[names.length - 1]}`;
+}
+
+function stripPeriod(text: string): string {
+  return text.trim().replace(/\.$/, '');
+}
+
+// End with a full stop unless the text already ends with punctuation
+function withPeriod(text: string): string {
+  const trimmed = text.trim();
+  return /[.?!]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+function mlaDate(date: Date): string {
+  return `${date.getUTCDate()} ${MLA_MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+function chicagoDate(date: Date): string {
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
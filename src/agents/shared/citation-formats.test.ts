@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { SourceCitation } from './interfaces.js';
+import { CITATION_FORMATS, CitationFormatError, detectCitationFormat, exportCitations, importCitations, type CitationFormat } from './citation-formats.js';
+
+const sources: SourceCitation[] = [
+  {
+    url: 'https://doi.org/10.1038/s41586-023-00001-x',
+    title: 'Attention Is {Not} All You Need: 50% & More',
+    author: 'Doe, Jane; van der Berg, Hans; World Health Organization',
+    publicationDate: new Date('2023-03-05T00:00:00Z'),
+    credibilityScore: 0.9,
+    type: 'academic',
+    accessedAt: new Date('2026-01-10T00:00:00Z'),
+    venue: 'Nature',
+    doi: '10.1038/s41586-023-00001-x',
+  },
+  {
+    url: 'https://arxiv.org/abs/2401.01234v2',
+    title: 'A Preprint on Solar Forecasting',
+    author: 'Smith, John',
+    publicationDate: new Date('2024-01-01T00:00:00Z'),
+    credibilityScore: 0.7,
+    type: 'academic',
+    accessedAt: new Date('2026-01-10T00:00:00Z'),
+    venue: 'arXiv',
+    arxivId: '2401.01234v2',
+  },
+  {
+    url: 'https://example.com/news/energy',
+    title: 'Energy Prices Fall',
+    credibilityScore: 0.6,
+    type: 'news',
+    accessedAt: new Date('2026-01-11T00:00:00Z'),
+  },
+];
+
+describe('citation formats', () => {
+  it.each(Object.keys(CITATION_FORMATS) as CitationFormat[])('round-trips sources through %s', format => {
+    const exported = exportCitations(sources, format);
+
+    expect(detectCitationFormat(exported)).toBe(format);
+    expect(importCitations(exported)).toEqual({ format, sources, skipped: [] });
+  });
+
+  it('skips entries without a title or a link', () => {
+    const ris = 'TY  - ELEC\nTI  - No link\nER  - \n\nTY  - ELEC\nUR  - https://example.com/untitled\nER  - \n';
+
+    const imported = importCitations(ris, 'ris');
+
+    expect(imported.sources).toEqual([]);
+    expect(imported.skipped).toHaveLength(2);
+    expect(imported.skipped[0]).toContain('no URL, DOI or arXiv ID');
+    expect(imported.skipped[1]).toContain('no title');
+  });
+
+  it('links entries by DOI or arXiv ID when they have no URL', () => {
+    const bibtex = '@article{doe2023, title = {Linked by DOI}, doi = {10.1000/xyz}}\n@misc{smith2024, title = {Linked by arXiv}, eprint = {2401.00001}, archiveprefix = {arXiv}}';
+
+    expect(importCitations(bibtex).sources.map(source => source.url)).toEqual([
+      'https://doi.org/10.1000/xyz',
+      'https://arxiv.org/abs/2401.00001',
+    ]);
+  });
+
+  it('rejects text in no known format', () => {
+    expect(() => importCitations('just some notes')).toThrow(CitationFormatError);
+  });
+});
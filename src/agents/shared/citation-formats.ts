@@ -0,0 +1,563 @@
+import type { SourceCitation } from './interfaces.js';
+import { parseAuthorName, parseAuthors, toDate, type AuthorName } from './bibliography.js';
+
+// Export and import of SourceCitations as BibTeX, RIS and CSL-JSON, the formats reference managers such as Zotero read
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const CITATION_FORMATS: Record<CitationFormat, { mimeType: string; extension: string }> = {
+  'bibtex': { mimeType: 'application/x-bibtex', extension: 'bib' },
+  'ris': { mimeType: 'application/x-research-info-systems', extension: 'ris' },
+  'csl-json': { mimeType: 'application/vnd.citationstyles.csl+json', extension: 'json' },
+};
+
+/**
+ * Thrown when citations cannot be imported: the format is not recognized or
+ * the document cannot be parsed
+ */
+export class CitationFormatError extends Error {
+  constructor(message: string, readonly format?: CitationFormat) {
+    super(message);
+    this.name = 'CitationFormatError';
+  }
+}
+
+/**
+ * Write sources in a citation format. Fields without a counterpart in the
+ * format (credibility score, source type, arXiv ID where needed) go into the
+ * entry's note, from which `importCitations` restores them.
+ */
+export function exportCitations(sources: SourceCitation[], format: CitationFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return toBibtex(sources);
+    case 'ris':
+      return toRis(sources);
+    case 'csl-json':
+      return JSON.stringify(toCslJson(sources), null, 2) + '\n';
+  }
+}
+
+/**
+ * Read sources from a BibTeX, RIS or CSL-JSON document; without a format it
+ * is detected from the content. Entries without a title or a link (URL, DOI
+ * or arXiv ID) are skipped.
+ */
+export function importCitations(text: string, format: CitationFormat | undefined = detectCitationFormat(text)): CitationImport {
+  if (!format) {
+    throw new CitationFormatError('Unrecognized citation format; expected BibTeX, RIS or CSL-JSON');
+  }
+  const entries = format === 'bibtex' ? parseBibtex(text) : format === 'ris' ? parseRis(text) : parseCslJson(text);
+  const sources: SourceCitation[] = [];
+  const skipped: string[] = [];
+  for (const entry of entries) {
+    const url = entry.url ?? (entry.doi ? `https://doi.org/${entry.doi}` : entry.arxivId ? `https://arxiv.org/abs/${entry.arxivId}` : undefined);
+    if (!entry.title || !url) {
+      skipped.push(`${entry.id}: ${entry.title ? 'no URL, DOI or arXiv ID' : 'no title'}`);
+      continue;
+    }
+    const note = parseNote(entry.note);
+    sources.push({
+      url,
+      title: entry.title,
+      author: entry.authors.length > 0 ? entry.authors.map(formatAuthorName).join('; ') : undefined,
+      publicationDate: entry.issued,
+      credibilityScore: note.credibilityScore ?? 0.5,
+      type: note.type ?? entry.type,
+      accessedAt: entry.accessed ?? new Date(),
+      venue: entry.venue,
+      doi: entry.doi,
+      arxivId: entry.arxivId ?? note.arxivId,
+    });
+  }
+  return { format, sources, skipped };
+}
+
+export function detectCitationFormat(text: string): CitationFormat | undefined {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return 'csl-json';
+  }
+  if (/^TY {2}- /m.test(trimmed)) {
+    return 'ris';
+  }
+  if (/@\w+\s*[{(]/.test(trimmed)) {
+    return 'bibtex';
+  }
+  return undefined;
+}
+
+// --- Export ---
+
+const BIBTEX_TYPES: Record<SourceCitation['type'], { entryType: string; venueField: string }> = {
+  'academic': { entryType: 'article', venueField: 'journal' },
+  'news': { entryType: 'article', venueField: 'journal' },
+  'government': { entryType: 'techreport', venueField: 'institution' },
+  'web': { entryType: 'online', venueField: 'organization' },
+  'expert': { entryType: 'misc', venueField: 'howpublished' },
+};
+
+const RIS_TYPES: Record<SourceCitation['type'], string> = {
+  'academic': 'JOUR',
+  'news': 'NEWS',
+  'government': 'GOVDOC',
+  'web': 'ELEC',
+  'expert': 'GEN',
+};
+
+const CSL_TYPES: Record<SourceCitation['type'], string> = {
+  'academic': 'article-journal',
+  'news': 'article-newspaper',
+  'government': 'report',
+  'web': 'webpage',
+  'expert': 'document',
+};
+
+const MONTH_MACROS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toBibtex(sources: SourceCitation[]): string {
+  const keys = new Set<string>();
+  return sources.map(source => {
+    const { entryType, venueField } = BIBTEX_TYPES[source.type] ?? BIBTEX_TYPES.web;
+    // arXiv preprints without a journal are @misc entries with eprint fields
+    const preprint = Boolean(source.arxivId) && (!source.venue || source.venue === 'arXiv');
+    const published = toDate(source.publicationDate);
+    const accessed = toDate(source.accessedAt);
+    const authors = parseAuthors(source.author)
+      .map(name => name.literal ? `{${escapeBibtex(name.literal)}}` : escapeBibtex([name.family, name.given].filter(Boolean).join(', ')));
+
+    const fields: Array<[string, string | undefined]> = [
+      ['title', `{${escapeBibtex(source.title)}}`],
+      ['author', authors.length > 0 ? `{${authors.join(' and ')}}` : undefined],
+      [venueField, source.venue && !preprint ? `{${escapeBibtex(source.venue)}}` : undefined],
+      ['year', published ? `{${published.getUTCFullYear()}}` : undefined],
+      ['month', published ? MONTH_MACROS[published.getUTCMonth()] : undefined],
+      ['date', published ? `{${isoDate(published)}}` : undefined],
+      ['doi', source.doi ? `{${source.doi}}` : undefined],
+      ['eprint', source.arxivId ? `{${source.arxivId}}` : undefined],
+      ['archiveprefix', source.arxivId ? '{arXiv}' : undefined],
+      ['url', `{${source.url}}`],
+      ['urldate', accessed ? `{${isoDate(accessed)}}` : undefined],
+      ['note', `{${escapeBibtex(formatNote(source, false))}}`],
+    ];
+    return `@${preprint ? 'misc' : entryType}{${citationKey(source, keys)},\n${fields
+      .filter((field): field is [string, string] => field[1] !== undefined)
+      .map(([name, value]) => `  ${name} = ${value}`)
+      .join(',\n')}\n}\n`;
+  }).join('\n');
+}
+
+function toRis(sources: SourceCitation[]): string {
+  return sources.map(source => {
+    const published = toDate(source.publicationDate);
+    const accessed = toDate(source.accessedAt);
+    const lines: Array<[string, string | undefined]> = [
+      ['TY', RIS_TYPES[source.type] ?? 'GEN'],
+      ['TI', source.title],
+      ...parseAuthors(source.author).map((name): [string, string] => ['AU', name.literal ?? [name.family, name.given].filter(Boolean).join(', ')]),
+      ['T2', source.venue],
+      ['PY', published ? String(published.getUTCFullYear()) : undefined],
+      ['DA', published ? `${isoDate(published).replace(/-/g, '/')}/` : undefined],
+      ['DO', source.doi],
+      ['UR', source.url],
+      ['Y2', accessed ? `${isoDate(accessed).replace(/-/g, '/')}/` : undefined],
+      ['N1', formatNote(source, true).split('\n').join('; ')],
+      ['ER', ''],
+    ];
+    return lines
+      .filter((line): line is [string, string] => line[1] !== undefined)
+      .map(([tag, value]) => `${tag}  - ${value.replace(/\s+/g, ' ')}`)
+      .join('\n') + '\n';
+  }).join('\n');
+}
+
+function toCslJson(sources: SourceCitation[]): CslItem[] {
+  const keys = new Set<string>();
+  return sources.map(source => {
+    const published = toDate(source.publicationDate);
+    const accessed = toDate(source.accessedAt);
+    const authors = parseAuthors(source.author);
+    return {
+      'id': citationKey(source, keys),
+      'type': source.arxivId && (!source.venue || source.venue === 'arXiv') ? 'article' : CSL_TYPES[source.type] ?? 'webpage',
+      'title': source.title,
+      ...(authors.length > 0 ? { author: authors.map(name => name.literal ? { literal: name.literal } : { family: name.family, given: name.given }) } : {}),
+      ...(source.venue ? { 'container-title': source.venue } : {}),
+      ...(published ? { issued: { 'date-parts': [dateParts(published)] } } : {}),
+      ...(accessed ? { accessed: { 'date-parts': [dateParts(accessed)] } } : {}),
+      ...(source.doi ? { DOI: source.doi } : {}),
+      'URL': source.url,
+      'note': formatNote(source, true),
+    };
+  });
+}
+
+/**
+ * The note carrying what the formats have no field for, one `Label: value`
+ * per line as Zotero reads its Extra field
+ */
+function formatNote(source: SourceCitation, includeArxivId: boolean): string {
+  return [
+    includeArxivId && source.arxivId ? `arXiv: ${source.arxivId}` : undefined,
+    `Credibility score: ${source.credibilityScore.toFixed(2)}`,
+    `Source type: ${source.type}`,
+  ].filter(Boolean).join('\n');
+}
+
+// Keys like `smith2023solar`, suffixed a, b, ... when taken
+function citationKey(source: SourceCitation, keys: Set<string>): string {
+  const [firstAuthor] = parseAuthors(source.author);
+  const name = (firstAuthor?.family ?? firstAuthor?.literal?.split(/\s+/)[0] ?? 'anon').toLowerCase();
+  const titleWord = source.title.toLowerCase().split(/\s+/).find(word => word.replace(/[^a-z]/g, '').length > 3) ?? 'source';
+  const base = `${name}${toDate(source.publicationDate)?.getUTCFullYear() ?? ''}${titleWord}`
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]/g, '');
+  let key = base;
+  for (let suffix = 0; keys.has(key); suffix++) {
+    key = `${base}${String.fromCharCode(97 + (suffix % 26))}${suffix >= 26 ? Math.floor(suffix / 26) : ''}`;
+  }
+  keys.add(key);
+  return key;
+}
+
+function escapeBibtex(text: string): string {
+  return text.replace(/[\\{}&%$#_]/g, character => character === '\\' ? '\\textbackslash{}' : `\\${character}`);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function dateParts(date: Date): number[] {
+  return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+}
+
+// --- Import ---
+
+function parseBibtex(text: string): ImportedEntry[] {
+  const entries: ImportedEntry[] = [];
+  const entryStart = /@(\w+)\s*[{(]/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryStart.exec(text)) !== null) {
+    const entryType = match[1].toLowerCase();
+    const end = findClosingBrace(text, match.index + match[0].length - 1);
+    entryStart.lastIndex = end;
+    if (['comment', 'preamble', 'string'].includes(entryType)) {
+      continue;
+    }
+
+    const body = text.slice(match.index + match[0].length, end - 1);
+    const comma = body.indexOf(',');
+    const id = comma >= 0 ? body.slice(0, comma).trim() : body.trim();
+    const rawFields = parseBibtexFields(comma >= 0 ? body.slice(comma + 1) : '');
+    const fields = new Map(Array.from(rawFields, ([name, value]) => [name, unescapeBibtex(value)]));
+    const year = Number(fields.get('year'));
+    const month = MONTH_MACROS.indexOf(fields.get('month')?.slice(0, 3).toLowerCase() ?? '') + 1 || Number(fields.get('month')) || undefined;
+    const eprint = fields.get('archiveprefix')?.toLowerCase() === 'arxiv' || fields.get('eprinttype')?.toLowerCase() === 'arxiv'
+      ? fields.get('eprint')
+      : undefined;
+
+    entries.push({
+      id: id || `@${entryType}`,
+      title: fields.get('title'),
+      authors: splitBibtexNames(rawFields.get('author') ?? ''),
+      type: bibtexSourceType(entryType),
+      // Preprints are exported without a venue; arXiv is theirs
+      venue: ['journal', 'journaltitle', 'booktitle', 'institution', 'organization', 'publisher', 'howpublished']
+        .map(field => fields.get(field))
+        .find(value => value !== undefined) ?? (eprint ? 'arXiv' : undefined),
+      issued: parseDate(fields.get('date')) ?? (year ? new Date(Date.UTC(year, (month ?? 1) - 1, 1)) : undefined),
+      accessed: parseDate(fields.get('urldate')),
+      url: fields.get('url'),
+      doi: fields.get('doi'),
+      arxivId: eprint,
+      note: [fields.get('note'), fields.get('annote')].filter(Boolean).join('\n') || undefined,
+    });
+  }
+  return entries;
+}
+
+// Index just past the brace or parenthesis closing the one at `open`
+function findClosingBrace(text: string, open: number): number {
+  const closing = text[open] === '(' ? ')' : '}';
+  let depth = 0;
+  for (let index = open; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === text[open]) {
+      depth++;
+    } else if (text[index] === closing && --depth === 0) {
+      return index + 1;
+    }
+  }
+  throw new CitationFormatError(`Unterminated BibTeX entry at offset ${open}`, 'bibtex');
+}
+
+function parseBibtexFields(body: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  const fieldStart = /\s*([\w-]+)\s*=\s*/g;
+  let index = 0;
+  while (index < body.length) {
+    fieldStart.lastIndex = index;
+    const match = fieldStart.exec(body);
+    if (match?.index !== index) {
+      break;
+    }
+    index = match.index + match[0].length;
+
+    // A value is a {braced} or "quoted" string, a number or a macro, possibly joined with #
+    const parts: string[] = [];
+    while (index < body.length) {
+      if (body[index] === '{') {
+        const end = findClosingBrace(body, index);
+        parts.push(body.slice(index + 1, end - 1));
+        index = end;
+      } else if (body[index] === '"') {
+        let end = index + 1;
+        while (end < body.length && (body[end] !== '"' || body[end - 1] === '\\')) {
+          end++;
+        }
+        parts.push(body.slice(index + 1, end));
+        index = end + 1;
+      } else {
+        const word = /^[^\s,#}]+/.exec(body.slice(index))?.[0] ?? '';
+        parts.push(word);
+        index += word.length;
+      }
+      const separator = /^\s*#\s*/.exec(body.slice(index));
+      if (!separator) {
+        break;
+      }
+      index += separator[0].length;
+    }
+    fields.set(match[1].toLowerCase(), parts.join(''));
+    index += /^\s*,?/.exec(body.slice(index))![0].length;
+  }
+  return fields;
+}
+
+function unescapeBibtex(value: string): string {
+  return value
+    .replace(/\\textbackslash\{\}/g, '\0')
+    .replace(/(?<!\\)[{}]/g, '') // grouping braces
+    .replace(/\\([{}&%$#_])/g, '$1')
+    .replace(/\0/g, '\\')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Names in a BibTeX author field are separated by " and " outside braces; braced names are organizations
+function splitBibtexNames(authors: string): AuthorName[] {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < authors.length; index++) {
+    depth += authors[index] === '{' ? 1 : authors[index] === '}' ? -1 : 0;
+    const separator = depth === 0 ? /^\s+and\s+/i.exec(authors.slice(index)) : null;
+    if (separator) {
+      names.push(authors.slice(start, index));
+      index += separator[0].length - 1;
+      start = index + 1;
+    }
+  }
+  names.push(authors.slice(start));
+
+  return names
+    .map(name => name.trim())
+    .filter(name => name.length > 0 && name !== 'others')
+    .map(name => /^\{[^{}]*\}$/.test(name) ? { literal: unescapeBibtex(name) } : parseAuthorName(unescapeBibtex(name)));
+}
+
+function bibtexSourceType(entryType: string): SourceCitation['type'] {
+  if (['article', 'inproceedings', 'conference', 'incollection', 'book', 'inbook', 'phdthesis', 'mastersthesis', 'thesis', 'unpublished'].includes(entryType)) {
+    return 'academic';
+  }
+  if (['techreport', 'report'].includes(entryType)) {
+    return 'government';
+  }
+  return entryType === 'misc' ? 'expert' : 'web';
+}
+
+function parseRis(text: string): ImportedEntry[] {
+  const entries: ImportedEntry[] = [];
+  let tags: Array<[string, string]> = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/.exec(line);
+    if (!match) {
+      // Continuation of the previous tag's value
+      if (tags.length > 0 && line.trim().length > 0) {
+        tags[tags.length - 1][1] += ` ${line.trim()}`;
+      }
+      continue;
+    }
+    const [, tag, value = ''] = match;
+    if (tag === 'TY') {
+      tags = [];
+    }
+    if (tag === 'ER') {
+      entries.push(risEntry(tags, entries.length));
+      tags = [];
+      continue;
+    }
+    tags.push([tag, value.trim()]);
+  }
+  if (tags.length > 0) {
+    throw new CitationFormatError('RIS record without an ER tag', 'ris');
+  }
+  return entries;
+}
+
+function risEntry(tags: Array<[string, string]>, index: number): ImportedEntry {
+  const first = (...names: string[]) => names
+    .map(name => tags.find(([tag, value]) => tag === name && value.length > 0)?.[1])
+    .find(value => value !== undefined);
+  const all = (...names: string[]) => tags.filter(([tag, value]) => names.includes(tag) && value.length > 0).map(([, value]) => value);
+  const risType = first('TY') ?? 'GEN';
+  const doi = first('DO')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+  return {
+    id: first('ID') ?? `record ${index + 1}`,
+    title: first('TI', 'T1', 'CT'),
+    authors: all('AU', 'A1').map(parseAuthorName),
+    type: risSourceType(risType),
+    venue: first('T2', 'JO', 'JF', 'JA', 'BT', 'PB'),
+    issued: parseDate(first('DA', 'PY', 'Y1')),
+    accessed: parseDate(first('Y2')),
+    url: first('UR', 'L2'),
+    doi,
+    note: all('N1', 'M3').join('\n') || undefined,
+  };
+}
+
+function risSourceType(risType: string): SourceCitation['type'] {
+  if (['JOUR', 'JFULL', 'ABST', 'BOOK', 'CHAP', 'CONF', 'CPAPER', 'THES', 'SER', 'EJOUR', 'INPR', 'UNPB'].includes(risType)) {
+    return 'academic';
+  }
+  if (['NEWS', 'MGZN'].includes(risType)) {
+    return 'news';
+  }
+  if (['GOVDOC', 'RPRT', 'LEGAL', 'STAT', 'BILL', 'HEAR'].includes(risType)) {
+    return 'government';
+  }
+  if (['PCOMM', 'GEN'].includes(risType)) {
+    return 'expert';
+  }
+  return 'web';
+}
+
+function parseCslJson(text: string): ImportedEntry[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new CitationFormatError(`Invalid CSL-JSON: ${error instanceof Error ? error.message : String(error)}`, 'csl-json');
+  }
+  const items = Array.isArray(document) ? document : [document];
+  return items.map((item, index): ImportedEntry => {
+    if (typeof item !== 'object' || item === null) {
+      throw new CitationFormatError(`CSL-JSON item ${index + 1} is not an object`, 'csl-json');
+    }
+    const csl = item as Partial<CslItem>;
+    const nonEmpty = (value: unknown) => typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+    return {
+      id: nonEmpty(csl.id) ?? `item ${index + 1}`,
+      title: nonEmpty(csl.title),
+      authors: Array.isArray(csl.author)
+        ? csl.author.flatMap(name => name.literal || name.family ? [{ family: nonEmpty(name.family), given: nonEmpty(name.given), literal: nonEmpty(name.literal) }] : [])
+        : [],
+      type: cslSourceType(nonEmpty(csl.type) ?? ''),
+      venue: nonEmpty(csl['container-title']),
+      issued: parseCslDate(csl.issued),
+      accessed: parseCslDate(csl.accessed),
+      url: nonEmpty(csl.URL),
+      doi: nonEmpty(csl.DOI),
+      note: nonEmpty(csl.note),
+    };
+  });
+}
+
+function cslSourceType(cslType: string): SourceCitation['type'] {
+  if (['article', 'article-journal', 'paper-conference', 'book', 'chapter', 'thesis', 'manuscript', 'dataset'].includes(cslType)) {
+    return 'academic';
+  }
+  if (['article-newspaper', 'article-magazine', 'broadcast'].includes(cslType)) {
+    return 'news';
+  }
+  if (['report', 'legislation', 'bill', 'legal_case', 'regulation', 'treaty'].includes(cslType)) {
+    return 'government';
+  }
+  if (['interview', 'personal_communication', 'speech', 'document'].includes(cslType)) {
+    return 'expert';
+  }
+  return 'web';
+}
+
+function parseCslDate(date: CslDate | undefined): Date | undefined {
+  const [year, month, day] = date?.['date-parts']?.[0]?.map(Number) ?? [];
+  if (year) {
+    return new Date(Date.UTC(year, (month || 1) - 1, day || 1));
+  }
+  return parseDate(date?.raw ?? date?.literal);
+}
+
+// Dates as YYYY, YYYY-MM-DD or RIS's YYYY/MM/DD/other
+function parseDate(value: string | undefined): Date | undefined {
+  const match = /^(\d{4})(?:[-/](\d{1,2})?(?:[-/](\d{1,2}))?)?/.exec(value?.trim() ?? '');
+  if (!match) {
+    return toDate(value);
+  }
+  return new Date(Date.UTC(Number(match[1]), (Number(match[2]) || 1) - 1, Number(match[3]) || 1));
+}
+
+function parseNote(note: string | undefined): { credibilityScore?: number; type?: SourceCitation['type']; arxivId?: string } {
+  const credibility = Number(/credibility score:\s*([\d.]+)/i.exec(note ?? '')?.[1]);
+  const type = /source type:\s*(academic|news|web|government|expert)\b/i.exec(note ?? '')?.[1].toLowerCase();
+  return {
+    credibilityScore: credibility >= 0 && credibility <= 1 ? credibility : undefined,
+    type: type as SourceCitation['type'] | undefined,
+    arxivId: /\barxiv:\s*([\w./-]+)/i.exec(note ?? '')?.[1],
+  };
+}
+
+function formatAuthorName(name: AuthorName): string {
+  return name.literal ?? [name.family, name.given].filter(Boolean).join(', ');
+}
+
+export interface CitationImport {
+  format: CitationFormat;
+  sources: SourceCitation[];
+  skipped: string[]; // entries that could not be imported, with the reason
+}
+
+// An entry read from any of the formats, before it becomes a SourceCitation
+interface ImportedEntry {
+  id: string; // citation key or record number, for messages
+  title?: string;
+  authors: AuthorName[];
+  type: SourceCitation['type'];
+  venue?: string;
+  issued?: Date;
+  accessed?: Date;
+  url?: string;
+  doi?: string;
+  arxivId?: string;
+  note?: string;
+}
+
+interface CslDate {
+  'date-parts'?: Array<Array<number | string>>;
+  raw?: string;
+  literal?: string;
+}
+
+interface CslItem {
+  id: string;
+  type: string;
+  title: string;
+  author?: Array<{ family?: string; given?: string; literal?: string }>;
+  'container-title'?: string;
+  issued?: CslDate;
+  accessed?: CslDate;
+  DOI?: string;
+  URL: string;
+  note: string;
+}
@@ -0,0 +1,10 @@
+/**
+ * Invalid configuration, such as a missing environment variable or an unknown
+ * backend. Agents report it and exit at startup.
+ */
+export class ConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
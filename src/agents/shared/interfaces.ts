@@ -35,6 +35,9 @@ export interface SourceCitation {
   credibilityScore: number; // 0-1
   type: 'academic' | 'news' | 'web' | 'government' | 'expert';
   accessedAt: Date;
+  venue?: string; // journal, conference or publication the work appeared in
+  doi?: string;
+  arxivId?: string;
 }
 
 export interface ResearchPlan {
@@ -49,6 +52,7 @@ export interface ResearchPlan {
   qualityThresholds: QualityThreshold[];
   estimatedTimeline: string;
   version: string;
+  deadline?: Date; // from ResearchQuery.deadline; low-priority steps are skipped as it approaches
   createdAt: Date;
   updatedAt: Date;
 }
@@ -81,6 +85,36 @@ export interface ResearchStep {
   successCriteria: string;
   fallbackStrategies: string[];
   priority: number; // 1-5, 1 being highest
+  inputs?: StepInput[]; // outputs of earlier steps to pass in; defaults to every dependency's outputs relevant to the agent type, for agent types that read them
+}
+
+export type StepOutputKind = 'findings' | 'sources' | 'entities' | 'statistics';
+
+/**
+ * A reference to the outputs of a step this step depends on, directly or through other steps
+ */
+export interface StepInput {
+  stepId: string;
+  outputs?: StepOutputKind[]; // defaults to all
+}
+
+/**
+ * Outputs of a completed step, forwarded to a downstream step as `parameters.upstream`
+ */
+export interface UpstreamStepOutput {
+  stepId: string;
+  agentType?: string;
+  description: string;
+  findings?: ResearchFinding[]; // source indices refer to `sources`
+  sources?: SourceCitation[];
+  entities?: string[];
+  statistics?: ExtractedStatistic[];
+}
+
+export interface ExtractedStatistic {
+  value: string; // e.g. "42%" or "r = 0.65, p = 0.001"
+  context: string; // the sentence or test the value comes from
+  sourceUrl?: string;
 }
 
 export interface RiskFactor {
@@ -108,7 +142,7 @@ export interface QualityThreshold {
 export interface OrchestrationState {
   researchId: string;
   plan: ResearchPlan;
-  currentPhase: 'planning' | 'execution' | 'synthesis' | 'validation' | 'reporting';
+  currentPhase: 'planning' | 'execution' | 'synthesis' | 'validation' | 'reporting' | ResearchOutcome;
   activeSteps: ResearchStepExecution[];
   completedSteps: ResearchStepResult[];
   issues: OrchestrationIssue[];
@@ -130,6 +164,7 @@ export interface ResearchStepExecution {
   completedAt?: Date;
   progressUpdates: ProgressUpdate[];
   assignedAgent?: string;
+  taskId?: string; // A2A task the step was last sent as
   retryCount: number;
 }
 
@@ -163,6 +198,21 @@ export interface ProgressUpdate {
   estimatedTimeRemaining?: number; // minutes
 }
 
+// Progress the orchestrator publishes as a DataPart of its `working` status updates
+export interface ResearchProgressData {
+  type: 'research-progress';
+  researchId: string;
+  stepId: string;
+  stepStatus: string;
+  percentage: number; // 0-100
+  completedSteps: number;
+  totalSteps: number;
+  estimatedTimeRemaining: number; // minutes
+  confidence: number; // 0-1, mean quality of the settled steps
+  currentActivity: string;
+  atRiskOfDelay?: boolean; // only for research with a deadline
+}
+
 // A2A Protocol interfaces
 export interface AgentCard {
   name: string;
@@ -218,6 +268,7 @@ export interface TaskResponse {
 export type AgentType = 'planning' | 'orchestrator' | 'web-research' | 'academic-research' | 'news-research' | 'data-analysis';
 
 export type ResearchPhase = 'planning' | 'execution' | 'synthesis' | 'validation' | 'reporting';
+export type ResearchOutcome = 'completed' | 'failed' | 'cancelled'; // terminal phases of an orchestrated research
 
 export type DataSourceType = 'web' | 'academic' | 'news' | 'social' | 'government' | 'statistical';
 
@@ -260,10 +311,25 @@ export interface SynthesisResult {
     sourceTypes: Record<string, number>;
     topSources: Array<{source: string, contributionCount: number}>;
   };
+  attribution?: SynthesisAttribution; // set when the synthesis is citation-grounded
   generatedAt: Date;
   version: string;
 }
 
+// Per-sentence source attribution of a citation-grounded synthesis
+export interface SynthesisAttribution {
+  sentences: SentenceAttribution[];
+  supportedRate: number; // share of sentences supported by their cited sources, 0-1
+  removedSentences: number; // unsupported sentences left out of the synthesis
+}
+
+export interface SentenceAttribution {
+  sentence: string; // without its citation markers
+  sourceIndices: number[]; // indices into ResearchResult.sources; the marker [n] cites index n - 1
+  status: 'supported' | 'unsupported' | 'contradicted' | 'uncited';
+  rationale?: string;
+}
+
 // Orchestration-specific interfaces
 export interface OrchestrationDecision {
   researchId: string;
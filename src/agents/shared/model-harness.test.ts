@@ -0,0 +1,67 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { genkit, z } from 'genkit';
+import { genkitPlugin } from 'genkit/plugin';
+import { ModelFixtureNotFoundError, withModelHarness } from './model-harness.js';
+
+// Stands in for the live model provider when recording
+const liveModelPlugin = (answer: string) => genkitPlugin('live', async ai => {
+  ai.defineModel({ name: 'live/model' }, async () => ({
+    message: { role: 'model', content: [{ text: answer }] },
+    finishReason: 'stop',
+  }));
+});
+
+const summaryInput = z.object({ topic: z.string(), now: z.string() });
+
+describe('withModelHarness', () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'model-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('answers with the first fake rule that matches the prompt', async () => {
+    const ai = genkit(withModelHarness('test-agent', {}, {
+      mode: 'fake',
+      fixturesDir,
+      script: [
+        { match: 'weather', text: 'Sunny all week' },
+        { match: 'verdict', json: { verdict: 'supported' } },
+      ],
+    }));
+    const weather = ai.definePrompt({ name: 'weather', input: { schema: z.object({ city: z.string() }) }, prompt: 'What is the weather in {{city}}?' });
+    const verdict = ai.definePrompt({
+      name: 'verdict',
+      output: { schema: z.object({ verdict: z.string() }) },
+      prompt: 'Give your verdict',
+    });
+    const unmatched = ai.definePrompt({ name: 'unmatched', prompt: 'Something else' });
+
+    expect((await weather({ city: 'Oslo' })).text).toBe('Sunny all week');
+    expect((await verdict()).output).toEqual({ verdict: 'supported' });
+    await expect(unmatched()).rejects.toThrow(/No fake model rule matches/);
+  });
+
+  it('replays the response recorded for a prompt rendered at another time', async () => {
+    const recorder = genkit(withModelHarness('test-agent', { plugins: [liveModelPlugin('Recorded summary')], model: 'live/model' }, {
+      mode: 'record',
+      fixturesDir,
+      script: [],
+    }));
+    const record = recorder.definePrompt({ name: 'summary', input: { schema: summaryInput }, prompt: 'Summarize {{topic}} as of {{now}}' });
+    expect((await record({ topic: 'solar power', now: '2026-01-01T10:00:00.000Z' })).text).toBe('Recorded summary');
+    expect(await readdir(join(fixturesDir, 'test-agent'))).toHaveLength(1);
+
+    const replayer = genkit(withModelHarness('test-agent', { model: 'live/model' }, { mode: 'replay', fixturesDir, script: [] }));
+    const replay = replayer.definePrompt({ name: 'summary', input: { schema: summaryInput }, prompt: 'Summarize {{topic}} as of {{now}}' });
+    expect((await replay({ topic: 'solar power', now: '2026-03-05T08:30:12.345Z' })).text).toBe('Recorded summary');
+    await expect(replay({ topic: 'wind power', now: '2026-03-05T08:30:12.345Z' })).rejects.toThrow(ModelFixtureNotFoundError);
+  });
+});
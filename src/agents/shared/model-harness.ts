@@ -0,0 +1,232 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { modelRef } from 'genkit';
+import type {
+  GenerateRequest,
+  GenerateResponseData,
+  GenkitOptions,
+  ModelReference,
+} from 'genkit';
+import { genkitPlugin } from 'genkit/plugin';
+import type { z } from 'zod';
+
+// Record/replay and scripted fake models behind each agent's Genkit instance, for running agents offline
+
+export type ModelProviderMode = 'live' | 'record' | 'replay' | 'fake';
+
+/**
+ * A scripted fake model response. The first rule whose pattern matches the
+ * rendered prompt text answers the request.
+ */
+export interface FakeModelRule {
+  match?: string; // regular expression, case-insensitive; omitted matches every prompt
+  text?: string;
+  json?: unknown; // for prompts with structured output
+}
+
+export interface ModelHarnessOptions {
+  mode: ModelProviderMode;
+  fixturesDir: string;
+  script: FakeModelRule[];
+}
+
+/**
+ * Thrown in replay mode when no response was recorded for a rendered prompt
+ */
+export class ModelFixtureNotFoundError extends Error {
+  constructor(agentName: string, path: string) {
+    super(`No recorded model response for this ${agentName} prompt (expected ${path}); record it with MODEL_PROVIDER=record`);
+    this.name = 'ModelFixtureNotFoundError';
+  }
+}
+
+/**
+ * Read the model harness configuration from the environment:
+ *
+ * - `MODEL_PROVIDER`: `live` (default), `record` (live calls saved as fixtures), `replay` (fixtures only) or `fake` (scripted responses)
+ * - `MODEL_FIXTURES_DIR`: fixture directory for `record` and `replay` (default `fixtures/models`)
+ * - `MODEL_FAKE_SCRIPT`: JSON file with an array of {@link FakeModelRule} for `fake`
+ */
+export function modelHarnessOptionsFromEnv(): ModelHarnessOptions {
+  const mode = process.env.MODEL_PROVIDER ?? 'live';
+  if (!['live', 'record', 'replay', 'fake'].includes(mode)) {
+    throw new Error(`Unknown MODEL_PROVIDER "${mode}" (expected "live", "record", "replay" or "fake")`);
+  }
+
+  const scriptPath = process.env.MODEL_FAKE_SCRIPT;
+  return {
+    mode: mode as ModelProviderMode,
+    fixturesDir: process.env.MODEL_FIXTURES_DIR ?? join('fixtures', 'models'),
+    script: scriptPath ? JSON.parse(readFileSync(scriptPath, 'utf8')) as FakeModelRule[] : [],
+  };
+}
+
+/**
+ * Whether model calls are answered without contacting the model provider, so
+ * its API key is not needed
+ */
+export function isOfflineModelMode(options: ModelHarnessOptions = modelHarnessOptionsFromEnv()): boolean {
+  return options.mode === 'replay' || options.mode === 'fake';
+}
+
+/**
+ * Wrap the options passed to `genkit()` so the default model goes through the
+ * harness. In `live` mode the options are returned unchanged.
+ */
+export function withModelHarness<T extends GenkitOptions>(
+  agentName: string,
+  options: T,
+  harness: ModelHarnessOptions = modelHarnessOptionsFromEnv()
+): T {
+  if (harness.mode === 'live') {
+    return options;
+  }
+
+  const liveModel = toModelReference(options.model);
+  const harnessModelName = `harness/${agentName}`;
+
+  const plugin = genkitPlugin('harness', async (ai) => {
+    ai.defineModel(
+      {
+        apiVersion: 'v2',
+        name: harnessModelName,
+        label: `${harness.mode} harness for ${liveModel?.name ?? 'fake model'}`,
+        supports: { multiturn: true, tools: true, systemRole: true, media: true, output: ['text', 'json'] },
+      },
+      async (request, { streamingRequested, sendChunk }) => {
+        let response: GenerateResponseData;
+
+        switch (harness.mode) {
+          case 'fake':
+            response = fakeResponse(harness.script, request);
+            break;
+
+          case 'replay':
+            response = await replayResponse(harness.fixturesDir, agentName, request);
+            break;
+
+          default: {
+            if (!liveModel) {
+              throw new Error(`${agentName} has no default model to record from`);
+            }
+            const model = await ai.registry.lookupAction(`/model/${liveModel.name}`);
+            response = await model(request, { onChunk: streamingRequested ? sendChunk : undefined }) as GenerateResponseData;
+            await recordResponse(harness.fixturesDir, agentName, liveModel.name, request, response);
+            // Chunks were already streamed by the live model
+            return response;
+          }
+        }
+
+        if (streamingRequested && response.message) {
+          sendChunk({ index: 0, role: response.message.role, content: response.message.content });
+        }
+        return response;
+      }
+    );
+  });
+
+  console.log(`[${agentName}] Model calls use the ${harness.mode} model harness`);
+  return {
+    ...options,
+    // Offline modes never call the live model, and its plugin may refuse to load without an API key
+    plugins: isOfflineModelMode(harness) ? [plugin] : [...(options.plugins ?? []), plugin],
+    // Keep the live model's config so recorded requests match live runs; fixture keys leave config out
+    model: modelRef({ name: harnessModelName, config: liveModel?.config }),
+  };
+}
+
+function toModelReference(model: GenkitOptions['model']): ModelReference<z.ZodTypeAny> | undefined {
+  if (!model) {
+    return undefined;
+  }
+  if (typeof model === 'string') {
+    return modelRef({ name: model });
+  }
+  if ('__action' in model) {
+    return modelRef({ name: model.__action.name });
+  }
+  return model;
+}
+
+// ISO 8601 date-times, such as the `now` many prompts are rendered with
+const TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g;
+
+/**
+ * Fixture file for a rendered prompt: a hash of the messages, tools and output
+ * schema. Model config is left out so sampling tweaks do not invalidate
+ * recordings, and timestamps are masked so a prompt replays on later runs.
+ */
+function fixturePath(fixturesDir: string, agentName: string, request: GenerateRequest): string {
+  const rendered = {
+    messages: request.messages,
+    tools: (request.tools ?? []).map(tool => ({ name: tool.name, inputSchema: tool.inputSchema })),
+    output: request.output,
+    docs: request.docs,
+  };
+  const hash = createHash('sha256').update(JSON.stringify(rendered).replace(TIMESTAMP, '<timestamp>')).digest('hex').slice(0, 16);
+  return join(fixturesDir, agentName, `${hash}.json`);
+}
+
+async function replayResponse(fixturesDir: string, agentName: string, request: GenerateRequest): Promise<GenerateResponseData> {
+  const path = fixturePath(fixturesDir, agentName, request);
+  try {
+    const fixture = JSON.parse(await readFile(path, 'utf8')) as ModelFixture;
+    return fixture.response;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ModelFixtureNotFoundError(agentName, path);
+    }
+    throw error;
+  }
+}
+
+async function recordResponse(
+  fixturesDir: string,
+  agentName: string,
+  model: string,
+  request: GenerateRequest,
+  response: GenerateResponseData
+): Promise<void> {
+  const path = fixturePath(fixturesDir, agentName, request);
+  const fixture: ModelFixture = {
+    agent: agentName,
+    model,
+    recordedAt: new Date().toISOString(),
+    prompt: renderPromptText(request),
+    response,
+  };
+  await mkdir(join(fixturesDir, agentName), { recursive: true });
+  await writeFile(`${path}.tmp`, JSON.stringify(fixture, null, 2), 'utf8');
+  await rename(`${path}.tmp`, path);
+}
+
+function fakeResponse(script: FakeModelRule[], request: GenerateRequest): GenerateResponseData {
+  const prompt = renderPromptText(request);
+  const rule = script.find(candidate => !candidate.match || new RegExp(candidate.match, 'i').test(prompt));
+  if (!rule) {
+    throw new Error(`No fake model rule matches the prompt: ${prompt.slice(0, 200)}`);
+  }
+
+  const text = rule.json !== undefined ? JSON.stringify(rule.json) : rule.text ?? '';
+  return {
+    message: { role: 'model', content: [{ text }] },
+    finishReason: 'stop',
+  };
+}
+
+// Text of all messages, used for fake-model matching and to make fixtures readable
+function renderPromptText(request: GenerateRequest): string {
+  return request.messages
+    .map(message => `${message.role}: ${message.content.map(part => part.text ?? '').join('')}`)
+    .join('\n');
+}
+
+interface ModelFixture {
+  agent: string;
+  model: string;
+  recordedAt: string;
+  prompt: string;
+  response: GenerateResponseData;
+}
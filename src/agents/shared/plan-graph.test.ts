@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { ResearchStep } from './interfaces.js';
+import { PlanGraph } from './plan-graph.js';
+
+const step = (id: string, dependencies: string[] = [], estimatedDuration = 10): ResearchStep => ({
+  id,
+  description: `Step ${id}`,
+  agentType: 'web-research',
+  dependencies,
+  estimatedDuration,
+  successCriteria: 'done',
+  fallbackStrategies: [],
+  priority: 3,
+});
+
+describe('PlanGraph.validate', () => {
+  it('accepts a plan whose steps form a DAG', () => {
+    const validation = new PlanGraph([step('a'), step('b', ['a']), step('c', ['a']), step('d', ['b', 'c'])]).validate();
+    expect(validation).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('reports duplicate steps and unknown dependencies', () => {
+    const validation = new PlanGraph([
+      step('a'),
+      step('a'),
+      step('b', ['a', 'missing']),
+    ]).validate();
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors.map(error => [error.kind, error.stepIds])).toEqual([
+      ['duplicate-step', ['a']],
+      ['missing-dependency', ['b']],
+    ]);
+  });
+
+  it('reports cycles', () => {
+    const validation = new PlanGraph([step('a', ['c']), step('b', ['a']), step('c', ['b']), step('d', ['c'])]).validate();
+
+    const cycles = validation.errors.filter(error => error.kind === 'cycle');
+    expect(cycles).toHaveLength(1);
+    expect([...cycles[0].stepIds].sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('warns about steps connected to no other step', () => {
+    const validation = new PlanGraph([step('a'), step('b', ['a']), step('lonely')]).validate();
+    expect(validation.valid).toBe(true);
+    expect(validation.warnings.map(warning => warning.stepIds)).toEqual([['lonely']]);
+  });
+});
+
+describe('PlanGraph.schedule', () => {
+  // a (10) -> b (30) -> d (5), a -> c (10) -> d
+  const graph = new PlanGraph([step('a', [], 10), step('b', ['a'], 30), step('c', ['a'], 10), step('d', ['b', 'c'], 5)]);
+
+  it('finds the critical path and the total duration', () => {
+    const schedule = graph.schedule();
+    expect(schedule.totalDuration).toBe(45);
+    expect(graph.criticalPath().map(critical => critical.id)).toEqual(['a', 'b', 'd']);
+  });
+
+  it('gives off-critical steps their slack', () => {
+    expect(graph.schedule().timings.get('c')).toMatchObject({ earliestStart: 10, latestStart: 30, slack: 20, critical: false });
+    expect(graph.getSlack('b')).toBe(0);
+    expect(graph.isCritical('c')).toBe(false);
+    expect(graph.getSlack('unknown')).toBe(Infinity);
+  });
+
+  it('finds the steps that depend on a step', () => {
+    expect(graph.getDependents('a').sort()).toEqual(['b', 'c']);
+    expect(graph.getDescendants('b')).toEqual(['d']);
+  });
+});
@@ -0,0 +1,320 @@
+import type { ResearchStep } from './interfaces.js';
+
+// Dependency graph of a research plan's steps: validation and critical-path scheduling
+
+export interface PlanGraphIssue {
+  kind: 'duplicate-step' | 'missing-dependency' | 'invalid-input' | 'cycle' | 'orphan-step';
+  stepIds: string[];
+  message: string;
+}
+
+export interface PlanValidation {
+  valid: boolean;
+  errors: PlanGraphIssue[]; // the plan cannot run to completion
+  warnings: PlanGraphIssue[];
+}
+
+/**
+ * Critical path method timings for a step, in minutes from the start of the plan
+ */
+export interface StepTiming {
+  stepId: string;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number; // how long the step can slip without delaying the plan
+  critical: boolean;
+}
+
+export interface PlanSchedule {
+  timings: Map<string, StepTiming>;
+  totalDuration: number; // minutes, with unlimited parallelism
+  criticalPath: ResearchStep[];
+}
+
+/**
+ * Thrown when a research plan's dependency graph cannot be executed
+ */
+export class PlanValidationError extends Error {
+  constructor(readonly issues: PlanGraphIssue[]) {
+    super(`Research plan is invalid:\n${issues.map(issue => `  - ${issue.message}`).join('\n')}`);
+    this.name = 'PlanValidationError';
+  }
+}
+
+/**
+ * Directed graph of research steps, with edges from each dependency to the steps that need it
+ */
+export class PlanGraph {
+  private steps: Map<string, ResearchStep> = new Map();
+  private dependents: Map<string, string[]> = new Map();
+  private duplicateIds: string[] = [];
+  private cachedSchedule?: PlanSchedule;
+
+  constructor(steps: ResearchStep[]) {
+    for (const step of steps) {
+      if (this.steps.has(step.id)) {
+        this.duplicateIds.push(step.id);
+        continue;
+      }
+      this.steps.set(step.id, step);
+      this.dependents.set(step.id, []);
+    }
+
+    for (const step of this.steps.values()) {
+      for (const dependencyId of new Set(step.dependencies)) {
+        this.dependents.get(dependencyId)?.push(step.id);
+      }
+    }
+  }
+
+  /**
+   * Check for duplicate step IDs, dependencies on unknown steps, inputs taken
+   * from steps that do not run first, and cycles, and warn about steps that are
+   * connected to no other step
+   */
+  validate(): PlanValidation {
+    const errors: PlanGraphIssue[] = [];
+    const warnings: PlanGraphIssue[] = [];
+
+    for (const stepId of new Set(this.duplicateIds)) {
+      errors.push({ kind: 'duplicate-step', stepIds: [stepId], message: `Step ID ${stepId} is used more than once` });
+    }
+
+    for (const step of this.steps.values()) {
+      const missing = step.dependencies.filter(dependencyId => !this.steps.has(dependencyId));
+      if (missing.length > 0) {
+        errors.push({
+          kind: 'missing-dependency',
+          stepIds: [step.id],
+          message: `Step ${step.id} depends on unknown steps: ${missing.join(', ')}`,
+        });
+      }
+    }
+
+    for (const step of this.steps.values()) {
+      const ancestors = new Set(this.getAncestors(step.id));
+      const invalid = (step.inputs ?? []).map(input => input.stepId).filter(stepId => !ancestors.has(stepId));
+      if (invalid.length > 0) {
+        errors.push({
+          kind: 'invalid-input',
+          stepIds: [step.id],
+          message: `Step ${step.id} takes inputs from steps it does not depend on: ${invalid.join(', ')}`,
+        });
+      }
+    }
+
+    for (const cycle of this.findCycles()) {
+      errors.push({
+        kind: 'cycle',
+        stepIds: cycle,
+        message: `Steps depend on each other in a cycle: ${[...cycle, cycle[0]].join(' -> ')}`,
+      });
+    }
+
+    if (this.steps.size > 1) {
+      for (const step of this.steps.values()) {
+        if (step.dependencies.length === 0 && this.getDependents(step.id).length === 0) {
+          warnings.push({
+            kind: 'orphan-step',
+            stepIds: [step.id],
+            message: `Step ${step.id} neither depends on nor is needed by any other step`,
+          });
+        }
+      }
+    }
+
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Steps that directly depend on a step
+   */
+  getDependents(stepId: string): string[] {
+    return this.dependents.get(stepId) ?? [];
+  }
+
+  /**
+   * Steps a step depends on directly or through other steps
+   */
+  getAncestors(stepId: string): string[] {
+    const ancestors = new Set<string>();
+    const pending = [...(this.steps.get(stepId)?.dependencies ?? [])];
+    while (pending.length > 0) {
+      const next = pending.pop()!;
+      if (!ancestors.has(next) && next !== stepId && this.steps.has(next)) {
+        ancestors.add(next);
+        pending.push(...this.steps.get(next)!.dependencies);
+      }
+    }
+    return Array.from(ancestors);
+  }
+
+  /**
+   * Steps that depend on a step directly or through other steps
+   */
+  getDescendants(stepId: string): string[] {
+    const descendants = new Set<string>();
+    const pending = [...this.getDependents(stepId)];
+    while (pending.length > 0) {
+      const next = pending.pop()!;
+      if (!descendants.has(next) && next !== stepId) {
+        descendants.add(next);
+        pending.push(...this.getDependents(next));
+      }
+    }
+    return Array.from(descendants);
+  }
+
+  /**
+   * Earliest and latest start times of every step from its dependencies and
+   * `estimatedDuration`, and the critical path: the chain of zero-slack steps
+   * that determines the plan's total duration. Dependencies on unknown steps are
+   * ignored and steps on a cycle are left out.
+   */
+  schedule(): PlanSchedule {
+    if (this.cachedSchedule) {
+      return this.cachedSchedule;
+    }
+
+    const order = this.topologicalOrder();
+    const timings = new Map<string, StepTiming>();
+
+    // Forward pass: a step starts once its last dependency finishes
+    for (const step of order) {
+      const earliestStart = Math.max(0, ...this.knownDependencies(step).map(id => timings.get(id)!.earliestFinish));
+      timings.set(step.id, {
+        stepId: step.id,
+        earliestStart,
+        earliestFinish: earliestStart + this.duration(step),
+        latestStart: 0,
+        latestFinish: 0,
+        slack: 0,
+        critical: false,
+      });
+    }
+    const totalDuration = Math.max(0, ...Array.from(timings.values()).map(timing => timing.earliestFinish));
+
+    // Backward pass: a step must finish before its first dependent has to start
+    for (const step of [...order].reverse()) {
+      const timing = timings.get(step.id)!;
+      const dependentStarts = this.getDependents(step.id)
+        .filter(id => timings.has(id))
+        .map(id => timings.get(id)!.latestStart);
+      timing.latestFinish = Math.min(totalDuration, ...dependentStarts);
+      timing.latestStart = timing.latestFinish - this.duration(step);
+      timing.slack = timing.latestStart - timing.earliestStart;
+      timing.critical = Math.abs(timing.slack) < 1e-9;
+    }
+
+    this.cachedSchedule = { timings, totalDuration, criticalPath: this.traceCriticalPath(order, timings) };
+    return this.cachedSchedule;
+  }
+
+  /**
+   * The chain of steps that determines the plan's total duration
+   */
+  criticalPath(): ResearchStep[] {
+    return this.schedule().criticalPath;
+  }
+
+  /**
+   * Whether a step has no slack, so any delay to it delays the whole plan
+   */
+  isCritical(stepId: string): boolean {
+    return this.schedule().timings.get(stepId)?.critical ?? false;
+  }
+
+  /**
+   * How long a step can slip without delaying the plan; Infinity for steps that cannot be scheduled
+   */
+  getSlack(stepId: string): number {
+    return this.schedule().timings.get(stepId)?.slack ?? Infinity;
+  }
+
+  /**
+   * Steps ordered so every step follows its dependencies (Kahn's algorithm).
+   * Steps on a cycle, and steps depending on them, are omitted.
+   */
+  private topologicalOrder(): ResearchStep[] {
+    const remaining = new Map(
+      Array.from(this.steps.values()).map(step => [step.id, this.knownDependencies(step).length])
+    );
+    const ready = Array.from(remaining.entries()).filter(([, count]) => count === 0).map(([id]) => id);
+    const order: ResearchStep[] = [];
+
+    while (ready.length > 0) {
+      const stepId = ready.shift()!;
+      order.push(this.steps.get(stepId)!);
+      for (const dependentId of this.getDependents(stepId)) {
+        const count = remaining.get(dependentId)! - 1;
+        remaining.set(dependentId, count);
+        if (count === 0) {
+          ready.push(dependentId);
+        }
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Elementary cycles found by depth-first search, one per back edge
+   */
+  private findCycles(): string[][] {
+    const cycles: string[][] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (stepId: string): void => {
+      state.set(stepId, 'visiting');
+      path.push(stepId);
+      for (const dependentId of this.getDependents(stepId)) {
+        if (state.get(dependentId) === 'visiting') {
+          cycles.push(path.slice(path.indexOf(dependentId)));
+        } else if (!state.has(dependentId)) {
+          visit(dependentId);
+        }
+      }
+      path.pop();
+      state.set(stepId, 'done');
+    };
+
+    for (const stepId of this.steps.keys()) {
+      if (!state.has(stepId)) {
+        visit(stepId);
+      }
+    }
+    return cycles;
+  }
+
+  /**
+   * Follow zero-slack steps from the start of the plan, each time to a critical
+   * dependent that starts as soon as the current step finishes
+   */
+  private traceCriticalPath(order: ResearchStep[], timings: Map<string, StepTiming>): ResearchStep[] {
+    const path: ResearchStep[] = [];
+    let current = order.find(step => timings.get(step.id)!.critical && timings.get(step.id)!.earliestStart === 0);
+
+    while (current) {
+      path.push(current);
+      const finish = timings.get(current.id)!.earliestFinish;
+      const nextId = this.getDependents(current.id).find(id => {
+        const timing = timings.get(id);
+        return timing?.critical === true && Math.abs(timing.earliestStart - finish) < 1e-9;
+      });
+      current = nextId ? this.steps.get(nextId) : undefined;
+    }
+
+    return path;
+  }
+
+  private knownDependencies(step: ResearchStep): string[] {
+    return Array.from(new Set(step.dependencies)).filter(id => this.steps.has(id));
+  }
+
+  private duration(step: ResearchStep): number {
+    return Math.max(0, Number(step.estimatedDuration) || 0);
+  }
+}
@@ -0,0 +1,77 @@
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSearchUtils } from '../web-research-agent/web-search.js';
+import { FixtureNotFoundError, FixtureSearchProvider, createSearchProvider, type SearchProvider, type SearchRequest } from './search-provider.js';
+
+const request: SearchRequest = { backend: 'serpapi', params: { q: 'Solar power', engine: 'google', num: 10 } };
+
+const response = {
+  organic_results: [{ title: 'Solar power', link: 'https://example.com/solar', snippet: 'Solar output grew 42%', position: 1 }],
+};
+
+// Stands in for the live backends when recording
+const liveProvider = (answer: unknown) => ({ name: 'live', search: vi.fn(async () => answer) }) satisfies SearchProvider;
+
+describe('FixtureSearchProvider', () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'search-fixtures-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('records live responses and replays them for the same search, however it is cased or ordered', async () => {
+    const live = liveProvider(response);
+    expect(await new FixtureSearchProvider(fixturesDir, live).search(request)).toEqual(response);
+    expect(live.search).toHaveBeenCalledWith(request);
+
+    const files = await readdir(join(fixturesDir, 'serpapi'));
+    expect(files).toEqual([expect.stringMatching(/^solar-power-[0-9a-f]{12}\.json$/)]);
+    const fixture = JSON.parse(await readFile(join(fixturesDir, 'serpapi', files[0]), 'utf8'));
+    expect(fixture).toMatchObject({ backend: 'serpapi', params: request.params, response });
+
+    const replay = new FixtureSearchProvider(fixturesDir);
+    expect(replay.name).toBe('replay');
+    expect(await replay.search({ backend: 'serpapi', params: { num: 10, engine: 'Google', q: '  solar   POWER ' } })).toEqual(response);
+  });
+
+  it('fails in replay mode for searches that were not recorded', async () => {
+    const live = liveProvider(response);
+    await new FixtureSearchProvider(fixturesDir, live).search(request);
+    const replay = new FixtureSearchProvider(fixturesDir);
+
+    await expect(replay.search({ ...request, params: { ...request.params, num: 20 } })).rejects.toThrow(FixtureNotFoundError);
+    await expect(replay.search({ ...request, backend: 'newsapi' })).rejects.toThrow(/No recorded newsapi response .* record it with SEARCH_PROVIDER=record/);
+    expect(live.search).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets the research agents search offline from recorded fixtures', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await new WebSearchUtils(new FixtureSearchProvider(fixturesDir, liveProvider(response))).search('Solar power');
+
+    vi.stubEnv('SEARCH_PROVIDER', 'replay');
+    vi.stubEnv('SEARCH_FIXTURES_DIR', fixturesDir);
+    vi.stubEnv('SERPAPI_API_KEY', '');
+    const result = await new WebSearchUtils().search('Solar power');
+
+    expect(result.results).toMatchObject([{ title: 'Solar power', link: 'https://example.com/solar', rank: 1 }]);
+  });
+
+  it('is chosen by the SEARCH_PROVIDER environment variable', () => {
+    vi.stubEnv('SEARCH_FIXTURES_DIR', fixturesDir);
+    for (const mode of ['live', 'record', 'replay']) {
+      vi.stubEnv('SEARCH_PROVIDER', mode);
+      expect(createSearchProvider().name).toBe(mode);
+    }
+
+    vi.stubEnv('SEARCH_PROVIDER', 'cached');
+    expect(() => createSearchProvider()).toThrow('Unknown SEARCH_PROVIDER "cached"');
+  });
+});
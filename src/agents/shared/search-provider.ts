@@ -0,0 +1,238 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getJson } from 'serpapi';
+
+// Search backends used by the research agents, behind a provider that can be replaced by recorded fixtures
+
+export type SearchBackend = 'serpapi' | 'arxiv' | 'semantic-scholar' | 'newsapi';
+
+/**
+ * A backend query. Credentials are added by the provider, so requests (and
+ * fixtures recorded from them) never contain API keys.
+ */
+export interface SearchRequest {
+  backend: SearchBackend;
+  params: Record<string, string | number>;
+}
+
+/**
+ * Executes search requests and returns the backend's raw response: parsed JSON,
+ * or the Atom XML text for arXiv. Parsing stays with the search utilities.
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(request: SearchRequest): Promise<unknown>;
+}
+
+/**
+ * SerpAPI (Google, Google News and Google Scholar engines)
+ */
+export class SerpApiSearchProvider implements SearchProvider {
+  readonly name = 'serpapi';
+
+  constructor(private apiKey?: string) {}
+
+  async search(request: SearchRequest): Promise<unknown> {
+    if (!this.apiKey) {
+      throw new Error('SERPAPI_API_KEY not configured');
+    }
+    return getJson({ ...request.params, api_key: this.apiKey });
+  }
+}
+
+/**
+ * arXiv export API; no key required
+ */
+export class ArXivSearchProvider implements SearchProvider {
+  readonly name = 'arxiv';
+
+  async search(request: SearchRequest): Promise<unknown> {
+    const response = await fetch(`http://export.arxiv.org/api/query?${toQueryString(request.params)}`);
+    if (!response.ok) {
+      throw new Error(`arXiv returned HTTP ${response.status}`);
+    }
+    return response.text();
+  }
+}
+
+/**
+ * Semantic Scholar Graph API paper search
+ */
+export class SemanticScholarSearchProvider implements SearchProvider {
+  readonly name = 'semantic-scholar';
+
+  constructor(private apiKey?: string) {}
+
+  async search(request: SearchRequest): Promise<unknown> {
+    if (!this.apiKey) {
+      throw new Error('Semantic Scholar API key not configured');
+    }
+    const response = await fetch(
+      `https://api.semanticscholar.org/graph/v1/paper/search?${toQueryString(request.params)}`,
+      { headers: { 'x-api-key': this.apiKey } }
+    );
+    return response.json();
+  }
+}
+
+/**
+ * NewsAPI `everything` endpoint
+ */
+export class NewsApiSearchProvider implements SearchProvider {
+  readonly name = 'newsapi';
+
+  constructor(private apiKey?: string) {}
+
+  async search(request: SearchRequest): Promise<unknown> {
+    if (!this.apiKey) {
+      throw new Error('NewsAPI key not configured');
+    }
+    const query = toQueryString({ ...request.params, apiKey: this.apiKey });
+    const response = await fetch(`https://newsapi.org/v2/everything?${query}`);
+    const results = await response.json();
+
+    if (results.status !== 'ok') {
+      throw new Error(`NewsAPI error: ${results.message}`);
+    }
+    return results;
+  }
+}
+
+/**
+ * Routes each request to the live provider for its backend
+ */
+export class LiveSearchProvider implements SearchProvider {
+  readonly name = 'live';
+
+  constructor(private backends: Record<SearchBackend, SearchProvider>) {}
+
+  search(request: SearchRequest): Promise<unknown> {
+    return this.backends[request.backend].search(request);
+  }
+}
+
+/**
+ * Thrown in replay mode when no fixture was recorded for a request
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(request: SearchRequest, path: string) {
+    super(
+      `No recorded ${request.backend} response for ${JSON.stringify(request.params)} (expected ${path}); ` +
+      'record it with SEARCH_PROVIDER=record'
+    );
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Replays responses recorded as JSON files under a fixtures directory, one file
+ * per request. Given a provider to record from, it performs live requests and
+ * writes their responses as fixtures instead.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private directory: string, private recordFrom?: SearchProvider) {
+    this.name = recordFrom ? 'record' : 'replay';
+  }
+
+  async search(request: SearchRequest): Promise<unknown> {
+    const path = this.fixturePath(request);
+
+    if (this.recordFrom) {
+      const response = await this.recordFrom.search(request);
+      const fixture: SearchFixture = {
+        backend: request.backend,
+        params: request.params,
+        recordedAt: new Date().toISOString(),
+        response,
+      };
+      await mkdir(join(this.directory, request.backend), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(fixture, null, 2), 'utf8');
+      await rename(`${path}.tmp`, path);
+      return response;
+    }
+
+    try {
+      const fixture = JSON.parse(await readFile(path, 'utf8')) as SearchFixture;
+      return fixture.response;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new FixtureNotFoundError(request, path);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fixture file for a request: a readable slug of the query plus a hash of the
+   * normalized parameters, so the same search always maps to the same file
+   */
+  private fixturePath(request: SearchRequest): string {
+    const normalized = Object.keys(request.params)
+      .sort()
+      .map(key => [key, normalizeValue(request.params[key])]);
+    const hash = createHash('sha256')
+      .update(JSON.stringify([request.backend, normalized]))
+      .digest('hex')
+      .slice(0, 12);
+
+    const query = String(request.params.q ?? request.params.query ?? request.params.search_query ?? request.params.engine ?? '');
+    const slug = normalizeValue(query).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 48);
+
+    return join(this.directory, request.backend, `${slug || 'request'}-${hash}.json`);
+  }
+}
+
+interface SearchFixture {
+  backend: SearchBackend;
+  params: Record<string, string | number>;
+  recordedAt: string;
+  response: unknown;
+}
+
+/**
+ * Create the search provider from environment configuration:
+ *
+ * - `SEARCH_PROVIDER`: `live` (default), `record` (live requests saved as fixtures) or `replay` (fixtures only, no API keys needed)
+ * - `SEARCH_FIXTURES_DIR`: fixture directory for `record` and `replay` (default `fixtures/search`)
+ */
+export function createSearchProvider(): SearchProvider {
+  const mode = process.env.SEARCH_PROVIDER ?? 'live';
+  const fixturesDir = process.env.SEARCH_FIXTURES_DIR ?? join('fixtures', 'search');
+
+  switch (mode) {
+    case 'live':
+      return createLiveSearchProvider();
+
+    case 'record':
+      return new FixtureSearchProvider(fixturesDir, createLiveSearchProvider());
+
+    case 'replay':
+      return new FixtureSearchProvider(fixturesDir);
+
+    default:
+      throw new Error(`Unknown SEARCH_PROVIDER "${mode}" (expected "live", "record" or "replay")`);
+  }
+}
+
+function createLiveSearchProvider(): LiveSearchProvider {
+  return new LiveSearchProvider({
+    'serpapi': new SerpApiSearchProvider(process.env.SERPAPI_API_KEY),
+    'arxiv': new ArXivSearchProvider(),
+    'semantic-scholar': new SemanticScholarSearchProvider(process.env.SEMANTIC_SCHOLAR_API_KEY),
+    'newsapi': new NewsApiSearchProvider(process.env.NEWSAPI_API_KEY),
+  });
+}
+
+function toQueryString(params: Record<string, string | number>): string {
+  return new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)])
+  ).toString();
+}
+
+// Case and whitespace differences in model-generated queries should not miss a fixture
+function normalizeValue(value: string | number | undefined): string {
+  return String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
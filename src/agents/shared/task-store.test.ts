@@ -0,0 +1,72 @@
+import { mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Task } from '@a2a-js/sdk';
+import { ConfigurationError } from './configuration-error.js';
+import { FileTaskStore, LibSQLTaskStore, createTaskStore } from './task-store.js';
+
+const task = (id: string, state: Task['status']['state'] = 'working'): Task => ({
+  kind: 'task',
+  id,
+  contextId: 'context-1',
+  status: { state, timestamp: '2026-01-10T00:00:00.000Z' },
+  history: [],
+});
+
+describe('task stores', () => {
+  let storeDir: string;
+
+  beforeEach(async () => {
+    storeDir = await mkdtemp(join(tmpdir(), 'task-store-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(storeDir, { recursive: true, force: true });
+  });
+
+  it('keeps tasks in files and deletes those not saved since the cutoff', async () => {
+    const store = new FileTaskStore(join(storeDir, 'agent'));
+    await store.save(task('task/1'));
+    await store.save(task('task-2', 'completed'));
+    const old = new Date('2026-01-01T00:00:00Z');
+    await utimes(join(storeDir, 'agent', `${encodeURIComponent('task/1')}.json`), old, old);
+
+    expect(await store.load('task-2')).toEqual(task('task-2', 'completed'));
+    expect(await store.deleteOlderThan(new Date('2026-01-02T00:00:00Z'))).toBe(1);
+    expect(await store.load('task/1')).toBeUndefined();
+  });
+
+  it('keeps the tasks of each agent apart in libSQL', async () => {
+    const url = `file:${join(storeDir, 'tasks.db')}`;
+    const webStore = new LibSQLTaskStore(url, 'web-research-agent');
+    const newsStore = new LibSQLTaskStore(url, 'news-research-agent');
+    await webStore.save(task('task-1'));
+    await webStore.save(task('task-1', 'completed'));
+
+    expect(await webStore.load('task-1')).toEqual(task('task-1', 'completed'));
+    expect(await newsStore.load('task-1')).toBeUndefined();
+    expect(await newsStore.deleteOlderThan(new Date(Date.now() + 1000))).toBe(0);
+    expect(await webStore.deleteOlderThan(new Date(Date.now() + 1000))).toBe(1);
+  });
+
+  it('reports a store that cannot be set up when it is first used', async () => {
+    const file = join(storeDir, 'not-a-directory');
+    await writeFile(file, '');
+    vi.stubEnv('A2A_TASK_STORE', 'file');
+    vi.stubEnv('A2A_TASK_STORE_DIR', file);
+    vi.stubEnv('A2A_TASK_TTL_HOURS', '0');
+
+    const store = createTaskStore('agent');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await expect(store.save(task('task-1'))).rejects.toThrow('ENOTDIR');
+  });
+
+  it('rejects unknown backends', () => {
+    vi.stubEnv('A2A_TASK_STORE', 'redis');
+
+    expect(() => createTaskStore('agent')).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,205 @@
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import { mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { createClient } from '@libsql/client';
+import type { Client } from '@libsql/client';
+import type { Task } from '@a2a-js/sdk';
+import { InMemoryTaskStore } from '@a2a-js/sdk/server';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { ConfigurationError } from './configuration-error.js';
+
+// Persistent A2A TaskStore implementations shared by all agent servers
+
+export const TASK_STORE_BACKENDS = ['memory', 'file', 'libsql'];
+
+/**
+ * A TaskStore that can drop tasks which have not been updated within a TTL
+ */
+export interface ExpiringTaskStore extends TaskStore {
+  /** Delete tasks last saved before `cutoff`, returning how many were removed */
+  deleteOlderThan(cutoff: Date): Promise<number>;
+}
+
+/**
+ * Stores each task as a JSON file in a directory. Files are written to a temp
+ * file and renamed into place, so readers never see partial writes.
+ */
+export class FileTaskStore implements ExpiringTaskStore {
+  private ready: Promise<unknown>;
+
+  constructor(private directory: string) {
+    this.ready = mkdir(directory, { recursive: true });
+    // A failure surfaces on first use; until then it must not go unhandled
+    this.ready.catch(() => undefined);
+  }
+
+  async save(task: Task): Promise<void> {
+    await this.ready;
+    const target = this.taskPath(task.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(task), 'utf8');
+    await rename(temp, target);
+  }
+
+  async load(taskId: string): Promise<Task | undefined> {
+    await this.ready;
+    try {
+      return JSON.parse(await readFile(this.taskPath(taskId), 'utf8')) as Task;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    await this.ready;
+    let deleted = 0;
+
+    for (const file of await readdir(this.directory)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      const path = join(this.directory, file);
+      try {
+        if ((await stat(path)).mtime < cutoff) {
+          await unlink(path);
+          deleted++;
+        }
+      } catch (error) {
+        // Another replica may have removed the file already
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    return deleted;
+  }
+
+  private taskPath(taskId: string): string {
+    return join(this.directory, `${encodeURIComponent(taskId)}.json`);
+  }
+}
+
+/**
+ * Stores tasks in a libSQL/SQLite table. Pointing several replicas at the same
+ * database lets them share task history.
+ */
+export class LibSQLTaskStore implements ExpiringTaskStore {
+  private client: Client;
+  private ready: Promise<unknown>;
+
+  constructor(url: string, private agentName: string, authToken?: string) {
+    if (url.startsWith('file:')) {
+      mkdirSync(dirname(url.slice('file:'.length)), { recursive: true });
+    }
+    this.client = createClient({ url, authToken });
+    this.ready = this.client.batch([
+      `CREATE TABLE IF NOT EXISTS a2a_tasks (
+        agent TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        context_id TEXT NOT NULL,
+        state TEXT NOT NULL,
+        task TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (agent, task_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS a2a_tasks_updated_at ON a2a_tasks (updated_at)',
+    ], 'write');
+    // A failure surfaces on first use; until then it must not go unhandled
+    this.ready.catch(() => undefined);
+  }
+
+  async save(task: Task): Promise<void> {
+    await this.ready;
+    await this.client.execute({
+      sql: `INSERT INTO a2a_tasks (agent, task_id, context_id, state, task, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (agent, task_id) DO UPDATE SET
+              context_id = excluded.context_id,
+              state = excluded.state,
+              task = excluded.task,
+              updated_at = excluded.updated_at`,
+      args: [this.agentName, task.id, task.contextId, task.status.state, JSON.stringify(task), Date.now()],
+    });
+  }
+
+  async load(taskId: string): Promise<Task | undefined> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: 'SELECT task FROM a2a_tasks WHERE agent = ? AND task_id = ?',
+      args: [this.agentName, taskId],
+    });
+    return result.rows.length > 0 ? JSON.parse(String(result.rows[0].task)) as Task : undefined;
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    await this.ready;
+    const result = await this.client.execute({
+      sql: 'DELETE FROM a2a_tasks WHERE agent = ? AND updated_at < ?',
+      args: [this.agentName, cutoff.getTime()],
+    });
+    return result.rowsAffected;
+  }
+}
+
+/**
+ * Create the TaskStore for an agent server from environment configuration:
+ *
+ * - `A2A_TASK_STORE`: `memory` (default), `file` or `libsql`
+ * - `A2A_TASK_STORE_DIR`: base directory for the file store (default `.a2a-tasks`)
+ * - `A2A_TASK_STORE_URL`: libSQL URL (default `file:.a2a-tasks/tasks.db`), `A2A_TASK_STORE_AUTH_TOKEN` for remote databases
+ * - `A2A_TASK_TTL_HOURS`: delete tasks not updated for this long (default 168, `0` keeps tasks forever)
+ */
+export function createTaskStore(agentName: string): TaskStore {
+  const backend = process.env.A2A_TASK_STORE ?? 'memory';
+  let store: ExpiringTaskStore;
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryTaskStore();
+
+    case 'file':
+      store = new FileTaskStore(join(process.env.A2A_TASK_STORE_DIR ?? '.a2a-tasks', agentName));
+      break;
+
+    case 'libsql':
+      store = new LibSQLTaskStore(
+        process.env.A2A_TASK_STORE_URL ?? 'file:.a2a-tasks/tasks.db',
+        agentName,
+        process.env.A2A_TASK_STORE_AUTH_TOKEN
+      );
+      break;
+
+    default:
+      throw new ConfigurationError(`Unknown A2A_TASK_STORE "${backend}" (expected "memory", "file" or "libsql")`);
+  }
+
+  const ttlHours = Number(process.env.A2A_TASK_TTL_HOURS ?? 168);
+  if (ttlHours > 0) {
+    scheduleTaskCleanup(store, ttlHours * 60 * 60 * 1000, agentName);
+  }
+  console.log(`[${agentName}] Persisting A2A tasks with the ${backend} task store`);
+
+  return store;
+}
+
+/**
+ * Run TTL cleanup once now and then periodically (at most hourly)
+ */
+function scheduleTaskCleanup(store: ExpiringTaskStore, ttlMs: number, agentName: string): void {
+  const cleanup = (): void => {
+    store.deleteOlderThan(new Date(Date.now() - ttlMs))
+      .then(deleted => {
+        if (deleted > 0) {
+          console.log(`[${agentName}] Removed ${deleted} expired tasks`);
+        }
+      })
+      .catch(error => console.error(`[${agentName}] Task cleanup failed:`, error));
+  };
+
+  cleanup();
+  setInterval(cleanup, Math.min(ttlMs, 60 * 60 * 1000)).unref();
+}
@@ -1,239 +1,48 @@
-import express from "express";
-import { v4 as uuidv4 } from 'uuid';
-
-import { MessageData } from "genkit";
-import {
-  AgentCard,
-  Task,
-  TaskStatusUpdateEvent,
-  TextPart,
-} from "@a2a-js/sdk";
-import {
-  InMemoryTaskStore,
-  TaskStore,
-  AgentExecutor,
-  RequestContext,
-  ExecutionEventBus,
-  DefaultRequestHandler,
-} from "@a2a-js/sdk/server";
-import { A2AExpressApp } from "@a2a-js/sdk/server/express";
+import { exitOnStartupFailure, startAgentServer, type AgentCardDefinition } from "../shared/agent-server.js";
+import { BaseAgentExecutor, type AgentTaskContext, type AgentTaskOutcome } from "../shared/base-executor.js";
+import type { TaskStore } from "@a2a-js/sdk/server";
 import { ai } from "./genkit.js";
 import { WebSearchUtils, SearchResult, NewsSearchResult, ScholarSearchResult } from './web-search.js';
 import { ResearchFinding, SourceCitation, ResearchResult } from '../shared/interfaces.js';
 
-if (!process.env.GEMINI_API_KEY) {
-  console.error("GEMINI_API_KEY environment variable not set.");
-  process.exit(1);
-}
-
 // Load the Genkit prompt
 const webResearchPrompt = ai.prompt('web_research');
 
 /**
  * WebResearchAgentExecutor implements the agent's core logic for web-based research.
  */
-class WebResearchAgentExecutor implements AgentExecutor {
-  private cancelledTasks = new Set<string>();
+class WebResearchAgentExecutor extends BaseAgentExecutor {
   private webSearch: WebSearchUtils;
 
-  constructor() {
+  constructor(taskStore?: TaskStore) {
+    super({
+      name: 'WebResearchAgentExecutor',
+      workingMessage: 'Conducting comprehensive web research...',
+      cancelledMessage: 'Web research cancelled.',
+      failurePrefix: 'Research failed',
+    }, taskStore);
     this.webSearch = new WebSearchUtils();
   }
 
-  public cancelTask = async (
-    taskId: string,
-    eventBus: ExecutionEventBus,
-  ): Promise<void> => {
-    this.cancelledTasks.add(taskId);
-    // Publish immediate cancellation event
-    const cancelledUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: uuidv4(), // Generate context ID for cancellation
-      status: {
-        state: 'canceled',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Web research cancelled.' }],
-          taskId: taskId,
-          contextId: uuidv4(),
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: true,
-    };
-    eventBus.publish(cancelledUpdate);
-  };
-
-  async execute(
-    requestContext: RequestContext,
-    eventBus: ExecutionEventBus
-  ): Promise<void> {
-    const { userMessage } = requestContext;
-    const existingTask = requestContext.task;
-
-    const taskId = existingTask?.id || uuidv4();
-    const contextId = userMessage.contextId || existingTask?.contextId || uuidv4();
-    const researchId = taskId; // For future orchestration integration
-
-    console.log(
-      `[WebResearchAgentExecutor] Processing message ${userMessage.messageId} for task ${taskId} (context: ${contextId}, research: ${researchId})`
-    );
-
-    // 1. Publish initial Task event if it's a new task
-    if (!existingTask) {
-      const initialTask: Task = {
-        kind: 'task',
-        id: taskId,
-        contextId: contextId,
-        status: {
-          state: 'submitted',
-          timestamp: new Date().toISOString(),
-        },
-        history: [userMessage],
-        metadata: userMessage.metadata,
-        artifacts: [],
-      };
-      eventBus.publish(initialTask);
-    }
+  protected async handleTask(task: AgentTaskContext): Promise<AgentTaskOutcome> {
+    const researchId = task.taskId; // For future orchestration integration
 
-    // 2. Publish "working" status update
-    const workingStatusUpdate: TaskStatusUpdateEvent = {
-      kind: 'status-update',
-      taskId: taskId,
-      contextId: contextId,
-      status: {
-        state: 'working',
-        message: {
-          kind: 'message',
-          role: 'agent',
-          messageId: uuidv4(),
-          parts: [{ kind: 'text', text: 'Conducting comprehensive web research...' }],
-          taskId: taskId,
-          contextId: contextId,
-        },
-        timestamp: new Date().toISOString(),
-      },
-      final: false,
-    };
-    eventBus.publish(workingStatusUpdate);
-
-    // 3. Prepare messages for Genkit prompt
-    const historyForGenkit = existingTask?.history ? [...existingTask.history] : [];
-    if (!historyForGenkit.find(m => m.messageId === userMessage.messageId)) {
-      historyForGenkit.push(userMessage);
-    }
+    // 1. Extract research query from user message
+    const userQuery = this.extractResearchQuery(task.userMessage);
 
-    const messages: MessageData[] = historyForGenkit
-      .map((m) => ({
-        role: (m.role === 'agent' ? 'model' : 'user') as 'user' | 'model',
-        content: m.parts
-          .filter((p): p is TextPart => p.kind === 'text' && !!(p as TextPart).text)
-          .map((p) => ({
-            text: (p as TextPart).text,
-          })),
-      }))
-      .filter((m) => m.content.length > 0);
-
-    if (messages.length === 0) {
-      console.warn(
-        `[WebResearchAgentExecutor] No valid text messages found in history for task ${taskId}.`
-      );
-      const failureUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'No input message found to process.' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(failureUpdate);
-      return;
-    }
+    // 2. Perform comprehensive web research
+    const researchResults = await this.performWebResearch(userQuery, task);
 
-    try {
-      // 4. Extract research query from user message
-      const userQuery = this.extractResearchQuery(userMessage);
-
-      // 5. Perform comprehensive web research
-      const researchResults = await this.performWebResearch(userQuery, taskId, contextId, eventBus);
-
-      // 6. Publish success status with findings
-      const successUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'completed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'Web research completed successfully.' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(successUpdate);
-
-      // 7. Publish artifacts with research findings
-      if (researchResults) {
-        const artifact: Task = {
-          kind: 'task',
-          id: `${taskId}-findings`,
-          contextId: contextId,
-          status: {
-            state: 'completed',
-            timestamp: new Date().toISOString(),
-          },
-          history: [],
-          metadata: {
-            type: 'research-findings',
-            researchId: researchId,
-            findings: researchResults
-          },
-          artifacts: [],
-        };
-        eventBus.publish(artifact);
-      }
+    // 3. Publish research findings as a structured artifact
+    this.publishArtifact(task, {
+      artifactId: `${task.taskId}-findings`,
+      name: 'research-findings',
+      description: `Web research findings for: ${userQuery}`,
+      parts: [{ kind: 'data', data: { ...researchResults } }],
+      metadata: { researchId: researchId },
+    });
 
-    } catch (error) {
-      console.error(`[WebResearchAgentExecutor] Error processing task ${taskId}:`, error);
-      const errorUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'failed',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: `Research failed: ${error instanceof Error ? error.message : 'Unknown error'}` }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: true,
-      };
-      eventBus.publish(errorUpdate);
-    }
+    return { message: 'Web research completed successfully.' };
   }
 
   private parseResearchFindings(responseText: string): any {
@@ -270,31 +79,11 @@ class WebResearchAgentExecutor implements AgentExecutor {
    */
   private async performWebResearch(
     query: string,
-    taskId: string,
-    contextId: string,
-    eventBus: ExecutionEventBus
+    task: AgentTaskContext
   ): Promise<ResearchResult> {
     try {
       // Update status to show research in progress
-      const progressUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'working',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'Searching web for relevant information...' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: false,
-      };
-      eventBus.publish(progressUpdate);
+      this.publishWorking(task, 'Searching web for relevant information...');
 
       // Perform general web search
       const generalResults = await this.webSearch.search(query, { limit: 10 });
@@ -306,25 +95,7 @@ class WebResearchAgentExecutor implements AgentExecutor {
       const scholarResults = await this.webSearch.searchScholar(query, { limit: 5 });
 
       // Update progress
-      const analysisUpdate: TaskStatusUpdateEvent = {
-        kind: 'status-update',
-        taskId: taskId,
-        contextId: contextId,
-        status: {
-          state: 'working',
-          message: {
-            kind: 'message',
-            role: 'agent',
-            messageId: uuidv4(),
-            parts: [{ kind: 'text', text: 'Analyzing and synthesizing findings...' }],
-            taskId: taskId,
-            contextId: contextId,
-          },
-          timestamp: new Date().toISOString(),
-        },
-        final: false,
-      };
-      eventBus.publish(analysisUpdate);
+      this.publishWorking(task, 'Analyzing and synthesizing findings...');
 
       // Synthesize findings
       return this.synthesizeFindings(query, generalResults, newsResults, scholarResults);
@@ -434,12 +205,10 @@ class WebResearchAgentExecutor implements AgentExecutor {
 
 // --- Server Setup ---
 
-const webResearchAgentCard: AgentCard = {
-  protocolVersion: '1.0',
+const webResearchAgentCard: AgentCardDefinition = {
   name: 'Web Research Agent',
   description:
     'An agent that conducts comprehensive web-based research with credibility assessment and source verification.',
-  url: 'http://localhost:41243/',
   provider: {
     organization: 'A2A Samples',
     url: 'https://example.com/a2a-samples',
@@ -473,26 +242,17 @@ const webResearchAgentCard: AgentCard = {
   supportsAuthenticatedExtendedCard: false,
 };
 
-// Create the agent executor
-const agentExecutor = new WebResearchAgentExecutor();
-
-// Create the task store
-const taskStore: TaskStore = new InMemoryTaskStore();
-
-// Create the request handler
-const requestHandler = new DefaultRequestHandler(
-  webResearchAgentCard,
-  taskStore,
-  agentExecutor
-);
-
-// 4. Create and setup A2AExpressApp
-const appBuilder = new A2AExpressApp(requestHandler);
-const expressApp = appBuilder.setupRoutes(express(), '');
-
-const PORT = process.env.WEB_RESEARCH_AGENT_PORT || 41243;
-
-expressApp.listen(PORT, () => {
-  console.log(`Web Research Agent listening on port ${PORT}`);
-  console.log(`Agent Card available at http://localhost:${PORT}/.well-known/agent-card.json`);
-});
+startAgentServer({
+  id: 'web-research-agent',
+  logName: 'WebResearchAgent',
+  envPrefix: 'WEB_RESEARCH_AGENT',
+  defaultPort: 41244,
+  card: webResearchAgentCard,
+  modelEnv: {
+    GEMINI_API_KEY: 'Gemini API key used by Genkit (https://aistudio.google.com/apikey)',
+  },
+  optionalEnv: {
+    SERPAPI_API_KEY: 'SerpAPI key for web search; searches fail without it',
+  },
+  createExecutor: taskStore => new WebResearchAgentExecutor(taskStore),
+}).catch(exitOnStartupFailure('WebResearchAgent'));
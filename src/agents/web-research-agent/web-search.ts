@@ -1,18 +1,12 @@
-import { getJson } from 'serpapi';
+import { createSearchProvider } from '../shared/search-provider.js';
+import type { SearchProvider } from '../shared/search-provider.js';
 
 /**
  * Web Search Utilities for the Web Research Agent
  * Provides search capabilities using SerpAPI for comprehensive web research
  */
 export class WebSearchUtils {
-  private apiKey: string;
-
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.SERPAPI_API_KEY || '';
-    if (!this.apiKey) {
-      console.warn('SERPAPI_API_KEY not set. Web search functionality will be limited.');
-    }
-  }
+  constructor(private provider: SearchProvider = createSearchProvider()) {}
 
   /**
    * Perform a comprehensive web search
@@ -21,7 +15,6 @@ export class WebSearchUtils {
     try {
       const searchParams = {
         q: query,
-        api_key: this.apiKey,
         engine: 'google',
         num: options.limit || 10,
         start: options.offset || 0,
@@ -29,7 +22,7 @@ export class WebSearchUtils {
       };
 
       console.log(`Performing web search for: "${query}"`);
-      const results = await getJson(searchParams);
+      const results = await this.provider.search({ backend: 'serpapi', params: searchParams });
 
       return this.parseSearchResults(results, query);
     } catch (error) {
@@ -45,14 +38,13 @@ export class WebSearchUtils {
     try {
       const searchParams = {
         q: query,
-        api_key: this.apiKey,
         engine: 'google_news',
         num: options.limit || 10,
         ...this.buildNewsParams(options)
       };
 
       console.log(`Performing news search for: "${query}"`);
-      const results = await getJson(searchParams);
+      const results = await this.provider.search({ backend: 'serpapi', params: searchParams });
 
       return this.parseNewsResults(results, query);
     } catch (error) {
@@ -68,14 +60,13 @@ export class WebSearchUtils {
     try {
       const searchParams = {
         q: query,
-        api_key: this.apiKey,
         engine: 'google_scholar',
         num: options.limit || 10,
         ...this.buildScholarParams(options)
       };
 
       console.log(`Performing scholar search for: "${query}"`);
-      const results = await getJson(searchParams);
+      const results = await this.provider.search({ backend: 'serpapi', params: searchParams });
 
       return this.parseScholarResults(results, query);
     } catch (error) {
@@ -2,6 +2,7 @@
 
 import readline from "node:readline";
 import crypto from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
 
 import {
   // Specific Params/Payload types used by the CLI
@@ -17,8 +18,11 @@ import {
   // Type for the agent card
   AgentCard,
   Part, // Added for explicit Part typing
+  Artifact,
 } from "@a2a-js/sdk";
 import { A2AClient } from "@a2a-js/sdk/client";
+import type { ResearchProgressData, SourceCitation } from "./agents/shared/interfaces.js";
+import { CITATION_FORMATS, exportCitations, importCitations, type CitationFormat } from "./agents/shared/citation-formats.js";
 
 // --- ANSI Colors ---
 const colors = {
@@ -43,9 +47,34 @@ function generateId(): string { // Renamed for more general use
   return crypto.randomUUID();
 }
 
+function isResearchProgress(data: Record<string, unknown>): data is Record<string, unknown> & ResearchProgressData {
+  return data.type === "research-progress";
+}
+
+// Render the orchestrator's structured progress as a single progress bar line
+function formatResearchProgress(progress: ResearchProgressData): string {
+  const width = 20;
+  const filled = Math.round((Math.min(Math.max(progress.percentage, 0), 100) / 100) * width);
+  const bar = `[${"#".repeat(filled)}${"-".repeat(width - filled)}]`;
+  const eta = progress.estimatedTimeRemaining >= 1
+    ? `~${Math.round(progress.estimatedTimeRemaining)} min left`
+    : "<1 min left";
+  const details = [
+    `${progress.completedSteps}/${progress.totalSteps} steps`,
+    `step ${progress.stepId}: ${progress.stepStatus}`,
+    eta,
+    `confidence ${progress.confidence.toFixed(2)}`,
+  ];
+  if (progress.atRiskOfDelay === true) {
+    details.push(colorize("red", "at risk of missing deadline"));
+  }
+  return `${colorize("cyan", bar)} ${progress.percentage}% ${colorize("dim", details.join(" · "))}`;
+}
+
 // --- State ---
 let currentTaskId: string | undefined = undefined; // Initialize as undefined
 let currentContextId: string | undefined = undefined; // Initialize as undefined
+let sources: SourceCitation[] = []; // From the last research-sources artifact or /sources import
 const serverUrl = process.argv[2] || "http://localhost:41241"; // Agent's base URL
 const client = new A2AClient(serverUrl);
 let agentName = "Agent"; // Default, try to get from agent card later
@@ -111,7 +140,7 @@ function printAgentEvent(
   else if (event.kind === "artifact-update") {
     const update = event as TaskArtifactUpdateEvent; // Cast for type safety
     console.log(
-      `${prefix} 📄 Artifact Received: ${update.artifact.name || "(unnamed)"
+      `${prefix} 📄 Artifact ${update.append ? "Chunk Appended" : "Received"}: ${update.artifact.name || "(unnamed)"
       } (ID: ${update.artifact.artifactId}, Task: ${update.taskId}, Context: ${update.contextId})`
     );
     // Create a temporary message-like structure to reuse printMessageContent
@@ -145,6 +174,8 @@ function printMessageContent(message: Message) {
         }, Type: ${filePart.file.mimeType || "N/A"}, Source: ${("bytes" in filePart.file) ? "Inline (bytes)" : filePart.file.uri
         }`
       );
+    } else if (part.kind === "data" && isResearchProgress(part.data)) {
+      console.log(`${partPrefix} ${colorize("yellow", "📈 Progress:")}`, formatResearchProgress(part.data));
     } else if (part.kind === "data") { // Check kind property
       const dataPart = part as DataPart;
       console.log(
@@ -157,6 +188,50 @@ function printMessageContent(message: Message) {
   });
 }
 
+// --- Source Export ---
+// Keep the sources of a research-sources artifact, read from its CSL-JSON file
+function captureResearchSources(artifact: Artifact) {
+  const cslPart = artifact.parts.find((part): part is FilePart =>
+    part.kind === "file" && part.file.mimeType === CITATION_FORMATS["csl-json"].mimeType && "bytes" in part.file);
+  if (!cslPart || !("bytes" in cslPart.file)) {
+    return;
+  }
+  sources = importCitations(Buffer.from(cslPart.file.bytes, "base64").toString("utf8"), "csl-json").sources;
+  console.log(colorize("dim", `   ${sources.length} sources kept. Use '/sources export <${Object.keys(CITATION_FORMATS).join("|")}> [file]' to save them.`));
+}
+
+// /sources                               list the current sources
+// /sources export <format> [file]        write them as BibTeX, RIS or CSL-JSON (default file: research-sources.<ext>)
+// /sources import <file>                 replace them with the sources of a BibTeX, RIS or CSL-JSON file
+async function handleSourcesCommand(args: string[]) {
+  const [action, ...rest] = args;
+  if (!action) {
+    if (sources.length === 0) {
+      console.log(colorize("yellow", "No sources yet. Run a research or use '/sources import <file>'."));
+    }
+    sources.forEach((source, index) => {
+      console.log(`  [${index + 1}] ${source.title}${source.author ? colorize("dim", ` (${source.author})`) : ""} ${colorize("gray", source.url)}`);
+    });
+  } else if (action === "export") {
+    const [format, file] = rest;
+    if (!(format in CITATION_FORMATS)) {
+      console.log(colorize("yellow", `Usage: /sources export <${Object.keys(CITATION_FORMATS).join("|")}> [file]`));
+      return;
+    }
+    const path = file || `research-sources.${CITATION_FORMATS[format as CitationFormat].extension}`;
+    await writeFile(path, exportCitations(sources, format as CitationFormat), "utf8");
+    console.log(colorize("green", `✓ Wrote ${sources.length} sources to ${path}`));
+  } else if (action === "import" && rest.length > 0) {
+    const path = rest.join(" ");
+    const imported = importCitations(await readFile(path, "utf8"));
+    sources = imported.sources;
+    console.log(colorize("green", `✓ Imported ${sources.length} sources from ${path} (${imported.format})`));
+    imported.skipped.forEach(reason => console.log(colorize("yellow", `   Skipped ${reason}`)));
+  } else {
+    console.log(colorize("yellow", "Usage: /sources [export <format> [file] | import <file>]"));
+  }
+}
+
 // --- Agent Card Fetching ---
 async function fetchAndDisplayAgentCard() {
   // Use the client's getAgentCard method.
@@ -199,7 +274,7 @@ async function main() {
 
   console.log(colorize("dim", `No active task or context initially. Use '/new' to start a fresh session or send a message.`));
   console.log(
-    colorize("green", `Enter messages, or use '/new' to start a new session. '/exit' to quit.`)
+    colorize("green", `Enter messages, or use '/new' to start a new session, '/sources' to list, export or import research sources. '/exit' to quit.`)
   );
 
   rl.setPrompt(colorize("cyan", `${agentName} > You: `)); // Set initial prompt
@@ -229,6 +304,16 @@ async function main() {
       return;
     }
 
+    if (input.toLowerCase() === "/sources" || input.toLowerCase().startsWith("/sources ")) {
+      try {
+        await handleSourcesCommand(input.split(/\s+/).slice(1));
+      } catch (error: any) {
+        console.error(colorize("red", `Sources command failed: ${error.message || error}`));
+      }
+      rl.prompt();
+      return;
+    }
+
     // Construct params for sendMessageStream
     const messageId = generateId(); // Generate a unique message ID
 
@@ -276,6 +361,9 @@ async function main() {
         if (event.kind === "status-update" || event.kind === "artifact-update") {
           const typedEvent = event as TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
           printAgentEvent(typedEvent);
+          if (typedEvent.kind === "artifact-update" && typedEvent.artifact.name === "research-sources") {
+            captureResearchSources(typedEvent.artifact);
+          }
 
           // If the event is a TaskStatusUpdateEvent and it's final, reset currentTaskId
           if (typedEvent.kind === "status-update" && (typedEvent as TaskStatusUpdateEvent).final && (typedEvent as TaskStatusUpdateEvent).status.state !== "input-required") {
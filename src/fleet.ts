@@ -0,0 +1,340 @@
+#!/usr/bin/env node
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+import { createServer } from 'node:net';
+import { dirname, join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { format } from 'node:util';
+import { shutdownAgentServers } from './agents/shared/agent-server.js';
+
+/**
+ * Fleet launcher: starts a set of agents with non-colliding ports, points the
+ * orchestrator at the research agents it started, prefixes every log line with
+ * the agent it came from and stops all agents together.
+ *
+ *   npm run agents:fleet -- [preset | agent ...] [--in-process] [--base-port <port>]
+ */
+
+interface FleetAgent {
+  id: string;
+  directory: string; // under src/agents
+  envPrefix: string; // matches the agent's startAgentServer definition
+  defaultPort: number;
+  urlEnv?: string; // orchestrator endpoint variable, for agents the orchestrator delegates to
+}
+
+interface LaunchedAgent {
+  agent: FleetAgent;
+  port: number;
+  url: string;
+  child?: ChildProcess;
+}
+
+// Start order: the orchestrator comes last so the agents it discovers are already up
+const FLEET: FleetAgent[] = [
+  { id: 'movie', directory: 'movie-agent', envPrefix: 'MOVIE_AGENT', defaultPort: 41241 },
+  { id: 'coder', directory: 'coder', envPrefix: 'CODER_AGENT', defaultPort: 41242 },
+  { id: 'content-editor', directory: 'content-editor', envPrefix: 'CONTENT_EDITOR_AGENT', defaultPort: 10003 },
+  { id: 'planning', directory: 'planning-agent', envPrefix: 'PLANNING_AGENT', defaultPort: 41245, urlEnv: 'PLANNING_AGENT_URL' },
+  { id: 'web-research', directory: 'web-research-agent', envPrefix: 'WEB_RESEARCH_AGENT', defaultPort: 41244, urlEnv: 'WEB_RESEARCH_AGENT_URL' },
+  { id: 'academic-research', directory: 'academic-research-agent', envPrefix: 'ACADEMIC_RESEARCH_AGENT', defaultPort: 41248, urlEnv: 'ACADEMIC_RESEARCH_AGENT_URL' },
+  { id: 'news-research', directory: 'news-research-agent', envPrefix: 'NEWS_RESEARCH_AGENT', defaultPort: 41246, urlEnv: 'NEWS_RESEARCH_AGENT_URL' },
+  { id: 'data-analysis', directory: 'data-analysis-agent', envPrefix: 'DATA_ANALYSIS_AGENT', defaultPort: 41247, urlEnv: 'DATA_ANALYSIS_AGENT_URL' },
+  { id: 'orchestrator', directory: 'orchestrator-agent', envPrefix: 'ORCHESTRATOR_AGENT', defaultPort: 41243 },
+];
+
+const PRESETS: Record<string, string[]> = {
+  research: ['planning', 'web-research', 'academic-research', 'news-research', 'data-analysis', 'orchestrator'],
+  samples: ['movie', 'coder', 'content-editor'],
+  all: FLEET.map(agent => agent.id),
+};
+
+const STARTUP_TIMEOUT_MS = Number(process.env.A2A_FLEET_STARTUP_TIMEOUT_MS ?? 60000);
+const AGENTS_DIR = join(dirname(fileURLToPath(import.meta.url)), 'agents');
+
+// --- ANSI Colors ---
+const PREFIX_COLORS = ['\x1b[36m', '\x1b[32m', '\x1b[33m', '\x1b[35m', '\x1b[34m', '\x1b[96m', '\x1b[92m', '\x1b[93m', '\x1b[95m'];
+const RESET = '\x1b[0m';
+
+const prefixes = new Map<string, string>();
+const logContext = new AsyncLocalStorage<string>(); // agent id, for in-process agents
+let shuttingDown = false;
+
+function usage(): string {
+  return [
+    'Usage: npm run agents:fleet -- [preset | agent ...] [--in-process] [--base-port <port>]',
+    '',
+    `Presets: ${Object.entries(PRESETS).map(([name, ids]) => `${name} (${ids.join(', ')})`).join('; ')}`,
+    `Agents:  ${FLEET.map(agent => agent.id).join(', ')}`,
+    '',
+    '  --in-process         Run all agents in this process instead of one child process each',
+    '  --base-port <port>   Assign consecutive ports from <port> instead of the agents\' default ports',
+  ].join('\n');
+}
+
+function parseArgs(args: string[]): { agents: FleetAgent[]; inProcess: boolean; basePort?: number } {
+  const selected = new Set<string>();
+  let inProcess = false;
+  let basePort: number | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(usage());
+      process.exit(0);
+    } else if (arg === '--in-process') {
+      inProcess = true;
+    } else if (arg === '--base-port' || arg.startsWith('--base-port=')) {
+      const value = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[++i];
+      basePort = Number(value);
+      if (!Number.isInteger(basePort) || basePort < 1 || basePort > 65535) {
+        throw new Error(`--base-port must be a port number, got "${value}"`);
+      }
+    } else if (PRESETS[arg]) {
+      PRESETS[arg].forEach(id => selected.add(id));
+    } else if (FLEET.some(agent => agent.id === arg)) {
+      selected.add(arg);
+    } else {
+      throw new Error(`Unknown agent or preset "${arg}"\n\n${usage()}`);
+    }
+  }
+
+  if (selected.size === 0) {
+    PRESETS.research.forEach(id => selected.add(id));
+  }
+
+  return { agents: FLEET.filter(agent => selected.has(agent.id)), inProcess, basePort };
+}
+
+/**
+ * Assign each agent a port: consecutive from --base-port, otherwise an explicit
+ * <PREFIX>_PORT or the agent's default port. Collisions are rejected up front.
+ */
+function assignPorts(agents: FleetAgent[], basePort?: number): LaunchedAgent[] {
+  const launched = agents.map((agent, index) => {
+    const port = basePort !== undefined
+      ? basePort + index
+      : Number(process.env[`${agent.envPrefix}_PORT`] ?? agent.defaultPort);
+    return { agent, port, url: `http://localhost:${port}` };
+  });
+
+  const seen = new Map<number, string>();
+  for (const { agent, port } of launched) {
+    const other = seen.get(port);
+    if (other) {
+      throw new Error(`${agent.id} and ${other} would both listen on port ${port}; use --base-port or set ${agent.envPrefix}_PORT`);
+    }
+    seen.set(port, agent.id);
+  }
+  return launched;
+}
+
+function ensurePortFree(port: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'EADDRINUSE' ? new Error(`Port ${port} is already in use`) : error);
+    });
+    probe.listen(port, () => probe.close(() => resolve()));
+  });
+}
+
+/**
+ * Environment shared by all agents: their ports, plus the orchestrator's endpoint
+ * and discovery variables pointing at the launched research agents
+ */
+function fleetEnvironment(launched: LaunchedAgent[]): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const { agent, port, url } of launched) {
+    env[`${agent.envPrefix}_PORT`] = String(port);
+    if (agent.urlEnv) {
+      env[agent.urlEnv] = url;
+    }
+  }
+
+  const delegateUrls = launched.filter(({ agent }) => agent.urlEnv).map(({ url }) => url);
+  if (delegateUrls.length > 0) {
+    env.AGENT_REGISTRY_URLS = delegateUrls.join(',');
+  }
+  return env;
+}
+
+function prefixLines(agentId: string, text: string): string {
+  const prefix = prefixes.get(agentId) ?? `[${agentId}] `;
+  return text.split('\n').map(line => `${prefix}${line}`).join('\n');
+}
+
+function log(message: string): void {
+  console.log(prefixLines('fleet', message));
+}
+
+/**
+ * Route console output of in-process agents through their prefix. Async context
+ * follows each agent's server, timers and request handlers.
+ */
+function prefixConsoleOutput(): void {
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      const agentId = logContext.getStore();
+      if (agentId) {
+        original(prefixLines(agentId, format(...args)));
+      } else {
+        original(...args);
+      }
+    };
+  }
+}
+
+function pipeOutput(agentId: string, child: ChildProcess): void {
+  const forward = (stream: NodeJS.ReadableStream | null, target: NodeJS.WriteStream) => {
+    if (stream) {
+      createInterface({ input: stream }).on('line', line => target.write(`${prefixLines(agentId, line)}\n`));
+    }
+  };
+  forward(child.stdout, process.stdout);
+  forward(child.stderr, process.stderr);
+}
+
+function startChild(launched: LaunchedAgent, env: Record<string, string>, onUnexpectedExit: () => void): void {
+  const entry = join(AGENTS_DIR, launched.agent.directory, 'index.ts');
+  // Reuse this process's loader flags (tsx) and keep children out of the terminal's
+  // process group so Ctrl+C reaches them only through the launcher
+  const child = spawn(process.execPath, [...process.execArgv, entry], {
+    env: { ...process.env, ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+    detached: true,
+  });
+  launched.child = child;
+  pipeOutput(launched.agent.id, child);
+
+  child.once('exit', (code, signal) => {
+    if (!shuttingDown) {
+      log(`${launched.agent.id} exited unexpectedly (${signal ?? `code ${code}`})`);
+      onUnexpectedExit();
+    }
+  });
+}
+
+function hasExited(child: ChildProcess): boolean {
+  return child.exitCode !== null || child.signalCode !== null;
+}
+
+async function startInProcess(launched: LaunchedAgent): Promise<void> {
+  const entry = pathToFileURL(join(AGENTS_DIR, launched.agent.directory, 'index.ts')).href;
+  await logContext.run(launched.agent.id, () => import(entry));
+}
+
+/**
+ * Poll the agent's /healthz until it answers or the startup timeout passes
+ */
+async function waitForHealthy(launched: LaunchedAgent): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (launched.child && hasExited(launched.child)) {
+      throw new Error(`${launched.agent.id} exited during startup`);
+    }
+    try {
+      const response = await fetch(`${launched.url}/healthz`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  throw new Error(`${launched.agent.id} did not become healthy at ${launched.url} within ${STARTUP_TIMEOUT_MS}ms`);
+}
+
+/**
+ * Stop child agents in reverse start order, so the orchestrator drains while the
+ * agents it delegates to are still up. Children that ignore SIGTERM are killed.
+ */
+async function stopChildren(launched: LaunchedAgent[]): Promise<void> {
+  const killAfterMs = Number(process.env.A2A_SHUTDOWN_TIMEOUT_MS ?? 30000) + 5000;
+
+  for (const { agent, child } of [...launched].reverse()) {
+    if (!child || hasExited(child)) {
+      continue;
+    }
+    const exited = new Promise(resolve => child.once('exit', resolve));
+    child.kill('SIGTERM');
+    const timer = setTimeout(() => {
+      log(`${agent.id} did not stop within ${killAfterMs}ms, killing it`);
+      child.kill('SIGKILL');
+    }, killAfterMs);
+    await exited;
+    clearTimeout(timer);
+  }
+}
+
+async function main(): Promise<void> {
+  const { agents, inProcess, basePort } = parseArgs(process.argv.slice(2));
+  const launched = assignPorts(agents, basePort);
+  await Promise.all(launched.map(({ port }) => ensurePortFree(port)));
+
+  const width = Math.max(...['fleet', ...agents.map(agent => agent.id)].map(id => id.length));
+  ['fleet', ...agents.map(agent => agent.id)].forEach((id, index) => {
+    prefixes.set(id, `${PREFIX_COLORS[index % PREFIX_COLORS.length]}${id.padEnd(width)} |${RESET} `);
+  });
+
+  const env = fleetEnvironment(launched);
+  log(`Starting ${agents.map(agent => agent.id).join(', ')} ${inProcess ? 'in this process' : 'as child processes'}`);
+
+  const shutdown = async (reason: string, exitCode: number): Promise<void> => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    log(`${reason}: stopping all agents`);
+    await (inProcess ? shutdownAgentServers(reason) : stopChildren(launched));
+    log('All agents stopped');
+    process.exit(exitCode);
+  };
+
+  if (inProcess) {
+    // Agents read their configuration when imported; agent-server handles SIGTERM/SIGINT for all of them
+    Object.assign(process.env, env);
+    prefixConsoleOutput();
+  } else {
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+      process.once(signal, () => {
+        process.once(signal, () => process.exit(1));
+        shutdown(`Received ${signal}`, 0).catch(() => process.exit(1));
+      });
+    }
+    // Detached children would outlive a launcher that exits without shutting down
+    process.once('exit', () => launched.forEach(({ child }) => child?.kill('SIGKILL')));
+  }
+
+  try {
+    for (const agent of launched) {
+      if (inProcess) {
+        await startInProcess(agent);
+      } else {
+        startChild(agent, env, () => void shutdown(`${agent.agent.id} stopped`, 1));
+      }
+      await waitForHealthy(agent);
+    }
+  } catch (error) {
+    log(error instanceof Error ? error.message : String(error));
+    await shutdown('Startup failed', 1);
+    return;
+  }
+
+  log('All agents are up:');
+  for (const { agent, url } of launched) {
+    log(`  ${agent.id.padEnd(width)}  ${url}/.well-known/agent-card.json`);
+  }
+  const entryPoint = launched.find(({ agent }) => agent.id === 'orchestrator') ?? launched[0];
+  log(`Chat with them using: npm run a2a:cli ${entryPoint.url}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Tests run offline: model calls go to the scripted fake model
+    env: { MODEL_PROVIDER: 'fake' },
+  },
+});